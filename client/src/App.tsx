@@ -4,7 +4,10 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider } from "@/hooks/use-auth";
+import { useSlaScheduler } from "@/hooks/use-sla-scheduler";
+import { useSyncEngine } from "@/hooks/use-sync";
 import { ProtectedRoute } from "@/lib/protected-route";
+import { SETTINGS_CAPABILITIES } from "@/lib/permissions";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { BottomNav } from "@/components/bottom-nav";
@@ -56,8 +59,8 @@ function Router() {
       <ProtectedRoute path="/org-chart" component={() => <OrgChartPage />} />
       <ProtectedRoute path="/invoice-upload" component={() => <InvoiceUploadPage />} />
       <ProtectedRoute path="/profile" component={() => <ProfilePage />} />
-             <ProtectedRoute path="/admin-settings" component={() => <AdminSettingsPage />} />
-             <ProtectedRoute path="/admin" component={() => <AdminSettingsPage />} />
+             <ProtectedRoute path="/admin-settings" capability={SETTINGS_CAPABILITIES} component={() => <AdminSettingsPage />} />
+             <ProtectedRoute path="/admin" capability={SETTINGS_CAPABILITIES} component={() => <AdminSettingsPage />} />
              <ProtectedRoute path="/email-demo" component={() => <EmailDemoPage />} />
              <Route path="/debug" component={() => <DebugAuth />} />
              <Route path="/test-db" component={() => <DatabaseTest />} />
@@ -69,6 +72,8 @@ function Router() {
 
 function AppLayout() {
   const [location] = useLocation();
+  useSlaScheduler();
+  useSyncEngine();
   
   const isPublicRoute = 
     ['/', '/auth', '/login', '/join', '/create-org', '/verify-email', '/reset-password', '/forgot-password'].includes(location) || 
@@ -31,36 +31,18 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { User as UserType, OrgChartNode } from '@/lib/database';
-import { apiRequest, queryClient } from '@/lib/queryClient';
+import { apiRequest, queryClient, readJson } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
+import { useOrgHierarchy } from '@/hooks/use-org-hierarchy';
+import { useHierarchyLevels, levelCardStyle } from '@/hooks/use-hierarchy-levels';
+import { buildTree, getSpanOfControl } from '@/lib/hierarchy';
+import type { HierarchyTreeNode } from '@/lib/hierarchy';
 
 interface AdminOrgChartManagerProps {
   className?: string;
 }
 
-const LEVEL_COLORS = {
-  0: 'bg-blue-100 border-blue-300 text-blue-900',
-  1: 'bg-blue-100 border-blue-300 text-blue-900',
-  2: 'bg-green-100 border-green-300 text-green-900',
-  3: 'bg-gray-100 border-gray-300 text-gray-900',
-  4: 'bg-orange-100 border-orange-300 text-orange-900',
-  5: 'bg-purple-100 border-purple-300 text-purple-900',
-};
-
-const LEVEL_NAMES = {
-  0: 'CEO',
-  1: 'L1',
-  2: 'L2', 
-  3: 'L3',
-  4: 'L4',
-  5: 'L5',
-};
-
-interface HierarchyNode extends OrgChartNode {
-  children: HierarchyNode[];
-}
-
 export default function AdminOrgChartManager({ className }: AdminOrgChartManagerProps) {
   const { user: currentUser } = useAuth();
   const { toast } = useToast();
@@ -71,9 +53,8 @@ export default function AdminOrgChartManager({ className }: AdminOrgChartManager
   const [searchQuery, setSearchQuery] = useState('');
 
   // Fetch org chart nodes
-  const { data: nodes, isLoading: isLoadingNodes } = useQuery<OrgChartNode[]>({
-    queryKey: ["/api/org-chart"],
-  });
+  const { nodes, hierarchy, isLoading: isLoadingNodes } = useOrgHierarchy();
+  const { levelOf } = useHierarchyLevels();
 
   // Fetch all users in organization
   const { data: allUsers, isLoading: isLoadingUsers } = useQuery<UserType[]>({
@@ -82,7 +63,7 @@ export default function AdminOrgChartManager({ className }: AdminOrgChartManager
 
   // Filter available members (users not already in org chart)
   useEffect(() => {
-    if (allUsers && nodes) {
+    if (allUsers) {
       const nodeUserIds = nodes.map(node => node.userId).filter(Boolean);
       const available = allUsers.filter(user => !nodeUserIds.includes(user.id));
       setAvailableMembers(available);
@@ -96,33 +77,6 @@ export default function AdminOrgChartManager({ className }: AdminOrgChartManager
     member.department?.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  // Build hierarchy tree
-  const buildHierarchy = (): HierarchyNode[] => {
-    if (!nodes) return [];
-
-    // Create a map for quick lookup
-    const nodeMap = new Map<string, HierarchyNode>();
-    
-    // Initialize all nodes with children array
-    nodes.forEach(node => {
-      nodeMap.set(node.id, { ...node, children: [] });
-    });
-
-    // Build parent-child relationships
-    const rootNodes: HierarchyNode[] = [];
-    
-    nodes.forEach(node => {
-      const nodeWithChildren = nodeMap.get(node.id)!;
-      if (node.parentId && nodeMap.has(node.parentId)) {
-        nodeMap.get(node.parentId)!.children.push(nodeWithChildren);
-      } else {
-        rootNodes.push(nodeWithChildren);
-      }
-    });
-
-    return rootNodes;
-  };
-
   // Toggle node expansion
   const toggleNode = (nodeId: string) => {
     setExpandedNodes(prev => {
@@ -160,8 +114,8 @@ export default function AdminOrgChartManager({ className }: AdminOrgChartManager
         updatedAt: new Date()
       };
 
-      const res = await apiRequest("POST", "/api/org-chart", nodeData);
-      return await res.json();
+      const res = await apiRequest("POST", "/api/org-chart/nodes", nodeData);
+      return await readJson(res);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/org-chart"] });
@@ -223,22 +177,24 @@ export default function AdminOrgChartManager({ className }: AdminOrgChartManager
   };
 
   // Render node
-  const renderNode = (node: HierarchyNode, depth: number = 0) => {
+  const renderNode = (node: HierarchyTreeNode, depth: number = 0) => {
     const hasChildren = node.children.length > 0;
+    const span = getSpanOfControl(hierarchy, node.id);
     const isExpanded = expandedNodes.has(node.id);
-    const levelColor = LEVEL_COLORS[node.level as keyof typeof LEVEL_COLORS] || 'bg-gray-100 border-gray-300 text-gray-900';
-    const levelName = LEVEL_NAMES[node.level as keyof typeof LEVEL_NAMES] || `L${node.level}`;
+    const level = levelOf(node);
 
     // Find user data
     const user = allUsers?.find(u => u.id === node.userId);
 
     return (
       <div key={node.id} className="relative">
-        <div className={cn(
-          "flex items-center space-x-3 p-3 rounded-lg border-2 transition-all duration-200 hover:shadow-md",
-          levelColor,
-          depth > 0 && "ml-8"
-        )}>
+        <div
+          className={cn(
+            "flex items-center space-x-3 p-3 rounded-lg border-2 transition-all duration-200 hover:shadow-md",
+            depth > 0 && "ml-8"
+          )}
+          style={levelCardStyle(level)}
+        >
           {/* Profile Picture */}
           <div className="flex-shrink-0">
             <div className="w-12 h-12 rounded-full bg-white border-2 border-current flex items-center justify-center">
@@ -253,13 +209,18 @@ export default function AdminOrgChartManager({ className }: AdminOrgChartManager
             <div className="flex items-center space-x-2">
               <h3 className="font-semibold text-sm truncate">{node.name}</h3>
               <Badge variant="outline" className="text-xs">
-                {levelName}
+                {level.name}
               </Badge>
               {user && (
                 <Badge variant="secondary" className="text-xs">
                   {user.role}
                 </Badge>
               )}
+              {span.direct > 0 && (
+                <Badge variant="outline" className="text-xs" data-testid={`badge-span-${node.id}`}>
+                  {span.direct} direct · {span.total} total
+                </Badge>
+              )}
             </div>
             <p className="text-xs text-gray-600 truncate">{node.email || user?.email}</p>
             <p className="text-xs text-gray-600 truncate">{node.role}</p>
@@ -410,7 +371,7 @@ export default function AdminOrgChartManager({ className }: AdminOrgChartManager
     );
   }
 
-  const hierarchy = buildHierarchy();
+  const tree = buildTree(hierarchy);
 
   return (
     <div className={cn("space-y-4", className)}>
@@ -426,7 +387,7 @@ export default function AdminOrgChartManager({ className }: AdminOrgChartManager
           <div className="flex items-center space-x-2">
             <Badge variant="outline" className="flex items-center space-x-1">
               <Users className="h-3 w-3" />
-              <span>{nodes?.length || 0} in chart</span>
+              <span>{nodes.length} in chart</span>
             </Badge>
             <Badge variant="outline" className="flex items-center space-x-1">
               <User className="h-3 w-3" />
@@ -437,7 +398,7 @@ export default function AdminOrgChartManager({ className }: AdminOrgChartManager
         <CardContent>
           <div className="text-sm text-gray-600 space-y-1">
             <p>• Click the <Plus className="inline h-3 w-3" /> button to add existing members under any node</p>
-            <p>• Members will be assigned to the next level (L{Math.max(...(nodes?.map(n => n.level) || [0])) + 1})</p>
+            <p>• Members will be assigned to the next level (L{Math.max(...(nodes.length > 0 ? nodes.map(n => n.level) : [0])) + 1})</p>
             <p>• Use the <Trash2 className="inline h-3 w-3" /> button to remove members from the chart</p>
             <p>• Only members who haven't been added to the chart yet are available for selection</p>
           </div>
@@ -447,7 +408,7 @@ export default function AdminOrgChartManager({ className }: AdminOrgChartManager
       {/* Hierarchy Tree */}
       <Card>
         <CardContent className="p-6">
-          {hierarchy.length === 0 ? (
+          {tree.length === 0 ? (
             <div className="text-center py-12">
               <Building2 className="h-12 w-12 mx-auto text-gray-400 mb-4" />
               <h3 className="text-lg font-semibold mb-2">No Organization Chart</h3>
@@ -457,7 +418,7 @@ export default function AdminOrgChartManager({ className }: AdminOrgChartManager
             </div>
           ) : (
             <div className="space-y-2">
-              {hierarchy.map(node => renderNode(node))}
+              {tree.map(node => renderNode(node))}
             </div>
           )}
         </CardContent>
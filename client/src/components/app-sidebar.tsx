@@ -12,8 +12,11 @@ import {
   SidebarFooter,
 } from "@/components/ui/sidebar";
 import { useAuth } from "@/hooks/use-auth";
+import { canAny, SETTINGS_CAPABILITIES } from "@/lib/permissions";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import SyncStatus from "@/components/sync-status";
+import OrgSwitcher from "@/components/org-switcher";
 
 export function AppSidebar() {
   const [location] = useLocation();
@@ -28,7 +31,7 @@ export function AppSidebar() {
     { title: "Profile", url: "/profile", icon: User },
   ];
 
-  const adminItems = user?.role === "Admin" ? [
+  const adminItems = canAny(user, SETTINGS_CAPABILITIES) ? [
     { title: "Admin Settings", url: "/admin", icon: Settings },
   ] : [];
 
@@ -54,6 +57,11 @@ export function AppSidebar() {
               <h2 className="text-lg font-bold text-sidebar-foreground">RapidFunds</h2>
             </div>
           </div>
+          <SidebarMenu>
+            <SidebarMenuItem>
+              <OrgSwitcher />
+            </SidebarMenuItem>
+          </SidebarMenu>
         </SidebarGroup>
 
         {adminItems.length > 0 && (
@@ -79,6 +87,9 @@ export function AppSidebar() {
 
       <SidebarFooter>
         <SidebarMenu>
+          <SidebarMenuItem>
+            <SyncStatus />
+          </SidebarMenuItem>
           <SidebarMenuItem>
             <div className="flex items-center gap-3 px-3 py-2">
               <Avatar className="h-8 w-8">
@@ -0,0 +1,454 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X, Trash2, FlaskConical, Scale, CheckCircle, AlertCircle } from "lucide-react";
+import { nanoid } from "nanoid";
+import { User } from "@/lib/database";
+import {
+  evaluateApprovalRules,
+  describeCondition,
+  describeAction,
+} from "@shared/approvalRules";
+import type { ApprovalRule, RuleAction, RuleCondition, RuleSubject } from "@shared/approvalRules";
+
+interface ApprovalRuleEditorProps {
+  rules: ApprovalRule[];
+  approvers: User[];
+  isSaving?: boolean;
+  onChange: (rules: ApprovalRule[]) => void;
+}
+
+const ROLES = ["Admin", "Approver", "Finance", "Member", "Requester"];
+
+const CONDITION_LABELS: Record<RuleCondition["type"], string> = {
+  amount: "Amount range",
+  category: "Category",
+  department: "Department",
+  customField: "Custom field",
+  requesterRole: "Requester role",
+};
+
+const ACTION_LABELS: Record<RuleAction["type"], string> = {
+  requireExtraApprover: "Require extra approver",
+  requireFinanceSignoff: "Require Finance sign-off",
+  autoApprove: "Auto-approve under limit",
+  block: "Block submission",
+};
+
+const splitList = (value: string) => value.split(",").map((v) => v.trim()).filter(Boolean);
+
+function newCondition(type: RuleCondition["type"]): RuleCondition {
+  switch (type) {
+    case "amount":
+      return { type, min: undefined, max: undefined };
+    case "category":
+    case "department":
+      return { type, values: [] };
+    case "customField":
+      return { type, field: "", operator: "equals", value: "" };
+    case "requesterRole":
+      return { type, roles: [] };
+  }
+}
+
+function newAction(type: RuleAction["type"]): RuleAction {
+  switch (type) {
+    case "requireExtraApprover":
+      return { type, approverId: "", approverName: "" };
+    case "requireFinanceSignoff":
+      return { type };
+    case "autoApprove":
+      return { type, maxAmount: 0 };
+    case "block":
+      return { type, message: "" };
+  }
+}
+
+export default function ApprovalRuleEditor({ rules, approvers, isSaving, onChange }: ApprovalRuleEditorProps) {
+  const [ruleName, setRuleName] = useState("");
+  const [conditions, setConditions] = useState<RuleCondition[]>([]);
+  const [actions, setActions] = useState<RuleAction[]>([]);
+  const [sample, setSample] = useState<RuleSubject>({ amount: 0 });
+  const [sampleFieldName, setSampleFieldName] = useState("");
+  const [sampleFieldValue, setSampleFieldValue] = useState("");
+
+  const draftRule = useMemo<ApprovalRule>(
+    () => ({ id: "draft", name: ruleName || "Draft rule", enabled: true, conditions, actions }),
+    [ruleName, conditions, actions]
+  );
+
+  // Run the draft rule against the sample request as the admin edits either
+  const preview = useMemo(() => {
+    const subject: RuleSubject = {
+      ...sample,
+      customFields: sampleFieldName ? { [sampleFieldName]: sampleFieldValue } : {},
+    };
+    return evaluateApprovalRules([draftRule], subject);
+  }, [sample, sampleFieldName, sampleFieldValue, draftRule]);
+
+  const updateCondition = (index: number, condition: RuleCondition) =>
+    setConditions(conditions.map((c, i) => (i === index ? condition : c)));
+
+  const updateAction = (index: number, action: RuleAction) =>
+    setActions(actions.map((a, i) => (i === index ? action : a)));
+
+  const handleSaveRule = () => {
+    onChange([...rules, { ...draftRule, id: nanoid(), name: ruleName.trim() }]);
+    setRuleName("");
+    setConditions([]);
+    setActions([]);
+  };
+
+  const handleToggleRule = (id: string, enabled: boolean) =>
+    onChange(rules.map((r) => (r.id === id ? { ...r, enabled } : r)));
+
+  const handleDeleteRule = (id: string) => {
+    if (confirm("Are you sure you want to delete this rule?")) {
+      onChange(rules.filter((r) => r.id !== id));
+    }
+  };
+
+  const renderConditionFields = (condition: RuleCondition, index: number) => {
+    switch (condition.type) {
+      case "amount":
+        return (
+          <div className="grid grid-cols-2 gap-2 flex-1">
+            <Input
+              type="number"
+              placeholder="Min amount"
+              value={condition.min ?? ""}
+              onChange={(e) => updateCondition(index, { ...condition, min: e.target.value ? parseFloat(e.target.value) : undefined })}
+              data-testid={`input-condition-min-${index}`}
+            />
+            <Input
+              type="number"
+              placeholder="Max amount"
+              value={condition.max ?? ""}
+              onChange={(e) => updateCondition(index, { ...condition, max: e.target.value ? parseFloat(e.target.value) : undefined })}
+              data-testid={`input-condition-max-${index}`}
+            />
+          </div>
+        );
+      case "category":
+      case "department":
+        return (
+          <Input
+            className="flex-1"
+            placeholder={condition.type === "category" ? "e.g., Travel, Software" : "e.g., IT, Finance"}
+            value={condition.values.join(", ")}
+            onChange={(e) => updateCondition(index, { ...condition, values: splitList(e.target.value) })}
+            data-testid={`input-condition-values-${index}`}
+          />
+        );
+      case "requesterRole":
+        return (
+          <Input
+            className="flex-1"
+            placeholder={ROLES.join(", ")}
+            value={condition.roles.join(", ")}
+            onChange={(e) => updateCondition(index, { ...condition, roles: splitList(e.target.value) })}
+            data-testid={`input-condition-roles-${index}`}
+          />
+        );
+      case "customField":
+        return (
+          <div className="grid grid-cols-3 gap-2 flex-1">
+            <Input
+              placeholder="Field name"
+              value={condition.field}
+              onChange={(e) => updateCondition(index, { ...condition, field: e.target.value })}
+            />
+            <Select
+              value={condition.operator}
+              onValueChange={(operator) => updateCondition(index, { ...condition, operator: operator as typeof condition.operator })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="equals">equals</SelectItem>
+                <SelectItem value="notEquals">does not equal</SelectItem>
+                <SelectItem value="contains">contains</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Value"
+              value={condition.value}
+              onChange={(e) => updateCondition(index, { ...condition, value: e.target.value })}
+            />
+          </div>
+        );
+    }
+  };
+
+  const renderActionFields = (action: RuleAction, index: number) => {
+    switch (action.type) {
+      case "requireExtraApprover":
+        return (
+          <Select
+            value={action.approverId}
+            onValueChange={(approverId) => {
+              const approver = approvers.find((a) => a.id === approverId);
+              updateAction(index, { ...action, approverId, approverName: approver?.fullName || "" });
+            }}
+          >
+            <SelectTrigger className="flex-1" data-testid={`select-action-approver-${index}`}>
+              <SelectValue placeholder="Select approver" />
+            </SelectTrigger>
+            <SelectContent>
+              {approvers.map((approver) => (
+                <SelectItem key={approver.id} value={approver.id}>
+                  {approver.fullName} ({approver.role})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "autoApprove":
+        return (
+          <Input
+            className="flex-1"
+            type="number"
+            placeholder="Auto-approve up to"
+            value={action.maxAmount || ""}
+            onChange={(e) => updateAction(index, { ...action, maxAmount: parseFloat(e.target.value) || 0 })}
+            data-testid={`input-action-max-${index}`}
+          />
+        );
+      case "block":
+        return (
+          <Input
+            className="flex-1"
+            placeholder="Message shown to the requester"
+            value={action.message || ""}
+            onChange={(e) => updateAction(index, { ...action, message: e.target.value })}
+            data-testid={`input-action-message-${index}`}
+          />
+        );
+      case "requireFinanceSignoff":
+        return <span className="flex-1 text-sm text-muted-foreground">Adds a Finance approval level after the chain</span>;
+    }
+  };
+
+  const isDraftValid =
+    ruleName.trim().length > 0 &&
+    actions.length > 0 &&
+    actions.every((a) => a.type !== "requireExtraApprover" || !!a.approverId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Approval Rules
+        </CardTitle>
+        <CardDescription>
+          Rules run when a request is submitted. All conditions of a rule must match for its actions to apply.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <h4 className="font-medium">Create New Rule</h4>
+          <div>
+            <Label htmlFor="rule-name">Rule Name *</Label>
+            <Input
+              id="rule-name"
+              data-testid="input-rule-name"
+              placeholder="e.g., Large travel requests need CFO"
+              value={ruleName}
+              onChange={(e) => setRuleName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Conditions</Label>
+              <Select value="" onValueChange={(type) => setConditions([...conditions, newCondition(type as RuleCondition["type"])])}>
+                <SelectTrigger className="w-48" data-testid="select-add-condition">
+                  <SelectValue placeholder="Add condition" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CONDITION_LABELS).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {conditions.length === 0 && (
+              <p className="text-xs text-muted-foreground">No conditions - the rule applies to every request.</p>
+            )}
+            {conditions.map((condition, index) => (
+              <div key={index} className="flex items-center gap-3 p-3 border border-border rounded-md" data-testid={`rule-condition-${index}`}>
+                <span className="text-sm font-medium min-w-28">{CONDITION_LABELS[condition.type]}</span>
+                {renderConditionFields(condition, index)}
+                <Button type="button" variant="ghost" size="sm" onClick={() => setConditions(conditions.filter((_, i) => i !== index))}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Actions *</Label>
+              <Select value="" onValueChange={(type) => setActions([...actions, newAction(type as RuleAction["type"])])}>
+                <SelectTrigger className="w-48" data-testid="select-add-action">
+                  <SelectValue placeholder="Add action" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ACTION_LABELS).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {actions.map((action, index) => (
+              <div key={index} className="flex items-center gap-3 p-3 border border-border rounded-md" data-testid={`rule-action-${index}`}>
+                <span className="text-sm font-medium min-w-28">{ACTION_LABELS[action.type]}</span>
+                {renderActionFields(action, index)}
+                <Button type="button" variant="ghost" size="sm" onClick={() => setActions(actions.filter((_, i) => i !== index))}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {/* Test the draft rule against a sample request */}
+          <div className="p-4 bg-muted rounded-lg space-y-3" data-testid="rule-test-panel">
+            <h5 className="text-sm font-medium flex items-center gap-2">
+              <FlaskConical className="h-4 w-4" />
+              Test this rule against a sample request
+            </h5>
+            <div className="grid gap-2 md:grid-cols-3">
+              <Input
+                type="number"
+                placeholder="Amount"
+                value={sample.amount || ""}
+                onChange={(e) => setSample({ ...sample, amount: parseFloat(e.target.value) || 0 })}
+                data-testid="input-sample-amount"
+              />
+              <Input
+                placeholder="Category"
+                value={sample.category || ""}
+                onChange={(e) => setSample({ ...sample, category: e.target.value })}
+                data-testid="input-sample-category"
+              />
+              <Input
+                placeholder="Department"
+                value={sample.department || ""}
+                onChange={(e) => setSample({ ...sample, department: e.target.value })}
+                data-testid="input-sample-department"
+              />
+              <Select value={sample.requesterRole || ""} onValueChange={(requesterRole) => setSample({ ...sample, requesterRole })}>
+                <SelectTrigger data-testid="select-sample-role">
+                  <SelectValue placeholder="Requester role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map((role) => (
+                    <SelectItem key={role} value={role}>{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Custom field name"
+                value={sampleFieldName}
+                onChange={(e) => setSampleFieldName(e.target.value)}
+              />
+              <Input
+                placeholder="Custom field value"
+                value={sampleFieldValue}
+                onChange={(e) => setSampleFieldValue(e.target.value)}
+              />
+            </div>
+            {preview.matchedRules.length > 0 ? (
+              <div className="space-y-1 text-sm" data-testid="rule-test-result">
+                <p className="flex items-center gap-2 font-medium text-success">
+                  <CheckCircle className="h-4 w-4" />
+                  Rule matches this request
+                </p>
+                {preview.blocked && <p className="text-destructive">Submission blocked: {preview.blockReasons.join("; ")}</p>}
+                {preview.autoApprove && <p>Request would be auto-approved</p>}
+                {preview.extraApprovers.map((a) => (
+                  <p key={a.approverId}>Extra approval level: {a.approverName}</p>
+                ))}
+                {preview.requiresFinanceSignoff && <p>Finance sign-off level added</p>}
+                {!preview.blocked && !preview.autoApprove && preview.extraApprovers.length === 0 && !preview.requiresFinanceSignoff && (
+                  <p className="text-muted-foreground">No effect on the request with the current actions</p>
+                )}
+              </div>
+            ) : (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="rule-test-result">
+                <AlertCircle className="h-4 w-4" />
+                Rule does not match this request
+              </p>
+            )}
+          </div>
+
+          <Button
+            onClick={handleSaveRule}
+            disabled={!isDraftValid || isSaving}
+            data-testid="button-create-rule"
+            className="w-full"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+
+        <div className="border-t border-border pt-6">
+          <h4 className="font-medium mb-4">Existing Rules</h4>
+          {rules.length > 0 ? (
+            <div className="space-y-3">
+              {rules.map((rule) => (
+                <div key={rule.id} className="p-4 border border-border rounded-md space-y-2" data-testid={`rule-${rule.id}`}>
+                  <div className="flex items-start justify-between">
+                    <div className="flex items-center gap-2">
+                      <h5 className="font-medium">{rule.name}</h5>
+                      {!rule.enabled && <Badge variant="secondary">Disabled</Badge>}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={rule.enabled}
+                        onCheckedChange={(enabled) => handleToggleRule(rule.id, enabled)}
+                        disabled={isSaving}
+                        data-testid={`switch-rule-${rule.id}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteRule(rule.id)}
+                        disabled={isSaving}
+                        data-testid={`button-delete-rule-${rule.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="text-sm text-muted-foreground space-y-1">
+                    <p>
+                      <span className="font-medium text-foreground">When: </span>
+                      {rule.conditions.length > 0 ? rule.conditions.map(describeCondition).join(" and ") : "Any request"}
+                    </p>
+                    <p>
+                      <span className="font-medium text-foreground">Then: </span>
+                      {rule.actions.map(describeAction).join(", ")}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground py-4">
+              No approval rules configured yet. Rules let you auto-approve small requests, block others, or add approval levels.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Download, Eye, File, FileImage, FileText, Loader2 } from "lucide-react";
+import { useAttachmentUrl } from "@/hooks/use-attachment-url";
+import { formatFileSize, getPreviewKind } from "@/lib/attachments";
+import type { PreviewKind } from "@/lib/attachments";
+import { AttachmentRef } from "@/lib/database";
+
+// Larger text files are cut off in the preview; download them to read in full
+const MAX_TEXT_PREVIEW = 100_000;
+
+const KIND_ICONS: Record<PreviewKind, typeof File> = {
+  image: FileImage,
+  pdf: FileText,
+  text: FileText,
+  none: File,
+};
+
+interface AttachmentPreviewProps {
+  attachments: AttachmentRef[];
+  className?: string;
+}
+
+function TextPreview({ url }: { url: string }) {
+  const { data: text, isLoading } = useQuery<string>({
+    queryKey: ["/api/files", url, "text"],
+    queryFn: async () => (await fetch(url)).text(),
+    staleTime: Infinity,
+  });
+
+  if (isLoading) return <Loader2 className="h-6 w-6 animate-spin mx-auto" />;
+  return (
+    <pre className="max-h-[70vh] overflow-auto whitespace-pre-wrap rounded-md bg-muted p-4 text-xs">
+      {(text || "").slice(0, MAX_TEXT_PREVIEW)}
+      {(text || "").length > MAX_TEXT_PREVIEW && "\n…"}
+    </pre>
+  );
+}
+
+function PreviewDialog({ attachment, onClose }: { attachment: AttachmentRef; onClose: () => void }) {
+  const kind = getPreviewKind(attachment);
+  const { data: objectUrl, isLoading, error } = useAttachmentUrl(attachment.url);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{attachment.name}</DialogTitle>
+          <DialogDescription>{formatFileSize(attachment.size)}</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+        ) : error || !objectUrl ? (
+          <p className="text-sm text-destructive">{(error as Error)?.message || "File not found"}</p>
+        ) : kind === "image" ? (
+          <img src={objectUrl} alt={attachment.name} className="max-h-[70vh] mx-auto rounded-md" />
+        ) : kind === "pdf" ? (
+          <iframe src={objectUrl} title={attachment.name} className="w-full h-[70vh] rounded-md border border-border" />
+        ) : kind === "text" ? (
+          <TextPreview url={objectUrl} />
+        ) : (
+          <p className="text-sm text-muted-foreground">No preview is available for this file type.</p>
+        )}
+        {objectUrl && (
+          <Button asChild variant="outline" className="w-fit" data-testid="button-download-attachment">
+            <a href={objectUrl} download={attachment.name}>
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </a>
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Lists a request's or message's attachments with an in-app preview for images, PDFs and text
+export default function AttachmentPreview({ attachments, className }: AttachmentPreviewProps) {
+  const [previewing, setPreviewing] = useState<AttachmentRef | null>(null);
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <div className="flex flex-wrap gap-2">
+        {attachments.map((attachment) => {
+          const Icon = KIND_ICONS[getPreviewKind(attachment)];
+          return (
+            <Button
+              key={attachment.url}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="max-w-full"
+              onClick={() => setPreviewing(attachment)}
+              data-testid={`button-preview-attachment-${attachment.id || attachment.name}`}
+            >
+              <Icon className="h-4 w-4 mr-2 shrink-0" />
+              <span className="truncate">{attachment.name}</span>
+              <span className="ml-2 text-xs text-muted-foreground shrink-0">{formatFileSize(attachment.size)}</span>
+              <Eye className="h-3 w-3 ml-2 shrink-0" />
+            </Button>
+          );
+        })}
+      </div>
+      {previewing && <PreviewDialog attachment={previewing} onClose={() => setPreviewing(null)} />}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { LayoutDashboard, FileText, ClipboardList, Network, Settings } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import { canAny, SETTINGS_CAPABILITIES } from "@/lib/permissions";
 
 export function BottomNav() {
   const [location] = useLocation();
@@ -14,7 +15,7 @@ export function BottomNav() {
     { title: "Org Chart", url: "/org-chart", icon: Network },
   ];
 
-  const adminItems = user?.role === "Admin" ? [
+  const adminItems = canAny(user, SETTINGS_CAPABILITIES) ? [
     { title: "Admin", url: "/admin", icon: Settings },
   ] : [];
 
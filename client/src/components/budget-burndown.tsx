@@ -0,0 +1,95 @@
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { TrendingDown } from "lucide-react";
+import { format } from "date-fns";
+import { FundingRequest } from "@/lib/database";
+import { buildBurnDown, BUDGET_WARNING_THRESHOLD } from "@/lib/budgets";
+import type { BudgetWithConsumption } from "@/lib/budgets";
+
+const chartConfig = {
+  remaining: {
+    label: "Remaining",
+    color: "hsl(var(--primary))",
+  },
+  ideal: {
+    label: "Ideal pace",
+    color: "hsl(var(--muted-foreground))",
+  },
+} satisfies ChartConfig;
+
+interface BudgetBurndownProps {
+  className?: string;
+}
+
+// Burn-down charts for the budgets whose period covers today
+export default function BudgetBurndown({ className }: BudgetBurndownProps) {
+  const { data: budgets = [] } = useQuery<BudgetWithConsumption[]>({
+    queryKey: ["/api/budgets"],
+  });
+
+  const { data: requests = [] } = useQuery<FundingRequest[]>({
+    queryKey: ["/api/requests"],
+  });
+
+  const now = new Date();
+  const activeBudgets = budgets.filter(
+    (b) => new Date(b.periodStart) <= now && now <= new Date(b.periodEnd)
+  );
+
+  if (activeBudgets.length === 0) return null;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingDown className="h-5 w-5" />
+          Budget Burn-down
+        </CardTitle>
+        <CardDescription>Remaining budget against an even spend over the period</CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        {activeBudgets.map((budget) => {
+          const { consumption } = budget;
+          const points = buildBurnDown(budget, requests, now);
+          return (
+            <div key={budget.id} className="space-y-2" data-testid={`burndown-${budget.id}`}>
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">{budget.name}</span>
+                {consumption.remaining < 0 ? (
+                  <Badge variant="destructive">Over budget</Badge>
+                ) : consumption.utilization >= BUDGET_WARNING_THRESHOLD ? (
+                  <Badge className="bg-pending text-pending-foreground">{Math.round(consumption.utilization * 100)}% used</Badge>
+                ) : (
+                  <Badge variant="secondary">{Math.round(consumption.utilization * 100)}% used</Badge>
+                )}
+              </div>
+              <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+                <LineChart data={points} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(value) => format(new Date(value), "MMM d")}
+                  />
+                  <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={(value) => `₹${Number(value).toLocaleString()}`} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="remaining" type="stepAfter" stroke="var(--color-remaining)" strokeWidth={2} dot={false} />
+                  <Line dataKey="ideal" type="linear" stroke="var(--color-ideal)" strokeDasharray="4 4" dot={false} />
+                </LineChart>
+              </ChartContainer>
+              <p className="text-xs text-muted-foreground">
+                ₹{consumption.remaining.toLocaleString()} of ₹{consumption.allocated.toLocaleString()} left · ₹
+                {consumption.pending.toLocaleString()} pending
+              </p>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
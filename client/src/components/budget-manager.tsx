@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Plus, Trash2, Wallet } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { BUDGET_WARNING_THRESHOLD } from "@/lib/budgets";
+import type { BudgetWithConsumption } from "@/lib/budgets";
+
+export default function BudgetManager() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [department, setDepartment] = useState("");
+  const [costCenter, setCostCenter] = useState("");
+  const [periodStart, setPeriodStart] = useState("");
+  const [periodEnd, setPeriodEnd] = useState("");
+  const [allocatedAmount, setAllocatedAmount] = useState("");
+
+  const { data: budgets = [] } = useQuery<BudgetWithConsumption[]>({
+    queryKey: ["/api/budgets"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createBudgetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/budgets", {
+        name,
+        department,
+        costCenter,
+        periodStart: new Date(periodStart),
+        periodEnd: new Date(`${periodEnd}T23:59:59`),
+        allocatedAmount: parseFloat(allocatedAmount),
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+      toast({
+        title: "Budget created",
+        description: `${name} is now tracking spend`,
+      });
+      setName("");
+      setDepartment("");
+      setCostCenter("");
+      setPeriodStart("");
+      setPeriodEnd("");
+      setAllocatedAmount("");
+    },
+    onError,
+  });
+
+  const deleteBudgetMutation = useMutation({
+    mutationFn: async (budgetId: string) => {
+      await apiRequest("DELETE", `/api/budgets/${budgetId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+      toast({ title: "Budget deleted" });
+    },
+    onError,
+  });
+
+  const handleDelete = (budgetId: string) => {
+    if (confirm("Are you sure you want to delete this budget?")) {
+      deleteBudgetMutation.mutate(budgetId);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Budgets
+        </CardTitle>
+        <CardDescription>
+          Allocate spend per department and cost center. Approved and pending requests draw budgets down.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="budget-name">Name *</Label>
+            <Input
+              id="budget-name"
+              placeholder="e.g., IT Q3 Budget"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-budget-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="budget-department">Department</Label>
+            <Input
+              id="budget-department"
+              placeholder="All departments"
+              value={department}
+              onChange={(e) => setDepartment(e.target.value)}
+              data-testid="input-budget-department"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="budget-cost-center">Cost Center</Label>
+            <Input
+              id="budget-cost-center"
+              placeholder="All cost centers"
+              value={costCenter}
+              onChange={(e) => setCostCenter(e.target.value)}
+              data-testid="input-budget-cost-center"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="budget-start">Period Start *</Label>
+            <Input
+              id="budget-start"
+              type="date"
+              value={periodStart}
+              onChange={(e) => setPeriodStart(e.target.value)}
+              data-testid="input-budget-start"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="budget-end">Period End *</Label>
+            <Input
+              id="budget-end"
+              type="date"
+              value={periodEnd}
+              onChange={(e) => setPeriodEnd(e.target.value)}
+              data-testid="input-budget-end"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="budget-amount">Allocated Amount (₹) *</Label>
+            <Input
+              id="budget-amount"
+              type="number"
+              placeholder="500000"
+              value={allocatedAmount}
+              onChange={(e) => setAllocatedAmount(e.target.value)}
+              data-testid="input-budget-amount"
+            />
+          </div>
+        </div>
+        <Button
+          onClick={() => createBudgetMutation.mutate()}
+          disabled={!name.trim() || !periodStart || !periodEnd || !allocatedAmount || createBudgetMutation.isPending}
+          data-testid="button-create-budget"
+          className="w-full"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          {createBudgetMutation.isPending ? "Creating..." : "Create Budget"}
+        </Button>
+
+        <div className="border-t border-border pt-6">
+          <h4 className="font-medium mb-4">Existing Budgets</h4>
+          {budgets.length > 0 ? (
+            <div className="space-y-3">
+              {budgets.map((budget) => {
+                const { consumption } = budget;
+                return (
+                  <div key={budget.id} className="p-4 border border-border rounded-md space-y-2" data-testid={`budget-${budget.id}`}>
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <h5 className="font-medium">{budget.name}</h5>
+                        <div className="flex flex-wrap gap-2 mt-1">
+                          <Badge variant="outline">{budget.department || "All departments"}</Badge>
+                          {budget.costCenter && <Badge variant="outline">CC: {budget.costCenter}</Badge>}
+                          <Badge variant="outline">
+                            {format(new Date(budget.periodStart), "MMM d, yyyy")} – {format(new Date(budget.periodEnd), "MMM d, yyyy")}
+                          </Badge>
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(budget.id)}
+                        disabled={deleteBudgetMutation.isPending}
+                        data-testid={`button-delete-budget-${budget.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <Progress value={Math.min(100, consumption.utilization * 100)} />
+                    <div className="flex flex-wrap justify-between text-xs text-muted-foreground">
+                      <span>₹{consumption.approved.toLocaleString()} approved · ₹{consumption.pending.toLocaleString()} pending</span>
+                      <span className={consumption.remaining < 0 ? "text-destructive font-medium" : consumption.utilization >= BUDGET_WARNING_THRESHOLD ? "text-pending font-medium" : ""}>
+                        ₹{consumption.remaining.toLocaleString()} of ₹{consumption.allocated.toLocaleString()} remaining
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground py-4">No budgets configured yet.</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,7 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useStepUp } from '@/hooks/use-step-up';
+import { apiRequest, queryClient, readJson } from '@/lib/queryClient';
 import { aiSummarizer, AISummary } from '@/lib/aiSummarizer';
 import { FundingRequest, User } from '@/lib/database';
 import { 
@@ -38,6 +39,7 @@ interface DigestRequest {
 
 export const DailyDigest: React.FC<DailyDigestProps> = ({ approverId, className }) => {
   const { toast } = useToast();
+  const { withStepUp, stepUpDialog } = useStepUp();
   const [isGeneratingDigest, setIsGeneratingDigest] = useState(false);
 
   // Fetch pending requests
@@ -92,7 +94,7 @@ export const DailyDigest: React.FC<DailyDigestProps> = ({ approverId, className
         status: 'Approved',
         comments: comments || 'Quick approved via daily digest'
       });
-      return await res.json();
+      return await readJson(res);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/requests'] });
@@ -355,7 +357,7 @@ export const DailyDigest: React.FC<DailyDigestProps> = ({ approverId, className
                   size="sm"
                   variant="outline"
                   className="text-green-600 border-green-600 hover:bg-green-50"
-                  onClick={() => approveMutation.mutate({ requestId: request.id })}
+                  onClick={() => withStepUp(request.amount, () => approveMutation.mutate({ requestId: request.id }))}
                   disabled={approveMutation.isPending}
                 >
                   <CheckCircle className="h-4 w-4 mr-1" />
@@ -396,6 +398,7 @@ export const DailyDigest: React.FC<DailyDigestProps> = ({ approverId, className
             </div>
           );
         })}
+        {stepUpDialog}
       </CardContent>
     </Card>
   );
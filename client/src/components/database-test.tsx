@@ -31,10 +31,10 @@ export default function DatabaseTest() {
       await db.open();
       const userCount = await db.users.count();
       const orgCount = await db.organizations.count();
-      const memberCount = await db.orgMembers.count();
+      const memberCount = await db.memberships.count();
       
       addResult('Database Connection', 'success', 
-        `Database connected successfully! Users: ${userCount}, Organizations: ${orgCount}, Org Members: ${memberCount}`);
+        `Database connected successfully! Users: ${userCount}, Organizations: ${orgCount}, Memberships: ${memberCount}`);
     } catch (error: any) {
       addResult('Database Connection', 'error', 
         `Database connection failed: ${error.message}`, error);
@@ -46,13 +46,13 @@ export default function DatabaseTest() {
     
     try {
       // Try to access the new org-scoped tables
-      const members = await db.orgMembers.toArray();
+      const members = await db.memberships.toArray();
       const requests = await db.orgRequests.toArray();
-      const charts = await db.orgCharts.toArray();
+      const chartNodes = await db.orgChartNodes.toArray();
       const audits = await db.orgAuditLogs.toArray();
       
       addResult('Migration Test', 'success', 
-        `Migration successful! Org Members: ${members.length}, Org Requests: ${requests.length}, Org Charts: ${charts.length}, Audit Logs: ${audits.length}`);
+        `Migration successful! Memberships: ${members.length}, Org Requests: ${requests.length}, Org Chart Nodes: ${chartNodes.length}, Audit Logs: ${audits.length}`);
     } catch (error: any) {
       addResult('Migration Test', 'error', 
         `Migration failed: ${error.message}`, error);
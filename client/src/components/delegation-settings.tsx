@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plane, X } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { User } from "@/lib/database";
+import { isDelegationActive } from "@/lib/delegation";
+
+interface DelegationSettingsProps {
+  user: User;
+}
+
+const toDateTimeInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export default function DelegationSettings({ user }: DelegationSettingsProps) {
+  const { toast } = useToast();
+  const [substituteId, setSubstituteId] = useState("");
+  const [startsAt, setStartsAt] = useState(toDateTimeInput(new Date()));
+  const [endsAt, setEndsAt] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const candidates = users.filter((u) => u.id !== user.id && u.role !== "Requester");
+  const delegation = user.delegation;
+  const substitute = users.find((u) => u.id === delegation?.substituteId);
+  const isActive = isDelegationActive(delegation);
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    toast({ title });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setDelegationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", "/api/user/delegation", {
+        substituteId,
+        startsAt: new Date(startsAt),
+        endsAt: new Date(endsAt),
+        reason,
+      });
+      return await res.json();
+    },
+    onSuccess: onSuccess("Out-of-office saved"),
+    onError,
+  });
+
+  const clearDelegationMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/user/delegation");
+      return await res.json();
+    },
+    onSuccess: onSuccess("Out-of-office cleared"),
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Plane className="h-5 w-5" />
+          Out of Office
+        </CardTitle>
+        <CardDescription>
+          While you are away, requests assigned to you are routed to your substitute, who approves on your behalf.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {delegation && (
+          <div className="flex items-start justify-between p-3 border border-border rounded-md" data-testid="current-delegation">
+            <div className="space-y-1 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Substitute: {substitute?.fullName || "Unknown"}</span>
+                <Badge variant={isActive ? "default" : "secondary"}>{isActive ? "Active" : "Scheduled"}</Badge>
+              </div>
+              <p className="text-muted-foreground">
+                {format(new Date(delegation.startsAt), "PPp")} – {format(new Date(delegation.endsAt), "PPp")}
+              </p>
+              {delegation.reason && <p className="text-muted-foreground italic">{delegation.reason}</p>}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => clearDelegationMutation.mutate()}
+              disabled={clearDelegationMutation.isPending}
+              data-testid="button-clear-delegation"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2 md:col-span-2">
+            <Label>Substitute Approver</Label>
+            <Select value={substituteId} onValueChange={setSubstituteId}>
+              <SelectTrigger data-testid="select-substitute">
+                <SelectValue placeholder="Select a substitute" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {candidate.fullName} ({candidate.role})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="delegation-starts">From</Label>
+            <Input
+              id="delegation-starts"
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              data-testid="input-delegation-starts"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="delegation-ends">Until</Label>
+            <Input
+              id="delegation-ends"
+              type="datetime-local"
+              value={endsAt}
+              onChange={(e) => setEndsAt(e.target.value)}
+              data-testid="input-delegation-ends"
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="delegation-reason">Reason (optional)</Label>
+            <Input
+              id="delegation-reason"
+              placeholder="e.g., Annual leave"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-delegation-reason"
+            />
+          </div>
+        </div>
+
+        <Button
+          onClick={() => setDelegationMutation.mutate()}
+          disabled={!substituteId || !startsAt || !endsAt || setDelegationMutation.isPending}
+          data-testid="button-save-delegation"
+        >
+          {setDelegationMutation.isPending ? "Saving..." : delegation ? "Replace Out-of-Office" : "Save Out-of-Office"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
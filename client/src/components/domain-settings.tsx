@@ -0,0 +1,284 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Globe } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, readJson } from "@/lib/queryClient";
+import { DomainJoinPolicy, DomainVerification, Organization, User } from "@/lib/database";
+import { isDomainVerified, publishDevTxtRecord, txtRecordValue } from "@/lib/domains";
+import { USER_ROLES } from "@shared/contracts";
+
+const JOIN_MODES: Record<DomainJoinPolicy["mode"], string> = {
+  invite: "Invite only",
+  auto: "Join automatically",
+  approval: "Request to join (admin approves)",
+};
+
+interface DomainSettingsProps {
+  organization?: Organization;
+  isSaving?: boolean;
+  onPolicyChange: (policy: DomainJoinPolicy) => void;
+}
+
+export default function DomainSettings({ organization, isSaving, onPolicyChange }: DomainSettingsProps) {
+  const { toast } = useToast();
+  const [domain, setDomain] = useState("");
+  const [method, setMethod] = useState<DomainVerification["method"]>("dns");
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+
+  const settings = organization?.settings;
+  const verification = settings?.domainVerification?.domain === settings?.domain ? settings?.domainVerification : undefined;
+  const verified = !!settings && isDomainVerified(settings);
+
+  const [mode, setMode] = useState<DomainJoinPolicy["mode"]>(settings?.domainJoin?.mode ?? "invite");
+  const [defaultRole, setDefaultRole] = useState<User["role"]>(settings?.domainJoin?.defaultRole ?? "Requester");
+
+  useEffect(() => {
+    setMode(settings?.domainJoin?.mode ?? "invite");
+    setDefaultRole(settings?.domainJoin?.defaultRole ?? "Requester");
+  }, [settings?.domainJoin]);
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+    setCode("");
+    toast({ title });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/organization/domain", {
+        domain,
+        method,
+        email: method === "email" ? email : undefined,
+      });
+      return await readJson(res);
+    },
+    onSuccess: onSuccess(method === "email" ? "Verification code sent" : "Add the TXT record to finish"),
+    onError,
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/organization/domain/verify", { code });
+      return await readJson(res);
+    },
+    onSuccess: onSuccess("Domain verified"),
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/organization/domain");
+      return await readJson(res);
+    },
+    onSuccess: onSuccess("Domain removed"),
+    onError,
+  });
+
+  const recordValue = verification?.method === "dns" ? txtRecordValue(verification.token) : "";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="h-5 w-5" />
+          Email Domain
+          {verification && (
+            <Badge variant={verified ? "default" : "secondary"}>{verified ? "Verified" : "Pending"}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Verify the domain your team's email addresses are on, and people signing up with one can join without an
+          invite.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!verification ? (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="domain-name">Domain</Label>
+              <Input
+                id="domain-name"
+                placeholder="acme.com"
+                value={domain}
+                onChange={(e) => setDomain(e.target.value)}
+                data-testid="input-domain"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Verify with</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as DomainVerification["method"])}>
+                <SelectTrigger data-testid="select-domain-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="dns">DNS TXT record</SelectItem>
+                  <SelectItem value="email">Email to an address on the domain</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {method === "email" && (
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="domain-email">Send the code to</Label>
+                <Input
+                  id="domain-email"
+                  type="email"
+                  placeholder={`admin@${domain || "acme.com"}`}
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  data-testid="input-domain-email"
+                />
+              </div>
+            )}
+            <div className="md:col-span-2">
+              <Button
+                onClick={() => startMutation.mutate()}
+                disabled={!domain.trim() || (method === "email" && !email.trim()) || startMutation.isPending}
+                data-testid="button-start-domain-verification"
+              >
+                {startMutation.isPending ? "Starting..." : "Start Verification"}
+              </Button>
+            </div>
+          </div>
+        ) : !verified ? (
+          <div className="space-y-4">
+            {verification.method === "dns" ? (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Add this TXT record to <strong>{verification.domain}</strong> at your DNS provider, then check it.
+                </p>
+                <div className="flex items-center gap-2 p-3 border border-border rounded-md">
+                  <code className="flex-1 text-sm break-all" data-testid="text-domain-txt-record">{recordValue}</code>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      navigator.clipboard.writeText(recordValue);
+                      toast({ title: "Record copied to clipboard" });
+                    }}
+                    data-testid="button-copy-txt-record"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                {import.meta.env.DEV && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      publishDevTxtRecord(verification.domain, recordValue);
+                      toast({ title: "Record published to the local development zone" });
+                    }}
+                    data-testid="button-publish-dev-record"
+                  >
+                    Publish Record Locally (dev)
+                  </Button>
+                )}
+              </>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  We sent a 6-digit code to <strong>{verification.email}</strong>.
+                </p>
+                <Label htmlFor="domain-code">Verification code</Label>
+                <Input
+                  id="domain-code"
+                  inputMode="numeric"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  data-testid="input-domain-code"
+                />
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button
+                onClick={() => verifyMutation.mutate()}
+                disabled={(verification.method === "email" && !code.trim()) || verifyMutation.isPending}
+                data-testid="button-verify-domain"
+              >
+                {verifyMutation.isPending ? "Checking..." : verification.method === "dns" ? "Check Record" : "Verify"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => removeMutation.mutate()}
+                disabled={removeMutation.isPending}
+                data-testid="button-cancel-domain"
+              >
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              <strong>{verification.domain}</strong> verified on {new Date(verification.verifiedAt!).toLocaleDateString()}.
+            </p>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>People signing up with @{verification.domain}</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as DomainJoinPolicy["mode"])}>
+                  <SelectTrigger data-testid="select-domain-join-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(JOIN_MODES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Join as</Label>
+                <Select value={defaultRole} onValueChange={(value) => setDefaultRole(value as User["role"])}>
+                  <SelectTrigger data-testid="select-domain-default-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USER_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>{role}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => onPolicyChange({ mode, defaultRole })}
+                disabled={isSaving}
+                data-testid="button-save-domain-join"
+              >
+                {isSaving ? "Saving..." : "Save Join Policy"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  if (confirm(`Remove ${verification.domain}? People on it will need an invite to join.`)) {
+                    removeMutation.mutate();
+                  }
+                }}
+                disabled={removeMutation.isPending}
+                data-testid="button-remove-domain"
+              >
+                Remove Domain
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
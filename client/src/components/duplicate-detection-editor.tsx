@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy } from "lucide-react";
+import { DuplicateDetectionSettings } from "@/lib/database";
+import { resolveDuplicateSettings } from "@/lib/duplicates";
+
+interface DuplicateDetectionEditorProps {
+  settings?: DuplicateDetectionSettings;
+  isSaving?: boolean;
+  onChange: (settings: DuplicateDetectionSettings) => void;
+}
+
+export default function DuplicateDetectionEditor({ settings, isSaving, onChange }: DuplicateDetectionEditorProps) {
+  const current = resolveDuplicateSettings(settings);
+  const [action, setAction] = useState<DuplicateDetectionSettings["action"]>(current.action);
+  const [tolerancePercent, setTolerancePercent] = useState(String(current.amountTolerance * 100));
+  const [dateWindowDays, setDateWindowDays] = useState(String(current.dateWindowDays));
+
+  useEffect(() => {
+    setAction(current.action);
+    setTolerancePercent(String(current.amountTolerance * 100));
+    setDateWindowDays(String(current.dateWindowDays));
+  }, [settings]);
+
+  const tolerance = parseFloat(tolerancePercent);
+  const days = parseInt(dateWindowDays);
+  const isValid = tolerance >= 0 && tolerance <= 100 && days >= 0;
+
+  const handleSave = () => {
+    onChange({ action, amountTolerance: tolerance / 100, dateWindowDays: days });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Copy className="h-5 w-5" />
+          Duplicate Detection
+        </CardTitle>
+        <CardDescription>
+          Submissions are checked against earlier invoices (same vendor tax ID and invoice number, or a similar vendor,
+          amount and invoice date) and against the requester's recent requests with a near-identical title and amount.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>When a duplicate is suspected</Label>
+            <Select value={action} onValueChange={(value) => setAction(value as DuplicateDetectionSettings["action"])}>
+              <SelectTrigger data-testid="select-duplicate-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="warn">Warn the approver</SelectItem>
+                <SelectItem value="block">Block the submission</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-tolerance">Amount tolerance (%)</Label>
+            <Input
+              id="duplicate-tolerance"
+              type="number"
+              min="0"
+              max="100"
+              step="0.5"
+              value={tolerancePercent}
+              onChange={(e) => setTolerancePercent(e.target.value)}
+              data-testid="input-duplicate-tolerance"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-window">Date window (days)</Label>
+            <Input
+              id="duplicate-window"
+              type="number"
+              min="0"
+              value={dateWindowDays}
+              onChange={(e) => setDateWindowDays(e.target.value)}
+              data-testid="input-duplicate-window"
+            />
+          </div>
+        </div>
+        <Button onClick={handleSave} disabled={!isValid || isSaving} data-testid="button-save-duplicate-detection">
+          {isSaving ? "Saving..." : "Save Duplicate Detection"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,41 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Copy } from "lucide-react";
+import { format } from "date-fns";
+import { SuspectedDuplicate } from "@/lib/database";
+import { describeDuplicate } from "@/lib/duplicates";
+
+interface DuplicateWarningProps {
+  duplicates: SuspectedDuplicate[];
+  onOpen: (requestId: string) => void;
+}
+
+// Tells the approver which earlier requests this one may duplicate, with links to open them
+export default function DuplicateWarning({ duplicates, onOpen }: DuplicateWarningProps) {
+  if (duplicates.length === 0) return null;
+
+  return (
+    <Alert variant="destructive" data-testid="alert-suspected-duplicate">
+      <Copy className="h-4 w-4" />
+      <AlertTitle>Possible duplicate</AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1">
+          {duplicates.map((duplicate) => (
+            <li key={duplicate.requestId} className="flex flex-wrap items-center gap-x-2 text-sm">
+              <button
+                type="button"
+                className="font-medium underline hover:no-underline"
+                onClick={() => onOpen(duplicate.requestId)}
+                data-testid={`link-duplicate-${duplicate.requestId}`}
+              >
+                {duplicate.title}
+              </button>
+              <span>
+                ₹{duplicate.amount.toLocaleString()} · {format(new Date(duplicate.createdAt), "PP")} · {describeDuplicate(duplicate)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
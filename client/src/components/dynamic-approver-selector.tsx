@@ -31,10 +31,12 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
-import { Check, ChevronsUpDown, Users, Sparkles, AlertCircle, Clock, UserPlus, X } from 'lucide-react';
+import { Check, ChevronsUpDown, Users, Sparkles, AlertCircle, Clock, UserPlus, X, Plane } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { User } from '@/lib/database';
 import { apiRequest } from '@/lib/queryClient';
+import { isOutOfOffice } from '@/lib/delegation';
+import { can } from '@/lib/permissions';
 
 interface ApproverSelectorProps {
   value: string | string[];
@@ -50,6 +52,7 @@ interface ApproverSelectorProps {
 interface ApproverWithMetadata extends User {
   pendingApprovals: number;
   isBusy: boolean;
+  isOutOfOffice: boolean;
   lastActiveAt: Date;
   department: string;
   aiScore?: number;
@@ -86,17 +89,19 @@ export default function DynamicApproverSelector({
     if (!allUsers) return [];
 
     return allUsers
-      .filter(user => user.role === 'Admin' || user.role === 'Approver')
+      .filter(user => can(user, 'request.approve'))
       .map(user => ({
         ...user,
         pendingApprovals: pendingApprovals?.[user.id] || 0,
         isBusy: (pendingApprovals?.[user.id] || 0) > 5, // Consider busy if more than 5 pending
+        isOutOfOffice: isOutOfOffice(user),
         lastActiveAt: new Date(user.createdAt), // Using createdAt as proxy for last active
         department: user.department || 'General',
         aiScore: Math.random() * 100 // Mock AI score for suggestions
       }))
       .sort((a, b) => {
-        // Sort by: not busy first, then by pending approvals (ascending), then by name
+        // Sort by: available first, then not busy, then by pending approvals (ascending), then by name
+        if (a.isOutOfOffice !== b.isOutOfOffice) return a.isOutOfOffice ? 1 : -1;
         if (a.isBusy !== b.isBusy) return a.isBusy ? 1 : -1;
         if (a.pendingApprovals !== b.pendingApprovals) return a.pendingApprovals - b.pendingApprovals;
         return a.fullName.localeCompare(b.fullName);
@@ -123,7 +128,7 @@ export default function DynamicApproverSelector({
     setShowAISuggestions(true);
     // Mock AI suggestions based on department, role, and workload
     const suggestions = approversWithMetadata
-      .filter(approver => !approver.isBusy && approver.pendingApprovals < 3)
+      .filter(approver => !approver.isOutOfOffice && !approver.isBusy && approver.pendingApprovals < 3)
       .slice(0, 3);
     
     setAiSuggestions(suggestions);
@@ -176,6 +181,12 @@ export default function DynamicApproverSelector({
                 Busy
               </Badge>
             )}
+            {approver.isOutOfOffice && (
+              <Badge variant="outline" className="text-xs">
+                <Plane className="h-3 w-3 mr-1" />
+                Out of office
+              </Badge>
+            )}
           </div>
           
           <div className="flex items-center space-x-2 text-xs text-muted-foreground">
@@ -341,6 +352,12 @@ export default function DynamicApproverSelector({
                                 ⚠️ High workload - may take longer to respond
                               </div>
                             )}
+                            {approver.isOutOfOffice && (
+                              <div className="text-xs text-orange-600">
+                                Away until {new Date(approver.delegation!.endsAt).toLocaleDateString()} - covered by{' '}
+                                {allUsers?.find(u => u.id === approver.delegation!.substituteId)?.fullName || 'a substitute'}
+                              </div>
+                            )}
                           </div>
                         </TooltipContent>
                       </Tooltip>
@@ -0,0 +1,64 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Check, ScanText } from "lucide-react";
+import { HIGH_CONFIDENCE, LOW_CONFIDENCE } from "@/lib/invoiceExtraction";
+
+export interface ExtractionState {
+  confidence: number;
+  accepted: boolean;          // confirmed or corrected by the user
+}
+
+interface ExtractionConfidenceProps {
+  field: string;
+  state?: ExtractionState;
+  onAccept: () => void;
+}
+
+// Shows how sure the scanner is about a prefilled field until the user accepts or edits it
+export default function ExtractionConfidence({ field, state, onAccept }: ExtractionConfidenceProps) {
+  if (!state) return null;
+
+  if (state.accepted) {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-success" data-testid={`extraction-accepted-${field}`}>
+        <Check className="h-3 w-3" />
+        Checked
+      </span>
+    );
+  }
+
+  const percent = Math.round(state.confidence * 100);
+  const className =
+    state.confidence >= HIGH_CONFIDENCE
+      ? "bg-success/10 text-success"
+      : state.confidence >= LOW_CONFIDENCE
+        ? "bg-pending/10 text-pending"
+        : "bg-destructive/10 text-destructive";
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="outline" className={`gap-1 text-xs ${className}`} data-testid={`extraction-confidence-${field}`}>
+            <ScanText className="h-3 w-3" />
+            {percent}%
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent>
+          Read from the scanned document with {percent}% confidence. Accept it or type the correct value.
+        </TooltipContent>
+      </Tooltip>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs"
+        onClick={onAccept}
+        data-testid={`button-accept-extraction-${field}`}
+      >
+        Accept
+      </Button>
+    </span>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Layers, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { nanoid } from "nanoid";
+import { HierarchyLevel } from "@/lib/database";
+import { hierarchyLevelsSchema } from "@shared/contracts";
+import { DEFAULT_HIERARCHY_LEVELS, resolveHierarchyLevels } from "@shared/hierarchyLevels";
+
+interface HierarchyLevelsEditorProps {
+  levels?: HierarchyLevel[];
+  isSaving?: boolean;
+  onChange: (levels: HierarchyLevel[]) => void;
+}
+
+// Numbers are kept as typed until the levels are saved
+interface LevelDraft {
+  id: string;
+  name: string;
+  order: string;
+  color: string;
+  description: string;
+  approvalLimit: string;
+}
+
+const MAX_LEVELS = 10;
+
+const toDraft = (level: HierarchyLevel): LevelDraft => ({
+  id: level.id,
+  name: level.name,
+  order: String(level.order),
+  color: level.color,
+  description: level.description ?? "",
+  approvalLimit: level.approvalLimit != null ? String(level.approvalLimit) : "",
+});
+
+const fromDraft = (draft: LevelDraft) => ({
+  ...draft,
+  order: parseInt(draft.order),
+});
+
+export default function HierarchyLevelsEditor({ levels, isSaving, onChange }: HierarchyLevelsEditorProps) {
+  const [drafts, setDrafts] = useState<LevelDraft[]>(() => resolveHierarchyLevels(levels).map(toDraft));
+
+  useEffect(() => {
+    setDrafts(resolveHierarchyLevels(levels).map(toDraft));
+  }, [levels]);
+
+  const parsed = hierarchyLevelsSchema.safeParse(drafts.map(fromDraft));
+  const error = parsed.success ? null : parsed.error.issues[0].message;
+
+  const update = (id: string, changes: Partial<LevelDraft>) => {
+    setDrafts(drafts.map((draft) => (draft.id === id ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleAddLevel = () => {
+    const nextOrder = Math.max(0, ...drafts.map((draft) => parseInt(draft.order) || 0)) + 1;
+    setDrafts([
+      ...drafts,
+      { id: nanoid(), name: "", order: String(nextOrder), color: "#6B7280", description: "", approvalLimit: "" },
+    ]);
+  };
+
+  const handleSave = () => {
+    if (parsed.success) onChange(parsed.data);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          Hierarchy Levels
+        </CardTitle>
+        <CardDescription>
+          What each level of the org chart is called and how it is colored. A level covers everyone from its order
+          down to the next level, unless someone is assigned a level directly. When no approval chain applies, a
+          request goes up the requester's managers until one whose approval limit covers the amount.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          {drafts.map((draft) => (
+            <div
+              key={draft.id}
+              className="grid gap-3 md:grid-cols-[5rem_1fr_4rem_1fr_8rem_auto] items-end p-3 border border-border rounded-md"
+              data-testid={`hierarchy-level-${draft.id}`}
+            >
+              <div>
+                <Label htmlFor={`level-order-${draft.id}`}>Order</Label>
+                <Input
+                  id={`level-order-${draft.id}`}
+                  type="number"
+                  min="1"
+                  max={MAX_LEVELS}
+                  value={draft.order}
+                  onChange={(e) => update(draft.id, { order: e.target.value })}
+                  data-testid={`input-level-order-${draft.id}`}
+                />
+              </div>
+              <div>
+                <Label htmlFor={`level-name-${draft.id}`}>Name</Label>
+                <Input
+                  id={`level-name-${draft.id}`}
+                  placeholder="e.g., Director"
+                  value={draft.name}
+                  onChange={(e) => update(draft.id, { name: e.target.value })}
+                  data-testid={`input-level-name-${draft.id}`}
+                />
+              </div>
+              <div>
+                <Label htmlFor={`level-color-${draft.id}`}>Color</Label>
+                <Input
+                  id={`level-color-${draft.id}`}
+                  type="color"
+                  className="p-1"
+                  value={draft.color}
+                  onChange={(e) => update(draft.id, { color: e.target.value })}
+                  data-testid={`input-level-color-${draft.id}`}
+                />
+              </div>
+              <div>
+                <Label htmlFor={`level-description-${draft.id}`}>Description</Label>
+                <Input
+                  id={`level-description-${draft.id}`}
+                  placeholder="Who sits at this level"
+                  value={draft.description}
+                  onChange={(e) => update(draft.id, { description: e.target.value })}
+                  data-testid={`input-level-description-${draft.id}`}
+                />
+              </div>
+              <div>
+                <Label htmlFor={`level-limit-${draft.id}`}>Approval limit (₹)</Label>
+                <Input
+                  id={`level-limit-${draft.id}`}
+                  type="number"
+                  min="0"
+                  placeholder="No limit"
+                  value={draft.approvalLimit}
+                  onChange={(e) => update(draft.id, { approvalLimit: e.target.value })}
+                  data-testid={`input-level-limit-${draft.id}`}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setDrafts(drafts.filter((other) => other.id !== draft.id))}
+                disabled={drafts.length <= 1}
+                data-testid={`button-delete-level-${draft.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={handleAddLevel}
+            disabled={drafts.length >= MAX_LEVELS}
+            data-testid="button-add-hierarchy-level"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Level
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setDrafts(DEFAULT_HIERARCHY_LEVELS.map(toDraft))}
+            data-testid="button-reset-hierarchy-levels"
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to Defaults
+          </Button>
+          <Button onClick={handleSave} disabled={!parsed.success || isSaving} data-testid="button-save-hierarchy-levels">
+            {isSaving ? "Saving..." : "Save Levels"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -45,6 +45,12 @@ import { User as UserType, OrgChartNode } from '@/lib/database';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
+import { can } from '@/lib/permissions';
+import { useOrgHierarchy } from '@/hooks/use-org-hierarchy';
+import { useHierarchyLevels, levelStyle, levelCardStyle } from '@/hooks/use-hierarchy-levels';
+import { buildTree, getReportingLine, getSpanOfControl } from '@/lib/hierarchy';
+import type { HierarchyTreeNode } from '@/lib/hierarchy';
+import OrgChartExportDialog from './org-chart-export-dialog';
 
 interface HierarchyNode {
   id: string;
@@ -55,6 +61,7 @@ interface HierarchyNode {
   role: string;
   department: string;
   level: number;
+  hierarchyLevelId?: string;
   parentId?: string;
   isExpanded: boolean;
   children: HierarchyNode[];
@@ -65,26 +72,9 @@ interface HierarchyVisualizationProps {
   className?: string;
 }
 
-const LEVEL_COLORS = {
-  0: 'bg-blue-100 border-blue-300 text-blue-900', // L0 - Top Executive
-  1: 'bg-blue-100 border-blue-300 text-blue-900', // L1 - Blue
-  2: 'bg-green-100 border-green-300 text-green-900', // L2 - Green  
-  3: 'bg-gray-100 border-gray-300 text-gray-900', // L3 - Grey
-  4: 'bg-orange-100 border-orange-300 text-orange-900', // L4 - Orange
-  5: 'bg-purple-100 border-purple-300 text-purple-900', // L5 - Purple
-};
-
-const LEVEL_NAMES = {
-  0: 'CEO',
-  1: 'L1',
-  2: 'L2', 
-  3: 'L3',
-  4: 'L4',
-  5: 'L5',
-};
-
 export default function HierarchyVisualization({ className }: HierarchyVisualizationProps) {
   const { user: currentUser } = useAuth();
+  const canEdit = can(currentUser, 'orgchart.edit');
   const { toast } = useToast();
   const containerRef = useRef<HTMLDivElement>(null);
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
@@ -100,74 +90,37 @@ export default function HierarchyVisualization({ className }: HierarchyVisualiza
   const [longPressTimer, setLongPressTimer] = useState<NodeJS.Timeout | null>(null);
 
   // Fetch org chart data
-  const { data: nodes, isLoading: isLoadingNodes } = useQuery<OrgChartNode[]>({
-    queryKey: ["/api/org-chart"],
-  });
+  const { nodes, hierarchy, isLoading: isLoadingNodes } = useOrgHierarchy();
+  const { levelOf } = useHierarchyLevels();
 
   // Fetch users data
   const { data: users, isLoading: isLoadingUsers } = useQuery<UserType[]>({
     queryKey: ["/api/users"],
   });
 
-  // Build hierarchy tree
-  const hierarchyTree = useCallback((): HierarchyNode[] => {
-    if (!nodes || !users) return [];
-
-    // Create a map of nodes by ID
-    const nodeMap = new Map<string, OrgChartNode>();
-    nodes.forEach(node => nodeMap.set(node.id, node));
-
-    // Create a map of users by ID
-    const userMap = new Map<string, UserType>();
-    users.forEach(user => userMap.set(user.id, user));
-
-    // Build hierarchy nodes
-    const hierarchyNodes: HierarchyNode[] = nodes.map(node => {
-      const user = node.userId ? userMap.get(node.userId) : undefined;
-      return {
-        id: node.id,
-        userId: node.userId,
-        name: user?.fullName || node.name,
-        email: user?.email,
-        phone: user?.phoneNumber,
-        role: user?.jobTitle || node.role,
-        department: user?.department || node.department || 'General',
-        level: node.level,
-        parentId: node.parentId,
-        isExpanded: expandedNodes.has(node.id),
-        children: [],
-        user,
-      };
-    });
-
-    // Build parent-child relationships
-    const rootNodes: HierarchyNode[] = [];
-    const nodeMap2 = new Map<string, HierarchyNode>();
-    
-    hierarchyNodes.forEach(node => {
-      nodeMap2.set(node.id, node);
-    });
-
-    hierarchyNodes.forEach(node => {
-      if (node.parentId) {
-        const parent = nodeMap2.get(node.parentId);
-        if (parent) {
-          parent.children.push(node);
-        }
-      } else {
-        rootNodes.push(node);
-      }
-    });
-
-    // Sort children by name
-    const sortChildren = (node: HierarchyNode) => {
-      node.children.sort((a, b) => a.name.localeCompare(b.name));
-      node.children.forEach(sortChildren);
+  const userMap = useMemo(() => new Map((users ?? []).map(user => [user.id, user])), [users]);
+
+  // A chart node as shown here, with the member's current details over the node's own
+  const toViewNode = (node: OrgChartNode, children: HierarchyNode[] = []): HierarchyNode => {
+    const user = node.userId ? userMap.get(node.userId) : undefined;
+    return {
+      id: node.id,
+      userId: node.userId,
+      name: user?.fullName || node.name,
+      email: user?.email,
+      phone: user?.phoneNumber,
+      role: user?.jobTitle || node.role,
+      department: user?.department || node.department || 'General',
+      level: node.level,
+      hierarchyLevelId: node.hierarchyLevelId,
+      parentId: node.parentId,
+      isExpanded: expandedNodes.has(node.id),
+      children,
+      user,
     };
+  };
 
-    rootNodes.forEach(sortChildren);
-    return rootNodes;
-  }, [nodes, users, expandedNodes]);
+  const toViewTree = (node: HierarchyTreeNode): HierarchyNode => toViewNode(node, node.children.map(toViewTree));
 
   // Toggle node expansion
   const toggleNode = (nodeId: string) => {
@@ -184,7 +137,6 @@ export default function HierarchyVisualization({ className }: HierarchyVisualiza
 
   // Expand/Collapse all
   const expandAll = () => {
-    if (!nodes) return;
     setExpandedNodes(new Set(nodes.map(node => node.id)));
   };
 
@@ -199,36 +151,9 @@ export default function HierarchyVisualization({ className }: HierarchyVisualiza
   };
 
 
-  // Find node by ID
-  const findNodeById = (nodeId: string): HierarchyNode | null => {
-    const tree = hierarchyTree();
-    const findInTree = (nodes: HierarchyNode[]): HierarchyNode | null => {
-      for (const node of nodes) {
-        if (node.id === nodeId) return node;
-        const found = findInTree(node.children);
-        if (found) return found;
-      }
-      return null;
-    };
-    return findInTree(tree);
-  };
-
   // Handle long press for reports chain
   const handleNodeLongPress = (node: HierarchyNode) => {
-    const chain: HierarchyNode[] = [];
-    let currentNode: HierarchyNode | null = node;
-    
-    // Build chain up to root
-    while (currentNode) {
-      chain.unshift(currentNode);
-      if (currentNode.parentId) {
-        currentNode = findNodeById(currentNode.parentId);
-      } else {
-        break;
-      }
-    }
-    
-    setReportsChain(chain);
+    setReportsChain(getReportingLine(hierarchy, node.id).map(chainNode => toViewNode(chainNode)));
     setShowReportsChain(true);
   };
 
@@ -280,8 +205,7 @@ export default function HierarchyVisualization({ className }: HierarchyVisualiza
   const renderNode = (node: HierarchyNode, depth: number = 0) => {
     const hasChildren = node.children.length > 0;
     const isExpanded = expandedNodes.has(node.id);
-    const levelColor = LEVEL_COLORS[node.level as keyof typeof LEVEL_COLORS] || 'bg-gray-100 border-gray-300 text-gray-900';
-    const levelName = LEVEL_NAMES[node.level as keyof typeof LEVEL_NAMES] || `L${node.level}`;
+    const level = levelOf(node);
 
     return (
       <div key={node.id} className="relative">
@@ -289,10 +213,10 @@ export default function HierarchyVisualization({ className }: HierarchyVisualiza
         <div 
           className={cn(
             "flex items-center space-x-3 p-3 rounded-lg border-2 cursor-pointer transition-all duration-200 hover:shadow-md",
-            levelColor,
             depth > 0 && "ml-8"
           )}
           style={{ 
+            ...levelCardStyle(level),
             transform: `translate(${scrollOffset.x}px, ${scrollOffset.y}px) scale(${scale})`,
             transformOrigin: 'top left'
           }}
@@ -318,7 +242,7 @@ export default function HierarchyVisualization({ className }: HierarchyVisualiza
             <div className="flex items-center space-x-2">
               <h3 className="font-semibold text-sm truncate">{node.name}</h3>
               <Badge variant="outline" className="text-xs">
-                {levelName}
+                {level.name}
               </Badge>
             </div>
             <p className="text-xs text-muted-foreground truncate">{node.email}</p>
@@ -350,7 +274,7 @@ export default function HierarchyVisualization({ className }: HierarchyVisualiza
             )}
 
             {/* Add Member Button (Admin only) */}
-            {currentUser?.role === 'Admin' && (
+            {canEdit && (
               <Dialog>
                 <DialogTrigger asChild>
                   <Button
@@ -375,7 +299,7 @@ export default function HierarchyVisualization({ className }: HierarchyVisualiza
             )}
 
             {/* More Actions */}
-            {currentUser?.role === 'Admin' && (
+            {canEdit && (
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button
@@ -437,7 +361,15 @@ export default function HierarchyVisualization({ className }: HierarchyVisualiza
     );
   }
 
-  const tree = hierarchyTree();
+  const tree = users ? buildTree(hierarchy).map(toViewTree) : [];
+
+  // What the tree is showing: the roots, and the reports of every expanded node
+  const shownIds: string[] = [];
+  const collectShown = (node: HierarchyNode) => {
+    shownIds.push(node.id);
+    if (expandedNodes.has(node.id)) node.children.forEach(collectShown);
+  };
+  tree.forEach(collectShown);
 
   return (
     <div className={cn("space-y-4", className)}>
@@ -464,6 +396,7 @@ export default function HierarchyVisualization({ className }: HierarchyVisualiza
               <Minimize2 className="h-4 w-4" />
               <span>Collapse All</span>
             </Button>
+            <OrgChartExportDialog viewIds={shownIds} selectedId={selectedNode?.id} />
           </div>
         </CardHeader>
         <CardContent>
@@ -471,7 +404,7 @@ export default function HierarchyVisualization({ className }: HierarchyVisualiza
             <p>• Click on a node to view profile details</p>
             <p>• Long press (mobile) or right-click to see reporting chain</p>
             <p>• Use Ctrl + scroll to zoom, middle mouse to pan</p>
-            <p>• {currentUser?.role === 'Admin' ? 'Admins can add/edit members' : 'Contact admin to modify hierarchy'}</p>
+            <p>• {canEdit ? 'You can add/edit members' : 'Contact admin to modify hierarchy'}</p>
           </div>
         </CardContent>
       </Card>
@@ -492,7 +425,7 @@ export default function HierarchyVisualization({ className }: HierarchyVisualiza
                 <Building2 className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
                 <h3 className="text-lg font-semibold mb-2">No Organization Data</h3>
                 <p className="text-muted-foreground">
-                  {currentUser?.role === 'Admin' 
+                  {canEdit
                     ? 'Start by adding members to your organization'
                     : 'Contact your admin to set up the organizational structure'
                   }
@@ -542,6 +475,13 @@ export default function HierarchyVisualization({ className }: HierarchyVisualiza
                     <span className="text-sm">{selectedNode.phone}</span>
                   </div>
                 )}
+                <div className="flex items-center space-x-2">
+                  <Users className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm" data-testid="text-span-of-control">
+                    {getSpanOfControl(hierarchy, selectedNode.id).direct} direct reports,{' '}
+                    {getSpanOfControl(hierarchy, selectedNode.id).total} in total
+                  </span>
+                </div>
               </div>
 
               <div className="flex space-x-2">
@@ -571,7 +511,7 @@ export default function HierarchyVisualization({ className }: HierarchyVisualiza
           <div className="space-y-2">
             {reportsChain.map((node, index) => (
               <div key={node.id} className="flex items-center space-x-3 p-2 rounded border">
-                <Badge variant="outline">{LEVEL_NAMES[node.level as keyof typeof LEVEL_NAMES] || `L${node.level}`}</Badge>
+                <Badge variant="outline" style={levelStyle(levelOf(node))}>{levelOf(node).name}</Badge>
                 <div>
                   <p className="font-medium">{node.name}</p>
                   <p className="text-sm text-muted-foreground">{node.role}</p>
@@ -633,7 +573,7 @@ function AddMemberForm({ parentNode }: { parentNode: HierarchyNode }) {
         updatedAt: new Date()
       };
       
-      const res = await apiRequest("POST", "/api/org-chart", nodeData);
+      const res = await apiRequest("POST", "/api/org-chart/nodes", nodeData);
       return await res.json();
     },
     onSuccess: () => {
@@ -26,24 +26,27 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { OrgChartNode, User as UserType } from '../lib/database';
+import { useOrgHierarchy } from '../hooks/use-org-hierarchy';
+import { getChildren } from '../lib/hierarchy';
+import type { OrgHierarchy } from '../lib/hierarchy';
+import OrgChartExportDialog from './org-chart-export-dialog';
+import { useHierarchyLevels, levelStyle } from '../hooks/use-hierarchy-levels';
 
 interface InteractiveOrgChartProps {
-  nodes: OrgChartNode[];
   users: UserType[];
   onUpdateNode: (nodeId: string, updates: Partial<OrgChartNode>) => void;
   onDeleteNode: (nodeId: string) => void;
   onCreateNode: (parentId: string | null, level: number) => void;
-  onMoveNode: (nodeId: string, newParentId: string | null, newLevel: number) => void;
+  onMoveNode: (nodeId: string, newParentId: string | null) => void;
   isAdmin?: boolean;
 }
 
 type ViewMode = 'tree' | 'mindmap';
-type FilterLevel = 'all' | 'L0' | 'L1' | 'L2' | 'L3' | 'L4';
+type FilterLevel = 'all' | string;    // a hierarchy level id
 
 interface EmployeeCardProps {
   node: OrgChartNode;
   user: UserType | undefined;
-  level: number;
   isExpanded: boolean;
   onToggle: () => void;
   onEdit?: () => void;
@@ -56,7 +59,6 @@ interface EmployeeCardProps {
 const EmployeeCard: React.FC<EmployeeCardProps> = ({
   node,
   user,
-  level,
   isExpanded,
   onToggle,
   onEdit,
@@ -65,21 +67,7 @@ const EmployeeCard: React.FC<EmployeeCardProps> = ({
   isAdmin = false,
   viewMode
 }) => {
-  const levelColors = {
-    0: 'bg-gradient-to-br from-purple-500 to-purple-700',
-    1: 'bg-gradient-to-br from-blue-500 to-blue-700',
-    2: 'bg-gradient-to-br from-green-500 to-green-700',
-    3: 'bg-gradient-to-br from-orange-500 to-orange-700',
-    4: 'bg-gradient-to-br from-gray-500 to-gray-700'
-  };
-
-  const levelLabels = {
-    0: 'L0 - Executive',
-    1: 'L1 - Senior Management',
-    2: 'L2 - Middle Management',
-    3: 'L3 - Team Leads',
-    4: 'L4 - Individual Contributors'
-  };
+  const hierarchyLevel = useHierarchyLevels().levelOf(node);
 
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
@@ -97,28 +85,22 @@ const EmployeeCard: React.FC<EmployeeCardProps> = ({
             <CardContent className="p-4">
               {/* Level Badge */}
               <div className="absolute -top-2 -right-2">
-                <Badge 
-                  variant="secondary" 
-                  className={cn(
-                    "text-xs font-medium",
-                    level === 0 && "bg-purple-100 text-purple-800",
-                    level === 1 && "bg-blue-100 text-blue-800",
-                    level === 2 && "bg-green-100 text-green-800",
-                    level === 3 && "bg-orange-100 text-orange-800",
-                    level === 4 && "bg-gray-100 text-gray-800"
-                  )}
+                <Badge
+                  variant="outline"
+                  className="text-xs font-medium"
+                  style={levelStyle(hierarchyLevel)}
                 >
-                  {levelLabels[level as keyof typeof levelLabels]}
+                  {hierarchyLevel.name}
                 </Badge>
               </div>
 
               {/* Profile Section */}
               <div className="flex items-start gap-3 mb-3">
                 {/* Profile Picture/Initials */}
-                <div className={cn(
-                  "w-12 h-12 rounded-full flex items-center justify-center text-white font-bold text-lg shadow-md",
-                  levelColors[level as keyof typeof levelColors]
-                )}>
+                <div
+                  className="w-12 h-12 rounded-full flex items-center justify-center text-white font-bold text-lg shadow-md"
+                  style={{ backgroundColor: hierarchyLevel.color }}
+                >
                   {getInitials(user?.fullName || node.name)}
                 </div>
 
@@ -204,7 +186,7 @@ const EmployeeCard: React.FC<EmployeeCardProps> = ({
             <p className="text-sm text-gray-600">{user?.jobTitle || node.role}</p>
             <p className="text-sm text-gray-500">{user?.department || node.department}</p>
             {user?.email && <p className="text-sm text-gray-500">{user.email}</p>}
-            <p className="text-xs text-gray-400">Level {level} - {levelLabels[level as keyof typeof levelLabels]}</p>
+            <p className="text-xs text-gray-400">{hierarchyLevel.name}{hierarchyLevel.description && ` - ${hierarchyLevel.description}`}</p>
           </div>
         </TooltipContent>
       </Tooltip>
@@ -215,7 +197,6 @@ const EmployeeCard: React.FC<EmployeeCardProps> = ({
 const TreeNode: React.FC<{
   node: OrgChartNode;
   user: UserType | undefined;
-  level: number;
   expandedNodes: Set<string>;
   onToggle: (nodeId: string) => void;
   onEdit?: (node: OrgChartNode) => void;
@@ -223,12 +204,12 @@ const TreeNode: React.FC<{
   onAddChild?: (parentId: string, level: number) => void;
   isAdmin?: boolean;
   viewMode: ViewMode;
-  filteredNodes: OrgChartNode[];
+  hierarchy: OrgHierarchy;
+  visibleIds: Set<string>;
   users: UserType[];
 }> = ({
   node,
   user,
-  level,
   expandedNodes,
   onToggle,
   onEdit,
@@ -236,23 +217,23 @@ const TreeNode: React.FC<{
   onAddChild,
   isAdmin = false,
   viewMode,
-  filteredNodes,
+  hierarchy,
+  visibleIds,
   users
 }) => {
   const isExpanded = expandedNodes.has(node.id);
-  const children = filteredNodes.filter(n => n.parentId === node.id);
+  const children = getChildren(hierarchy, node.id).filter(child => visibleIds.has(child.id));
 
   return (
     <div className="flex flex-col items-center">
       <EmployeeCard
         node={node}
         user={user}
-        level={level}
         isExpanded={isExpanded}
         onToggle={() => onToggle(node.id)}
         onEdit={() => onEdit?.(node)}
         onDelete={() => onDelete?.(node.id)}
-        onAddChild={() => onAddChild?.(node.id, level + 1)}
+        onAddChild={() => onAddChild?.(node.id, node.level + 1)}
         isAdmin={isAdmin}
         viewMode={viewMode}
       />
@@ -270,7 +251,6 @@ const TreeNode: React.FC<{
                 key={child.id}
                 node={child}
                 user={childUser}
-                level={level + 1}
                 expandedNodes={expandedNodes}
                 onToggle={onToggle}
                 onEdit={onEdit}
@@ -278,7 +258,8 @@ const TreeNode: React.FC<{
                 onAddChild={onAddChild}
                 isAdmin={isAdmin}
                 viewMode={viewMode}
-                filteredNodes={filteredNodes}
+                hierarchy={hierarchy}
+                visibleIds={visibleIds}
                 users={users}
               />
             );
@@ -290,7 +271,6 @@ const TreeNode: React.FC<{
 };
 
 export const InteractiveOrgChart: React.FC<InteractiveOrgChartProps> = ({
-  nodes,
   users,
   onUpdateNode,
   onDeleteNode,
@@ -298,6 +278,8 @@ export const InteractiveOrgChart: React.FC<InteractiveOrgChartProps> = ({
   onMoveNode,
   isAdmin = false
 }) => {
+  const { nodes, hierarchy } = useOrgHierarchy();
+  const { levels, levelOf } = useHierarchyLevels();
   const [viewMode, setViewMode] = useState<ViewMode>('tree');
   const [searchQuery, setSearchQuery] = useState('');
   const [filterLevel, setFilterLevel] = useState<FilterLevel>('all');
@@ -310,8 +292,7 @@ export const InteractiveOrgChart: React.FC<InteractiveOrgChartProps> = ({
 
     // Filter by level
     if (filterLevel !== 'all') {
-      const levelNum = parseInt(filterLevel.replace('L', ''));
-      filtered = filtered.filter(node => node.level === levelNum);
+      filtered = filtered.filter(node => levelOf(node).id === filterLevel);
     }
 
     // Filter by search query
@@ -324,12 +305,28 @@ export const InteractiveOrgChart: React.FC<InteractiveOrgChartProps> = ({
     }
 
     return filtered;
-  }, [nodes, users, searchQuery, filterLevel]);
+  }, [nodes, users, searchQuery, filterLevel, levelOf]);
+
+  const visibleIds = useMemo(() => new Set(filteredNodes.map(node => node.id)), [filteredNodes]);
 
-  // Get root nodes (L0 - Executive level)
+  // Top of the chart, plus any match whose manager is filtered out
   const rootNodes = useMemo(() => {
-    return filteredNodes.filter(node => node.level === 0);
-  }, [filteredNodes]);
+    return filteredNodes.filter(node => !node.parentId || !visibleIds.has(node.parentId));
+  }, [filteredNodes, visibleIds]);
+
+  // What the chart is showing: the roots, and the reports of every expanded node
+  const shownIds = useMemo(() => {
+    const shown = new Set<string>();
+    const visit = (node: OrgChartNode) => {
+      if (shown.has(node.id)) return;
+      shown.add(node.id);
+      if (expandedNodes.has(node.id)) {
+        getChildren(hierarchy, node.id).filter(child => visibleIds.has(child.id)).forEach(visit);
+      }
+    };
+    rootNodes.forEach(visit);
+    return Array.from(shown);
+  }, [rootNodes, expandedNodes, hierarchy, visibleIds]);
 
   const handleToggleNode = useCallback((nodeId: string) => {
     setExpandedNodes(prev => {
@@ -365,9 +362,9 @@ export const InteractiveOrgChart: React.FC<InteractiveOrgChartProps> = ({
           <h3 className="text-lg font-medium text-gray-900 mb-2">No organization members</h3>
           <p className="text-gray-600 mb-4">Start by adding members to your organization chart.</p>
           {isAdmin && (
-            <Button onClick={() => onCreateNode(null, 0)}>
+            <Button onClick={() => onCreateNode(null, 1)}>
               <Plus className="h-4 w-4 mr-2" />
-              Add Executive (L0)
+              Add {levels[0].name}
             </Button>
           )}
         </div>
@@ -436,11 +433,9 @@ export const InteractiveOrgChart: React.FC<InteractiveOrgChartProps> = ({
             className="px-3 py-1 border rounded-md text-sm"
           >
             <option value="all">All Levels</option>
-            <option value="L0">L0 - Executive</option>
-            <option value="L1">L1 - Senior Management</option>
-            <option value="L2">L2 - Middle Management</option>
-            <option value="L3">L3 - Team Leads</option>
-            <option value="L4">L4 - Individual Contributors</option>
+            {levels.map(level => (
+              <option key={level.id} value={level.id}>{level.name}</option>
+            ))}
           </select>
         </div>
 
@@ -462,6 +457,7 @@ export const InteractiveOrgChart: React.FC<InteractiveOrgChartProps> = ({
             <Minimize2 className="h-4 w-4 mr-2" />
             Collapse All
           </Button>
+          <OrgChartExportDialog viewIds={shownIds} />
         </div>
 
         {/* Read-only Toggle */}
@@ -494,12 +490,12 @@ export const InteractiveOrgChart: React.FC<InteractiveOrgChartProps> = ({
         {rootNodes.length === 0 ? (
           <div className="text-center py-12 w-full">
             <Building className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No executives found</h3>
-            <p className="text-gray-600 mb-4">Add an executive (L0) to start building your organization.</p>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Nobody at the top of the chart</h3>
+            <p className="text-gray-600 mb-4">Add someone at the {levels[0].name} level to start building your organization.</p>
             {isAdmin && !isReadOnly && (
-              <Button onClick={() => onCreateNode(null, 0)}>
+              <Button onClick={() => onCreateNode(null, 1)}>
                 <Plus className="h-4 w-4 mr-2" />
-                Add Executive
+                Add {levels[0].name}
               </Button>
             )}
           </div>
@@ -515,7 +511,6 @@ export const InteractiveOrgChart: React.FC<InteractiveOrgChartProps> = ({
                   key={rootNode.id}
                   node={rootNode}
                   user={rootUser}
-                  level={0}
                   expandedNodes={expandedNodes}
                   onToggle={handleToggleNode}
                   onEdit={isAdmin && !isReadOnly ? (node) => {
@@ -526,7 +521,8 @@ export const InteractiveOrgChart: React.FC<InteractiveOrgChartProps> = ({
                   onAddChild={isAdmin && !isReadOnly ? onCreateNode : undefined}
                   isAdmin={isAdmin && !isReadOnly}
                   viewMode={viewMode}
-                  filteredNodes={filteredNodes}
+                  hierarchy={hierarchy}
+                  visibleIds={visibleIds}
                   users={users}
                 />
               );
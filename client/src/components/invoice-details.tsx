@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Receipt } from "lucide-react";
+import { format } from "date-fns";
+import { Invoice } from "@/lib/database";
+
+interface InvoiceDetailsProps {
+  requestId: string;
+  className?: string;
+}
+
+const formatDate = (date?: Date) => (date ? format(new Date(date), "PP") : "—");
+
+// Show only the last four digits of bank details
+const maskAccount = (value?: string) => (value ? `•••• ${value.slice(-4)}` : "—");
+
+// Invoice facts an approver needs alongside an 'Invoice' request
+export default function InvoiceDetails({ requestId, className }: InvoiceDetailsProps) {
+  const { data: invoice, isLoading } = useQuery<Invoice | null>({
+    queryKey: ["/api/requests", requestId, "invoice"],
+  });
+
+  if (isLoading) return null;
+  if (!invoice) {
+    return <p className="text-sm text-muted-foreground">No invoice is linked to this request.</p>;
+  }
+
+  const money = (value: number) => `${invoice.currency} ${value.toLocaleString()}`;
+
+  const rows: [string, string][] = [
+    ["Vendor", invoice.vendorName],
+    ["Vendor Tax ID", invoice.vendorTaxId || "—"],
+    ["Invoice Date", formatDate(invoice.invoiceDate)],
+    ["Due Date", formatDate(invoice.dueDate)],
+    ["Total", money(invoice.totalAmount)],
+    ["Tax", money(invoice.taxAmount)],
+    ["Discount", money(invoice.discountAmount)],
+    ["Net Payable", money(invoice.netAmount)],
+    ["Payment Method", invoice.paymentMethod || "—"],
+    ["Payment Terms", invoice.paymentTerms || "—"],
+    ["Expected Payment", formatDate(invoice.expectedPaymentDate)],
+    ["PO Number", invoice.purchaseOrderNumber || "—"],
+    ["Contract Number", invoice.contractNumber || "—"],
+    ["Bank Account", maskAccount(invoice.bankAccount)],
+    ["Routing Number", maskAccount(invoice.routingNumber)],
+  ];
+
+  return (
+    <div className={className} data-testid={`invoice-details-${invoice.id}`}>
+      <h4 className="font-medium mb-2 flex items-center gap-2">
+        <Receipt className="h-4 w-4" />
+        Invoice {invoice.invoiceNumber}
+        {invoice.taxExempt && <Badge variant="outline">Tax exempt</Badge>}
+      </h4>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+        {rows.map(([label, value]) => (
+          <div key={label}>
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="font-medium">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      {invoice.paymentInstructions && (
+        <p className="text-sm text-muted-foreground mt-2">{invoice.paymentInstructions}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ScanText, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { canExtractText, extractDocumentText } from "@/lib/ocr";
+import { extractInvoiceFields } from "@/lib/invoiceExtraction";
+import type { ExtractedInvoice } from "@/lib/invoiceExtraction";
+
+interface InvoiceScannerProps {
+  onExtracted: (fields: ExtractedInvoice, file: File) => void;
+}
+
+// Reads an invoice PDF or photo in the browser and hands back the fields it could find
+export default function InvoiceScanner({ onExtracted }: InvoiceScannerProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  const handleFile = async (file: File) => {
+    if (!canExtractText(file)) {
+      toast({
+        title: "Unsupported file",
+        description: "Scan a PDF or an image (PNG, JPG) of the invoice.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setStatus("Reading document");
+    setProgress(0);
+    try {
+      const scanned = await extractDocumentText(file, (step, value) => {
+        setStatus(step.charAt(0).toUpperCase() + step.slice(1));
+        setProgress(Math.round(value * 100));
+      });
+      onExtracted(extractInvoiceFields(scanned.text, scanned.confidence), file);
+    } catch (error: any) {
+      console.error("Invoice scan failed:", error);
+      toast({
+        title: "Scan failed",
+        description: error.message || "Could not read the document. Please fill in the form manually.",
+        variant: "destructive",
+      });
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  return (
+    <div className="border border-dashed border-border rounded-lg p-4 mb-6" data-testid="invoice-scanner">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="font-medium flex items-center gap-2">
+            <ScanText className="h-4 w-4" />
+            Scan invoice to prefill
+          </p>
+          <p className="text-sm text-muted-foreground">
+            The document is read on this device; nothing is uploaded. Check each prefilled field before submitting.
+          </p>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".pdf,.jpg,.jpeg,.png,.webp,.bmp"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) handleFile(file);
+          }}
+          data-testid="input-scan-invoice"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => inputRef.current?.click()}
+          disabled={!!status}
+          data-testid="button-scan-invoice"
+        >
+          {status ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ScanText className="h-4 w-4 mr-2" />}
+          {status ? "Scanning..." : "Scan Invoice"}
+        </Button>
+      </div>
+      {status && (
+        <div className="mt-3 space-y-1">
+          <Progress value={progress} />
+          <p className="text-xs text-muted-foreground">{status}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,10 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
+import InvoiceScanner from '@/components/invoice-scanner';
+import ExtractionConfidence from '@/components/extraction-confidence';
+import type { ExtractionState } from '@/components/extraction-confidence';
+import type { ExtractableField, ExtractedInvoice } from '@/lib/invoiceExtraction';
 import { 
   Upload, 
   FileText, 
@@ -160,6 +164,7 @@ export const InvoiceUploadForm: React.FC<InvoiceUploadFormProps> = ({
 
   const [currentSection, setCurrentSection] = useState('basic');
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  const [extraction, setExtraction] = useState<Partial<Record<ExtractableField, ExtractionState>>>({});
 
   const sections = [
     { id: 'basic', title: 'Basic Information', icon: FileText },
@@ -171,12 +176,21 @@ export const InvoiceUploadForm: React.FC<InvoiceUploadFormProps> = ({
     { id: 'documents', title: 'Documents & Notes', icon: Upload },
   ];
 
+  const acceptExtractedField = (field: ExtractableField) => {
+    setExtraction(prev => prev[field] ? { ...prev, [field]: { ...prev[field]!, accepted: true } } : prev);
+  };
+
   const handleInputChange = (field: keyof InvoiceFormData, value: any) => {
     setFormData(prev => ({
       ...prev,
       [field]: value
     }));
 
+    // Editing a scanned value counts as correcting it
+    if (field in extraction) {
+      acceptExtractedField(field as ExtractableField);
+    }
+
     // Auto-calculate net amount
     if (field === 'totalAmount' || field === 'taxAmount' || field === 'discountAmount') {
       const total = field === 'totalAmount' ? value : formData.totalAmount;
@@ -198,6 +212,48 @@ export const InvoiceUploadForm: React.FC<InvoiceUploadFormProps> = ({
     }));
   };
 
+  // Prefill from a scanned invoice; the scanned file is kept as a supporting document
+  const handleExtracted = (fields: ExtractedInvoice, file: File) => {
+    const found = Object.keys(fields) as ExtractableField[];
+    if (found.length === 0) {
+      toast({
+        title: "Nothing found",
+        description: "No invoice fields could be read from this document. Please fill in the form manually.",
+      });
+    }
+
+    setFormData(prev => {
+      const next = { ...prev, supportingDocuments: [...prev.supportingDocuments, file] };
+      for (const field of found) {
+        (next as any)[field] = fields[field]!.value;
+      }
+      next.netAmount = next.totalAmount + next.taxAmount - next.discountAmount;
+      return next;
+    });
+    setUploadedFiles(prev => [...prev, file]);
+    setExtraction(Object.fromEntries(
+      found.map(field => [field, { confidence: fields[field]!.confidence, accepted: false }])
+    ));
+
+    if (found.length > 0) {
+      toast({
+        title: "Invoice scanned",
+        description: `Prefilled ${found.length} field${found.length === 1 ? '' : 's'}. Review the highlighted values before submitting.`,
+      });
+    }
+  };
+
+  const renderLabel = (field: ExtractableField, text: string) => (
+    <div className="flex items-center justify-between gap-2">
+      <Label htmlFor={field}>{text}</Label>
+      <ExtractionConfidence
+        field={field}
+        state={extraction[field]}
+        onAccept={() => acceptExtractedField(field)}
+      />
+    </div>
+  );
+
   const removeFile = (index: number) => {
     setUploadedFiles(prev => prev.filter((_, i) => i !== index));
     setFormData(prev => ({
@@ -226,7 +282,7 @@ export const InvoiceUploadForm: React.FC<InvoiceUploadFormProps> = ({
     <div className="space-y-6">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
-          <Label htmlFor="invoiceNumber">Invoice Number *</Label>
+          {renderLabel('invoiceNumber', 'Invoice Number *')}
           <Input
             id="invoiceNumber"
             value={formData.invoiceNumber}
@@ -237,7 +293,7 @@ export const InvoiceUploadForm: React.FC<InvoiceUploadFormProps> = ({
         </div>
         
         <div>
-          <Label htmlFor="invoiceDate">Invoice Date *</Label>
+          {renderLabel('invoiceDate', 'Invoice Date *')}
           <Input
             id="invoiceDate"
             type="date"
@@ -248,7 +304,7 @@ export const InvoiceUploadForm: React.FC<InvoiceUploadFormProps> = ({
         </div>
         
         <div>
-          <Label htmlFor="dueDate">Due Date *</Label>
+          {renderLabel('dueDate', 'Due Date *')}
           <Input
             id="dueDate"
             type="date"
@@ -290,7 +346,7 @@ export const InvoiceUploadForm: React.FC<InvoiceUploadFormProps> = ({
   const renderVendorDetails = () => (
     <div className="space-y-6">
       <div>
-        <Label htmlFor="vendorName">Vendor Name *</Label>
+        {renderLabel('vendorName', 'Vendor Name *')}
         <Input
           id="vendorName"
           value={formData.vendorName}
@@ -334,7 +390,7 @@ export const InvoiceUploadForm: React.FC<InvoiceUploadFormProps> = ({
         </div>
         
         <div>
-          <Label htmlFor="vendorTaxId">Vendor Tax ID</Label>
+          {renderLabel('vendorTaxId', 'Vendor Tax ID')}
           <Input
             id="vendorTaxId"
             value={formData.vendorTaxId}
@@ -350,7 +406,7 @@ export const InvoiceUploadForm: React.FC<InvoiceUploadFormProps> = ({
     <div className="space-y-6">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
-          <Label htmlFor="totalAmount">Total Amount *</Label>
+          {renderLabel('totalAmount', 'Total Amount *')}
           <Input
             id="totalAmount"
             type="number"
@@ -363,7 +419,7 @@ export const InvoiceUploadForm: React.FC<InvoiceUploadFormProps> = ({
         </div>
         
         <div>
-          <Label htmlFor="currency">Currency</Label>
+          {renderLabel('currency', 'Currency')}
           <Select value={formData.currency} onValueChange={(value) => handleInputChange('currency', value)}>
             <SelectTrigger>
               <SelectValue />
@@ -380,7 +436,7 @@ export const InvoiceUploadForm: React.FC<InvoiceUploadFormProps> = ({
         </div>
         
         <div>
-          <Label htmlFor="taxAmount">Tax Amount</Label>
+          {renderLabel('taxAmount', 'Tax Amount')}
           <Input
             id="taxAmount"
             type="number"
@@ -794,6 +850,8 @@ export const InvoiceUploadForm: React.FC<InvoiceUploadFormProps> = ({
       </CardHeader>
 
       <CardContent>
+        <InvoiceScanner onExtracted={handleExtracted} />
+
         {/* Section Navigation */}
         <div className="flex flex-wrap gap-2 mb-6">
           {sections.map((section) => {
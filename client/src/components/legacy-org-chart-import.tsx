@@ -0,0 +1,89 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { History } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Organization } from "@/lib/database";
+
+// Offers the org chart an older build kept on this device to the admin looking at their org's
+// chart, instead of merging it into whichever org opens the chart first
+export default function LegacyOrgChartImport() {
+  const { toast } = useToast();
+
+  const { data: organization } = useQuery<Organization>({
+    queryKey: ["/api/organization"],
+  });
+
+  const { data: legacy } = useQuery<{ members: number }>({
+    queryKey: ["/api/org-chart/legacy"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/org-chart/legacy/import");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/org-chart"] });
+      queryClient.setQueryData(["/api/org-chart/legacy"], { members: 0 });
+      toast({ title: "Earlier org chart imported" });
+    },
+    onError,
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/org-chart/legacy");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/org-chart/legacy"], { members: 0 });
+      toast({ title: "Earlier org chart discarded" });
+    },
+    onError,
+  });
+
+  if (!legacy?.members) return null;
+  const isPending = importMutation.isPending || discardMutation.isPending;
+  const organizationName = organization?.name || "this organization";
+
+  return (
+    <Alert data-testid="alert-legacy-org-chart">
+      <History className="h-4 w-4" />
+      <AlertTitle>Org chart from an earlier version</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          This device still has an org chart from an earlier version of RapidFunds with {legacy.members}{" "}
+          {legacy.members === 1 ? "person" : "people"}. It was not kept per organization, so only import it if it
+          belongs to {organizationName}. People already on the chart are skipped.
+        </p>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            onClick={() => importMutation.mutate()}
+            disabled={isPending}
+            data-testid="button-import-legacy-org-chart"
+          >
+            Import into {organizationName}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => discardMutation.mutate()}
+            disabled={isPending}
+            data-testid="button-discard-legacy-org-chart"
+          >
+            Discard
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Check, UserCheck, X } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, readJson } from "@/lib/queryClient";
+import { MemberApprovalPolicy, OrgRequest } from "@/lib/database";
+
+interface MemberRequestQueueProps {
+  policy?: MemberApprovalPolicy;
+  canEditPolicy: boolean;
+  isSaving?: boolean;
+  onPolicyChange: (policy: MemberApprovalPolicy) => void;
+}
+
+const SOURCES: Record<string, string> = {
+  invite: "Invite link",
+  code: "Organization code",
+  domain: "Email domain",
+};
+
+const describeChange = (previous?: string, next?: string) => `${previous || "None"} → ${next || "None"}`;
+
+export default function MemberRequestQueue({ policy, canEditPolicy, isSaving, onPolicyChange }: MemberRequestQueueProps) {
+  const { toast } = useToast();
+  const [joins, setJoins] = useState(policy?.joins ?? false);
+  const [profileChanges, setProfileChanges] = useState(policy?.profileChanges ?? false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setJoins(policy?.joins ?? false);
+    setProfileChanges(policy?.profileChanges ?? false);
+  }, [policy]);
+
+  const { data: requests = [], isLoading } = useQuery<OrgRequest[]>({
+    queryKey: ["/api/org-requests"],
+  });
+
+  const pending = requests
+    .filter((request) => request.status === "pending" && (request.type === "join" || request.type === "change"))
+    .sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime());
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ request, approved }: { request: OrgRequest; approved: boolean }) => {
+      const res = await apiRequest("POST", `/api/org-requests/${request.requestId}/${approved ? "approve" : "reject"}`, {
+        note: notes[request.requestId] || undefined,
+      });
+      return await readJson<OrgRequest>(res);
+    },
+    onSuccess: (handled, { request }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/org-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setNotes((prev) => {
+        const next = { ...prev };
+        delete next[request.requestId];
+        return next;
+      });
+      toast({
+        title: handled.status === "approved" ? "Request approved" : "Request declined",
+        description: `${request.payload.fullName} has been notified`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      {canEditPolicy && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Member Approvals</CardTitle>
+            <CardDescription>
+              Hold new members and profile edits until an admin reviews them below.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="approve-joins">Approve new members</Label>
+                <p className="text-sm text-muted-foreground">
+                  People joining with an invite or the organization code can sign in once approved.
+                </p>
+              </div>
+              <Switch id="approve-joins" checked={joins} onCheckedChange={setJoins} data-testid="switch-approve-joins" />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="approve-profile-changes">Approve department and job title changes</Label>
+                <p className="text-sm text-muted-foreground">
+                  Members who can't manage members wait for approval before these change on their profile.
+                </p>
+              </div>
+              <Switch
+                id="approve-profile-changes"
+                checked={profileChanges}
+                onCheckedChange={setProfileChanges}
+                data-testid="switch-approve-profile-changes"
+              />
+            </div>
+            <Button
+              onClick={() => onPolicyChange({ joins, profileChanges })}
+              disabled={isSaving}
+              data-testid="button-save-member-approvals"
+            >
+              {isSaving ? "Saving..." : "Save Approval Settings"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserCheck className="h-5 w-5" />
+            Pending Requests
+            {pending.length > 0 && <Badge variant="secondary">{pending.length}</Badge>}
+          </CardTitle>
+          <CardDescription>Join requests and profile changes waiting for a decision, oldest first.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading requests...</p>
+          ) : pending.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-member-requests">
+              Nothing waiting for review.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {pending.map((request) => {
+                const { payload } = request;
+                const isDeciding = decideMutation.isPending && decideMutation.variables?.request.requestId === request.requestId;
+                return (
+                  <div
+                    key={request.requestId}
+                    className="p-4 border border-border rounded-md space-y-3"
+                    data-testid={`member-request-${request.requestId}`}
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="font-medium">{payload.fullName}</p>
+                        <p className="text-sm text-muted-foreground">{payload.email}</p>
+                      </div>
+                      <div className="text-right">
+                        <Badge variant="outline">{request.type === "join" ? "Join" : "Profile change"}</Badge>
+                        <p className="text-xs text-muted-foreground mt-1">{format(new Date(request.submittedAt), "PPp")}</p>
+                      </div>
+                    </div>
+
+                    {request.type === "join" ? (
+                      <p className="text-sm">
+                        Joining as <strong>{payload.role}</strong>
+                        {payload.department && <> in {payload.department}</>}
+                        {payload.source && <span className="text-muted-foreground"> · via {SOURCES[payload.source] ?? payload.source}</span>}
+                      </p>
+                    ) : (
+                      <div className="text-sm space-y-1">
+                        {"department" in payload.changes && (
+                          <p>Department: {describeChange(payload.previous?.department, payload.changes.department)}</p>
+                        )}
+                        {"jobTitle" in payload.changes && (
+                          <p>Job title: {describeChange(payload.previous?.jobTitle, payload.changes.jobTitle)}</p>
+                        )}
+                      </div>
+                    )}
+
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                      <Input
+                        placeholder="Note to the requester (optional)"
+                        value={notes[request.requestId] ?? ""}
+                        onChange={(e) => setNotes((prev) => ({ ...prev, [request.requestId]: e.target.value }))}
+                        data-testid={`input-member-request-note-${request.requestId}`}
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => decideMutation.mutate({ request, approved: true })}
+                          disabled={isDeciding}
+                          data-testid={`button-approve-member-request-${request.requestId}`}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => decideMutation.mutate({ request, approved: false })}
+                          disabled={isDeciding}
+                          data-testid={`button-reject-member-request-${request.requestId}`}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Decline
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
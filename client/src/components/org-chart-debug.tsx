@@ -12,8 +12,9 @@ import {
   Eye,
   EyeOff
 } from 'lucide-react';
-import { User, OrgMember, OrgChart } from '@/lib/database';
+import { User, OrgMember } from '@/lib/database';
 import { useAuth } from '@/hooks/use-auth';
+import { useOrgHierarchy } from '@/hooks/use-org-hierarchy';
 
 export default function OrgChartDebug() {
   const { user } = useAuth();
@@ -30,10 +31,7 @@ export default function OrgChartDebug() {
     enabled: !!user?.orgId,
   });
 
-  const { data: orgChart, isLoading: chartLoading } = useQuery<OrgChart | null>({
-    queryKey: ["/api/org-chart"],
-    enabled: !!user?.orgId,
-  });
+  const { nodes: chartNodes, isLoading: chartLoading } = useOrgHierarchy(!!user?.orgId);
 
   if (!user || user.role !== 'Admin') {
     return null;
@@ -41,9 +39,9 @@ export default function OrgChartDebug() {
 
   const totalUsers = allUsers?.length || 0;
   const totalMembers = orgMembers?.length || 0;
-  const totalNodes = orgChart?.nodes?.length || 0;
+  const totalNodes = chartNodes.length;
   const availableUsers = allUsers?.filter(user => 
-    !orgChart?.nodes?.some(node => node.userId === user.id)
+    !chartNodes.some(node => node.userId === user.id)
   ) || [];
 
   return (
@@ -122,11 +120,11 @@ export default function OrgChartDebug() {
           )}
 
           {/* Org Chart Nodes */}
-          {orgChart?.nodes && orgChart.nodes.length > 0 && (
+          {chartNodes.length > 0 && (
             <div className="space-y-2">
               <h4 className="font-medium text-gray-900">Current Org Chart Nodes:</h4>
               <div className="max-h-32 overflow-y-auto space-y-1">
-                {orgChart.nodes.map((node) => (
+                {chartNodes.map((node) => (
                   <div key={node.id} className="flex items-center justify-between p-2 bg-white rounded border">
                     <div>
                       <span className="font-medium text-sm">{node.name}</span>
@@ -202,7 +200,7 @@ export default function OrgChartDebug() {
               onClick={() => {
                 console.log('All Users:', allUsers);
                 console.log('Org Members:', orgMembers);
-                console.log('Org Chart:', orgChart);
+                console.log('Org Chart:', chartNodes);
                 console.log('Available Users:', availableUsers);
               }}
             >
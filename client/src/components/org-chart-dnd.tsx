@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { DndProvider, useDrag, useDrop } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -23,25 +23,36 @@ import {
   Building
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { 
-  OrgChartMember, 
-  getOrgChartMembers, 
-  addOrgChartMember, 
-  updateOrgChartMember, 
-  deleteOrgChartMember,
-  buildOrgChartTree,
-  searchOrgChartMembers,
-  seedOrgChartData
-} from '@/lib/orgChartDB';
+import { apiRequest, queryClient, readJson } from '@/lib/queryClient';
+import { ApiError } from '@/lib/apiRouter';
+import { useOrgHierarchy } from '@/hooks/use-org-hierarchy';
+import { useHierarchyLevels, levelCardStyle } from '@/hooks/use-hierarchy-levels';
+import { buildTree, getDescendants } from '@/lib/hierarchy';
+import type { HierarchyTreeNode } from '@/lib/hierarchy';
+import type { OrgChartNode } from '@/lib/database';
+import type { OrgChartViolation } from '@shared/orgChartRules';
+import OrgChartViolations from './org-chart-violations';
+
+type NewMember = Pick<OrgChartNode, 'name' | 'role' | 'department' | 'email'> & { parentId?: string };
+
+const refreshChart = () => queryClient.invalidateQueries({ queryKey: ['/api/org-chart'] });
+
+// The rule violations a refused chart change came back with, if that is why it failed
+const chartViolations = (error: unknown): OrgChartViolation[] | null => {
+  const details = error instanceof ApiError ? error.details as { violations?: OrgChartViolation[] } | undefined : undefined;
+  return details?.violations?.length ? details.violations : null;
+};
 
 interface TreeNodeProps {
-  member: OrgChartMember & { children: OrgChartMember[] };
+  member: HierarchyTreeNode;
   level: number;
   isAdmin: boolean;
-  onEdit: (member: OrgChartMember & { children: OrgChartMember[] }) => void;
+  onEdit: (member: HierarchyTreeNode) => void;
   onDelete: (id: string) => void;
   onAddChild: (parentId: string) => void;
   onMove: (draggedId: string, targetId: string) => void;
+  canMove: (draggedId: string, targetId: string) => boolean;
+  flaggedIds: Set<string>;
   expandedNodes: Set<string>;
   onToggleExpand: (id: string) => void;
 }
@@ -54,15 +65,20 @@ const TreeNode: React.FC<TreeNodeProps> = ({
   onDelete,
   onAddChild,
   onMove,
+  canMove,
+  flaggedIds,
   expandedNodes,
   onToggleExpand
 }) => {
   const isExpanded = expandedNodes.has(member.id);
   const hasChildren = member.children.length > 0;
+  const { levelOf } = useHierarchyLevels();
+  const hierarchyLevel = levelOf(member);
+  const colors = levelCardStyle(hierarchyLevel);
 
   const [{ isDragging }, drag] = useDrag({
     type: 'member',
-    item: { id: member.id, level: member.level },
+    item: { id: member.id },
     collect: (monitor) => ({
       isDragging: monitor.isDragging(),
     }),
@@ -70,33 +86,19 @@ const TreeNode: React.FC<TreeNodeProps> = ({
 
   const [{ isOver, canDrop }, drop] = useDrop({
     accept: 'member',
-    drop: (item: { id: string; level: number }) => {
+    drop: (item: { id: string }) => {
       if (item.id !== member.id) {
         onMove(item.id, member.id);
       }
     },
-    canDrop: (item: { id: string; level: number }) => {
-      // Can drop if the target is at a different level
-      return item.level !== member.level;
-    },
+    // Nobody can be dropped onto themselves or anyone who reports to them
+    canDrop: (item: { id: string }) => canMove(item.id, member.id),
     collect: (monitor) => ({
       isOver: monitor.isOver(),
       canDrop: monitor.canDrop(),
     }),
   });
 
-  const getLevelColor = (level: number) => {
-    const colors = [
-      'bg-purple-100 text-purple-800 border-purple-200', // L0 - CEO
-      'bg-blue-100 text-blue-800 border-blue-200',       // L1 - C-Level
-      'bg-green-100 text-green-800 border-green-200',    // L2 - VP
-      'bg-yellow-100 text-yellow-800 border-yellow-200', // L3 - Director
-      'bg-orange-100 text-orange-800 border-orange-200', // L4 - Manager
-      'bg-gray-100 text-gray-800 border-gray-200',       // L5+ - Individual
-    ];
-    return colors[Math.min(level, colors.length - 1)];
-  };
-
   const getRoleIcon = (role: string) => {
     if (role.toLowerCase().includes('ceo') || role.toLowerCase().includes('president')) {
       return <Crown className="h-4 w-4" />;
@@ -119,10 +121,16 @@ const TreeNode: React.FC<TreeNodeProps> = ({
         className={cn(
           "flex items-center gap-3 p-3 rounded-lg border-2 transition-all duration-200",
           "hover:shadow-md cursor-pointer",
-          getLevelColor(member.level),
-          isOver && canDrop && "border-blue-500"
+          isOver && canDrop && "border-blue-500",
+          flaggedIds.has(member.id) && "border-red-500 ring-2 ring-red-200"
         )}
-        style={{ marginLeft: `${level * 20}px` }}
+        style={{
+          ...colors,
+          // Drop targets and rule violations keep their highlight border
+          borderColor: (isOver && canDrop) || flaggedIds.has(member.id) ? undefined : colors.borderColor,
+          marginLeft: `${level * 20}px`
+        }}
+        data-testid={`org-node-${member.id}`}
       >
         {/* Expand/Collapse Button */}
         {hasChildren && (
@@ -149,7 +157,7 @@ const TreeNode: React.FC<TreeNodeProps> = ({
             {getRoleIcon(member.role)}
             <h3 className="font-semibold text-sm truncate">{member.name}</h3>
             <Badge variant="outline" className="text-xs">
-              L{member.level}
+              {hierarchyLevel.name}
             </Badge>
           </div>
           <p className="text-xs text-gray-600 truncate">{member.role}</p>
@@ -204,13 +212,15 @@ const TreeNode: React.FC<TreeNodeProps> = ({
           {member.children.map((child) => (
             <TreeNode
               key={child.id}
-              member={child as OrgChartMember & { children: OrgChartMember[] }}
+              member={child}
               level={level + 1}
               isAdmin={isAdmin}
               onEdit={onEdit}
               onDelete={onDelete}
               onAddChild={onAddChild}
               onMove={onMove}
+              canMove={canMove}
+              flaggedIds={flaggedIds}
               expandedNodes={expandedNodes}
               onToggleExpand={onToggleExpand}
             />
@@ -224,9 +234,9 @@ const TreeNode: React.FC<TreeNodeProps> = ({
 interface AddMemberDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (member: Omit<OrgChartMember, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  onSubmit: (member: NewMember) => void;
   parentId?: string;
-  existingMembers: OrgChartMember[];
+  existingMembers: OrgChartNode[];
 }
 
 const AddMemberDialog: React.FC<AddMemberDialogProps> = ({
@@ -241,10 +251,9 @@ const AddMemberDialog: React.FC<AddMemberDialogProps> = ({
     role: '',
     department: '',
     email: '',
-    level: 0,
   });
 
-  const [aiSuggestions, setAiSuggestions] = useState<OrgChartMember[]>([]);
+  const [aiSuggestions, setAiSuggestions] = useState<OrgChartNode[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
 
   // AI-powered suggestions based on existing members
@@ -269,7 +278,7 @@ const AddMemberDialog: React.FC<AddMemberDialogProps> = ({
     setShowSuggestions(true);
   };
 
-  const handleSuggestionSelect = (suggestion: OrgChartMember) => {
+  const handleSuggestionSelect = (suggestion: OrgChartNode) => {
     setFormData(prev => ({
       ...prev,
       name: suggestion.name,
@@ -284,10 +293,11 @@ const AddMemberDialog: React.FC<AddMemberDialogProps> = ({
     e.preventDefault();
     onSubmit({
       ...formData,
-      parentId: parentId || null,
-      isActive: true,
+      department: formData.department || undefined,
+      email: formData.email || undefined,
+      parentId,
     });
-    setFormData({ name: '', role: '', department: '', email: '', level: 0 });
+    setFormData({ name: '', role: '', department: '', email: '' });
     onClose();
   };
 
@@ -359,26 +369,6 @@ const AddMemberDialog: React.FC<AddMemberDialogProps> = ({
             />
           </div>
 
-          <div>
-            <Label htmlFor="level">Level</Label>
-            <Select
-              value={formData.level.toString()}
-              onValueChange={(value) => setFormData(prev => ({ ...prev, level: parseInt(value) }))}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="Select level" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="0">L0 - Executive</SelectItem>
-                <SelectItem value="1">L1 - C-Level</SelectItem>
-                <SelectItem value="2">L2 - VP</SelectItem>
-                <SelectItem value="3">L3 - Director</SelectItem>
-                <SelectItem value="4">L4 - Manager</SelectItem>
-                <SelectItem value="5">L5 - Individual</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
           <div className="flex justify-end gap-2 pt-4">
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
@@ -396,70 +386,72 @@ interface OrgChartDnDProps {
 }
 
 const OrgChartDnD: React.FC<OrgChartDnDProps> = ({ isAdmin }) => {
-  const [members, setMembers] = useState<(OrgChartMember & { children: OrgChartMember[] })[]>([]);
+  const { nodes, hierarchy } = useOrgHierarchy();
+  const { levels, levelOf } = useHierarchyLevels();
+  const members = useMemo(() => buildTree(hierarchy), [hierarchy]);
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
   const [searchQuery, setSearchQuery] = useState('');
   const [filterLevel, setFilterLevel] = useState<string>('all');
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
-  const [editingMember, setEditingMember] = useState<(OrgChartMember & { children: OrgChartMember[] }) | null>(null);
+  const [editingMember, setEditingMember] = useState<HierarchyTreeNode | null>(null);
   const [selectedParentId, setSelectedParentId] = useState<string | undefined>();
+  const [violations, setViolations] = useState<OrgChartViolation[]>([]);
+  const flaggedIds = useMemo(() => new Set(violations.map(violation => violation.nodeId)), [violations]);
   const { toast } = useToast();
 
-  const loadMembers = useCallback(async () => {
-    try {
-      const treeData = await buildOrgChartTree();
-      setMembers(treeData as (OrgChartMember & { children: OrgChartMember[] })[]);
-      
-      // Auto-expand first level
-      const firstLevelIds = treeData.map(member => member.id);
-      setExpandedNodes(new Set(firstLevelIds));
-    } catch (error) {
-      console.error('Error loading members:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load organization chart",
-        variant: "destructive",
-      });
-    }
-  }, [toast]);
-
+  // Auto-expand first level once the chart loads
   useEffect(() => {
-    loadMembers();
-  }, [loadMembers]);
+    setExpandedNodes(prev => prev.size > 0 ? prev : new Set(hierarchy.roots.map(member => member.id)));
+  }, [hierarchy]);
+
+  // Broken chart rules are listed above the chart; anything else is a toast
+  const showError = (error: unknown, fallback: string) => {
+    const found = chartViolations(error);
+    if (found) {
+      setViolations(found);
+      return;
+    }
+    console.error(fallback, error);
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
 
-  const handleAddMember = async (memberData: Omit<OrgChartMember, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const handleAddMember = async (memberData: NewMember) => {
     try {
-      await addOrgChartMember(memberData);
-      await loadMembers();
+      // A new member sits one level below their manager
+      const parent = memberData.parentId ? hierarchy.byId.get(memberData.parentId) : undefined;
+      const res = await apiRequest('POST', '/api/org-chart/nodes', {
+        ...memberData,
+        level: parent ? parent.level + 1 : 1,
+      });
+      await readJson(res);
+      setViolations([]);
+      await refreshChart();
       toast({
         title: "Success",
         description: "Member added successfully",
       });
     } catch (error) {
-      console.error('Error adding member:', error);
-      toast({
-        title: "Error",
-        description: "Failed to add member",
-        variant: "destructive",
-      });
+      showError(error, "Failed to add member");
     }
   };
 
-  const handleEditMember = async (member: OrgChartMember & { children: OrgChartMember[] }) => {
+  const handleEditMember = async (member: HierarchyTreeNode) => {
     try {
-      await updateOrgChartMember(member.id, member);
-      await loadMembers();
+      const { id, orgId, children, createdAt, updatedAt, ...changes } = member;
+      const res = await apiRequest('PUT', `/api/org-chart/${id}`, changes);
+      await readJson(res);
+      setViolations([]);
+      await refreshChart();
       toast({
         title: "Success",
         description: "Member updated successfully",
       });
     } catch (error) {
-      console.error('Error updating member:', error);
-      toast({
-        title: "Error",
-        description: "Failed to update member",
-        variant: "destructive",
-      });
+      showError(error, "Failed to update member");
     }
   };
 
@@ -467,48 +459,39 @@ const OrgChartDnD: React.FC<OrgChartDnDProps> = ({ isAdmin }) => {
     if (!confirm('Are you sure you want to delete this member?')) return;
 
     try {
-      await deleteOrgChartMember(id);
-      await loadMembers();
+      const res = await apiRequest('DELETE', `/api/org-chart/${id}`);
+      await readJson(res);
+      await refreshChart();
       toast({
         title: "Success",
         description: "Member deleted successfully",
       });
     } catch (error) {
-      console.error('Error deleting member:', error);
-      toast({
-        title: "Error",
-        description: "Failed to delete member",
-        variant: "destructive",
-      });
+      showError(error, "Failed to delete member");
     }
   };
 
+  const canMove = useCallback((draggedId: string, targetId: string) => {
+    return draggedId !== targetId && !getDescendants(hierarchy, draggedId).some(node => node.id === targetId);
+  }, [hierarchy]);
+
   const handleMoveMember = async (draggedId: string, targetId: string) => {
     try {
-      const allMembers = await getOrgChartMembers();
-      const draggedMember = allMembers.find(m => m.id === draggedId);
-      const targetMember = allMembers.find(m => m.id === targetId);
-
-      if (draggedMember && targetMember) {
-        // Update the dragged member's parent and level
-        await updateOrgChartMember(draggedId, {
-          parentId: targetId,
-          level: targetMember.level + 1,
+      if (hierarchy.byId.has(draggedId) && hierarchy.byId.has(targetId)) {
+        // The server relevels the dragged member and everyone below them
+        const res = await apiRequest('PUT', `/api/org-chart/${draggedId}/move`, {
+          newParentId: targetId,
         });
-        
-        await loadMembers();
+        await readJson(res);
+        setViolations([]);
+        await refreshChart();
         toast({
           title: "Success",
           description: "Member moved successfully",
         });
       }
     } catch (error) {
-      console.error('Error moving member:', error);
-      toast({
-        title: "Error",
-        description: "Failed to move member",
-        variant: "destructive",
-      });
+      showError(error, "Failed to move member");
     }
   };
 
@@ -536,7 +519,7 @@ const OrgChartDnD: React.FC<OrgChartDnDProps> = ({ isAdmin }) => {
     }
 
     if (filterLevel !== 'all') {
-      return member.level === parseInt(filterLevel);
+      return levelOf(member).id === filterLevel;
     }
 
     return true;
@@ -578,18 +561,16 @@ const OrgChartDnD: React.FC<OrgChartDnDProps> = ({ isAdmin }) => {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Levels</SelectItem>
-                <SelectItem value="0">L0 - Executive</SelectItem>
-                <SelectItem value="1">L1 - C-Level</SelectItem>
-                <SelectItem value="2">L2 - VP</SelectItem>
-                <SelectItem value="3">L3 - Director</SelectItem>
-                <SelectItem value="4">L4 - Manager</SelectItem>
-                <SelectItem value="5">L5 - Individual</SelectItem>
+                {levels.map(level => (
+                  <SelectItem key={level.id} value={level.id}>{level.name}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
         </CardHeader>
 
         <CardContent>
+          <OrgChartViolations violations={violations} onDismiss={() => setViolations([])} />
           {filteredMembers.length === 0 ? (
             <div className="text-center py-8">
               <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -621,6 +602,8 @@ const OrgChartDnD: React.FC<OrgChartDnDProps> = ({ isAdmin }) => {
                     setIsAddDialogOpen(true);
                   }}
                   onMove={handleMoveMember}
+                  canMove={canMove}
+                  flaggedIds={flaggedIds}
                   expandedNodes={expandedNodes}
                   onToggleExpand={toggleExpand}
                 />
@@ -639,7 +622,7 @@ const OrgChartDnD: React.FC<OrgChartDnDProps> = ({ isAdmin }) => {
         }}
         onSubmit={handleAddMember}
         parentId={selectedParentId}
-        existingMembers={members.flatMap(m => [m, ...m.children]) as OrgChartMember[]}
+        existingMembers={nodes}
       />
     </DndProvider>
   );
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useOrgHierarchy } from "@/hooks/use-org-hierarchy";
+import { EXPORT_FORMAT_LABELS, exportOrgChart } from "@/lib/orgChartExport";
+import type { ExportFormat, ExportScope } from "@/lib/orgChartExport";
+import { Organization, User } from "@/lib/database";
+import { Download } from "lucide-react";
+
+interface OrgChartExportDialogProps {
+  viewIds: string[];          // the nodes the chart is showing right now
+  selectedId?: string;        // preselects the subtree under this node
+}
+
+// Export the chart as it is on screen, in full, or from one person down
+export default function OrgChartExportDialog({ viewIds, selectedId }: OrgChartExportDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("pdf");
+  const [scope, setScope] = useState<ExportScope>("view");
+  const [rootId, setRootId] = useState<string | undefined>(selectedId);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { nodes } = useOrgHierarchy();
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+  const { data: organization } = useQuery<Organization>({
+    queryKey: ["/api/organization"],
+  });
+
+  const sortedNodes = [...nodes].sort((a, b) => a.name.localeCompare(b.name));
+  const canExport = scope !== "subtree" || !!rootId;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportOrgChart(format, { scope, viewIds, rootId }, { nodes, users, organization });
+      setOpen(false);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "The org chart could not be exported",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setRootId(selectedId ?? rootId);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={nodes.length === 0} data-testid="button-export-org-chart">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Org Chart</DialogTitle>
+          <DialogDescription>
+            Images and PDFs use your organization's logo and colors. A JSON export can be imported back in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger data-testid="select-export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((key) => (
+                  <SelectItem key={key} value={key}>{EXPORT_FORMAT_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>What to export</Label>
+            <Select value={scope} onValueChange={(value) => setScope(value as ExportScope)}>
+              <SelectTrigger data-testid="select-export-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="view">Current view ({viewIds.length} people)</SelectItem>
+                <SelectItem value="full">Full chart ({nodes.length} people)</SelectItem>
+                <SelectItem value="subtree">One person and everyone under them</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {scope === "subtree" && (
+            <div className="space-y-1">
+              <Label>Starting from</Label>
+              <Select value={rootId} onValueChange={setRootId}>
+                <SelectTrigger data-testid="select-export-root">
+                  <SelectValue placeholder="Choose a person" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sortedNodes.map((node) => (
+                    <SelectItem key={node.id} value={node.id}>
+                      {node.name}{node.role && ` (${node.role})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={!canExport || isExporting} data-testid="button-confirm-export">
+            {isExporting ? "Exporting..." : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,347 @@
+import { useState } from "react";
+import type { ReactNode } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, readJson } from "@/lib/queryClient";
+import { readSpreadsheet, SPREADSHEET_ACCEPT } from "@/lib/spreadsheets";
+import { IMPORT_FIELDS, IMPORT_FIELD_LABELS, applyMapping, guessMapping } from "@/lib/orgChartImport";
+import type { ImportField, ImportMapping, OrgChartImportPreview, OrgChartImportResult } from "@/lib/orgChartImport";
+import { readOrgChartJson } from "@/lib/orgChartExport";
+import { USER_ROLES } from "@shared/contracts";
+import type { OrgChartImportRow } from "@shared/contracts";
+import { User } from "@/lib/database";
+import OrgChartViolations from "./org-chart-violations";
+import { Upload, Copy } from "lucide-react";
+
+type Step = "upload" | "map" | "preview" | "done";
+
+const NOT_IMPORTED = "none";
+const REQUIRED_FIELDS: ImportField[] = ["name", "email"];
+const IMPORT_ACCEPT = `${SPREADSHEET_ACCEPT},.json,application/json`;
+
+// Import people into the org chart from a CSV or XLSX file: map its columns, check a dry run
+// of what would change, then apply it all at once. A JSON export needs no mapping.
+export default function OrgChartImportWizard() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [exportRows, setExportRows] = useState<OrgChartImportRow[] | null>(null);
+  const [memberRole, setMemberRole] = useState<User["role"]>("Requester");
+  const [preview, setPreview] = useState<OrgChartImportPreview | null>(null);
+  const [result, setResult] = useState<OrgChartImportResult | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  const header = sheet[0] ?? [];
+  const canPreview = !!exportRows || REQUIRED_FIELDS.every((field) => mapping[field] !== undefined);
+  const payload = () => ({
+    rows: exportRows ?? applyMapping(sheet, mapping),
+    managersMapped: !!exportRows || mapping.managerEmail !== undefined,
+    memberRole,
+  });
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setSheet([]);
+    setMapping({});
+    setExportRows(null);
+    setPreview(null);
+    setResult(null);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsReading(true);
+    try {
+      if (file.name.toLowerCase().endsWith(".json")) {
+        const rows = readOrgChartJson(await file.text());
+        if (rows.length === 0) throw new Error("The export has nobody in it");
+        setFileName(file.name);
+        setExportRows(rows);
+        setStep("map");
+        return;
+      }
+      const rows = await readSpreadsheet(file);
+      if (rows.length < 2) throw new Error("The file needs a header row and at least one person");
+      setFileName(file.name);
+      setSheet(rows);
+      setMapping(guessMapping(rows[0]));
+      setStep("map");
+    } catch (error) {
+      onError(error instanceof Error ? error : new Error("The file could not be read"));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/org-chart/import/preview", payload());
+      return await readJson<OrgChartImportPreview>(res);
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setStep("preview");
+    },
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/org-chart/import", payload());
+      return await readJson<OrgChartImportResult>(res);
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/org-chart"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/org-members"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invite-tokens"] });
+      setResult(data);
+      setStep("done");
+      toast({ title: "Org chart imported" });
+    },
+    onError,
+  });
+
+  const inviteLinks = (result?.invites ?? [])
+    .map((invite) => `${invite.name} <${invite.email}>: ${window.location.origin}/invite/${invite.token}`)
+    .join("\n");
+
+  const copyInviteLinks = async () => {
+    await navigator.clipboard.writeText(inviteLinks);
+    toast({ title: "Invite links copied" });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2" data-testid="button-import-org-chart">
+          <Upload className="h-4 w-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Org Chart</DialogTitle>
+          <DialogDescription>
+            One person per row, with their name, email, title, department and their manager's email. People already
+            on the chart are matched by email.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-2">
+            <Label htmlFor="org-chart-import-file">CSV, Excel (.xlsx) or org chart JSON export</Label>
+            <Input
+              id="org-chart-import-file"
+              type="file"
+              accept={IMPORT_ACCEPT}
+              disabled={isReading}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              data-testid="input-import-file"
+            />
+            {isReading && <p className="text-sm text-muted-foreground">Reading file...</p>}
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {exportRows
+                ? `${exportRows.length} people in the org chart export ${fileName}. Managers and ids come from the export.`
+                : `${sheet.length - 1} rows in ${fileName}. Choose the column that holds each field.`}
+            </p>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {!exportRows && IMPORT_FIELDS.map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label>
+                    {IMPORT_FIELD_LABELS[field]}
+                    {REQUIRED_FIELDS.includes(field) && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[field] === undefined ? NOT_IMPORTED : String(mapping[field])}
+                    onValueChange={(value) =>
+                      setMapping((prev) => ({ ...prev, [field]: value === NOT_IMPORTED ? undefined : Number(value) }))
+                    }
+                  >
+                    <SelectTrigger data-testid={`select-import-column-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                      {header.map((column, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {column || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label>Role for invited people</Label>
+                <Select value={memberRole} onValueChange={(value) => setMemberRole(value as User["role"])}>
+                  <SelectTrigger data-testid="select-import-member-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USER_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>{role}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {!exportRows && mapping.managerEmail === undefined && (
+              <p className="text-sm text-muted-foreground">
+                Without a manager column, new people go at the top of the chart and nobody already on it is moved.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2" data-testid="import-summary">
+              <Badge variant="secondary">{preview.creates.length} new</Badge>
+              <Badge variant="secondary">{preview.updates.length} updated</Badge>
+              <Badge variant="secondary">{preview.moves.length} moved</Badge>
+              <Badge variant="secondary">{preview.invites.length} invited</Badge>
+              {preview.unresolvedManagers.length > 0 && (
+                <Badge variant="outline">{preview.unresolvedManagers.length} managers not found</Badge>
+              )}
+              {preview.skipped.length > 0 && <Badge variant="outline">{preview.skipped.length} rows skipped</Badge>}
+            </div>
+
+            <OrgChartViolations violations={preview.violations} />
+
+            <div className="max-h-80 overflow-y-auto space-y-4 text-sm">
+              <PreviewSection title="New on the chart" testId="import-creates">
+                {preview.creates.map((person) => (
+                  <li key={person.line}>{person.name}{person.email && ` (${person.email})`}</li>
+                ))}
+              </PreviewSection>
+              <PreviewSection title="Updated" testId="import-updates">
+                {preview.updates.map((person) => (
+                  <li key={person.line}>{person.name}: {person.fields.join(", ")}</li>
+                ))}
+              </PreviewSection>
+              <PreviewSection title="Moved" testId="import-moves">
+                {preview.moves.map((person) => (
+                  <li key={person.line}>
+                    {person.name}: {person.from ?? "top of the chart"} → {person.to ?? "top of the chart"}
+                  </li>
+                ))}
+              </PreviewSection>
+              <PreviewSection title="Manager not found" testId="import-unresolved">
+                {preview.unresolvedManagers.map((person) => (
+                  <li key={person.line}>
+                    Line {person.line}, {person.name}: no one with {person.manager}
+                  </li>
+                ))}
+              </PreviewSection>
+              <PreviewSection title="Getting an invite link" testId="import-invites">
+                {preview.invites.map((person) => (
+                  <li key={person.line}>{person.name} ({person.email})</li>
+                ))}
+              </PreviewSection>
+              <PreviewSection title="Skipped rows" testId="import-skipped">
+                {preview.skipped.map((row) => (
+                  <li key={row.line}>Line {row.line}: {row.reason}</li>
+                ))}
+              </PreviewSection>
+            </div>
+          </div>
+        )}
+
+        {step === "done" && result && (
+          <div className="space-y-4 text-sm" data-testid="import-result">
+            <p>
+              {result.created} added, {result.updated} updated and {result.moved} moved.
+            </p>
+            {result.invites.length > 0 && (
+              <div className="space-y-2">
+                <p>Send these people their invite links:</p>
+                <pre className="max-h-60 overflow-y-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap">{inviteLinks}</pre>
+                <Button variant="outline" size="sm" onClick={copyInviteLinks} data-testid="button-copy-invite-links">
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy Links
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset}>Choose Another File</Button>
+              <Button
+                onClick={() => previewMutation.mutate()}
+                disabled={!canPreview || previewMutation.isPending}
+                data-testid="button-preview-import"
+              >
+                {previewMutation.isPending ? "Checking..." : "Preview Changes"}
+              </Button>
+            </>
+          )}
+          {step === "preview" && preview && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>Back</Button>
+              <Button
+                onClick={() => importMutation.mutate()}
+                disabled={preview.violations.length > 0 || importMutation.isPending}
+                data-testid="button-confirm-import"
+              >
+                {importMutation.isPending ? "Importing..." : "Import"}
+              </Button>
+            </>
+          )}
+          {step === "done" && (
+            <Button
+              onClick={() => {
+                setOpen(false);
+                reset();
+              }}
+              data-testid="button-close-import"
+            >
+              Done
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PreviewSection({ title, testId, children }: { title: string; testId: string; children: ReactNode[] }) {
+  if (children.length === 0) return null;
+  return (
+    <div data-testid={testId}>
+      <h4 className="font-medium mb-1">{title}</h4>
+      <ul className="list-disc pl-5 space-y-0.5 text-muted-foreground">{children}</ul>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { GitBranch } from "lucide-react";
+import { OrgChartRules } from "@/lib/database";
+import { resolveOrgChartRules, MAX_CHART_DEPTH } from "@shared/orgChartRules";
+
+interface OrgChartRulesEditorProps {
+  rules?: OrgChartRules;
+  isSaving?: boolean;
+  onChange: (rules: OrgChartRules) => void;
+}
+
+export default function OrgChartRulesEditor({ rules, isSaving, onChange }: OrgChartRulesEditorProps) {
+  const current = resolveOrgChartRules(rules);
+  const [maxDepth, setMaxDepth] = useState(String(current.maxDepth));
+  const [singleRoot, setSingleRoot] = useState(current.singleRoot);
+  const [requireActiveMember, setRequireActiveMember] = useState(current.requireActiveMember);
+
+  useEffect(() => {
+    setMaxDepth(String(current.maxDepth));
+    setSingleRoot(current.singleRoot);
+    setRequireActiveMember(current.requireActiveMember);
+  }, [rules]);
+
+  const depth = parseInt(maxDepth);
+  const isValid = depth >= 1 && depth <= MAX_CHART_DEPTH;
+
+  const handleSave = () => {
+    onChange({ maxDepth: depth, singleRoot, requireActiveMember });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5" />
+          Org Chart Rules
+        </CardTitle>
+        <CardDescription>
+          Every change to the org chart is checked against these rules. Nobody can be placed under someone who
+          reports to them, and levels always follow from where a person sits.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="org-chart-max-depth">Deepest level (1 to {MAX_CHART_DEPTH})</Label>
+          <Input
+            id="org-chart-max-depth"
+            type="number"
+            min="1"
+            max={MAX_CHART_DEPTH}
+            value={maxDepth}
+            onChange={(e) => setMaxDepth(e.target.value)}
+            data-testid="input-org-chart-max-depth"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="org-chart-single-root">One person at the top</Label>
+            <p className="text-sm text-muted-foreground">Everyone else must report to someone.</p>
+          </div>
+          <Switch
+            id="org-chart-single-root"
+            checked={singleRoot}
+            onCheckedChange={setSingleRoot}
+            data-testid="switch-org-chart-single-root"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label htmlFor="org-chart-active-member">Only active members</Label>
+            <p className="text-sm text-muted-foreground">Each place on the chart must be linked to an active member.</p>
+          </div>
+          <Switch
+            id="org-chart-active-member"
+            checked={requireActiveMember}
+            onCheckedChange={setRequireActiveMember}
+            data-testid="switch-org-chart-active-member"
+          />
+        </div>
+        <Button onClick={handleSave} disabled={!isValid || isSaving} data-testid="button-save-org-chart-rules">
+          {isSaving ? "Saving..." : "Save Org Chart Rules"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
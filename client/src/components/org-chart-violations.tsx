@@ -0,0 +1,43 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { GitBranch, X } from "lucide-react";
+import type { OrgChartViolation } from "@shared/orgChartRules";
+
+interface OrgChartViolationsProps {
+  violations: OrgChartViolation[];
+  onDismiss?: () => void;
+}
+
+// Why the last org chart change was refused, one line per broken rule
+export default function OrgChartViolations({ violations, onDismiss }: OrgChartViolationsProps) {
+  if (violations.length === 0) return null;
+
+  return (
+    <Alert variant="destructive" className="mb-4" data-testid="alert-org-chart-violations">
+      <GitBranch className="h-4 w-4" />
+      <AlertTitle className="flex items-center justify-between">
+        This change breaks the org chart rules
+        {onDismiss && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={onDismiss}
+            data-testid="button-dismiss-violations"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="mt-2 space-y-1 text-sm">
+          {violations.map((violation, index) => (
+            <li key={`${violation.rule}-${violation.nodeId}-${index}`} data-testid={`violation-${violation.rule}-${violation.nodeId}`}>
+              {violation.message}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
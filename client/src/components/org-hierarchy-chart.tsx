@@ -44,19 +44,23 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { OrgChartNode, User as UserType } from '@/lib/database';
+import { useOrgHierarchy } from '@/hooks/use-org-hierarchy';
+import { useHierarchyLevels, levelStyle, levelCardStyle } from '@/hooks/use-hierarchy-levels';
+import { getChildren } from '@/lib/hierarchy';
+import type { OrgHierarchy } from '@/lib/hierarchy';
 
 interface OrgHierarchyChartProps {
-  nodes: OrgChartNode[];
   users: UserType[];
   onUpdateNode: (nodeId: string, updates: Partial<OrgChartNode>) => void;
   onDeleteNode: (nodeId: string) => void;
   onCreateNode: (parentId: string | null, level: number) => void;
-  onMoveNode: (nodeId: string, newParentId: string | null, newLevel: number) => void;
+  onMoveNode: (nodeId: string, newParentId: string | null) => void;
   isAdmin?: boolean;
 }
 
 interface HierarchyNodeProps {
   node: OrgChartNode;
+  hierarchy: OrgHierarchy;
   users: UserType[];
   level: number;
   isExpanded: boolean;
@@ -74,6 +78,7 @@ interface SortableNodeProps extends HierarchyNodeProps {
 
 const SortableNode: React.FC<SortableNodeProps> = ({ 
   node, 
+  hierarchy, 
   users, 
   level, 
   isExpanded, 
@@ -99,30 +104,8 @@ const SortableNode: React.FC<SortableNodeProps> = ({
   };
 
   const user = users.find(u => u.id === node.userId);
-  const children = useMemo(() => {
-    // This will be populated by the parent component
-    return [];
-  }, []);
-
-  const getLevelColor = (level: number) => {
-    switch (level) {
-      case 1: return 'bg-blue-50 border-blue-200 text-blue-900';
-      case 2: return 'bg-green-50 border-green-200 text-green-900';
-      case 3: return 'bg-purple-50 border-purple-200 text-purple-900';
-      case 4: return 'bg-orange-50 border-orange-200 text-orange-900';
-      default: return 'bg-gray-50 border-gray-200 text-gray-900';
-    }
-  };
-
-  const getLevelBadgeColor = (level: number) => {
-    switch (level) {
-      case 1: return 'bg-blue-100 text-blue-800';
-      case 2: return 'bg-green-100 text-green-800';
-      case 3: return 'bg-purple-100 text-purple-800';
-      case 4: return 'bg-orange-100 text-orange-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
-  };
+  const children = getChildren(hierarchy, node.id);
+  const hierarchyLevel = useHierarchyLevels().levelOf(node);
 
   return (
     <div
@@ -134,11 +117,13 @@ const SortableNode: React.FC<SortableNodeProps> = ({
         isDragging && "shadow-lg scale-105"
       )}
     >
-      <Card className={cn(
-        "w-80 transition-all duration-200 hover:shadow-md",
-        getLevelColor(level),
-        isSortableDragging && "rotate-2"
-      )}>
+      <Card
+        className={cn(
+          "w-80 transition-all duration-200 hover:shadow-md",
+          isSortableDragging && "rotate-2"
+        )}
+        style={levelCardStyle(hierarchyLevel)}
+      >
         <CardHeader className="pb-3">
           <div className="flex items-start justify-between">
             <div className="flex items-center space-x-3">
@@ -161,8 +146,8 @@ const SortableNode: React.FC<SortableNodeProps> = ({
                   {user?.fullName || node.name}
                 </CardTitle>
                 <div className="flex items-center space-x-2 mt-1">
-                  <Badge className={cn("text-xs", getLevelBadgeColor(level))}>
-                    L{level}
+                  <Badge variant="outline" className="text-xs" style={levelStyle(hierarchyLevel)}>
+                    {hierarchyLevel.name}
                   </Badge>
                   <Badge variant="outline" className="text-xs">
                     {node.role}
@@ -253,6 +238,7 @@ const SortableNode: React.FC<SortableNodeProps> = ({
 const HierarchyLevel: React.FC<{
   level: number;
   nodes: OrgChartNode[];
+  hierarchy: OrgHierarchy;
   users: UserType[];
   expandedNodes: Set<string>;
   onToggleExpand: (nodeId: string) => void;
@@ -263,6 +249,7 @@ const HierarchyLevel: React.FC<{
 }> = ({ 
   level, 
   nodes, 
+  hierarchy, 
   users, 
   expandedNodes, 
   onToggleExpand, 
@@ -271,6 +258,7 @@ const HierarchyLevel: React.FC<{
   onCreateNode, 
   isAdmin 
 }) => {
+  const { levelAt } = useHierarchyLevels();
   const levelNodes = nodes.filter(node => node.level === level);
   
   if (levelNodes.length === 0) return null;
@@ -283,7 +271,7 @@ const HierarchyLevel: React.FC<{
             Level {level} ({levelNodes.length} {levelNodes.length === 1 ? 'member' : 'members'})
           </h3>
           <Badge variant="outline" className="text-xs">
-            {level === 1 ? 'Executive' : level === 2 ? 'Management' : level === 3 ? 'Senior' : 'Staff'}
+            {levelAt(level).name}
           </Badge>
         </div>
         {isAdmin && (
@@ -306,6 +294,7 @@ const HierarchyLevel: React.FC<{
               key={node.id}
               id={node.id}
               node={node}
+              hierarchy={hierarchy}
               users={users}
               level={level}
               isExpanded={expandedNodes.has(node.id)}
@@ -323,7 +312,6 @@ const HierarchyLevel: React.FC<{
 };
 
 export const OrgHierarchyChart: React.FC<OrgHierarchyChartProps> = ({
-  nodes,
   users,
   onUpdateNode,
   onDeleteNode,
@@ -331,6 +319,7 @@ export const OrgHierarchyChart: React.FC<OrgHierarchyChartProps> = ({
   onMoveNode,
   isAdmin = false
 }) => {
+  const { nodes, hierarchy } = useOrgHierarchy();
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
   const [activeId, setActiveId] = useState<string | null>(null);
   const [draggedNode, setDraggedNode] = useState<OrgChartNode | null>(null);
@@ -370,11 +359,8 @@ export const OrgHierarchyChart: React.FC<OrgHierarchyChartProps> = ({
     const overNode = nodes.find(n => n.id === over.id);
     
     if (activeNode && overNode) {
-      // Calculate new level based on the target node's level
-      const newLevel = overNode.level;
-      const newParentId = overNode.parentId;
-      
-      onMoveNode(activeNode.id, newParentId, newLevel);
+      // Join the target's manager; the level follows from there
+      onMoveNode(activeNode.id, overNode.parentId ?? null);
     }
 
     setActiveId(null);
@@ -459,6 +445,7 @@ export const OrgHierarchyChart: React.FC<OrgHierarchyChartProps> = ({
               key={level}
               level={level}
               nodes={nodesByLevel[level] || []}
+              hierarchy={hierarchy}
               users={users}
               expandedNodes={expandedNodes}
               onToggleExpand={handleToggleExpand}
@@ -476,6 +463,7 @@ export const OrgHierarchyChart: React.FC<OrgHierarchyChartProps> = ({
               <SortableNode
                 id={draggedNode.id}
                 node={draggedNode}
+                hierarchy={hierarchy}
                 users={users}
                 level={draggedNode.level}
                 isExpanded={expandedNodes.has(draggedNode.id)}
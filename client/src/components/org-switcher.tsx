@@ -0,0 +1,90 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Building2, Check, ChevronsUpDown } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { SidebarMenuButton } from "@/components/ui/sidebar";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { OrganizationMembership } from "@/lib/browserAuth";
+
+// The organization the user is working in, and a menu of the others they belong to
+export default function OrgSwitcher() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: memberships = [] } = useQuery<OrganizationMembership[]>({
+    queryKey: ["/api/user/memberships"],
+    enabled: !!user,
+  });
+
+  const current = memberships.find(({ organization }) => organization.orgId === user?.orgId);
+
+  const switchMutation = useMutation({
+    mutationFn: async (orgId: string) => {
+      const response = await apiRequest("POST", "/api/user/organization", { orgId });
+      return response.json();
+    },
+    onSuccess: (_user, orgId) => {
+      // Everything cached so far belongs to the previous organization
+      queryClient.invalidateQueries();
+      const name = memberships.find(({ organization }) => organization.orgId === orgId)?.organization.name;
+      toast({
+        title: "Organization switched",
+        description: `You are now working in ${name ?? "the selected organization"}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't switch organization",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!current) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <SidebarMenuButton
+          size="lg"
+          disabled={memberships.length < 2 || switchMutation.isPending}
+          data-testid="button-org-switcher"
+        >
+          <Building2 className="h-5 w-5" />
+          <div className="flex-1 min-w-0 text-left">
+            <p className="text-sm font-medium truncate" data-testid="text-current-org">
+              {current.organization.name}
+            </p>
+            <p className="text-xs text-muted-foreground truncate">{current.membership.role}</p>
+          </div>
+          {memberships.length > 1 && <ChevronsUpDown className="h-4 w-4 text-muted-foreground" />}
+        </SidebarMenuButton>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56">
+        <DropdownMenuLabel>Organizations</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {memberships.map(({ membership, organization }) => (
+          <DropdownMenuItem
+            key={membership.id}
+            onSelect={() => {
+              if (organization.orgId !== user?.orgId) switchMutation.mutate(organization.orgId);
+            }}
+            data-testid={`menu-item-org-${organization.orgId}`}
+          >
+            <span className="flex-1 truncate">{organization.name}</span>
+            {organization.orgId === user?.orgId && <Check className="h-4 w-4" />}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, ShieldCheck, Trash2 } from "lucide-react";
+import { nanoid } from "nanoid";
+import { User } from "@/lib/database";
+import { USER_ROLES } from "@shared/contracts";
+import type { RoleAssignmentInput } from "@shared/contracts";
+import { CAPABILITIES, CAPABILITY_LABELS, resolveRoles } from "@shared/permissions";
+import type { Capability, RoleDefinition } from "@shared/permissions";
+
+const NO_CUSTOM_ROLE = "none";
+
+interface RolePermissionsEditorProps {
+  roles?: RoleDefinition[];
+  users: User[];
+  isSaving?: boolean;
+  onChange: (roles: RoleDefinition[]) => void;
+  onAssign: (userId: string, assignment: RoleAssignmentInput) => void;
+}
+
+export default function RolePermissionsEditor({ roles, users, isSaving, onChange, onAssign }: RolePermissionsEditorProps) {
+  const [newRoleName, setNewRoleName] = useState("");
+  const allRoles = resolveRoles(roles);
+  const customRoles = allRoles.filter((role) => !role.builtIn);
+
+  // Admin is fixed to every capability, so it is never saved
+  const save = (next: RoleDefinition[]) => onChange(next.filter((role) => role.id !== "Admin"));
+
+  const handleToggle = (roleId: string, capability: Capability, granted: boolean) => {
+    save(allRoles.map((role) =>
+      role.id !== roleId
+        ? role
+        : {
+            ...role,
+            capabilities: granted
+              ? [...role.capabilities, capability]
+              : role.capabilities.filter((c) => c !== capability),
+          }
+    ));
+  };
+
+  const handleAddRole = () => {
+    save([...allRoles, { id: nanoid(), name: newRoleName.trim(), capabilities: [] }]);
+    setNewRoleName("");
+  };
+
+  const isDuplicateName = allRoles.some((role) => role.name.toLowerCase() === newRoleName.trim().toLowerCase());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Roles & Permissions
+        </CardTitle>
+        <CardDescription>
+          What each role may do. Custom roles are given to members on top of their built-in role; Admins can always do
+          everything.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Capability</TableHead>
+                {allRoles.map((role) => (
+                  <TableHead key={role.id} className="text-center whitespace-nowrap">
+                    <div className="flex items-center justify-center gap-1">
+                      {role.name}
+                      {!role.builtIn && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          onClick={() => save(allRoles.filter((r) => r.id !== role.id))}
+                          disabled={isSaving}
+                          data-testid={`button-delete-role-${role.id}`}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {CAPABILITIES.map((capability) => (
+                <TableRow key={capability}>
+                  <TableCell>
+                    <div className="font-medium text-sm">{CAPABILITY_LABELS[capability]}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{capability}</div>
+                  </TableCell>
+                  {allRoles.map((role) => (
+                    <TableCell key={role.id} className="text-center">
+                      <Checkbox
+                        checked={role.capabilities.includes(capability)}
+                        disabled={role.id === "Admin" || isSaving}
+                        onCheckedChange={(checked) => handleToggle(role.id, capability, checked === true)}
+                        data-testid={`checkbox-${role.id}-${capability}`}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex gap-2 items-end">
+          <div className="flex-1">
+            <Label htmlFor="new-role-name">New custom role</Label>
+            <Input
+              id="new-role-name"
+              placeholder="e.g., Treasury"
+              value={newRoleName}
+              onChange={(e) => setNewRoleName(e.target.value)}
+              data-testid="input-new-role-name"
+            />
+          </div>
+          <Button
+            onClick={handleAddRole}
+            disabled={!newRoleName.trim() || isDuplicateName || isSaving}
+            data-testid="button-add-role"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Role
+          </Button>
+        </div>
+        {isDuplicateName && newRoleName.trim() && (
+          <p className="text-xs text-destructive">A role with this name already exists</p>
+        )}
+
+        <div className="border-t border-border pt-6">
+          <h4 className="font-medium mb-4">Members</h4>
+          <div className="space-y-2">
+            {users.map((member) => (
+              <div
+                key={member.id}
+                className="flex items-center justify-between gap-4 p-3 border border-border rounded-md"
+                data-testid={`role-member-${member.id}`}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{member.fullName}</p>
+                  <p className="text-sm text-muted-foreground truncate">{member.email}</p>
+                </div>
+                <div className="flex gap-2">
+                  <Select value={member.role} onValueChange={(role) => onAssign(member.id, { role: role as User["role"] })}>
+                    <SelectTrigger className="w-36" data-testid={`select-role-${member.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {USER_ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>{role}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={member.customRoleId || NO_CUSTOM_ROLE}
+                    onValueChange={(value) => onAssign(member.id, { customRoleId: value === NO_CUSTOM_ROLE ? null : value })}
+                    disabled={customRoles.length === 0}
+                  >
+                    <SelectTrigger className="w-40" data-testid={`select-custom-role-${member.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CUSTOM_ROLE}>No custom role</SelectItem>
+                      {customRoles.map((role) => (
+                        <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
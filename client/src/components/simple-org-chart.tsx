@@ -18,19 +18,23 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { OrgChartNode, User as UserType } from '@/lib/database';
+import { useOrgHierarchy } from '@/hooks/use-org-hierarchy';
+import { useHierarchyLevels, levelStyle, levelCardStyle } from '@/hooks/use-hierarchy-levels';
+import { getAncestors } from '@/lib/hierarchy';
+import type { OrgHierarchy } from '@/lib/hierarchy';
 
 interface SimpleOrgChartProps {
-  nodes: OrgChartNode[];
   users: UserType[];
   onUpdateNode: (nodeId: string, updates: Partial<OrgChartNode>) => void;
   onDeleteNode: (nodeId: string) => void;
   onCreateNode: (parentId: string | null, level: number) => void;
-  onMoveNode: (nodeId: string, newParentId: string | null, newLevel: number) => void;
+  onMoveNode: (nodeId: string, newParentId: string | null) => void;
   isAdmin?: boolean;
 }
 
 interface HierarchyNodeProps {
   node: OrgChartNode;
+  hierarchy: OrgHierarchy;
   users: UserType[];
   level: number;
   isExpanded: boolean;
@@ -43,6 +47,7 @@ interface HierarchyNodeProps {
 
 const HierarchyNode: React.FC<HierarchyNodeProps> = ({ 
   node, 
+  hierarchy, 
   users, 
   level, 
   isExpanded, 
@@ -53,32 +58,14 @@ const HierarchyNode: React.FC<HierarchyNodeProps> = ({
   isAdmin 
 }) => {
   const user = users.find(u => u.id === node.userId);
-
-  const getLevelColor = (level: number) => {
-    switch (level) {
-      case 1: return 'bg-blue-50 border-blue-200 text-blue-900';
-      case 2: return 'bg-green-50 border-green-200 text-green-900';
-      case 3: return 'bg-purple-50 border-purple-200 text-purple-900';
-      case 4: return 'bg-orange-50 border-orange-200 text-orange-900';
-      default: return 'bg-gray-50 border-gray-200 text-gray-900';
-    }
-  };
-
-  const getLevelBadgeColor = (level: number) => {
-    switch (level) {
-      case 1: return 'bg-blue-100 text-blue-800';
-      case 2: return 'bg-green-100 text-green-800';
-      case 3: return 'bg-purple-100 text-purple-800';
-      case 4: return 'bg-orange-100 text-orange-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
-  };
+  const manager = getAncestors(hierarchy, node.id)[0];
+  const hierarchyLevel = useHierarchyLevels().levelOf(node);
 
   return (
-    <Card className={cn(
-      "w-80 transition-all duration-200 hover:shadow-md",
-      getLevelColor(level)
-    )}>
+    <Card
+      className="w-80 transition-all duration-200 hover:shadow-md"
+      style={levelCardStyle(hierarchyLevel)}
+    >
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between">
           <div className="flex items-center space-x-3">
@@ -90,8 +77,8 @@ const HierarchyNode: React.FC<HierarchyNodeProps> = ({
                 {user?.fullName || node.name}
               </CardTitle>
               <div className="flex items-center space-x-2 mt-1">
-                <Badge className={cn("text-xs", getLevelBadgeColor(level))}>
-                  L{level}
+                <Badge variant="outline" className="text-xs" style={levelStyle(hierarchyLevel)}>
+                  {hierarchyLevel.name}
                 </Badge>
                 <Badge variant="outline" className="text-xs">
                   {node.role}
@@ -163,10 +150,10 @@ const HierarchyNode: React.FC<HierarchyNodeProps> = ({
               </div>
             )}
             
-            {node.reportingManager && (
+            {(manager || node.reportingManager) && (
               <div className="flex items-center space-x-2 text-sm text-gray-600">
                 <Users className="h-4 w-4" />
-                <span>Reports to: {node.reportingManager}</span>
+                <span>Reports to: {manager?.name || node.reportingManager}</span>
               </div>
             )}
           </TooltipProvider>
@@ -179,6 +166,7 @@ const HierarchyNode: React.FC<HierarchyNodeProps> = ({
 const HierarchyLevel: React.FC<{
   level: number;
   nodes: OrgChartNode[];
+  hierarchy: OrgHierarchy;
   users: UserType[];
   expandedNodes: Set<string>;
   onToggleExpand: (nodeId: string) => void;
@@ -189,6 +177,7 @@ const HierarchyLevel: React.FC<{
 }> = ({ 
   level, 
   nodes, 
+  hierarchy, 
   users, 
   expandedNodes, 
   onToggleExpand, 
@@ -197,6 +186,7 @@ const HierarchyLevel: React.FC<{
   onCreateNode, 
   isAdmin 
 }) => {
+  const { levelAt } = useHierarchyLevels();
   const levelNodes = nodes.filter(node => node.level === level);
   
   if (levelNodes.length === 0) return null;
@@ -209,7 +199,7 @@ const HierarchyLevel: React.FC<{
             Level {level} ({levelNodes.length} {levelNodes.length === 1 ? 'member' : 'members'})
           </h3>
           <Badge variant="outline" className="text-xs">
-            {level === 1 ? 'Executive' : level === 2 ? 'Management' : level === 3 ? 'Senior' : 'Staff'}
+            {levelAt(level).name}
           </Badge>
         </div>
         {isAdmin && (
@@ -230,6 +220,7 @@ const HierarchyLevel: React.FC<{
           <HierarchyNode
             key={node.id}
             node={node}
+            hierarchy={hierarchy}
             users={users}
             level={level}
             isExpanded={expandedNodes.has(node.id)}
@@ -246,7 +237,6 @@ const HierarchyLevel: React.FC<{
 };
 
 export const SimpleOrgChart: React.FC<SimpleOrgChartProps> = ({
-  nodes,
   users,
   onUpdateNode,
   onDeleteNode,
@@ -254,6 +244,7 @@ export const SimpleOrgChart: React.FC<SimpleOrgChartProps> = ({
   onMoveNode,
   isAdmin = false
 }) => {
+  const { nodes, hierarchy } = useOrgHierarchy();
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
 
   // Debug logging
@@ -358,6 +349,7 @@ export const SimpleOrgChart: React.FC<SimpleOrgChartProps> = ({
             key={level}
             level={level}
             nodes={nodesByLevel[level] || []}
+            hierarchy={hierarchy}
             users={users}
             expandedNodes={expandedNodes}
             onToggleExpand={handleToggleExpand}
@@ -0,0 +1,34 @@
+import { Badge } from "@/components/ui/badge";
+import { AlarmClock, AlertTriangle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { FundingRequest } from "@/lib/database";
+import { getSlaState } from "@/lib/slaPolicy";
+
+interface SlaBadgeProps {
+  request: FundingRequest;
+  className?: string;
+}
+
+// Overdue / breaching-soon indicator for open requests with an SLA deadline
+export default function SlaBadge({ request, className }: SlaBadgeProps) {
+  const state = getSlaState(request);
+  if (state !== "overdue" && state !== "breaching_soon") return null;
+
+  const distance = formatDistanceToNow(new Date(request.slaDeadline!));
+
+  if (state === "overdue") {
+    return (
+      <Badge variant="destructive" className={className} data-testid={`badge-sla-overdue-${request.id}`}>
+        <AlertTriangle className="h-3 w-3 mr-1" />
+        Overdue {distance}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge className={`bg-pending text-pending-foreground ${className || ""}`} data-testid={`badge-sla-breaching-${request.id}`}>
+      <AlarmClock className="h-3 w-3 mr-1" />
+      Due in {distance}
+    </Badge>
+  );
+}
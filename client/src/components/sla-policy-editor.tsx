@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Trash2, Timer } from "lucide-react";
+import { nanoid } from "nanoid";
+import { SlaPolicy } from "@/lib/database";
+
+interface SlaPolicyEditorProps {
+  policies: SlaPolicy[];
+  isSaving?: boolean;
+  onChange: (policies: SlaPolicy[]) => void;
+}
+
+export default function SlaPolicyEditor({ policies, isSaving, onChange }: SlaPolicyEditorProps) {
+  const [category, setCategory] = useState("");
+  const [level, setLevel] = useState("");
+  const [hours, setHours] = useState("");
+
+  const handleAddPolicy = () => {
+    onChange([
+      ...policies,
+      {
+        id: nanoid(),
+        category: category.trim() || undefined,
+        level: level ? parseInt(level) : undefined,
+        hours: parseFloat(hours),
+      },
+    ]);
+    setCategory("");
+    setLevel("");
+    setHours("");
+  };
+
+  const isDuplicate = policies.some(
+    (p) => (p.category || "").toLowerCase() === category.trim().toLowerCase() && (p.level ?? "") === (level ? parseInt(level) : "")
+  );
+  const isValid = parseFloat(hours) > 0 && !isDuplicate;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          SLA Policies
+        </CardTitle>
+        <CardDescription>
+          How long approvers have to act on a request at each level. The most specific policy applies; overdue
+          requests are escalated to the approver's reporting manager.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-4 items-end">
+          <div>
+            <Label htmlFor="sla-category">Category</Label>
+            <Input
+              id="sla-category"
+              placeholder="Any category"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              data-testid="input-sla-category"
+            />
+          </div>
+          <div>
+            <Label htmlFor="sla-level">Approval Level</Label>
+            <Input
+              id="sla-level"
+              type="number"
+              min="1"
+              placeholder="Any level"
+              value={level}
+              onChange={(e) => setLevel(e.target.value)}
+              data-testid="input-sla-level"
+            />
+          </div>
+          <div>
+            <Label htmlFor="sla-hours">Hours to act *</Label>
+            <Input
+              id="sla-hours"
+              type="number"
+              min="1"
+              placeholder="e.g., 48"
+              value={hours}
+              onChange={(e) => setHours(e.target.value)}
+              data-testid="input-sla-hours"
+            />
+          </div>
+          <Button onClick={handleAddPolicy} disabled={!isValid || isSaving} data-testid="button-add-sla-policy">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Policy
+          </Button>
+        </div>
+        {isDuplicate && (
+          <p className="text-xs text-destructive">A policy for this category and level already exists</p>
+        )}
+
+        <div className="border-t border-border pt-6">
+          <h4 className="font-medium mb-4">Existing Policies</h4>
+          {policies.length > 0 ? (
+            <div className="space-y-2">
+              {policies.map((policy) => (
+                <div
+                  key={policy.id}
+                  className="flex items-center justify-between p-3 border border-border rounded-md"
+                  data-testid={`sla-policy-${policy.id}`}
+                >
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant="outline">{policy.category || "Any category"}</Badge>
+                    <Badge variant="outline">{policy.level != null ? `Level ${policy.level}` : "Any level"}</Badge>
+                    <span className="text-sm font-medium">{policy.hours}h to act</span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange(policies.filter((p) => p.id !== policy.id))}
+                    disabled={isSaving}
+                    data-testid={`button-delete-sla-policy-${policy.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground py-4">
+              No SLA policies configured. Requests will not have deadlines until a policy is added.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
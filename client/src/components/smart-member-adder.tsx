@@ -42,10 +42,15 @@ import {
   Loader2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { User as UserType, OrgMember, OrgChart } from '@/lib/database';
-import { apiRequest, queryClient } from '@/lib/queryClient';
+import { User as UserType, OrgMember } from '@/lib/database';
+import { apiRequest, queryClient, readJson } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
+import { useOrgHierarchy } from '@/hooks/use-org-hierarchy';
+import { useHierarchyLevels } from '@/hooks/use-hierarchy-levels';
+
+// The member takes the level matching where they sit on the chart
+const LEVEL_FROM_POSITION = 'position';
 
 interface SmartMemberAdderProps {
   onMemberAdded?: () => void;
@@ -59,7 +64,9 @@ export default function SmartMemberAdder({ onMemberAdded, className }: SmartMemb
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedMember, setSelectedMember] = useState<UserType | null>(null);
   const [selectedParentId, setSelectedParentId] = useState<string | null>(null);
-  const [selectedLevel, setSelectedLevel] = useState<number>(2);
+  const [selectedLevelId, setSelectedLevelId] = useState<string>(LEVEL_FROM_POSITION);
+  const { levels } = useHierarchyLevels();
+  const assignedLevelId = selectedLevelId === LEVEL_FROM_POSITION ? undefined : selectedLevelId;
   const [isCreatingNew, setIsCreatingNew] = useState(false);
 
   // Fetch all users in the organization
@@ -75,18 +82,15 @@ export default function SmartMemberAdder({ onMemberAdded, className }: SmartMemb
   });
 
   // Fetch org chart nodes
-  const { data: orgChart, isLoading: chartLoading } = useQuery<OrgChart | null>({
-    queryKey: ["/api/org-chart"],
-    enabled: !!currentUser?.orgId,
-  });
+  const { nodes: chartNodes, isLoading: chartLoading } = useOrgHierarchy(!!currentUser?.orgId);
 
   // Filter users who are not already in org chart
   const availableUsers = React.useMemo(() => {
-    if (!allUsers || !orgChart?.nodes) return [];
+    if (!allUsers) return [];
     
-    const chartUserIds = orgChart.nodes.map((node: any) => node.userId).filter(Boolean);
+    const chartUserIds = chartNodes.map(node => node.userId).filter(Boolean);
     return allUsers.filter(user => !chartUserIds.includes(user.id));
-  }, [allUsers, orgChart]);
+  }, [allUsers, chartNodes]);
 
   // Filter members based on search
   const filteredUsers = React.useMemo(() => {
@@ -102,32 +106,29 @@ export default function SmartMemberAdder({ onMemberAdded, className }: SmartMemb
 
   // Get available parent nodes (existing org chart nodes)
   const availableParents = React.useMemo(() => {
-    if (!orgChart?.nodes) return [];
-    return orgChart.nodes.filter((node: any) => node.userId); // Only nodes with users
-  }, [orgChart]);
+    return chartNodes.filter(node => node.userId); // Only nodes with users
+  }, [chartNodes]);
 
   // Add member to org chart mutation
   const addMemberMutation = useMutation({
-    mutationFn: async (data: { userId: string; parentId?: string; level: number }) => {
-      const response = await apiRequest("POST", "/api/org-chart", {
-        nodes: [{
-          userId: data.userId,
-          parentId: data.parentId,
-          level: data.level,
-          name: allUsers?.find(u => u.id === data.userId)?.fullName || 'Unknown',
-          role: allUsers?.find(u => u.id === data.userId)?.jobTitle || 'Member',
-          department: allUsers?.find(u => u.id === data.userId)?.department || 'General',
-          position: { x: 0, y: 0 },
-          color: data.level === 1 ? 'purple' : 'blue',
-          shape: 'rectangle',
-          isExpanded: true,
-          isApproved: true,
-          email: allUsers?.find(u => u.id === data.userId)?.email || '',
-          createdAt: new Date(),
-          updatedAt: new Date()
-        }]
+    mutationFn: async (data: { userId: string; parentId?: string; hierarchyLevelId?: string }) => {
+      const level = (chartNodes.find(node => node.id === data.parentId)?.level ?? 0) + 1;
+      const response = await apiRequest("POST", "/api/org-chart/nodes", {
+        userId: data.userId,
+        parentId: data.parentId,
+        level,
+        hierarchyLevelId: data.hierarchyLevelId,
+        name: allUsers?.find(u => u.id === data.userId)?.fullName || 'Unknown',
+        role: allUsers?.find(u => u.id === data.userId)?.jobTitle || 'Member',
+        department: allUsers?.find(u => u.id === data.userId)?.department || 'General',
+        position: { x: 0, y: 0 },
+        color: level === 1 ? 'purple' : 'blue',
+        shape: 'rectangle',
+        isExpanded: true,
+        isApproved: true,
+        email: allUsers?.find(u => u.id === data.userId)?.email || undefined
       });
-      return response.json();
+      return readJson(response);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/org-chart"] });
@@ -139,6 +140,7 @@ export default function SmartMemberAdder({ onMemberAdded, className }: SmartMemb
       setIsOpen(false);
       setSelectedMember(null);
       setSelectedParentId(null);
+      setSelectedLevelId(LEVEL_FROM_POSITION);
       setSearchQuery('');
       onMemberAdded?.();
     },
@@ -173,7 +175,7 @@ export default function SmartMemberAdder({ onMemberAdded, className }: SmartMemb
       addMemberMutation.mutate({
         userId: newUser.id,
         parentId: selectedParentId || undefined,
-        level: selectedLevel
+        hierarchyLevelId: assignedLevelId
       });
     },
     onError: (error: any) => {
@@ -198,7 +200,7 @@ export default function SmartMemberAdder({ onMemberAdded, className }: SmartMemb
     addMemberMutation.mutate({
       userId: selectedMember.id,
       parentId: selectedParentId || undefined,
-      level: selectedLevel
+      hierarchyLevelId: assignedLevelId
     });
   };
 
@@ -206,17 +208,6 @@ export default function SmartMemberAdder({ onMemberAdded, className }: SmartMemb
     createMemberMutation.mutate(formData);
   };
 
-  const getLevelDescription = (level: number) => {
-    const descriptions = {
-      1: "Executive Level (CEO, CTO, etc.)",
-      2: "Management Level (Managers, Directors)",
-      3: "Senior Level (Senior Staff, Team Leads)",
-      4: "Staff Level (Regular Employees)",
-      5: "Entry Level (Junior Staff, Interns)"
-    };
-    return descriptions[level as keyof typeof descriptions] || "Unknown Level";
-  };
-
   if (usersLoading || membersLoading || chartLoading) {
     return (
       <Card className={className}>
@@ -246,7 +237,7 @@ export default function SmartMemberAdder({ onMemberAdded, className }: SmartMemb
             <div className="text-sm text-blue-800">Total Users</div>
           </div>
           <div className="p-3 bg-green-50 rounded-lg">
-            <div className="text-2xl font-bold text-green-600">{orgChart?.nodes?.length || 0}</div>
+            <div className="text-2xl font-bold text-green-600">{chartNodes.length}</div>
             <div className="text-sm text-green-800">In Org Chart</div>
           </div>
           <div className="p-3 bg-orange-50 rounded-lg">
@@ -396,14 +387,15 @@ export default function SmartMemberAdder({ onMemberAdded, className }: SmartMemb
 
                 <div>
                   <Label>Hierarchy Level</Label>
-                  <Select value={selectedLevel.toString()} onValueChange={(value) => setSelectedLevel(parseInt(value))}>
-                    <SelectTrigger>
+                  <Select value={selectedLevelId} onValueChange={setSelectedLevelId}>
+                    <SelectTrigger data-testid="select-member-hierarchy-level">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {[1, 2, 3, 4, 5].map((level) => (
-                        <SelectItem key={level} value={level.toString()}>
-                          Level {level} - {getLevelDescription(level)}
+                      <SelectItem value={LEVEL_FROM_POSITION}>From their place on the chart</SelectItem>
+                      {levels.map((level) => (
+                        <SelectItem key={level.id} value={level.id}>
+                          {level.name}{level.description && ` - ${level.description}`}
                         </SelectItem>
                       ))}
                     </SelectContent>
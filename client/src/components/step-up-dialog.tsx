@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ShieldCheck } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, readJson } from "@/lib/queryClient";
+import { isTwoFactorEnabled } from "@/lib/twoFactor";
+
+interface StepUpDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirmed: () => void;
+}
+
+// Asks for a fresh authenticator code, or the password for members without 2FA
+export default function StepUpDialog({ open, onOpenChange, onConfirmed }: StepUpDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [secret, setSecret] = useState("");
+  const usesCode = isTwoFactorEnabled(user);
+
+  const stepUpMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/step-up", usesCode ? { code: secret } : { password: secret });
+      return await readJson(res);
+    },
+    onSuccess: () => {
+      setSecret("");
+      onConfirmed();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't confirm it's you",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setSecret("");
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Confirm it's you
+          </DialogTitle>
+          <DialogDescription>
+            Approving requests of this size needs a fresh confirmation.{" "}
+            {usesCode ? "Enter the code from your authenticator app." : "Enter your password."}
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          id="step-up-form"
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            stepUpMutation.mutate();
+          }}
+        >
+          <Label htmlFor="step-up-secret">{usesCode ? "Authentication code" : "Password"}</Label>
+          <Input
+            id="step-up-secret"
+            type={usesCode ? "text" : "password"}
+            inputMode={usesCode ? "numeric" : undefined}
+            autoComplete={usesCode ? "one-time-code" : "current-password"}
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            autoFocus
+            data-testid="input-step-up"
+          />
+        </form>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-step-up-cancel">
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            form="step-up-form"
+            disabled={!secret || stepUpMutation.isPending}
+            data-testid="button-step-up-confirm"
+          >
+            {stepUpMutation.isPending ? "Confirming..." : "Confirm & Approve"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertCircle, CheckCircle2, CloudOff, HardDrive, Loader2, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSyncStatus } from "@/hooks/use-sync";
+import { syncEngine } from "@/lib/syncEngine";
+import type { SyncSnapshot } from "@/lib/syncEngine";
+
+function describe(snapshot: SyncSnapshot): { label: string; icon: typeof HardDrive; className: string } {
+  const pending = snapshot.pending > 0 ? ` · ${snapshot.pending} pending` : "";
+  switch (snapshot.status) {
+    case "disconnected":
+      return { label: "Saved on this device", icon: HardDrive, className: "text-muted-foreground" };
+    case "offline":
+      return { label: `Offline${pending}`, icon: CloudOff, className: "text-pending" };
+    case "syncing":
+      return { label: "Syncing...", icon: Loader2, className: "text-muted-foreground" };
+    case "error":
+      return { label: `Sync failed${pending}`, icon: AlertCircle, className: "text-destructive" };
+    default:
+      return {
+        label: snapshot.pending > 0
+          ? `${snapshot.pending} pending`
+          : snapshot.lastSyncedAt
+            ? `Synced ${formatDistanceToNow(snapshot.lastSyncedAt, { addSuffix: true })}`
+            : "Synced",
+        icon: CheckCircle2,
+        className: "text-success",
+      };
+  }
+}
+
+// Shows whether local data has reached the team server, and connects this browser to it
+export default function SyncStatus() {
+  const { toast } = useToast();
+  const snapshot = useSyncStatus();
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  if (!syncEngine.enabled) return null;
+
+  const { label, icon: Icon, className } = describe(snapshot);
+  const connected = snapshot.status !== "disconnected";
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: success });
+      setOpen(false);
+    } catch (error: any) {
+      toast({ title: "Sync failed", description: error.message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="w-full justify-start gap-2 font-normal"
+        onClick={() => setOpen(true)}
+        data-testid="button-sync-status"
+      >
+        <Icon className={`h-4 w-4 shrink-0 ${className} ${snapshot.status === "syncing" ? "animate-spin" : ""}`} />
+        <span className="truncate text-xs" data-testid="text-sync-status">{label}</span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Sync with team server</DialogTitle>
+            <DialogDescription>
+              {connected
+                ? "Changes made here are sent to the server and changes from other browsers are pulled in. Edits made offline are sent when you reconnect."
+                : "Data is only stored in this browser. Sign in to your team's RapidFunds server to back it up and share it across browsers."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {connected ? (
+            <div className="space-y-2 text-sm">
+              <p>
+                <span className="text-muted-foreground">Status: </span>
+                {label}
+              </p>
+              {snapshot.error && <p className="text-destructive">{snapshot.error}</p>}
+            </div>
+          ) : (
+            <form
+              id="sync-connect-form"
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                run(() => syncEngine.connect(email, password), "Connected to sync server");
+              }}
+            >
+              <div className="space-y-2">
+                <Label htmlFor="sync-email">Server email</Label>
+                <Input
+                  id="sync-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  data-testid="input-sync-email"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sync-password">Server password</Label>
+                <Input
+                  id="sync-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  data-testid="input-sync-password"
+                />
+              </div>
+            </form>
+          )}
+
+          <DialogFooter>
+            {connected ? (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => run(() => syncEngine.disconnect(), "Disconnected from sync server")}
+                  disabled={busy}
+                  data-testid="button-sync-disconnect"
+                >
+                  Disconnect
+                </Button>
+                <Button
+                  onClick={() => run(() => syncEngine.sync().then(() => {
+                    const { status, error } = syncEngine.getSnapshot();
+                    if (status === "error") throw new Error(error || "Sync failed");
+                  }), "Sync complete")}
+                  disabled={busy || snapshot.status === "offline"}
+                  data-testid="button-sync-now"
+                >
+                  <RefreshCw className={`h-4 w-4 mr-2 ${busy ? "animate-spin" : ""}`} />
+                  Sync Now
+                </Button>
+              </>
+            ) : (
+              <Button type="submit" form="sync-connect-form" disabled={busy} data-testid="button-sync-connect">
+                {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Connect
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
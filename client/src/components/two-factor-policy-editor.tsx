@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ShieldCheck } from "lucide-react";
+import { TwoFactorPolicy, User } from "@/lib/database";
+import { TWO_FACTOR_ROLES, isTwoFactorAvailable, isTwoFactorEnabled } from "@/lib/twoFactor";
+
+interface TwoFactorPolicyEditorProps {
+  policy?: TwoFactorPolicy;
+  users: User[];
+  isSaving?: boolean;
+  onChange: (policy: TwoFactorPolicy) => void;
+}
+
+export default function TwoFactorPolicyEditor({ policy, users, isSaving, onChange }: TwoFactorPolicyEditorProps) {
+  const [required, setRequired] = useState(policy?.required ?? false);
+  const [stepUpAmount, setStepUpAmount] = useState(policy?.stepUpAmount !== undefined ? String(policy.stepUpAmount) : "");
+
+  useEffect(() => {
+    setRequired(policy?.required ?? false);
+    setStepUpAmount(policy?.stepUpAmount !== undefined ? String(policy.stepUpAmount) : "");
+  }, [policy]);
+
+  const threshold = stepUpAmount.trim() === "" ? undefined : parseFloat(stepUpAmount);
+  const isValid = threshold === undefined || threshold >= 0;
+
+  const available = isTwoFactorAvailable();
+  const privileged = users.filter((user) => TWO_FACTOR_ROLES.includes(user.role));
+  const enrolled = privileged.filter(isTwoFactorEnabled);
+
+  const handleSave = () => {
+    onChange({ required: available && required, stepUpAmount: threshold });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          {available
+            ? "Members set up two-factor sign-in from their profile with any authenticator app. Require it for the roles that approve and pay out, and ask approvers to confirm it is them before approving large requests."
+            : "Two-factor sign-in is not available with this storage backend. Approvers can still be asked to confirm their password before approving large requests."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {available && (
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="two-factor-required">Require for {TWO_FACTOR_ROLES.join(", ")}</Label>
+              <p className="text-sm text-muted-foreground">
+                {enrolled.length} of {privileged.length} members in these roles have two-factor authentication on. The
+                rest are sent to their profile to set it up.
+              </p>
+            </div>
+            <Switch
+              id="two-factor-required"
+              checked={required}
+              onCheckedChange={setRequired}
+              data-testid="switch-two-factor-required"
+            />
+          </div>
+        )}
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="step-up-amount">Confirm approvals above</Label>
+          <Input
+            id="step-up-amount"
+            type="number"
+            min="0"
+            placeholder="No confirmation"
+            value={stepUpAmount}
+            onChange={(e) => setStepUpAmount(e.target.value)}
+            data-testid="input-step-up-amount"
+          />
+          <p className="text-xs text-muted-foreground">
+            Approvers re-enter a code (or their password, without two-factor) at most every 5 minutes. Leave empty to
+            turn this off.
+          </p>
+        </div>
+        <Button onClick={handleSave} disabled={!isValid || isSaving} data-testid="button-save-two-factor-policy">
+          {isSaving ? "Saving..." : "Save Security Settings"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { toDataURL } from "qrcode";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Copy, ShieldCheck } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, readJson } from "@/lib/queryClient";
+import { Organization, User } from "@/lib/database";
+import { isTwoFactorEnabled, twoFactorRequiredFor } from "@/lib/twoFactor";
+
+interface TwoFactorSettingsProps {
+  user: User;
+  organization?: Organization;
+}
+
+interface PendingSetup {
+  secret: string;
+  qrCode: string;
+}
+
+export default function TwoFactorSettings({ user, organization }: TwoFactorSettingsProps) {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<PendingSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const enabled = isTwoFactorEnabled(user);
+  const required = twoFactorRequiredFor(user, organization);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  // Recovery codes are only returned once, so keep them on screen until dismissed
+  const showRecoveryCodes = (title: string) => (result: { recoveryCodes: string[] }) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    setSetup(null);
+    setCode("");
+    setRecoveryCodes(result.recoveryCodes);
+    toast({ title });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/setup");
+      const { secret, otpauthUri } = await readJson<{ secret: string; otpauthUri: string }>(res);
+      return { secret, qrCode: await toDataURL(otpauthUri, { width: 192, margin: 1 }) };
+    },
+    onSuccess: (pending: PendingSetup) => {
+      setSetup(pending);
+      setCode("");
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/enable", { code });
+      return await readJson(res);
+    },
+    onSuccess: showRecoveryCodes("Two-factor authentication is on"),
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/recovery-codes", { code });
+      return await readJson(res);
+    },
+    onSuccess: showRecoveryCodes("New recovery codes created"),
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/disable", { code });
+      return await readJson(res);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      setCode("");
+      toast({ title: "Two-factor authentication is off" });
+    },
+    onError,
+  });
+
+  const codeInput = (
+    <div className="space-y-2">
+      <Label htmlFor="two-factor-code">Authentication code</Label>
+      <Input
+        id="two-factor-code"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder={enabled ? "6-digit code or recovery code" : "6-digit code"}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        data-testid="input-two-factor-code"
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          <Badge variant={enabled ? "default" : "secondary"}>{enabled ? "On" : "Off"}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Sign in with a code from an authenticator app as well as your password.
+          {required && " Your organization requires this for your role."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes ? (
+          <div className="space-y-4" data-testid="recovery-codes">
+            <p className="text-sm text-muted-foreground">
+              Save these recovery codes somewhere safe. Each one signs you in once if you lose your device, and
+              they will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 p-3 border border-border rounded-md font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  navigator.clipboard.writeText(recoveryCodes.join("\n"));
+                  toast({ title: "Recovery codes copied to clipboard" });
+                }}
+                data-testid="button-copy-recovery-codes"
+              >
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button onClick={() => setRecoveryCodes(null)} data-testid="button-recovery-codes-done">
+                I've Saved Them
+              </Button>
+            </div>
+          </div>
+        ) : enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              On since {format(new Date(user.twoFactor!.enabledAt), "PP")}.{" "}
+              {user.twoFactor!.recoveryCodesLeft} recovery codes left.
+            </p>
+            {codeInput}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={!code || regenerateMutation.isPending}
+                data-testid="button-regenerate-recovery-codes"
+              >
+                New Recovery Codes
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => disableMutation.mutate()}
+                disabled={!code || required || disableMutation.isPending}
+                data-testid="button-disable-two-factor"
+              >
+                {disableMutation.isPending ? "Turning off..." : "Turn Off"}
+              </Button>
+            </div>
+          </>
+        ) : setup ? (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Scan this QR code with your authenticator app, or enter the key by hand, then type the code it shows.
+            </p>
+            <img
+              src={setup.qrCode}
+              alt="Two-factor authentication QR code"
+              className="h-48 w-48 border border-border rounded-md"
+              data-testid="img-two-factor-qr"
+            />
+            <p className="font-mono text-sm break-all" data-testid="text-two-factor-secret">{setup.secret}</p>
+            {codeInput}
+            <div className="flex gap-2">
+              <Button
+                onClick={() => enableMutation.mutate()}
+                disabled={!code || enableMutation.isPending}
+                data-testid="button-enable-two-factor"
+              >
+                {enableMutation.isPending ? "Verifying..." : "Verify & Turn On"}
+              </Button>
+              <Button variant="outline" onClick={() => setSetup(null)} data-testid="button-cancel-two-factor">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            onClick={() => setupMutation.mutate()}
+            disabled={setupMutation.isPending}
+            data-testid="button-setup-two-factor"
+          >
+            {setupMutation.isPending ? "Preparing..." : "Set Up Two-Factor Authentication"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,33 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "../lib/queryClient";
+import { parseAttachmentUrl } from "../lib/attachments";
+import type { Attachment } from "../lib/database";
+
+// Object URLs per attachment id. Stored content never changes, so one URL serves the whole session.
+const objectUrls = new Map<string, string>();
+
+export async function resolveAttachmentUrl(url: string): Promise<string> {
+  const id = parseAttachmentUrl(url);
+  if (!id) return url;
+
+  const cached = objectUrls.get(id);
+  if (cached) return cached;
+
+  const res = await apiRequest("GET", url);
+  if (!res.ok) throw new Error(res.statusText || "File not found");
+  const attachment: Attachment = await res.json();
+
+  const objectUrl = URL.createObjectURL(attachment.blob);
+  objectUrls.set(id, objectUrl);
+  return objectUrl;
+}
+
+// Turns an attachment's /api/files/:id link into a URL the browser can display or download
+export function useAttachmentUrl(url: string | undefined, enabled = true) {
+  return useQuery<string>({
+    queryKey: ["/api/files", url, "object-url"],
+    queryFn: () => resolveAttachmentUrl(url!),
+    enabled: !!url && enabled,
+    staleTime: Infinity,
+  });
+}
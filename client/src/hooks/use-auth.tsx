@@ -14,7 +14,7 @@ type AuthContextType = {
   error: Error | null;
   loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, RegisterData>;
+  registerMutation: UseMutationResult<RegisterResult, Error, RegisterData>;
   verifyEmailMutation: UseMutationResult<SelectUser, Error, string>;
   requestPasswordResetMutation: UseMutationResult<void, Error, string>;
   resetPasswordMutation: UseMutationResult<void, Error, { token: string; newPassword: string }>;
@@ -27,6 +27,7 @@ type LoginData = {
   email: string;
   password: string;
   orgCode?: string;
+  code?: string;             // second factor, once sign-in has asked for it
 };
 
 type RegisterData = {
@@ -37,6 +38,13 @@ type RegisterData = {
   adminFullName: string;
 };
 
+// Joins an org that requires approval come back pending, with no session opened
+type RegisterResult = {
+  user: SelectUser;
+  pending?: boolean;
+  message: string;
+};
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -70,7 +78,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginData) => {
-      return await authManager.login(credentials.email, credentials.password);
+      return await authManager.login(credentials.email, credentials.password, credentials.code);
     },
     onSuccess: (user: SelectUser) => {
       setUser(user);
@@ -86,7 +94,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const response = await apiRequest("POST", "/api/register", credentials);
       return await response.json();
     },
-    onSuccess: (user: SelectUser) => {
+    onSuccess: () => {
+      const user = authManager.getCurrentUser();
       setUser(user);
       queryClient.setQueryData(["/api/user"], user);
     },
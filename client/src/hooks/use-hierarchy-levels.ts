@@ -0,0 +1,31 @@
+import { useMemo } from "react";
+import type { CSSProperties } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { resolveHierarchyLevels, levelAtDepth, levelForNode } from "@shared/hierarchyLevels";
+import type { HierarchyLevel, Organization } from "../lib/database";
+
+// The signed-in org's hierarchy levels, top first, for naming and coloring chart nodes
+export function useHierarchyLevels() {
+  const { data: organization } = useQuery<Organization>({
+    queryKey: ["/api/organization"],
+  });
+
+  return useMemo(() => {
+    const levels = resolveHierarchyLevels(organization?.settings.hierarchyLevels);
+    return {
+      levels,
+      levelAt: (depth: number) => levelAtDepth(depth, levels),
+      levelOf: (node: { level: number; hierarchyLevelId?: string }) => levelForNode(node, levels),
+    };
+  }, [organization]);
+}
+
+// Level colors for a badge: tinted background, border and text
+export function levelStyle(level: HierarchyLevel): CSSProperties {
+  return { backgroundColor: `${level.color}1A`, borderColor: `${level.color}66`, color: level.color };
+}
+
+// Level colors for a node card, leaving its text as it is
+export function levelCardStyle(level: HierarchyLevel): CSSProperties {
+  return { backgroundColor: `${level.color}0D`, borderColor: `${level.color}66` };
+}
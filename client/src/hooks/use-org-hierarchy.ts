@@ -0,0 +1,18 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { buildHierarchy } from "../lib/hierarchy";
+import type { OrgHierarchy } from "../lib/hierarchy";
+import type { OrgChartNode } from "../lib/database";
+
+// The signed-in org's chart nodes and the hierarchy built from them, shared by every org chart view
+export function useOrgHierarchy(enabled = true): { nodes: OrgChartNode[]; hierarchy: OrgHierarchy; isLoading: boolean } {
+  const { data: nodes = EMPTY, isLoading } = useQuery<OrgChartNode[]>({
+    queryKey: ["/api/org-chart"],
+    enabled,
+  });
+
+  const hierarchy = useMemo(() => buildHierarchy(nodes), [nodes]);
+  return { nodes, hierarchy, isLoading };
+}
+
+const EMPTY: OrgChartNode[] = [];
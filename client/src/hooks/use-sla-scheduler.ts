@@ -0,0 +1,31 @@
+import { useEffect } from "react";
+import { useAuth } from "./use-auth";
+import { queryClient } from "../lib/queryClient";
+import { slaScheduler } from "../lib/slaScheduler";
+import { can } from "../lib/permissions";
+import type { FundingRequest } from "../lib/database";
+
+// Runs the SLA escalation scheduler while someone who may override approvals is signed in
+export function useSlaScheduler() {
+  const { user } = useAuth();
+  const escalates = can(user, "request.override");
+
+  useEffect(() => {
+    if (!user || !escalates) return;
+
+    const onEscalated = (escalated: FundingRequest[]) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/requests"] });
+      escalated.forEach((request) =>
+        queryClient.invalidateQueries({ queryKey: ["/api/requests", request.id, "messages"] })
+      );
+    };
+
+    slaScheduler.addListener(onEscalated);
+    slaScheduler.start();
+
+    return () => {
+      slaScheduler.removeListener(onEscalated);
+      slaScheduler.stop();
+    };
+  }, [user?.id, escalates]);
+}
@@ -0,0 +1,39 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import StepUpDialog from "@/components/step-up-dialog";
+import { authManager } from "@/lib/browserAuth";
+import { stepUpRequiredFor } from "@/lib/twoFactor";
+import type { Organization } from "@/lib/database";
+
+// Runs an approval straight away, or once the approver has confirmed it is them when the
+// amount is above the organization's step-up threshold. Render `stepUpDialog` once on the page.
+export function useStepUp() {
+  const [pending, setPending] = useState<(() => void) | null>(null);
+
+  const { data: organization } = useQuery<Organization>({
+    queryKey: ["/api/organization"],
+  });
+
+  const withStepUp = (amount: number, approve: () => void) => {
+    if (stepUpRequiredFor(amount, organization) && !authManager.hasRecentStepUp()) {
+      setPending(() => approve);
+    } else {
+      approve();
+    }
+  };
+
+  const stepUpDialog = (
+    <StepUpDialog
+      open={pending !== null}
+      onOpenChange={(open) => {
+        if (!open) setPending(null);
+      }}
+      onConfirmed={() => {
+        pending?.();
+        setPending(null);
+      }}
+    />
+  );
+
+  return { withStepUp, stepUpDialog };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "../lib/queryClient";
+import { syncEngine } from "../lib/syncEngine";
+import type { SyncSnapshot } from "../lib/syncEngine";
+
+// Runs the offline sync engine for the whole app and refreshes queries when a pull changes local data
+export function useSyncEngine() {
+  useEffect(() => {
+    if (!syncEngine.enabled) return;
+
+    let lastSyncedAt = syncEngine.getSnapshot().lastSyncedAt;
+    const onSync = (snapshot: SyncSnapshot) => {
+      if (snapshot.lastSyncedAt !== lastSyncedAt && snapshot.received > 0) {
+        queryClient.invalidateQueries();
+      }
+      lastSyncedAt = snapshot.lastSyncedAt;
+    };
+
+    syncEngine.addListener(onSync);
+    syncEngine.start();
+
+    return () => {
+      syncEngine.removeListener(onSync);
+      syncEngine.stop();
+    };
+  }, []);
+}
+
+export function useSyncStatus(): SyncSnapshot {
+  const [snapshot, setSnapshot] = useState(syncEngine.getSnapshot());
+
+  useEffect(() => {
+    syncEngine.addListener(setSnapshot);
+    return () => syncEngine.removeListener(setSnapshot);
+  }, []);
+
+  return snapshot;
+}
@@ -0,0 +1,148 @@
+import type { ZodType } from 'zod';
+import { ValidationError, fieldErrors } from '@shared/contracts';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// An error with the HTTP status the router should answer with
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// '/api/requests/:id/messages' -> { id: string }
+export type PathParams<Path extends string> =
+  Path extends `${string}:${infer Param}/${infer Rest}`
+    ? { [K in Param]: string } & PathParams<`/${Rest}`>
+    : Path extends `${string}:${infer Param}`
+      ? { [K in Param]: string }
+      : {};
+
+export interface RouteContext<Path extends string, Body> {
+  params: PathParams<Path>;
+  body: Body;
+  query: URLSearchParams;
+}
+
+export interface Route<Method extends HttpMethod = HttpMethod, Path extends string = string, Body = any, Result = any, Input = any> {
+  method: Method;
+  path: Path;
+  body?: ZodType<Body, any, Input>;
+  handler: (context: RouteContext<Path, Body>) => Promise<Result>;
+}
+
+type Handler<Path extends string, Body, Result> = (context: RouteContext<Path, Body>) => Promise<Result>;
+
+// Declare one endpoint. With a `body` schema the payload is validated (422 on failure) and typed;
+// without one the handler receives it as sent.
+export function route<Method extends HttpMethod, Path extends string, Result>(
+  method: Method,
+  path: Path,
+  handler: Handler<Path, any, Result>
+): Route<Method, Path, any, Result>;
+export function route<Method extends HttpMethod, Path extends string, Body, Result, Input>(
+  method: Method,
+  path: Path,
+  options: { body: ZodType<Body, any, Input> },
+  handler: Handler<Path, Body, Result>
+): Route<Method, Path, Body, Result, Input>;
+export function route(method: HttpMethod, path: string, ...args: any[]): Route {
+  const [options, handler] = args.length === 1 ? [{}, args[0]] : args;
+  return { method, path, body: options.body, handler };
+}
+
+// Response and request payload types of one endpoint in a route table. The payload is what
+// callers send, before the schema coerces it.
+type FindRoute<Routes extends Route, Method extends HttpMethod, Path extends string> =
+  Extract<Routes, { method: Method; path: Path }>;
+
+export type RouteResult<Routes extends Route, Method extends HttpMethod, Path extends string> =
+  Awaited<ReturnType<FindRoute<Routes, Method, Path>['handler']>>;
+
+export type RouteBody<Routes extends Route, Method extends HttpMethod, Path extends string> =
+  FindRoute<Routes, Method, Path> extends Route<Method, Path, any, any, infer Input> ? Input : never;
+
+interface CompiledRoute {
+  route: Route;
+  segments: string[];
+}
+
+const splitPath = (path: string) => path.split('/').filter(Boolean);
+
+const isParam = (segment: string) => segment.startsWith(':');
+
+function matchSegments(pattern: string[], segments: string[]): Record<string, string> | null {
+  if (pattern.length !== segments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (isParam(pattern[i])) {
+      params[pattern[i].slice(1)] = decodeURIComponent(segments[i]);
+    } else if (pattern[i] !== segments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+// Literal segments win over parameters, so /api/budgets/check is never read as /api/budgets/:id
+function bySpecificity(a: CompiledRoute, b: CompiledRoute): number {
+  for (let i = 0; i < Math.min(a.segments.length, b.segments.length); i++) {
+    const diff = Number(isParam(a.segments[i])) - Number(isParam(b.segments[i]));
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+// Resolve a method and URL against a route table and run the matching handler.
+// Unknown paths throw a 404 and known paths with the wrong method a 405; invalid bodies
+// throw a ValidationError, answered with a 422 and one message per field.
+export function createRouter(routes: readonly Route[]) {
+  const compiled = routes
+    .map(route => ({ route, segments: splitPath(route.path) }))
+    .sort(bySpecificity);
+
+  for (let i = 0; i < compiled.length; i++) {
+    const { route } = compiled[i];
+    if (compiled.slice(0, i).some(other => other.route.path === route.path && other.route.method === route.method)) {
+      throw new Error(`Duplicate API route: ${route.method} ${route.path}`);
+    }
+  }
+
+  return async function dispatch(method: string, url: string, data?: unknown): Promise<unknown> {
+    const [pathname, search = ''] = url.split('?');
+    const segments = splitPath(pathname);
+
+    let path: string | null = null;
+    let params: Record<string, string> = {};
+    for (const entry of compiled) {
+      const matched = matchSegments(entry.segments, segments);
+      if (matched) {
+        path = entry.route.path;
+        params = matched;
+        break;
+      }
+    }
+    if (!path) throw new ApiError(404, `Unknown API endpoint: ${pathname}`);
+
+    const candidates = compiled.filter(entry => entry.route.path === path).map(entry => entry.route);
+    const route = candidates.find(candidate => candidate.method === method.toUpperCase());
+    if (!route) {
+      throw new ApiError(405, `${method} is not allowed on ${pathname}`, {
+        allow: candidates.map(candidate => candidate.method)
+      });
+    }
+
+    let body = data;
+    if (route.body) {
+      const parsed = route.body.safeParse(data);
+      if (!parsed.success) {
+        throw new ValidationError(fieldErrors(parsed.error.issues));
+      }
+      body = parsed.data;
+    }
+
+    return route.handler({ params, body, query: new URLSearchParams(search) } as RouteContext<string, unknown>);
+  };
+}
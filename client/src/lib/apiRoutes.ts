@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import {
+  loginInput, registerOrganizationInput, joinOrganizationInput, profileInput, passwordChangeInput, delegationInput,
+  organizationUpdateInput, createUserInput, membershipUpdateInput, switchOrganizationInput, orgRequestInput, orgRequestUpdateInput,
+  orgChartInput, orgChartImportInput, orgChartNodeInput, orgChartNodeUpdateInput, moveOrgChartNodeInput, createRequestInput, requestStatusInput, messageInput,
+  inviteTokenInput, approvalChainInput, approvalChainUpdateInput, budgetInput, budgetUpdateInput, amountCheckInput,
+  budgetCheckInput, invoiceFiltersInput, roleAssignmentInput, paymentReleaseInput, twoFactorCodeInput, stepUpInput,
+  joinByCodeInput, domainVerificationInput, domainChallengeInput, orgRequestDecisionInput
+} from '@shared/contracts';
+import { browserApi } from './browserApi';
+import { route } from './apiRouter';
+import type { HttpMethod, RouteBody, RouteResult } from './apiRouter';
+
+// Joining an existing organization (has inviteCode) or creating a new one
+const registerBody = z.union([joinOrganizationInput, registerOrganizationInput]);
+
+const fileBody = z.instanceof(File);
+
+// Every endpoint the pages can call, served by BrowserApi
+export const apiRoutes = [
+  // Session
+  route('POST', '/api/login', { body: loginInput }, ({ body }) => browserApi.login(body.email, body.password, body.code)),
+  route('POST', '/api/register', { body: registerBody }, async ({ body }) =>
+    'inviteCode' in body
+      ? browserApi.joinOrganization(body.inviteCode, body.email, body.password, body.fullName, body.phoneNumber)
+      : browserApi.register(body.orgCode, body.name, body.adminEmail, body.adminPassword, body.adminFullName)
+  ),
+  route('POST', '/api/join', { body: joinByCodeInput }, ({ body }) => browserApi.joinOrganizationByCode(body)),
+  route('GET', '/api/organizations/domain-match', ({ query }) => browserApi.getDomainJoinOffer(query.get('email') ?? '')),
+  route('POST', '/api/logout', async () => {
+    await browserApi.logout();
+    return null;
+  }),
+
+  // Current user
+  route('GET', '/api/user', () => browserApi.getCurrentUser()),
+  route('PATCH', '/api/user/profile', { body: profileInput }, ({ body }) => browserApi.updateProfile(body)),
+  route('PUT', '/api/user/delegation', { body: delegationInput }, ({ body }) => browserApi.setDelegation(body)),
+  route('DELETE', '/api/user/delegation', () => browserApi.clearDelegation()),
+  route('PATCH', '/api/user/password', { body: passwordChangeInput }, async ({ body }) => {
+    await browserApi.changePassword(body);
+    return { success: true };
+  }),
+  route('POST', '/api/user/sessions/revoke', async () => {
+    await browserApi.signOutAllDevices();
+    return null;
+  }),
+  route('POST', '/api/user/2fa/setup', () => browserApi.beginTwoFactorSetup()),
+  route('POST', '/api/user/2fa/enable', { body: twoFactorCodeInput }, ({ body }) => browserApi.enableTwoFactor(body)),
+  route('POST', '/api/user/2fa/recovery-codes', { body: twoFactorCodeInput }, ({ body }) => browserApi.regenerateRecoveryCodes(body)),
+  route('POST', '/api/user/2fa/disable', { body: twoFactorCodeInput }, ({ body }) => browserApi.disableTwoFactor(body)),
+  route('POST', '/api/user/step-up', { body: stepUpInput }, async ({ body }) => {
+    await browserApi.stepUp(body);
+    return { success: true };
+  }),
+  route('GET', '/api/user/memberships', () => browserApi.getMemberships()),
+  route('POST', '/api/user/organization', { body: switchOrganizationInput }, ({ body }) => browserApi.switchOrganization(body.orgId)),
+
+  // Organization and people
+  route('GET', '/api/organization', () => browserApi.getOrganization()),
+  route('PATCH', '/api/organization', { body: organizationUpdateInput }, ({ body }) => browserApi.updateOrganization(body)),
+  route('POST', '/api/organization/domain', { body: domainVerificationInput }, ({ body }) => browserApi.startDomainVerification(body)),
+  route('POST', '/api/organization/domain/verify', { body: domainChallengeInput }, ({ body }) => browserApi.verifyDomain(body)),
+  route('DELETE', '/api/organization/domain', () => browserApi.removeDomain()),
+  route('GET', '/api/approvers', () => browserApi.getApprovers()),
+  route('GET', '/api/users', () => browserApi.getUsers()),
+  route('POST', '/api/users', { body: createUserInput }, ({ body }) => browserApi.createUser(body)),
+  route('PATCH', '/api/users/:id/role', { body: roleAssignmentInput }, ({ params, body }) => browserApi.assignUserRole(params.id, body)),
+  route('GET', '/api/org-members', () => browserApi.getOrgMembers()),
+  route('PUT', '/api/org-members/:id', { body: membershipUpdateInput }, ({ params, body }) => browserApi.updateOrgMember(params.id, body)),
+  route('DELETE', '/api/org-members/:id', async ({ params }) => {
+    await browserApi.deleteOrgMember(params.id);
+    return null;
+  }),
+  route('GET', '/api/org-requests', ({ query }) => browserApi.getOrgRequests(query.get('status') ?? undefined)),
+  route('POST', '/api/org-requests', { body: orgRequestInput }, ({ body }) => browserApi.createOrgRequest(body)),
+  route('PUT', '/api/org-requests/:id', { body: orgRequestUpdateInput }, ({ params, body }) => browserApi.updateOrgRequest(params.id, body)),
+  route('POST', '/api/org-requests/:id/approve', { body: orgRequestDecisionInput }, ({ params, body }) => browserApi.decideOrgRequest(params.id, true, body)),
+  route('POST', '/api/org-requests/:id/reject', { body: orgRequestDecisionInput }, ({ params, body }) => browserApi.decideOrgRequest(params.id, false, body)),
+  route('DELETE', '/api/org-requests/:id', async ({ params }) => {
+    await browserApi.deleteOrgRequest(params.id);
+    return null;
+  }),
+  route('GET', '/api/org-audit-logs', () => browserApi.getOrgAuditLogs()),
+  route('GET', '/api/pending-approvals', () => browserApi.getPendingApprovals()),
+
+  // Org chart: every node at once, spreadsheet imports, and single nodes
+  route('GET', '/api/org-chart', () => browserApi.getOrgChart()),
+  route('POST', '/api/org-chart', { body: orgChartInput }, ({ body }) => browserApi.saveOrgChart(body)),
+  route('POST', '/api/org-chart/import/preview', { body: orgChartImportInput }, ({ body }) => browserApi.previewOrgChartImport(body)),
+  route('POST', '/api/org-chart/import', { body: orgChartImportInput }, ({ body }) => browserApi.importOrgChart(body)),
+  route('GET', '/api/org-chart/legacy', () => browserApi.getLegacyOrgChart()),
+  route('POST', '/api/org-chart/legacy/import', () => browserApi.importLegacyOrgChart()),
+  route('DELETE', '/api/org-chart/legacy', async () => {
+    await browserApi.discardLegacyOrgChart();
+    return null;
+  }),
+  route('POST', '/api/org-chart/nodes', { body: orgChartNodeInput }, ({ body }) => browserApi.createOrgChartNode(body)),
+  route('PUT', '/api/org-chart/:id', { body: orgChartNodeUpdateInput }, ({ params, body }) =>
+    browserApi.updateOrgChartNode(params.id, body)
+  ),
+  route('DELETE', '/api/org-chart/:id', async ({ params }) => {
+    await browserApi.deleteOrgChartNode(params.id);
+    return null;
+  }),
+  route('PUT', '/api/org-chart/:id/move', { body: moveOrgChartNodeInput }, ({ params, body }) =>
+    browserApi.moveOrgChartNode(params.id, body.newParentId)
+  ),
+
+  // Funding requests
+  route('GET', '/api/requests', () => browserApi.getRequests()),
+  route('POST', '/api/requests', { body: createRequestInput }, ({ body }) => browserApi.createRequest(body)),
+  route('POST', '/api/requests/evaluate-rules', { body: amountCheckInput }, ({ body }) => browserApi.evaluateApprovalRules(body)),
+  route('PATCH', '/api/requests/:id/status', { body: requestStatusInput }, ({ params, body }) =>
+    browserApi.updateRequestStatus(params.id, body.status, body.comments, body.isFastTrack)
+  ),
+  route('POST', '/api/requests/:id/release-payment', { body: paymentReleaseInput }, ({ params, body }) =>
+    browserApi.releasePayment(params.id, body.reference)
+  ),
+  route('GET', '/api/requests/:id/messages', ({ params }) => browserApi.getRequestMessages(params.id)),
+  route('POST', '/api/requests/:id/messages', { body: messageInput }, ({ params, body }) => browserApi.createRequestMessage(params.id, body)),
+  route('GET', '/api/requests/:id/approval-history', ({ params }) => browserApi.getApprovalHistory(params.id)),
+  route('GET', '/api/requests/:id/invoice', ({ params }) => browserApi.getRequestInvoice(params.id)),
+
+  // Invoices
+  route('GET', '/api/invoices', () => browserApi.getInvoices()),
+  route('POST', '/api/invoices/search', { body: invoiceFiltersInput }, ({ body }) => browserApi.getInvoices(body)),
+  route('GET', '/api/invoices/:id', ({ params }) => browserApi.getInvoice(params.id)),
+
+  // Invites
+  route('GET', '/api/invite-tokens', () => browserApi.getInviteTokens()),
+  route('POST', '/api/invite-tokens', { body: inviteTokenInput }, ({ body }) =>
+    browserApi.createInviteToken(body.role, body.expiresInDays)
+  ),
+  route('GET', '/api/invite-tokens/:token/validate', ({ params }) => browserApi.validateInviteToken(params.token)),
+  route('DELETE', '/api/invite-tokens/:id', async ({ params }) => {
+    await browserApi.deleteInviteToken(params.id);
+    return { success: true };
+  }),
+
+  // Approval chains
+  route('GET', '/api/approval-chains', () => browserApi.getApprovalChains()),
+  route('POST', '/api/approval-chains', { body: approvalChainInput }, ({ body }) => browserApi.createApprovalChain(body)),
+  route('GET', '/api/approval-chains/default', () => browserApi.getDefaultApprovalChain()),
+  route('POST', '/api/approval-chains/resolve', { body: amountCheckInput }, ({ body }) => browserApi.resolveApprovalRoute(body)),
+  route('GET', '/api/approval-chains/:id', ({ params }) => browserApi.getApprovalChain(params.id)),
+  route('PATCH', '/api/approval-chains/:id', { body: approvalChainUpdateInput }, ({ params, body }) => browserApi.updateApprovalChain(params.id, body)),
+  route('DELETE', '/api/approval-chains/:id', async ({ params }) => {
+    await browserApi.deleteApprovalChain(params.id);
+    return null;
+  }),
+
+  // Budgets
+  route('GET', '/api/budgets', () => browserApi.getBudgets()),
+  route('POST', '/api/budgets', { body: budgetInput }, ({ body }) => browserApi.createBudget(body)),
+  route('POST', '/api/budgets/check', { body: budgetCheckInput }, ({ body }) => browserApi.checkBudget(body)),
+  route('PATCH', '/api/budgets/:id', { body: budgetUpdateInput }, ({ params, body }) => browserApi.updateBudget(params.id, body)),
+  route('DELETE', '/api/budgets/:id', async ({ params }) => {
+    await browserApi.deleteBudget(params.id);
+    return null;
+  }),
+
+  // Files
+  route('POST', '/api/upload', { body: fileBody }, ({ body }) => browserApi.uploadFile(body)),
+  route('POST', '/api/upload/logo', { body: fileBody }, ({ body }) => browserApi.uploadLogo(body)),
+  route('GET', '/api/files/:id', ({ params }) => browserApi.getAttachment(params.id))
+];
+
+type ApiRoute = typeof apiRoutes[number];
+
+// Response and payload types of an endpoint, e.g. ApiResponse<'GET', '/api/requests/:id/messages'>
+export type ApiResponse<Method extends HttpMethod, Path extends ApiRoute['path']> = RouteResult<ApiRoute, Method, Path>;
+export type ApiPayload<Method extends HttpMethod, Path extends ApiRoute['path']> = RouteBody<ApiRoute, Method, Path>;
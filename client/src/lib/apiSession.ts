@@ -0,0 +1,73 @@
+
+// Session with the Express API, used by the sync engine. The access
+// token is short-lived; a 401 triggers one refresh and a retry before giving up.
+const API_TOKEN_KEY = 'apiToken';
+const API_REFRESH_TOKEN_KEY = 'apiRefreshToken';
+
+export interface ApiSessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export function saveApiSession({ token, refreshToken }: ApiSessionTokens) {
+  localStorage.setItem(API_TOKEN_KEY, token);
+  localStorage.setItem(API_REFRESH_TOKEN_KEY, refreshToken);
+}
+
+export function clearApiSession() {
+  localStorage.removeItem(API_TOKEN_KEY);
+  localStorage.removeItem(API_REFRESH_TOKEN_KEY);
+}
+
+export function apiToken(): string | null {
+  return localStorage.getItem(API_TOKEN_KEY);
+}
+
+let refreshing: Promise<boolean> | null = null;
+
+// Trade the refresh token for a new pair. Concurrent callers share one round trip.
+export function refreshApiSession(baseUrl: string): Promise<boolean> {
+  if (!refreshing) {
+    refreshing = (async () => {
+      const refreshToken = localStorage.getItem(API_REFRESH_TOKEN_KEY);
+      if (!refreshToken) return false;
+
+      const res = await fetch(`${baseUrl}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken })
+      }).catch(() => null);
+      if (!res) return false;
+      if (!res.ok) {
+        clearApiSession();
+        return false;
+      }
+      saveApiSession(await res.json());
+      return true;
+    })().finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+// fetch() against the API with the current access token, refreshing it once if it has expired
+export async function apiFetch(baseUrl: string, method: string, path: string, body?: unknown): Promise<Response> {
+  const send = () => {
+    const token = apiToken();
+    return fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+  };
+
+  const res = await send();
+  if (res.status === 401 && apiToken() && await refreshApiSession(baseUrl)) {
+    return send();
+  }
+  return res;
+}
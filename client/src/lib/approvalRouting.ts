@@ -0,0 +1,153 @@
+import type { ApprovalChain, ApprovalChainLevel, HierarchyLevel, OrgChartNode } from './database';
+import { levelForNode, withinApprovalLimit } from '@shared/hierarchyLevels';
+
+// Facts about a request that approval chains can be matched against
+export interface RoutingInput {
+  amount: number;
+  category?: string;
+  customCategory?: string;
+  department?: string;
+}
+
+export type RoutingCriterion = 'department' | 'category' | 'amount' | 'default' | 'hierarchy';
+
+export interface ApprovalRoute {
+  chain: ApprovalChain;
+  matchedOn: RoutingCriterion[];
+  reason: string;
+}
+
+const normalize = (value?: string | null) => (value || '').trim().toLowerCase();
+
+const hasAmountRange = (chain: ApprovalChain) =>
+  chain.minAmount != null || chain.maxAmount != null;
+
+const formatAmount = (amount: number) => `₹${amount.toLocaleString()}`;
+
+function describeAmountRange(chain: ApprovalChain): string {
+  const { minAmount, maxAmount } = chain;
+  if (minAmount != null && maxAmount != null) return `between ${formatAmount(minAmount)} and ${formatAmount(maxAmount)}`;
+  if (minAmount != null) return `at least ${formatAmount(minAmount)}`;
+  return `up to ${formatAmount(maxAmount!)}`;
+}
+
+// Returns the criteria a chain matched on, or null if any criterion it specifies fails
+function matchChain(chain: ApprovalChain, input: RoutingInput): RoutingCriterion[] | null {
+  const matchedOn: RoutingCriterion[] = [];
+
+  if (normalize(chain.department)) {
+    if (normalize(chain.department) !== normalize(input.department)) return null;
+    matchedOn.push('department');
+  }
+
+  if (normalize(chain.category)) {
+    const categories = [normalize(input.category), normalize(input.customCategory)];
+    if (!categories.includes(normalize(chain.category))) return null;
+    matchedOn.push('category');
+  }
+
+  if (hasAmountRange(chain)) {
+    if (chain.minAmount != null && input.amount < chain.minAmount) return null;
+    if (chain.maxAmount != null && input.amount > chain.maxAmount) return null;
+    matchedOn.push('amount');
+  }
+
+  return matchedOn;
+}
+
+function describeMatch(chain: ApprovalChain, matchedOn: RoutingCriterion[]): string {
+  const parts = matchedOn.map(criterion => {
+    switch (criterion) {
+      case 'department':
+        return `department is ${chain.department}`;
+      case 'category':
+        return `category is ${chain.category}`;
+      case 'amount':
+        return `amount is ${describeAmountRange(chain)}`;
+      default:
+        return '';
+    }
+  });
+  return `Matched because ${parts.join(' and ')}`;
+}
+
+// Width of a chain's amount band - narrower bands are more specific
+const amountBandWidth = (chain: ApprovalChain) =>
+  (chain.maxAmount ?? Number.POSITIVE_INFINITY) - (chain.minAmount ?? 0);
+
+// Pick the most specific chain whose department, category and amount constraints all
+// hold for the request. Chains without any constraints are left to the default fallback.
+export function matchApprovalChain(chains: ApprovalChain[], input: RoutingInput): ApprovalRoute | null {
+  const candidates = chains
+    .filter(chain => chain.levels && chain.levels.length > 0)
+    .map(chain => ({ chain, matchedOn: matchChain(chain, input) }))
+    .filter((c): c is { chain: ApprovalChain; matchedOn: RoutingCriterion[] } =>
+      c.matchedOn !== null && c.matchedOn.length > 0
+    );
+
+  if (candidates.length === 0) return null;
+
+  candidates.sort((a, b) => {
+    if (a.matchedOn.length !== b.matchedOn.length) return b.matchedOn.length - a.matchedOn.length;
+    // Department-specific chains win over category-only chains at the same specificity
+    const aDept = a.matchedOn.includes('department') ? 1 : 0;
+    const bDept = b.matchedOn.includes('department') ? 1 : 0;
+    if (aDept !== bDept) return bDept - aDept;
+    const aWidth = amountBandWidth(a.chain);
+    const bWidth = amountBandWidth(b.chain);
+    return aWidth === bWidth ? 0 : aWidth < bWidth ? -1 : 1;
+  });
+
+  const best = candidates[0];
+  return {
+    chain: best.chain,
+    matchedOn: best.matchedOn,
+    reason: describeMatch(best.chain, best.matchedOn)
+  };
+}
+
+export function defaultApprovalRoute(chain: ApprovalChain): ApprovalRoute {
+  return {
+    chain,
+    matchedOn: ['default'],
+    reason: 'No specific chain matched - using the organization default chain'
+  };
+}
+
+// Without any chain, a request climbs the requester's reporting line (managers nearest first):
+// each manager on the chart with an account approves in turn, up to the first whose
+// hierarchy level's approval limit covers the amount
+export function reportingLineRoute(
+  orgId: string,
+  managers: OrgChartNode[],
+  levels: HierarchyLevel[] | undefined,
+  amount: number
+): ApprovalRoute | null {
+  const approvals: ApprovalChainLevel[] = [];
+  let coveredBy: HierarchyLevel | null = null;
+
+  for (const manager of managers) {
+    if (!manager.userId) continue;
+    const level = levelForNode(manager, levels);
+    approvals.push({
+      level: approvals.length + 1,
+      approverId: manager.userId,
+      approverName: `${manager.name} (${level.name})`
+    });
+    if (withinApprovalLimit(level, amount)) {
+      coveredBy = level;
+      break;
+    }
+  }
+
+  if (approvals.length === 0) return null;
+
+  const now = new Date();
+  return {
+    chain: { id: '', orgId, name: 'Reporting line', isDefault: false, levels: approvals, createdAt: now, updatedAt: now },
+    matchedOn: ['hierarchy'],
+    reason: coveredBy
+      ? `No approval chain set up - going up the reporting line to ${coveredBy.name}, who can approve ${coveredBy.approvalLimit == null ? 'any amount' : `up to ${formatAmount(coveredBy.approvalLimit)}`}`
+      : 'No approval chain set up and no manager\'s limit covers this amount - going up the whole reporting line'
+  };
+}
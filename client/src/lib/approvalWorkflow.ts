@@ -0,0 +1,115 @@
+import type { ApprovalChain, ApprovalChainLevel, ApprovalHistory, FundingRequest } from './database';
+
+// Decisions an approver can take on an open request
+export type ApprovalDecision = 'Approved' | 'Rejected' | 'Needs Info';
+
+// Result of applying a decision to a request - what to persist and what to record
+export interface ApprovalTransition {
+  status: FundingRequest['status'];
+  currentApprovalLevel: number;
+  approverId?: string;
+  historyAction: ApprovalHistory['action'];
+  message: string;
+}
+
+// Statuses from which a request can still be acted on
+const ACTIONABLE_STATUSES: FundingRequest['status'][] = ['Open', 'Needs Info'];
+
+const HISTORY_ACTIONS: Record<ApprovalDecision, ApprovalHistory['action']> = {
+  'Approved': 'Approved',
+  'Rejected': 'Rejected',
+  'Needs Info': 'RequestInfo'
+};
+
+export function isApprovalDecision(status: string): status is ApprovalDecision {
+  return status in HISTORY_ACTIONS;
+}
+
+export function isActionable(request: FundingRequest): boolean {
+  return ACTIONABLE_STATUSES.includes(request.status);
+}
+
+// Chain levels ordered by level number, regardless of how they were stored
+export function getOrderedLevels(chain: ApprovalChain): ApprovalChainLevel[] {
+  return [...(chain.levels || [])].sort((a, b) => a.level - b.level);
+}
+
+export function getFirstLevel(chain: ApprovalChain): ApprovalChainLevel | null {
+  return getOrderedLevels(chain)[0] || null;
+}
+
+// All levels a request passes through: its chain followed by any rule-added levels
+export function getRequestLevels(request: FundingRequest, chain: ApprovalChain | null): ApprovalChainLevel[] {
+  const chainLevels = chain ? getOrderedLevels(chain) : [];
+  return [...chainLevels, ...(request.additionalApprovalLevels || [])].sort((a, b) => a.level - b.level);
+}
+
+export function getNextLevel(levels: ApprovalChainLevel[], currentLevel: number): ApprovalChainLevel | null {
+  return levels.find(l => l.level > currentLevel) || null;
+}
+
+// Work out the next state of a request for a decision taken at its current level.
+// Only the final level of a chain (or a fast-track) moves the request to 'Approved';
+// earlier approvals forward it to the next level's approver.
+export function resolveApprovalTransition(
+  request: FundingRequest,
+  chain: ApprovalChain | null,
+  decision: ApprovalDecision,
+  isFastTrack: boolean = false
+): ApprovalTransition {
+  if (!isActionable(request)) {
+    throw new Error(`Request is already ${request.status}`);
+  }
+
+  const currentLevel = request.currentApprovalLevel || 1;
+
+  if (decision === 'Rejected') {
+    return {
+      status: 'Rejected',
+      currentApprovalLevel: currentLevel,
+      approverId: request.approverId,
+      historyAction: HISTORY_ACTIONS[decision],
+      message: 'Request rejected'
+    };
+  }
+
+  if (decision === 'Needs Info') {
+    return {
+      status: 'Needs Info',
+      currentApprovalLevel: currentLevel,
+      approverId: request.approverId,
+      historyAction: HISTORY_ACTIONS[decision],
+      message: 'More information requested from the requester'
+    };
+  }
+
+  if (isFastTrack) {
+    return {
+      status: 'Approved',
+      currentApprovalLevel: currentLevel,
+      approverId: request.approverId,
+      historyAction: 'Overridden',
+      message: 'Request fast-tracked - remaining approval levels skipped'
+    };
+  }
+
+  const levels = getRequestLevels(request, chain);
+  const nextLevel = getNextLevel(levels, currentLevel);
+  if (nextLevel) {
+    return {
+      status: 'Open',
+      currentApprovalLevel: nextLevel.level,
+      approverId: nextLevel.approverId,
+      historyAction: HISTORY_ACTIONS[decision],
+      message: `Request forwarded to Level ${nextLevel.level} approver: ${nextLevel.approverName}`
+    };
+  }
+
+  return {
+    status: 'Approved',
+    currentApprovalLevel: currentLevel,
+    approverId: request.approverId,
+    historyAction: HISTORY_ACTIONS[decision],
+    message: levels.length > 0 ? 'Request fully approved - all levels complete' : 'Request approved'
+  };
+}
@@ -0,0 +1,128 @@
+import type { AttachmentRef } from './database';
+
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+const FILE_URL_PREFIX = '/api/files/';
+
+// Types we accept. Anything a browser would execute (HTML, SVG, scripts) is refused.
+const ALLOWED_TYPES = new Set([
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/bmp',
+  'text/plain',
+  'text/csv',
+  'application/json',
+  'application/zip',
+  'application/msword',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+]);
+
+// Office documents share container formats, so the extension decides which one
+const ZIP_TYPES: Record<string, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+};
+const OLE_TYPES: Record<string, string> = {
+  doc: 'application/msword',
+  xls: 'application/vnd.ms-excel'
+};
+const TEXT_TYPES: Record<string, string> = {
+  csv: 'text/csv',
+  json: 'application/json'
+};
+
+const SNIFF_BYTES = 512;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (text: string) => Array.from(text).map(c => c.charCodeAt(0));
+
+const extensionOf = (name: string) => (name.split('.').pop() || '').toLowerCase();
+
+// Decide the type from the file's leading bytes; the browser-reported type is only a hint
+export async function sniffMimeType(file: Blob, name: string): Promise<string> {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  const extension = extensionOf(name);
+
+  if (startsWith(bytes, ascii('%PDF-'))) return 'application/pdf';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, ascii('GIF8'))) return 'image/gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  if (startsWith(bytes, ascii('BM'))) return 'image/bmp';
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return ZIP_TYPES[extension] || 'application/zip';
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0])) return OLE_TYPES[extension] || 'application/octet-stream';
+
+  // Text has no NUL bytes; markup is flagged so it can be refused rather than rendered
+  if (bytes.length > 0 && !bytes.includes(0)) {
+    const head = new TextDecoder().decode(bytes).trimStart().toLowerCase();
+    if (/^<(?:!doctype html|html|script|svg|\?xml)/.test(head)) return head.includes('<svg') ? 'image/svg+xml' : 'text/html';
+    return TEXT_TYPES[extension] || 'text/plain';
+  }
+  return bytes.length === 0 ? 'text/plain' : 'application/octet-stream';
+}
+
+export function validateAttachment(size: number, mimeType: string): void {
+  if (size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`Files must be ${formatFileSize(MAX_ATTACHMENT_BYTES)} or smaller`);
+  }
+  if (!ALLOWED_TYPES.has(mimeType)) {
+    throw new Error('Unsupported file type. Upload PDFs, images, text or Office documents.');
+  }
+}
+
+export async function hashContent(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function attachmentUrl(id: string): string {
+  return `${FILE_URL_PREFIX}${id}`;
+}
+
+// The attachment id in a /api/files/:id URL, or null for any other URL
+export function parseAttachmentUrl(url: string): string | null {
+  return url.startsWith(FILE_URL_PREFIX) ? url.slice(FILE_URL_PREFIX.length) || null : null;
+}
+
+export type PreviewKind = 'image' | 'pdf' | 'text' | 'none';
+
+const PREVIEW_EXTENSIONS: Record<string, PreviewKind> = {
+  png: 'image', jpg: 'image', jpeg: 'image', gif: 'image', webp: 'image', bmp: 'image',
+  pdf: 'pdf',
+  txt: 'text', csv: 'text', json: 'text'
+};
+
+// References saved before types were sniffed have no mimeType; fall back to the extension
+export function getPreviewKind(attachment: Pick<AttachmentRef, 'mimeType' | 'name'>): PreviewKind {
+  const type = attachment.mimeType || '';
+  if (!type) return PREVIEW_EXTENSIONS[extensionOf(attachment.name)] || 'none';
+  if (type.startsWith('image/') && type !== 'image/svg+xml') return 'image';
+  if (type === 'application/pdf') return 'pdf';
+  if ((type.startsWith('text/') && type !== 'text/html') || type === 'application/json') return 'text';
+  return 'none';
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Decode a legacy base64 data URL (files stored in localStorage before IndexedDB)
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, data] = dataUrl.split(',');
+  const type = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(data || '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+}
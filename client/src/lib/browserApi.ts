@@ -1,13 +1,57 @@
-import { browserStorage as storage } from './browserStorage';
-import { authManager } from './browserAuth';
+import { storage } from './storageBackend';
+import { authManager, newInviteCode } from './browserAuth';
+import type { OrganizationMembership, JoinResult } from './browserAuth';
+import { emailService } from './emailService';
+import { isDomainVerified, lookupTxtRecords, txtRecordValue } from './domains';
+import { hashPassword, verifyPassword } from './passwords';
+import { generateTotpSecret, verifyTotp, totpUri, generateRecoveryCodes, hashRecoveryCode } from './totp';
+import { isTwoFactorAvailable, isTwoFactorEnabled, twoFactorRequiredFor, needsTwoFactorSetup, stepUpRequiredFor } from './twoFactor';
+import { can } from './permissions';
+import { CAPABILITY_LABELS, isBuiltInRole, roleGrantRefusal } from '@shared/permissions';
+import type { Capability, PermissionResource } from '@shared/permissions';
 import { generateId } from './database';
-import type { User, Organization, OrgChartNode, OrgMember, OrgRequest, OrgChart } from './database';
+import { withMembership, toOrgMember } from './memberships';
+import { resolveApprovalTransition, isApprovalDecision, getFirstLevel, getOrderedLevels } from './approvalWorkflow';
+import { matchApprovalChain, defaultApprovalRoute, reportingLineRoute } from './approvalRouting';
+import type { ApprovalRoute } from './approvalRouting';
+import { evaluateApprovalRules } from '@shared/approvalRules';
+import type { RuleEvaluation } from '@shared/approvalRules';
+import { computeSlaDeadline, isOverdue, resolveEscalationTarget } from './slaPolicy';
+import { resolveActingApprover, createsDelegationLoop } from './delegation';
+import { computeBudgetConsumption, checkBudgetImpact } from './budgets';
+import type { BudgetImpact, BudgetWithConsumption } from './budgets';
+import { filterInvoices } from './invoices';
+import { readLegacyOrgChartMembers, deleteLegacyOrgChartDatabase, legacyMemberToNode } from './orgChartDB';
+import { resolveOrgChartRules, checkOrgChart, planMove, descendantIds } from '@shared/orgChartRules';
+import type { OrgChartCheck, OrgChartCheckOptions } from '@shared/orgChartRules';
+import { resolveHierarchyLevels } from '@shared/hierarchyLevels';
+import { buildHierarchy, findNodeForUser, getAncestors } from './hierarchy';
+import { ApiError } from './apiRouter';
+import { planOrgChartImport } from './orgChartImport';
+import type { OrgChartImportPlan, OrgChartImportPreview, OrgChartImportResult } from './orgChartImport';
+import { sniffMimeType, validateAttachment, hashContent, attachmentUrl, dataUrlToBlob } from './attachments';
+import { resolveDuplicateSettings, findSuspectedDuplicates, describeDuplicate } from './duplicates';
+import {
+  parseInput, organizationUpdateInput, createUserInput, membershipUpdateInput, orgRequestInput,
+  orgRequestUpdateInput, orgChartInput, orgChartImportInput, orgChartNodeInput, orgChartNodeUpdateInput, moveOrgChartNodeInput,
+  createRequestInput, invoiceInput, amountCheckInput, budgetCheckInput, messageInput, inviteTokenInput,
+  approvalChainInput, approvalChainUpdateInput, budgetInput, budgetUpdateInput, invoiceFiltersInput, profileInput,
+  delegationInput, passwordChangeInput, roleAssignmentInput, twoFactorCodeInput, stepUpInput,
+  joinByCodeInput, domainVerificationInput, domainChallengeInput, orgRequestDecisionInput
+} from '@shared/contracts';
+import type {
+  Payload, OrganizationUpdateInput, CreateUserInput, MembershipUpdateInput, OrgRequestInput, OrgRequestUpdateInput, OrgChartInput,
+  OrgChartImportInput, OrgChartNodeInput, CreateRequestInput, AmountCheckInput, BudgetCheckInput, MessageInput, ApprovalChainInput, BudgetInput,
+  InvoiceFiltersInput, ProfileInput, PasswordChangeInput, RoleAssignmentInput, TwoFactorCodeInput, StepUpInput,
+  JoinByCodeInput, DomainVerificationInput, DomainChallengeInput, OrgRequestDecisionInput
+} from '@shared/contracts';
+import type { User, Membership, Organization, TwoFactorSettings, DomainVerification, DomainJoinPolicy, FundingRequest, ApprovalDelegation, Budget, Invoice, Attachment, AttachmentRef, OrgChartNode, OrgChartRules, OrgMember, OrgRequest, ApprovalChain, ApprovalChainLevel } from './database';
 
 // Browser-based API that mimics the server API endpoints
 export class BrowserApi {
   // Authentication endpoints
-  async login(email: string, password: string): Promise<User> {
-    return await authManager.login(email, password);
+  async login(email: string, password: string, code?: string): Promise<User> {
+    return await authManager.login(email, password, code);
   }
 
   async register(orgCode: string, name: string, adminEmail: string, adminPassword: string, adminFullName: string): Promise<{ organization: Organization; user: User; message: string }> {
@@ -21,23 +65,59 @@ export class BrowserApi {
     };
   }
 
-  async joinOrganization(inviteCode: string, email: string, password: string, fullName: string, phoneNumber?: string): Promise<{ user: User; message: string }> {
-    const user = await authManager.joinOrganization(inviteCode, email, password, fullName, phoneNumber);
-    
+  async joinOrganization(inviteCode: string, email: string, password: string, fullName: string, phoneNumber?: string): Promise<JoinResult & { message: string }> {
+    const result = await authManager.joinOrganization(inviteCode, email, password, fullName, phoneNumber);
+
     return {
-      user,
-      message: "Account created successfully! You are now logged in."
+      ...result,
+      message: joinMessage(result)
     };
   }
 
+  // Sign up with an organization code, or with no code into the org that verified the email's domain
+  async joinOrganizationByCode(input: Payload<JoinByCodeInput>): Promise<JoinResult & { message: string }> {
+    const data = parseInput(joinByCodeInput, input);
+    const result = data.orgCode
+      ? await authManager.joinOrganizationByCode(data.orgCode, data.email, data.password, data.fullName, data.department)
+      : await authManager.joinOrganizationByDomain(data.email, data.password, data.fullName, data.department);
+
+    return {
+      ...result,
+      message: joinMessage(result)
+    };
+  }
+
+  // Public, so the join page can offer sign-up without a code; reveals nothing but the org's name
+  async getDomainJoinOffer(email: string): Promise<{ orgName: string; domain: string; mode: DomainJoinPolicy['mode']; defaultRole: User['role'] } | null> {
+    const org = await authManager.findOrganizationByEmailDomain(email);
+    if (!org) return null;
+    const { mode, defaultRole } = org.settings.domainJoin!;
+    return { orgName: org.name, domain: org.settings.domain!, mode, defaultRole };
+  }
+
   async logout(): Promise<void> {
     authManager.logout();
   }
 
+  async signOutAllDevices(): Promise<void> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    await authManager.signOutAllDevices();
+  }
+
   async getCurrentUser(): Promise<User | null> {
     return authManager.getCurrentUser();
   }
 
+  async getMemberships(): Promise<OrganizationMembership[]> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    return await authManager.getMemberships();
+  }
+
+  async switchOrganization(orgId: string): Promise<User> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    return await authManager.switchOrganization(orgId);
+  }
+
   // Organization endpoints
   async getOrganization(): Promise<Organization> {
     const org = authManager.getCurrentOrganization();
@@ -45,11 +125,96 @@ export class BrowserApi {
     return org;
   }
 
-  async updateOrganization(data: Partial<Organization>): Promise<Organization> {
+  async updateOrganization(data: Payload<OrganizationUpdateInput>): Promise<Organization> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
-    
-    return await authManager.updateOrganization(data);
+    requireCapability('org.manage');
+    const { name, settings } = parseInput(organizationUpdateInput, data);
+
+    if (settings?.domain !== undefined || settings?.domainVerification !== undefined) {
+      throw new Error('The email domain can only be changed by verifying it');
+    }
+    if (settings?.twoFactor?.required && !isTwoFactorAvailable()) {
+      throw new Error('Two-factor authentication is not available with this storage backend');
+    }
+
+    // Settings are saved as one object, so merge the changed ones into the current settings
+    const org = authManager.getCurrentOrganization()!;
+    return await authManager.updateOrganization({
+      ...(name !== undefined && { name }),
+      ...(settings && { settings: { ...org.settings, ...settings } })
+    });
+  }
+
+  // Claim an email domain: DNS verification asks for a TXT record, email verification sends
+  // a code to an address on the domain
+  async startDomainVerification(input: Payload<DomainVerificationInput>): Promise<Organization> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    requireCapability('org.manage');
+    const { domain, method, email } = parseInput(domainVerificationInput, input);
+    const org = authManager.getCurrentOrganization()!;
+
+    const organizations = await storage.getAllOrganizations();
+    if (organizations.some(other => other.orgId !== org.orgId && other.settings.domain === domain && isDomainVerified(other.settings))) {
+      throw new Error('Another organization has already verified this domain');
+    }
+
+    const verification: DomainVerification = method === 'dns'
+      ? { domain, method, token: crypto.randomUUID().replace(/-/g, '') }
+      : {
+          domain,
+          method,
+          email,
+          token: String(crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000).padStart(6, '0'),
+          expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
+        };
+    if (method === 'email') {
+      await emailService.sendDomainVerificationEmail(email!, domain, verification.token);
+    }
+
+    return await authManager.updateOrganization({
+      settings: { ...org.settings, domain, domainVerification: verification }
+    });
+  }
+
+  async verifyDomain(input: Payload<DomainChallengeInput>): Promise<Organization> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    requireCapability('org.manage');
+    const { code } = parseInput(domainChallengeInput, input);
+    const org = authManager.getCurrentOrganization()!;
+    const verification = org.settings.domainVerification;
+
+    if (!verification || verification.domain !== org.settings.domain) {
+      throw new Error('Start verifying a domain first');
+    }
+    if (isDomainVerified(org.settings)) return org;
+
+    if (verification.method === 'dns') {
+      const records = await lookupTxtRecords(verification.domain);
+      if (!records.includes(txtRecordValue(verification.token))) {
+        throw new Error(`No matching TXT record on ${verification.domain} yet. DNS changes can take a while to appear.`);
+      }
+    } else {
+      if (verification.expiresAt && new Date(verification.expiresAt) < new Date()) {
+        throw new Error('This code has expired. Send a new one.');
+      }
+      if (code !== verification.token) throw new Error('Incorrect verification code');
+    }
+
+    return await authManager.updateOrganization({
+      settings: {
+        ...org.settings,
+        domainVerification: { ...verification, verifiedAt: new Date(), expiresAt: undefined }
+      }
+    });
+  }
+
+  async removeDomain(): Promise<Organization> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    requireCapability('org.manage');
+    const org = authManager.getCurrentOrganization()!;
+    return await authManager.updateOrganization({
+      settings: { ...org.settings, domain: undefined, domainVerification: undefined, domainJoin: undefined }
+    });
   }
 
   // User endpoints (legacy - use org-scoped endpoints instead)
@@ -59,61 +224,104 @@ export class BrowserApi {
     return await storage.getUsersByOrgId(user.orgId);
   }
 
-  async createUser(data: any): Promise<User> {
+  async createUser(data: Payload<CreateUserInput>): Promise<User> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('member.manage');
     
     const currentUser = authManager.getCurrentUser()!;
-    return await storage.createUser({
-      ...data,
-      orgId: currentUser.orgId
+    const input = parseInput(createUserInput, data);
+    requireRoleGrant(null, { role: input.role });
+
+    // Someone who already has an account joins with it instead of getting a second one
+    const existing = await storage.getUserByEmail(input.email);
+    if (existing) {
+      const membership = await storage.getMembership(existing.id, currentUser.orgId);
+      if (membership?.status === 'active') throw new Error('This person is already a member');
+
+      const details = { role: input.role, department: input.department, jobTitle: input.jobTitle, status: 'active' as const };
+      const joined = membership
+        ? await storage.updateMembership(membership.id, details)
+        : await storage.createMembership({ ...details, userId: existing.id, orgId: currentUser.orgId, joinedAt: new Date() });
+      return withMembership(existing, joined);
+    }
+
+    return await storage.createUser({ ...input, orgId: currentUser.orgId });
+  }
+
+  // Change a member's built-in role and/or the org-defined role layered on top of it
+  async assignUserRole(userId: string, input: Payload<RoleAssignmentInput>): Promise<User> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    requireCapability('member.manage');
+
+    const currentUser = authManager.getCurrentUser()!;
+    const target = await storage.getUser(userId);
+    const membership = target && await storage.getMembership(userId, currentUser.orgId);
+    if (!target || !membership) throw new Error('User not found');
+
+    const { role, customRoleId } = parseInput(roleAssignmentInput, input);
+    const roles = authManager.getCurrentOrganization()?.settings.roles || [];
+    if (customRoleId && !roles.some(r => r.id === customRoleId && !isBuiltInRole(r.id))) {
+      throw new Error('Unknown custom role');
+    }
+
+    requireRoleGrant(membership, {
+      role: role ?? membership.role,
+      customRoleId: customRoleId !== undefined ? customRoleId : membership.customRoleId
     });
+
+    // Someone must always be able to manage the organization
+    if (role && role !== 'Admin' && membership.role === 'Admin') {
+      const admins = await storage.getUsersByOrgAndRole(currentUser.orgId, 'Admin');
+      if (admins.length <= 1) throw new Error('The organization needs at least one Admin');
+    }
+
+    const changes: Partial<User> = {
+      ...(role ? { role } : {}),
+      ...(customRoleId !== undefined ? { customRoleId: customRoleId ?? undefined } : {})
+    };
+    if (userId === currentUser.id) return await authManager.updateUser(changes);
+    return withMembership(target, await storage.updateMembership(membership.id, changes));
   }
 
   // ===== ORG-SCOPED ENDPOINTS =====
 
-  // Org Members endpoints
+  // Org directory endpoints, backed by memberships
   async getOrgMembers(): Promise<OrgMember[]> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
     const user = authManager.getCurrentUser()!;
     return await storage.getOrgMembers(user.orgId);
   }
 
-  async createOrgMember(data: Omit<OrgMember, 'memberId' | 'orgId'>): Promise<OrgMember> {
+  async updateOrgMember(memberId: string, updates: Payload<MembershipUpdateInput>): Promise<OrgMember> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
-    
-    const currentUser = authManager.getCurrentUser()!;
-    return await storage.createOrgMember({
-      ...data,
-      orgId: currentUser.orgId
-    });
-  }
+    requireCapability('member.manage');
 
-  async updateOrgMember(memberId: string, updates: Partial<OrgMember>): Promise<OrgMember> {
-    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
-    
     const currentUser = authManager.getCurrentUser()!;
-    return await storage.updateOrgMember(currentUser.orgId, memberId, updates);
+    const [user, membership] = await Promise.all([
+      storage.getUser(memberId),
+      storage.getMembership(memberId, currentUser.orgId)
+    ]);
+    if (!user || !membership) throw new Error('Member not found');
+
+    const updated = await storage.updateMembership(membership.id, parseInput(membershipUpdateInput, updates));
+    return toOrgMember(user, updated);
   }
 
+  // Takes the person out of this organization; their account and other memberships stay
   async deleteOrgMember(memberId: string): Promise<void> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
-    
-    const currentUser = authManager.getCurrentUser()!;
-    await storage.deleteOrgMember(currentUser.orgId, memberId);
-  }
+    requireCapability('member.manage');
 
-  async upsertOrgMember(data: Omit<OrgMember, 'memberId' | 'orgId'>): Promise<OrgMember> {
-    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    
     const currentUser = authManager.getCurrentUser()!;
-    return await storage.upsertOrgMember({
-      ...data,
-      orgId: currentUser.orgId
-    });
+    if (memberId === currentUser.id) throw new Error('You cannot remove yourself from the organization');
+
+    const membership = await storage.getMembership(memberId, currentUser.orgId);
+    if (!membership) throw new Error('Member not found');
+    if (membership.role === 'Admin') {
+      const admins = await storage.getUsersByOrgAndRole(currentUser.orgId, 'Admin');
+      if (admins.length <= 1) throw new Error('The organization needs at least one Admin');
+    }
+    await storage.updateMembership(membership.id, { status: 'removed' });
   }
 
   // Org Requests endpoints
@@ -123,54 +331,213 @@ export class BrowserApi {
     return await storage.getOrgRequests(user.orgId, status);
   }
 
-  async createOrgRequest(data: Omit<OrgRequest, 'requestId' | 'orgId'>): Promise<OrgRequest> {
+  async createOrgRequest(data: Payload<OrgRequestInput>): Promise<OrgRequest> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
     
     const currentUser = authManager.getCurrentUser()!;
     return await storage.createOrgRequest({
-      ...data,
-      orgId: currentUser.orgId
+      ...parseInput(orgRequestInput, data),
+      orgId: currentUser.orgId,
+      submittedBy: currentUser.id,
+      submittedAt: new Date(),
+      status: 'pending'
     });
   }
 
-  async updateOrgRequest(requestId: string, updates: Partial<OrgRequest>): Promise<OrgRequest> {
+  async updateOrgRequest(requestId: string, updates: Payload<OrgRequestUpdateInput>): Promise<OrgRequest> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('member.manage');
     
     const currentUser = authManager.getCurrentUser()!;
-    return await storage.updateOrgRequest(currentUser.orgId, requestId, updates);
+    return await storage.updateOrgRequest(currentUser.orgId, requestId, parseInput(orgRequestUpdateInput, updates));
+  }
+
+  // Approve or reject a pending join or profile change. Approving applies it (for a profile
+  // change, only the department and title, and only to the requester's own membership); either
+  // way the decision is audited and the requester hears about it.
+  async decideOrgRequest(requestId: string, approved: boolean, input: Payload<OrgRequestDecisionInput>): Promise<OrgRequest> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    requireCapability('member.manage');
+
+    const { note } = parseInput(orgRequestDecisionInput, input);
+    const currentUser = authManager.getCurrentUser()!;
+    const orgId = currentUser.orgId;
+    const request = (await storage.getOrgRequests(orgId, 'pending')).find(r => r.requestId === requestId);
+    if (!request) throw new Error('Request not found or already handled');
+    if (request.type !== 'join' && request.type !== 'change') {
+      throw new Error('Only join and profile change requests are reviewed here');
+    }
+
+    const userId: string = request.payload?.userId;
+    if (userId !== request.submittedBy) throw new Error('This request is not about its requester');
+    const membership = await storage.getMembership(userId, orgId);
+    if (!membership) throw new Error('Member not found');
+    let membershipUpdates: Partial<Membership> | undefined;
+    if (request.type === 'join') {
+      membershipUpdates = { status: approved ? 'active' : 'removed' };
+    } else if (approved) {
+      if (membership.status !== 'active') throw new Error('This person is no longer a member');
+      const { department, jobTitle } = request.payload.changes ?? {};
+      membershipUpdates = {
+        ...(typeof department === 'string' && { department }),
+        ...(typeof jobTitle === 'string' && { jobTitle })
+      };
+    }
+
+    const handled = await storage.applyOrgRequestDecision(orgId, requestId, {
+      membershipId: membership.id,
+      membershipUpdates,
+      requestUpdates: {
+        status: approved ? 'approved' : 'rejected',
+        handledBy: currentUser.id,
+        handledAt: new Date()
+      }
+    });
+    await storage.logAuditAction(orgId, approved ? 'approve' : 'reject', request.type === 'join' ? 'join' : 'profile', userId, {
+      requestId,
+      payload: request.payload,
+      note
+    }, currentUser.id);
+
+    const requester = await storage.getUser(userId);
+    if (requester && requester.notificationPreferences?.email !== false) {
+      const orgName = authManager.getCurrentOrganization()?.name ?? 'your organization';
+      await emailService.sendMemberRequestDecisionEmail(requester, orgName, { type: request.type, approved, note });
+    }
+    return handled;
   }
 
   async deleteOrgRequest(requestId: string): Promise<void> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('member.manage');
     
     const currentUser = authManager.getCurrentUser()!;
     await storage.deleteOrgRequest(currentUser.orgId, requestId);
   }
 
   // Org Chart endpoints
-  async getOrgChart(): Promise<OrgChart | null> {
+  async getOrgChart(): Promise<OrgChartNode[]> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
     const user = authManager.getCurrentUser()!;
-    return await storage.getOrgChart(user.orgId);
+    return await storage.getOrgChartNodesByOrg(user.orgId);
+  }
+
+  // How many people the org chart database of older builds still holds on this device. It
+  // belonged to no org, so an admin decides which org (if any) it goes into.
+  async getLegacyOrgChart(): Promise<{ members: number }> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    requireCapability('orgchart.edit');
+    return { members: (await readLegacyOrgChartMembers()).length };
   }
 
-  async saveOrgChart(orgChart: Omit<OrgChart, 'orgId'>): Promise<OrgChart> {
+  async importLegacyOrgChart(): Promise<OrgChartNode[]> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('orgchart.edit');
+    const user = authManager.getCurrentUser()!;
+    await importLegacyOrgChart(user.orgId, user.id);
+    return await storage.getOrgChartNodesByOrg(user.orgId);
+  }
+
+  async discardLegacyOrgChart(): Promise<void> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    requireCapability('orgchart.edit');
+    await deleteLegacyOrgChartDatabase();
+  }
+
+  // Replace the org's chart with the submitted nodes: matching ids are updated, new ones
+  // created under their parents, and nodes left out are deleted. The whole chart must pass
+  // the org's chart rules, and levels are recomputed from the tree.
+  async saveOrgChart(orgChart: Payload<OrgChartInput>): Promise<OrgChartNode[]> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    requireCapability('orgchart.edit');
     
     const currentUser = authManager.getCurrentUser()!;
-    return await storage.saveOrgChart({
-      ...orgChart,
-      orgId: currentUser.orgId
+    const { nodes } = parseInput(orgChartInput, orgChart);
+    const { rules, ...options } = await loadChartRules(currentUser.orgId);
+    const levels = levelsFrom(assertChartRules(checkOrgChart(nodes, rules, options)));
+    const existing = new Set((await storage.getOrgChartNodesByOrg(currentUser.orgId)).map(node => node.id));
+    const storedIds = new Map<string, string>();
+
+    for (const { id, orgId: _orgId, createdAt: _createdAt, updatedAt: _updatedAt, ...fields } of parentsFirst(nodes)) {
+      const parentId = fields.parentId ? storedIds.get(fields.parentId) ?? fields.parentId : undefined;
+      const level = levels.get(id) ?? fields.level;
+      if (existing.delete(id)) {
+        await storage.updateOrgChartNode(id, { ...fields, parentId, level });
+        storedIds.set(id, id);
+      } else {
+        const created = await storage.createOrgChartNode({ ...fields, parentId, level, orgId: currentUser.orgId });
+        storedIds.set(id, created.id);
+      }
+    }
+    for (const id of Array.from(existing)) {
+      await storage.deleteOrgChartNode(id);
+    }
+
+    await storage.logAuditAction(currentUser.orgId, 'update', 'orgChart', currentUser.orgId, { nodes: nodes.length }, currentUser.id);
+    return await storage.getOrgChartNodesByOrg(currentUser.orgId);
+  }
+
+  // Dry run of a spreadsheet import: who would be created, updated, moved or invited,
+  // whose manager could not be found, and which chart rules the result would break
+  async previewOrgChartImport(data: Payload<OrgChartImportInput>): Promise<OrgChartImportPreview> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    requireCapability('orgchart.edit');
+
+    const currentUser = authManager.getCurrentUser()!;
+    const { plan } = await planImport(currentUser.orgId, parseInput(orgChartImportInput, data));
+    return plan.preview;
+  }
+
+  // Apply an import in one go: chart nodes and invite codes are written together, and nothing
+  // is written when the result would break the org's chart rules. People join through their
+  // invite like anyone else, so the org's join approvals still apply.
+  async importOrgChart(data: Payload<OrgChartImportInput>): Promise<OrgChartImportResult> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    requireCapability('orgchart.edit');
+
+    const currentUser = authManager.getCurrentUser()!;
+    const orgId = currentUser.orgId;
+    const input = parseInput(orgChartImportInput, data);
+    const { plan, check, nodes } = await planImport(orgId, input);
+    assertChartRules(check);
+    if (plan.preview.invites.length > 0) {
+      requireCapability('invite.create');
+      requireRoleGrant(null, { role: input.memberRole });
+    }
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + IMPORT_INVITE_DAYS * 24 * 60 * 60 * 1000);
+    const levels = levelsFrom(check);
+    const invites = plan.preview.invites.map(person => ({ ...person, token: newInviteCode() }));
+    const nodeUpdates = nodes.flatMap(node => {
+      const updates: Partial<OrgChartNode> = { ...plan.updated.get(node.id) };
+      const level = levels.get(node.id);
+      if (level !== undefined && level !== node.level) updates.level = level;
+      return Object.keys(updates).length > 0 ? [{ id: node.id, updates }] : [];
     });
+
+    await storage.applyOrgChartImport({
+      newNodes: plan.created.map(node => ({ ...node, orgId, level: levels.get(node.id) ?? node.level })),
+      nodeUpdates,
+      inviteTokens: invites.map(invite => ({
+        orgId, token: invite.token, role: input.memberRole, createdBy: currentUser.id, expiresAt
+      }))
+    });
+
+    const result: OrgChartImportResult = {
+      created: plan.created.length,
+      updated: plan.preview.updates.length,
+      moved: plan.preview.moves.length,
+      invites
+    };
+    await storage.logAuditAction(orgId, 'import', 'orgChart', orgId, { ...result, invites: invites.length }, currentUser.id);
+    return result;
   }
 
   // Audit endpoints
   async getOrgAuditLogs(): Promise<any[]> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('audit.view');
     
     const currentUser = authManager.getCurrentUser()!;
     return await storage.getOrgAuditLogs(currentUser.orgId);
@@ -199,27 +566,59 @@ export class BrowserApi {
   }
 
 
-  async createOrgChartNode(data: any): Promise<OrgChartNode> {
+  async createOrgChartNode(data: Payload<OrgChartNodeInput>): Promise<OrgChartNode> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('orgchart.edit');
     
     const currentUser = authManager.getCurrentUser()!;
+    const input = parseInput(orgChartNodeInput, data);
+    assertHierarchyLevel(input.hierarchyLevelId);
+    const nodes = await storage.getOrgChartNodesByOrg(currentUser.orgId);
+    const { rules, ...options } = await loadChartRules(currentUser.orgId);
+    // The new node's level follows from its manager, whatever the caller sent
+    const check = assertChartRules(checkOrgChart([...nodes, { ...input, id: NEW_NODE_ID }], rules, { ...options, changedIds: [NEW_NODE_ID] }));
+
     return await storage.createOrgChartNode({
-      ...data,
+      ...input,
+      level: levelsFrom(check).get(NEW_NODE_ID) ?? input.level,
       orgId: currentUser.orgId
     });
   }
 
-  async updateOrgChartNode(nodeId: string, data: any): Promise<OrgChartNode> {
+  // Levels are derived from the tree, so a sent level is ignored; a new manager or member link
+  // is checked against the org's chart rules and the node's reports move with it
+  async updateOrgChartNode(nodeId: string, data: Payload<OrgChartNodeInput>): Promise<OrgChartNode> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('orgchart.edit');
     
-    return await storage.updateOrgChartNode(nodeId, data);
+    const currentUser = authManager.getCurrentUser()!;
+    const { level: _level, ...changes } = parseInput(orgChartNodeUpdateInput, data);
+    assertHierarchyLevel(changes.hierarchyLevelId);
+    const reparented = data.parentId !== undefined;
+    if (!reparented && data.userId === undefined) {
+      return await storage.updateOrgChartNode(nodeId, changes);
+    }
+
+    const nodes = await storage.getOrgChartNodesByOrg(currentUser.orgId);
+    const current = nodes.find(node => node.id === nodeId);
+    if (!current) throw new Error('Node not found');
+    const { rules, ...options } = await loadChartRules(currentUser.orgId);
+    const parentId = reparented ? changes.parentId ?? null : current.parentId ?? null;
+    const proposed = nodes.map(node => node.id === nodeId ? { ...node, ...changes } : node);
+    const levels = levelsFrom(assertChartRules(planMove(proposed, nodeId, parentId, rules, options)));
+
+    const updated = await storage.updateOrgChartNode(nodeId, {
+      ...changes,
+      parentId: parentId || undefined,
+      level: levels.get(nodeId) ?? current.level
+    });
+    await relevelReports(nodes, levels, nodeId);
+    return updated;
   }
 
   async deleteOrgChartNode(nodeId: string): Promise<void> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('orgchart.edit');
     
     await storage.deleteOrgChartNode(nodeId);
   }
@@ -245,89 +644,343 @@ export class BrowserApi {
   async getRequests(): Promise<any[]> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
     const user = authManager.getCurrentUser()!;
-    return await storage.getFundingRequestsByOrg(user.orgId);
+    const requests = await storage.getFundingRequestsByOrg(user.orgId);
+    if (can(user, 'request.view_all')) return requests;
+
+    // Otherwise people see what they raised or are asked to approve, including as the
+    // substitute of an approver who is away
+    const users = await storage.getUsersByOrg(user.orgId);
+    return requests.filter(request =>
+      can(user, 'request.view_all', request) || resolveActingApprover(request.approverId, users)?.id === user.id
+    );
   }
 
-  async createRequest(data: any): Promise<any> {
+  async createRequest(payload: Payload<CreateRequestInput>): Promise<FundingRequest> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
     const user = authManager.getCurrentUser()!;
+    const org = authManager.getCurrentOrganization();
+
+    // Invoice requests carry their invoice separately; it is stored in its own table below
+    const { invoiceData, ...input } = parseInput(createRequestInput, payload);
+    const data = { ...input, category: input.category as FundingRequest['category'] };
+    const invoice = data.category === 'Invoice' ? parseInput(invoiceInput, invoiceData || {}) : null;
+
+    // Org approval rules can block, auto-approve or add levels to the request
+    const evaluation = evaluateApprovalRules(org?.settings?.approvalRules, {
+      amount: data.amount,
+      category: data.category,
+      customCategory: data.customCategory,
+      department: user.department,
+      requesterRole: user.role,
+      customFields: user.customFieldsData
+    });
+    if (evaluation.blocked) {
+      throw new Error(evaluation.blockReasons.join('; '));
+    }
+
+    // Catch resubmitted invoices and near-identical requests before anything is stored
+    const duplicateSettings = resolveDuplicateSettings(org?.settings?.duplicateDetection);
+    const suspectedDuplicates = findSuspectedDuplicates(
+      { requesterId: user.id, title: data.title, amount: data.amount, category: data.category },
+      invoice,
+      await storage.getFundingRequestsByOrg(user.orgId),
+      invoice ? await storage.getInvoicesByOrgId(user.orgId) : [],
+      duplicateSettings
+    );
+    if (suspectedDuplicates.length > 0 && duplicateSettings.action === 'block') {
+      const original = suspectedDuplicates[0];
+      throw new Error(`Possible duplicate of "${original.title}" (${describeDuplicate(original).toLowerCase()})`);
+    }
+
+    // Use an explicitly chosen chain, otherwise route by department, category and amount
+    const route = data.approvalChainId ? null : await this.resolveApprovalRoute(data);
+    const viaReportingLine = !!route?.matchedOn.includes('hierarchy');
+    const chain = data.approvalChainId
+      ? await storage.getApprovalChainById(data.approvalChainId)
+      : viaReportingLine ? null : route?.chain || null;
+    if (data.approvalChainId && chain?.orgId !== user.orgId) throw new Error('Approval chain not found');
+    // A reporting line isn't a stored chain, so its levels are kept on the request itself
+    const reportingLine = viaReportingLine ? getOrderedLevels(route!.chain) : [];
+
+    // Requests start with their chain's (or reporting line's) first level approver
+    const firstLevel = chain ? getFirstLevel(chain) : reportingLine[0] || null;
+    // A hand-picked approver must be someone else in the org who can approve requests
+    if (!firstLevel?.approverId && data.approverId) {
+      const approver = await storage.getUser(data.approverId);
+      if (!approver || approver.orgId !== user.orgId) throw new Error('Approver not found');
+      if (approver.id === user.id) throw new Error('You cannot approve your own request');
+      if (!can(approver, 'request.approve')) throw new Error(`${approver.fullName} cannot approve requests`);
+    }
+    const ruleLevels = await this.buildRuleApprovalLevels(
+      evaluation,
+      chain ? getOrderedLevels(chain).length : Math.max(reportingLine.length, 1)
+    );
+    const additionalApprovalLevels = [...reportingLine, ...ruleLevels];
     
-    return await storage.createFundingRequest({
+    // A suspected duplicate always goes to a person, even when a rule would auto-approve it
+    const autoApprove = evaluation.autoApprove && suspectedDuplicates.length === 0;
+    const currentApprovalLevel = firstLevel?.level || 1;
+    const request = await storage.createFundingRequest({
       ...data,
       orgId: user.orgId,
       requesterId: user.id,
-      status: 'Open',
-      currentApprovalLevel: 1,
+      department: data.department || invoice?.department || user.department,
+      costCenter: data.costCenter || invoice?.costCenter,
+      approverId: firstLevel?.approverId || data.approverId,
+      approvalChainId: chain?.id,
+      additionalApprovalLevels,
+      suspectedDuplicates,
+      status: autoApprove ? 'Approved' : 'Open',
+      currentApprovalLevel,
+      slaDeadline: autoApprove
+        ? undefined
+        : computeSlaDeadline(org?.settings?.slaPolicies, data, currentApprovalLevel),
       participants: [],
-      attachments: [],
-      checklist: [],
       lastActivityAt: new Date()
     });
+
+    let created = request;
+    if (invoice) {
+      const stored = await storage.createInvoice({ ...invoice, orgId: user.orgId, requestId: request.id });
+      created = await storage.updateFundingRequest(request.id, { invoiceId: stored.id });
+    }
+
+    if (suspectedDuplicates.length > 0) {
+      await storage.createQueryMessage({
+        requestId: request.id,
+        messageType: 'system_event',
+        content: `Flagged as a possible duplicate of ${suspectedDuplicates.map(d => `"${d.title}"`).join(', ')}`,
+        attachments: []
+      });
+    }
+
+    if (autoApprove) {
+      await storage.createQueryMessage({
+        requestId: request.id,
+        messageType: 'system_event',
+        content: `Auto-approved by rule "${evaluation.autoApprovedBy!.name}"`,
+        attachments: []
+      });
+    }
+
+    return created;
+  }
+
+  // Turn rule outcomes into approval levels that follow the request's chain
+  private async buildRuleApprovalLevels(evaluation: RuleEvaluation, lastLevel: number): Promise<ApprovalChainLevel[]> {
+    const levels: ApprovalChainLevel[] = evaluation.extraApprovers.map((approver, index) => ({
+      level: lastLevel + index + 1,
+      approverId: approver.approverId,
+      approverName: approver.approverName
+    }));
+
+    if (evaluation.requiresFinanceSignoff) {
+      const user = authManager.getCurrentUser()!;
+      const [finance] = await storage.getUsersByOrgAndRole(user.orgId, 'Finance');
+      const signoff = finance || (await storage.getUsersByOrgAndRole(user.orgId, 'Admin'))[0];
+      if (signoff) {
+        levels.push({
+          level: lastLevel + levels.length + 1,
+          approverId: signoff.id,
+          approverName: `${signoff.fullName} (Finance sign-off)`
+        });
+      }
+    }
+
+    return levels;
+  }
+
+  // Dry-run the org's approval rules against a request without creating it
+  async evaluateApprovalRules(input: Payload<AmountCheckInput>): Promise<RuleEvaluation> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const user = authManager.getCurrentUser()!;
+    const org = authManager.getCurrentOrganization();
+    const data = parseInput(amountCheckInput, input);
+
+    return evaluateApprovalRules(org?.settings?.approvalRules, {
+      amount: data.amount,
+      category: data.category,
+      customCategory: data.customCategory,
+      department: user.department,
+      requesterRole: user.role,
+      customFields: user.customFieldsData
+    });
+  }
+
+  // Approval routing: find the chain a request would be sent through
+  async resolveApprovalRoute(input: Payload<AmountCheckInput>): Promise<ApprovalRoute | null> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const user = authManager.getCurrentUser()!;
+    const data = parseInput(amountCheckInput, input);
+
+    const chains = await storage.getApprovalChainsByOrgId(user.orgId);
+    const route = matchApprovalChain(chains, {
+      amount: data.amount,
+      category: data.category,
+      customCategory: data.customCategory,
+      department: user.department
+    });
+    if (route) return route;
+
+    const defaultChain = await storage.getDefaultApprovalChain(user.orgId);
+    if (defaultChain && defaultChain.levels.length > 0) return defaultApprovalRoute(defaultChain);
+
+    // Orgs without chains route up the requester's managers on the org chart
+    const hierarchy = buildHierarchy(await storage.getOrgChartNodesByOrg(user.orgId));
+    const requesterNode = findNodeForUser(hierarchy, user.id);
+    if (!requesterNode) return null;
+    const org = authManager.getCurrentOrganization();
+    return reportingLineRoute(user.orgId, getAncestors(hierarchy, requesterNode.id), org?.settings?.hierarchyLevels, data.amount);
   }
 
   async updateRequestStatus(id: string, status: string, comments?: string, isFastTrack?: boolean): Promise<any> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
     const user = authManager.getCurrentUser()!;
     
-    if (!canApprove()) throw new Error('Approval access required');
+    if (!isApprovalDecision(status)) throw new Error(`Unsupported status: ${status}`);
+    if (isFastTrack) requireCapability('request.override');
     
     const request = await storage.getFundingRequest(id);
     if (!request) throw new Error('Request not found');
     if (request.orgId !== user.orgId) throw new Error('Access denied');
+    if (request.requesterId === user.id) throw new Error('You cannot decide on your own request');
+
+    // An out-of-office approver's substitute acts on their behalf
+    const actingApprover = request.approverId
+      ? resolveActingApprover(request.approverId, await storage.getUsersByOrg(user.orgId))
+      : null;
+    const isAssigned = request.approverId === user.id || actingApprover?.id === user.id;
+
+    // Assigned approvers and their substitutes may act without the capability (e.g. Finance sign-off)
+    if (!isAssigned) requireCapability('request.approve', request);
+
+    // Only the approver assigned to the current level may act, unless someone with override steps in
+    if (request.approverId && !isAssigned && !can(user, 'request.override', request)) {
+      throw new Error('Only the current level approver can act on this request');
+    }
+
+    const org = authManager.getCurrentOrganization();
+    if (needsTwoFactorSetup(user, org)) {
+      throw new Error('Your organization requires two-factor authentication. Set it up on your profile first.');
+    }
+    if (status === 'Approved' && stepUpRequiredFor(request.amount, org) && !authManager.hasRecentStepUp()) {
+      throw new Error('Confirm your identity to approve requests of this amount');
+    }
+
+    const chain = request.approvalChainId
+      ? await storage.getApprovalChainById(request.approvalChainId)
+      : null;
+
+    const transition = resolveApprovalTransition(request, chain, status, isFastTrack);
 
-    // Create approval history entry
+    // Record the decision against the level it was taken at
     await storage.createApprovalHistory({
       requestId: id,
       level: request.currentApprovalLevel || 1,
       approverId: user.id,
-      action: status as any,
+      action: transition.historyAction,
       comments: comments || undefined,
-      isFastTrack: isFastTrack || false
+      isFastTrack: isFastTrack || false,
+      onBehalfOfId: request.approverId && request.approverId !== user.id && actingApprover?.id === user.id
+        ? request.approverId
+        : undefined
     });
 
-    // Handle approval chain logic
-    // TODO: Implement approval chain logic when getApprovalChainById method is available
-    if (false && status === 'Approved' && !isFastTrack && request?.approvalChainId) {
-      // const chain = await storage.getApprovalChainById(request.approvalChainId);
-      
-      // if (chain) {
-      //   const currentLevel = request.currentApprovalLevel || 1;
-      //   const nextLevel = currentLevel + 1;
-      //   const nextApprover = chain.levels.find((l: any) => l.level === nextLevel);
-
-      //   if (nextApprover) {
-      //     // Forward to next level
-      //     const updated = await storage.updateFundingRequest(id, {
-      //       currentApprovalLevel: nextLevel,
-      //       approverId: nextApprover.approverId,
-      //       status: 'Open',
-      //       lastActivityAt: new Date()
-      //     });
-      //     
-      //     return {
-      //       ...updated,
-      //       message: `Request forwarded to Level ${nextLevel} approver: ${nextApprover.approverName}`
-      //     };
-      //   } else {
-      //     // Final approval
-      //     const updated = await storage.updateFundingRequest(id, {
-      //       status: 'Approved',
-      //       lastActivityAt: new Date()
-      //     });
-      //     
-      //     return {
-      //       ...updated,
-      //       message: 'Request fully approved - all levels complete'
-      //     };
-      //   }
-      // }
-    }
-
-    // Simple status update
-    return await storage.updateFundingRequest(id, {
-      status: status as any,
+    // Entering a new level starts a fresh SLA clock; closing the request stops it
+    const enteredNewLevel = transition.status === 'Open' && transition.currentApprovalLevel !== request.currentApprovalLevel;
+    const slaDeadline = enteredNewLevel
+      ? computeSlaDeadline(org?.settings?.slaPolicies, request, transition.currentApprovalLevel)
+      : transition.status === 'Approved' || transition.status === 'Rejected' ? undefined : request.slaDeadline;
+
+    const updated = await storage.updateFundingRequest(id, {
+      status: transition.status,
+      currentApprovalLevel: transition.currentApprovalLevel,
+      approverId: transition.approverId,
+      slaDeadline,
       lastActivityAt: new Date()
     });
+
+    return {
+      ...updated,
+      message: transition.message
+    };
+  }
+
+  // Finance pays out an approved request, which closes it
+  async releasePayment(id: string, reference?: string): Promise<FundingRequest> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const user = authManager.getCurrentUser()!;
+
+    const request = await storage.getFundingRequest(id);
+    if (!request) throw new Error('Request not found');
+    requireCapability('payment.release', request);
+    if (request.status !== 'Approved') throw new Error('Only approved requests can be paid out');
+
+    const now = new Date();
+    const updated = await storage.updateFundingRequest(id, {
+      status: 'Closed',
+      paymentReleasedAt: now,
+      paymentReleasedBy: user.id,
+      lastActivityAt: now
+    });
+
+    await storage.createQueryMessage({
+      requestId: id,
+      messageType: 'system_event',
+      content: reference
+        ? `Payment released by ${user.fullName} (reference ${reference})`
+        : `Payment released by ${user.fullName}`,
+      attachments: []
+    });
+
+    return updated;
+  }
+
+  // SLA escalation: hand overdue requests to the approver's manager (or an Admin)
+  // and restart the clock for the new approver. Run periodically by the SLA scheduler.
+  // Reassigns other people's requests, so only those who may override approvals run it
+  async escalateOverdueRequests(): Promise<FundingRequest[]> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    requireCapability('request.override');
+    const user = authManager.getCurrentUser()!;
+    const org = authManager.getCurrentOrganization();
+
+    const now = new Date();
+    const overdue = (await storage.getFundingRequestsByOrg(user.orgId)).filter(r => isOverdue(r, now));
+    if (overdue.length === 0) return [];
+
+    const [nodes, users] = await Promise.all([
+      storage.getOrgChartNodesByOrg(user.orgId),
+      storage.getUsersByOrg(user.orgId)
+    ]);
+
+    const escalated: FundingRequest[] = [];
+    for (const request of overdue) {
+      const previous = users.find(u => u.id === request.approverId);
+      const target = resolveEscalationTarget(request.approverId, nodes, users);
+      const level = request.currentApprovalLevel || 1;
+
+      const updated = await storage.updateFundingRequest(request.id, {
+        approverId: target?.id || request.approverId,
+        slaDeadline: computeSlaDeadline(org?.settings?.slaPolicies, request, level, now),
+        escalationCount: (request.escalationCount || 0) + 1,
+        lastEscalatedAt: now,
+        lastActivityAt: now
+      });
+
+      await storage.createQueryMessage({
+        requestId: request.id,
+        messageType: 'system_event',
+        content: target
+          ? `SLA breached at Level ${level} - escalated from ${previous?.fullName || 'unassigned'} to ${target.fullName}`
+          : `SLA breached at Level ${level} - no escalation target found, still with ${previous?.fullName || 'unassigned'}`,
+        attachments: []
+      });
+
+      escalated.push(updated);
+    }
+
+    return escalated;
   }
 
   // Query Messages endpoints
@@ -336,34 +989,34 @@ export class BrowserApi {
     return await storage.getMessagesByRequest(requestId);
   }
 
-  async createRequestMessage(requestId: string, data: any): Promise<any> {
+  async createRequestMessage(requestId: string, data: Payload<MessageInput>): Promise<any> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
     const user = authManager.getCurrentUser()!;
     
     return await storage.createQueryMessage({
+      ...parseInput(messageInput, data),
       requestId,
-      userId: user.id,
-      messageType: data.messageType || 'text',
-      content: data.content,
-      attachments: data.attachments || []
+      userId: user.id
     });
   }
 
   // Invite Token endpoints
   async getInviteTokens(): Promise<any[]> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('invite.create');
     
     const user = authManager.getCurrentUser()!;
     return await storage.getInviteTokensByOrg(user.orgId);
   }
 
-  async createInviteToken(role: string, expiresInDays: number = 7): Promise<any> {
+  async createInviteToken(role: string, expiresInDays?: number | string): Promise<any> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('invite.create');
     
     const user = authManager.getCurrentUser()!;
-    const inviteCode = await authManager.generateInviteCode(user.orgId, role, user.id, expiresInDays);
+    const input = parseInput(inviteTokenInput, { role, expiresInDays });
+    requireRoleGrant(null, { role: input.role });
+    const inviteCode = await authManager.generateInviteCode(user.orgId, input.role, user.id, input.expiresInDays);
     
     // Get the created token from storage
     const token = await storage.getInviteTokenByToken(inviteCode);
@@ -372,7 +1025,7 @@ export class BrowserApi {
 
   async deleteInviteToken(id: string): Promise<void> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('invite.create');
     
     await storage.deleteInviteToken(id);
   }
@@ -408,112 +1061,254 @@ export class BrowserApi {
 
 
 
-  async moveOrgChartNode(nodeId: string, newParentId: string | null, newLevel: number): Promise<OrgChartNode> {
+  // Put a node under a new manager (or at the top). Refused with the rule violations when it
+  // would make a loop or break the org's chart rules; otherwise the node and everyone below
+  // it are given the levels their new place implies.
+  async moveOrgChartNode(nodeId: string, parentId: string | null): Promise<OrgChartNode> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('orgchart.edit');
     
-    const user = authManager.getCurrentUser()!;
-    
-    // Get the current node
-    const currentNode = await storage.getOrgChartNode(nodeId);
+    const currentUser = authManager.getCurrentUser()!;
+    const { newParentId } = parseInput(moveOrgChartNodeInput, { newParentId: parentId });
+    const nodes = await storage.getOrgChartNodesByOrg(currentUser.orgId);
+    const currentNode = nodes.find(node => node.id === nodeId);
     if (!currentNode) throw new Error('Node not found');
-    
-    // Update the node with new parent and level
+
+    const { rules, ...options } = await loadChartRules(currentUser.orgId);
+    const levels = levelsFrom(assertChartRules(planMove(nodes, nodeId, newParentId, rules, options)));
+
     const updatedNode = await storage.updateOrgChartNode(nodeId, {
       parentId: newParentId || undefined,
-      level: newLevel,
+      level: levels.get(nodeId) ?? currentNode.level,
       updatedAt: new Date()
     });
-    
+    await relevelReports(nodes, levels, nodeId);
     return updatedNode;
   }
 
   // Approval Chain endpoints
   async getApprovalChains(): Promise<any[]> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('approval_chain.manage');
     
     const user = authManager.getCurrentUser()!;
     return await storage.getApprovalChainsByOrgId(user.orgId);
   }
 
+  async getApprovalChain(id: string): Promise<ApprovalChain | null> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const user = authManager.getCurrentUser()!;
+    
+    const chain = await storage.getApprovalChainById(id);
+    if (chain && chain.orgId !== user.orgId) throw new Error('Access denied');
+    return chain;
+  }
+
   async getDefaultApprovalChain(): Promise<any> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
     const user = authManager.getCurrentUser()!;
     return await storage.getDefaultApprovalChain(user.orgId);
   }
 
-  async createApprovalChain(data: any): Promise<any> {
+  async createApprovalChain(input: Payload<ApprovalChainInput>): Promise<ApprovalChain> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('approval_chain.manage');
     
     const user = authManager.getCurrentUser()!;
+    const data = parseInput(approvalChainInput, input);
+    if (data.isDefault) await this.clearDefaultApprovalChain(user.orgId);
+
     return await storage.createApprovalChain({
       ...data,
       orgId: user.orgId
     });
   }
 
-  async updateApprovalChain(id: string, data: any): Promise<any> {
+  async updateApprovalChain(id: string, input: Payload<ApprovalChainInput>): Promise<ApprovalChain> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('approval_chain.manage');
     
+    const user = authManager.getCurrentUser()!;
+    const data = parseInput(approvalChainUpdateInput, input);
+    if (data.isDefault) await this.clearDefaultApprovalChain(user.orgId, id);
+
     return await storage.updateApprovalChain(id, data);
   }
 
+  // An org has at most one default chain
+  private async clearDefaultApprovalChain(orgId: string, exceptId?: string): Promise<void> {
+    const chains = await storage.getApprovalChainsByOrgId(orgId);
+    for (const chain of chains) {
+      if (chain.isDefault && chain.id !== exceptId) {
+        await storage.updateApprovalChain(chain.id, { isDefault: false });
+      }
+    }
+  }
+
   async deleteApprovalChain(id: string): Promise<void> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('approval_chain.manage');
     
     await storage.deleteApprovalChain(id);
   }
 
+  // Budget endpoints
+  async getBudgets(): Promise<BudgetWithConsumption[]> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const user = authManager.getCurrentUser()!;
+
+    const [budgets, requests] = await Promise.all([
+      storage.getBudgetsByOrgId(user.orgId),
+      storage.getFundingRequestsByOrg(user.orgId)
+    ]);
+    return budgets.map(budget => ({ ...budget, consumption: computeBudgetConsumption(budget, requests) }));
+  }
+
+  async createBudget(data: Payload<BudgetInput>): Promise<Budget> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    requireCapability('budget.manage');
+    const user = authManager.getCurrentUser()!;
+
+    return await storage.createBudget({
+      ...parseInput(budgetInput, data),
+      orgId: user.orgId,
+      createdBy: user.id
+    });
+  }
+
+  async updateBudget(id: string, data: Payload<BudgetInput>): Promise<Budget> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    requireCapability('budget.manage');
+    const user = authManager.getCurrentUser()!;
+
+    const budget = await storage.getBudgetById(id);
+    if (!budget || budget.orgId !== user.orgId) throw new Error('Budget not found');
+    // Re-check the merged budget so a partial update cannot leave the period inverted
+    return await storage.updateBudget(id, parseInput(budgetInput, { ...budget, ...parseInput(budgetUpdateInput, data) }));
+  }
+
+  async deleteBudget(id: string): Promise<void> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    requireCapability('budget.manage');
+    const user = authManager.getCurrentUser()!;
+
+    const budget = await storage.getBudgetById(id);
+    if (!budget || budget.orgId !== user.orgId) throw new Error('Budget not found');
+    await storage.deleteBudget(id);
+  }
+
+  // Which budgets a prospective request would draw from, and whether it fits
+  async checkBudget(input: Payload<BudgetCheckInput>): Promise<BudgetImpact[]> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const user = authManager.getCurrentUser()!;
+    const data = parseInput(budgetCheckInput, input);
+
+    const [budgets, requests] = await Promise.all([
+      storage.getBudgetsByOrgId(user.orgId),
+      storage.getFundingRequestsByOrg(user.orgId)
+    ]);
+    return checkBudgetImpact(budgets, requests, {
+      department: data.department || user.department,
+      costCenter: data.costCenter
+    }, data.amount);
+  }
+
+  // Invoice endpoints
+  async getInvoices(filters: Payload<InvoiceFiltersInput> = {}): Promise<Invoice[]> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const user = authManager.getCurrentUser()!;
+    return filterInvoices(await storage.getInvoicesByOrgId(user.orgId), parseInput(invoiceFiltersInput, filters));
+  }
+
+  async getInvoice(id: string): Promise<Invoice | null> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const user = authManager.getCurrentUser()!;
+
+    const invoice = await storage.getInvoiceById(id);
+    if (invoice && invoice.orgId !== user.orgId) throw new Error('Access denied');
+    return invoice;
+  }
+
+  async getRequestInvoice(requestId: string): Promise<Invoice | null> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const user = authManager.getCurrentUser()!;
+
+    const invoice = await storage.getInvoiceByRequestId(requestId);
+    if (invoice && invoice.orgId !== user.orgId) throw new Error('Access denied');
+    return invoice;
+  }
+
   // Approval History endpoints
   async getApprovalHistory(requestId: string): Promise<any[]> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
     return await storage.getApprovalHistoryByRequestId(requestId);
   }
 
-  // File upload simulation (store in localStorage for demo)
-  async uploadFile(file: File): Promise<{ name: string; url: string; size: number; id: string }> {
+  // File uploads are stored as Blobs in IndexedDB and served back through /api/files/:id
+  async uploadFile(file: File): Promise<AttachmentRef> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    
-    const fileId = generateId();
-    const reader = new FileReader();
-    
-    return new Promise((resolve, reject) => {
-      reader.onload = () => {
-        try {
-          // Store file data in localStorage (in a real app, you'd use IndexedDB or cloud storage)
-          const fileData = {
-            id: fileId,
-            name: file.name,
-            data: reader.result,
-            size: file.size,
-            type: file.type
-          };
-          
-          localStorage.setItem(`file_${fileId}`, JSON.stringify(fileData));
-          
-          resolve({
-            name: file.name,
-            url: `/api/files/${fileId}`,
-            size: file.size,
-            id: fileId
-          });
-        } catch (error) {
-          reject(error);
-        }
-      };
-      
-      reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsDataURL(file);
+    const user = authManager.getCurrentUser()!;
+
+    const mimeType = await sniffMimeType(file, file.name);
+    validateAttachment(file.size, mimeType);
+
+    // Identical content is stored once per organization
+    const hash = await hashContent(file);
+    const attachment = await storage.getAttachmentByHash(user.orgId, hash) || await storage.createAttachment({
+      orgId: user.orgId,
+      uploadedBy: user.id,
+      name: file.name,
+      mimeType,
+      size: file.size,
+      hash,
+      blob: file.slice(0, file.size, mimeType)
     });
+
+    return {
+      id: attachment.id,
+      name: file.name,
+      url: attachmentUrl(attachment.id),
+      size: attachment.size,
+      mimeType: attachment.mimeType
+    };
+  }
+
+  async getAttachment(id: string): Promise<Attachment> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const user = authManager.getCurrentUser()!;
+
+    const attachment = await storage.getAttachmentById(id) || await this.migrateLegacyFile(id);
+    if (!attachment) throw new Error('File not found');
+    if (attachment.orgId !== user.orgId) throw new Error('Access denied');
+    return attachment;
+  }
+
+  // Files uploaded before attachments moved to IndexedDB live in localStorage as data URLs.
+  // Move one across (keeping its id, so existing links keep working) the first time it is opened.
+  private async migrateLegacyFile(id: string): Promise<Attachment | null> {
+    const raw = localStorage.getItem(`file_${id}`);
+    if (!raw) return null;
+
+    const user = authManager.getCurrentUser()!;
+    const legacy = JSON.parse(raw);
+    const blob = dataUrlToBlob(legacy.data);
+    const attachment = await storage.createAttachment({
+      id,
+      orgId: user.orgId,
+      uploadedBy: user.id,
+      name: legacy.name,
+      mimeType: await sniffMimeType(blob, legacy.name),
+      size: blob.size,
+      hash: await hashContent(blob),
+      blob
+    });
+    localStorage.removeItem(`file_${id}`);
+    return attachment;
   }
 
   async uploadLogo(file: File): Promise<{ logoUrl: string }> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
-    if (!isAdmin()) throw new Error('Admin access required');
+    requireCapability('org.manage');
     
     if (!file.type.startsWith('image/')) {
       throw new Error('Only image files are allowed');
@@ -550,51 +1345,309 @@ export class BrowserApi {
 
 
   // Profile endpoints
-  async updateProfile(data: any): Promise<User> {
+  // Department and title edits wait for an admin when the org asks for it; the rest apply now
+  async updateProfile(data: Payload<ProfileInput>): Promise<{ user: User; pendingReview: boolean }> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
     
     const currentUser = authManager.getCurrentUser()!;
-    const updatedUser = await storage.updateUser(currentUser.id, data);
+    const { department, jobTitle, ...updates } = parseInput(profileInput, data);
+    const changes: Partial<Pick<User, 'department' | 'jobTitle'>> = {};
+    if (department !== undefined && department !== currentUser.department) changes.department = department;
+    if (jobTitle !== undefined && jobTitle !== currentUser.jobTitle) changes.jobTitle = jobTitle;
+
+    const org = authManager.getCurrentOrganization();
+    const pendingReview = Object.keys(changes).length > 0 &&
+      !!org?.settings.memberApprovals?.profileChanges && !can(currentUser, 'member.manage');
+    if (pendingReview) {
+      await this.requestProfileChange(currentUser, changes);
+    }
+
+    const updatedUser = await storage.updateUser(currentUser.id, pendingReview ? updates : { ...updates, ...changes });
     
     // Note: Auth manager will automatically update when user data changes
     
-    return updatedUser;
+    return { user: updatedUser, pendingReview };
   }
 
-  async changePassword(data: { currentPassword: string; newPassword: string }): Promise<void> {
+  // One pending change request per member: a newer edit replaces the one waiting
+  private async requestProfileChange(user: User, changes: Partial<Pick<User, 'department' | 'jobTitle'>>): Promise<void> {
+    const payload = {
+      userId: user.id,
+      email: user.email,
+      fullName: user.fullName,
+      changes,
+      previous: { department: user.department, jobTitle: user.jobTitle }
+    };
+    const waiting = (await storage.getOrgRequests(user.orgId, 'pending'))
+      .find(request => request.type === 'change' && request.submittedBy === user.id);
+    if (waiting) {
+      await storage.updateOrgRequest(user.orgId, waiting.requestId, { payload, submittedAt: new Date() });
+    } else {
+      await storage.createOrgRequest({
+        orgId: user.orgId,
+        type: 'change',
+        submittedBy: user.id,
+        submittedAt: new Date(),
+        status: 'pending',
+        payload
+      });
+    }
+  }
+
+  // Out-of-office delegation: route the user's approvals to a substitute for a time window
+  async setDelegation(input: Payload<ApprovalDelegation>): Promise<User> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const currentUser = authManager.getCurrentUser()!;
+
+    const data = parseInput(delegationInput, input);
+    const { startsAt, endsAt } = data;
+    if (endsAt <= new Date()) throw new Error('Delegation window has already ended');
+    if (data.substituteId === currentUser.id) throw new Error('You cannot delegate to yourself');
+
+    const users = await storage.getUsersByOrg(currentUser.orgId);
+    if (!users.some(u => u.id === data.substituteId)) throw new Error('Substitute not found');
+
+    const delegation: ApprovalDelegation = {
+      substituteId: data.substituteId,
+      startsAt,
+      endsAt,
+      reason: data.reason
+    };
+    if (createsDelegationLoop(currentUser.id, delegation, users)) {
+      throw new Error('The substitute has delegated back to you during this window');
+    }
+
+    return await authManager.updateUser({ delegation });
+  }
+
+  async clearDelegation(): Promise<User> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    return await authManager.updateUser({ delegation: undefined });
+  }
+
+  async changePassword(input: Payload<PasswordChangeInput>): Promise<void> {
     if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
     
     const currentUser = authManager.getCurrentUser()!;
+    const data = parseInput(passwordChangeInput, input);
     
     // Verify current password
-    const hashedCurrentPassword = await this.hashPassword(data.currentPassword);
-    if (hashedCurrentPassword !== currentUser.password) {
+    if (!await verifyPassword(data.currentPassword, currentUser.password)) {
       throw new Error('Current password is incorrect');
     }
     
     // Update password
-    const hashedNewPassword = await this.hashPassword(data.newPassword);
-    await storage.updateUser(currentUser.id, { password: hashedNewPassword });
+    await authManager.updateUser({ password: await hashPassword(data.newPassword) });
+  }
+
+  // Two-factor setup stores a new secret; it only protects sign-in once a code from it is confirmed
+  async beginTwoFactorSetup(): Promise<{ secret: string; otpauthUri: string }> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const currentUser = authManager.getCurrentUser()!;
+    if (isTwoFactorEnabled(currentUser)) throw new Error('Two-factor authentication is already on');
+
+    const secret = generateTotpSecret();
+    await authManager.saveSecondFactor(currentUser.id, { userId: currentUser.id, secret, recoveryCodeHashes: [] });
+    return { secret, otpauthUri: totpUri(secret, currentUser.email) };
+  }
+
+  // The recovery codes are returned this once; only their hashes are kept
+  async enableTwoFactor(input: Payload<TwoFactorCodeInput>): Promise<{ recoveryCodes: string[] }> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const currentUser = authManager.getCurrentUser()!;
+    const pending = await storage.getTwoFactorSecret?.(currentUser.id);
+    const { code } = parseInput(twoFactorCodeInput, input);
+    if (!pending || pending.enabledAt) throw new Error('Start two-factor setup first');
+
+    const step = await verifyTotp(pending.secret, code);
+    if (step === null) throw new Error('Invalid code. Check the time on your device and try again.');
+
+    const recoveryCodes = generateRecoveryCodes();
+    await authManager.saveSecondFactor(currentUser.id, {
+      userId: currentUser.id,
+      secret: pending.secret,
+      enabledAt: new Date(),
+      lastUsedStep: step,
+      recoveryCodeHashes: await Promise.all(recoveryCodes.map(hashRecoveryCode))
+    });
+    return { recoveryCodes };
   }
 
-  private async hashPassword(password: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(password);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  async regenerateRecoveryCodes(input: Payload<TwoFactorCodeInput>): Promise<{ recoveryCodes: string[] }> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const twoFactor = await confirmSecondFactor(parseInput(twoFactorCodeInput, input).code);
+
+    const recoveryCodes = generateRecoveryCodes();
+    await authManager.saveSecondFactor(twoFactor.userId, {
+      ...twoFactor,
+      recoveryCodeHashes: await Promise.all(recoveryCodes.map(hashRecoveryCode))
+    });
+    return { recoveryCodes };
+  }
+
+  async disableTwoFactor(input: Payload<TwoFactorCodeInput>): Promise<User> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    const currentUser = authManager.getCurrentUser()!;
+    if (twoFactorRequiredFor(currentUser, authManager.getCurrentOrganization())) {
+      throw new Error('Your organization requires two-factor authentication for your role');
+    }
+
+    await confirmSecondFactor(parseInput(twoFactorCodeInput, input).code);
+    return await authManager.saveSecondFactor(currentUser.id, null);
+  }
+
+  // Re-authenticate before approvals above the organization's step-up amount
+  async stepUp(input: Payload<StepUpInput>): Promise<void> {
+    if (!authManager.isAuthenticated()) throw new Error('Not authenticated');
+    await authManager.stepUp(parseInput(stepUpInput, input));
   }
 }
 
-// Helper functions
-function isAdmin(): boolean {
-  const user = authManager.getCurrentUser();
-  return user?.role === 'Admin';
+// Throw unless the signed-in user holds the capability
+function requireCapability(capability: Capability, resource?: PermissionResource | null) {
+  if (!can(authManager.getCurrentUser(), capability, resource)) {
+    throw new Error(`Permission denied: ${CAPABILITY_LABELS[capability].toLowerCase()}`);
+  }
+}
+
+// Throw unless the signed-in user may hand out this role
+function requireRoleGrant(current: Pick<User, 'role' | 'customRoleId'> | null, next: { role: User['role']; customRoleId?: string | null }) {
+  const refusal = roleGrantRefusal(authManager.getCurrentUser(), current, next, authManager.getCurrentOrganization()?.settings.roles);
+  if (refusal) throw new Error(refusal);
+}
+
+function joinMessage(result: JoinResult): string {
+  return result.pending
+    ? "Your request to join has been sent. You can sign in once an admin approves it."
+    : "Account created successfully! You are now logged in.";
+}
+
+// Order records so each parent comes before its children; any caught in a loop go last
+function parentsFirst<T extends { id: string; parentId?: string | null }>(records: T[]): T[] {
+  const ids = new Set(records.map(record => record.id));
+  const placed = new Set<string>();
+  const ordered: T[] = [];
+  let remaining = records;
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter(record => !record.parentId || !ids.has(record.parentId) || placed.has(record.parentId));
+    if (ready.length === 0) break;
+    for (const record of ready) {
+      ordered.push(record);
+      placed.add(record.id);
+    }
+    remaining = remaining.filter(record => !placed.has(record.id));
+  }
+  return [...ordered, ...remaining];
 }
 
-function canApprove(): boolean {
-  const user = authManager.getCurrentUser();
-  return user?.role === 'Admin' || user?.role === 'Approver';
+// Stands in for a node's id while it is checked before being created
+const NEW_NODE_ID = 'new';
+
+// Invite codes made by an import last as long as ones made by hand
+const IMPORT_INVITE_DAYS = 7;
+
+// Plan an import against the org's chart, the accounts the file mentions and the chart rules.
+// Anyone the import adds to the org counts as an active member for those rules.
+async function planImport(orgId: string, input: OrgChartImportInput): Promise<{ plan: OrgChartImportPlan; check: OrgChartCheck; nodes: OrgChartNode[] }> {
+  const nodes = await storage.getOrgChartNodesByOrg(orgId);
+  // Only the org's own members are looked up, so nothing here depends on who else has an account
+  const members = new Map((await storage.getUsersByOrg(orgId)).map(user => [user.email.toLowerCase(), user.id]));
+
+  // A hierarchy level from another org's export is dropped rather than refusing the file
+  const levelIds = new Set(resolveHierarchyLevels(authManager.getCurrentOrganization()?.settings?.hierarchyLevels).map(level => level.id));
+  const rows = input.rows.map(row => row.hierarchyLevelId && !levelIds.has(row.hierarchyLevelId)
+    ? { ...row, hierarchyLevelId: undefined }
+    : row);
+
+  const plan = planOrgChartImport(rows, { nodes, members, managersMapped: input.managersMapped, newId: generateId });
+  const { rules, activeUserIds } = await loadChartRules(orgId);
+
+  // New and changed people, plus everyone under a moved manager since their levels shift
+  const changedIds = new Set([...plan.created.map(node => node.id), ...Array.from(plan.updated.keys())]);
+  for (const move of plan.preview.moves) {
+    descendantIds(plan.chart, move.nodeId).forEach(id => changedIds.add(id));
+  }
+  const check = checkOrgChart(plan.chart, rules, { changedIds, activeUserIds });
+  plan.preview.violations = check.violations;
+  return { plan, check, nodes };
+}
+
+// The org's chart rules, and who is an active member when the rules ask for it
+async function loadChartRules(orgId: string): Promise<{ rules: OrgChartRules } & OrgChartCheckOptions> {
+  const org = await storage.getOrganization(orgId);
+  const rules = resolveOrgChartRules(org?.settings.orgChartRules);
+  if (!rules.requireActiveMember) return { rules };
+  const activeUserIds = new Set((await storage.getUsersByOrg(orgId)).map(user => user.id));
+  return { rules, activeUserIds };
+}
+
+// A node can only be given one of the org's own hierarchy levels
+function assertHierarchyLevel(hierarchyLevelId: string | undefined) {
+  if (!hierarchyLevelId) return;
+  const levels = resolveHierarchyLevels(authManager.getCurrentOrganization()?.settings?.hierarchyLevels);
+  if (!levels.some(level => level.id === hierarchyLevelId)) throw new Error('That hierarchy level does not exist');
+}
+
+// Refuse a chart change that breaks a rule, passing every violation on for the UI to show
+function assertChartRules(check: OrgChartCheck): OrgChartCheck {
+  if (check.violations.length > 0) {
+    throw new ApiError(422, check.violations[0].message, { violations: check.violations });
+  }
+  return check;
+}
+
+function levelsFrom(check: OrgChartCheck): Map<string, number> {
+  return new Map(check.placements.map(placement => [placement.id, placement.level]));
+}
+
+// A moved node's reports go with it, so each one whose depth changed is given its new level
+async function relevelReports(nodes: OrgChartNode[], levels: Map<string, number>, movedId: string): Promise<void> {
+  for (const node of nodes) {
+    const level = levels.get(node.id);
+    if (node.id !== movedId && level !== undefined && level !== node.level) {
+      await storage.updateOrgChartNode(node.id, { level });
+    }
+  }
+}
+
+// Move members from the standalone org chart database older builds kept into the org's
+// nodes, then drop that database. Someone already on the chart (same email) keeps their node.
+async function importLegacyOrgChart(orgId: string, userId: string): Promise<void> {
+  const members = await readLegacyOrgChartMembers();
+  if (members.length > 0) {
+    const byEmail = new Map((await storage.getOrgChartNodesByOrg(orgId))
+      .filter(node => node.email)
+      .map(node => [node.email!.toLowerCase(), node]));
+    const nodeIds = new Map<string, string>();
+    let imported = 0;
+
+    for (const member of parentsFirst(members)) {
+      const onChart = member.email ? byEmail.get(member.email.toLowerCase()) : undefined;
+      if (onChart) {
+        nodeIds.set(member.id, onChart.id);
+        continue;
+      }
+      const created = await storage.createOrgChartNode({
+        ...legacyMemberToNode(member),
+        orgId,
+        parentId: member.parentId ? nodeIds.get(member.parentId) : undefined
+      });
+      nodeIds.set(member.id, created.id);
+      imported++;
+    }
+    await storage.logAuditAction(orgId, 'import', 'orgChart', orgId, { nodes: imported }, userId);
+  }
+  await deleteLegacyOrgChartDatabase();
+}
+
+// Check a code from the signed-in user's authenticator, or a recovery code, and use it up
+async function confirmSecondFactor(code: string): Promise<TwoFactorSettings> {
+  const user = authManager.getCurrentUser()!;
+  if (!isTwoFactorEnabled(user)) throw new Error('Two-factor authentication is not on');
+
+  if (!await authManager.useSecondFactor(user.id, code)) throw new Error('Invalid two-factor code');
+  return (await storage.getTwoFactorSecret!(user.id))!;
 }
 
 // Create and export API instance
@@ -1,15 +1,41 @@
-import { browserStorage as storage } from './browserStorage';
+import { storage } from './storageBackend';
 import { emailService } from './emailService';
-import type { User, Organization, InviteToken, OrgMember, OrgRequest } from './database';
+import { hashPassword, verifyPassword, needsRehash } from './passwords';
+import { isTwoFactorEnabled, consumeSecondFactor } from './twoFactor';
+import { matchesOrgDomain } from './domains';
+import { issueLocalSession, verifyLocalToken, readStoredSession, clearStoredSession } from './sessions';
+import { TokenError, isRevoked } from '@shared/sessionTokens';
+import type { SessionClaims } from '@shared/sessionTokens';
+import type { User, Membership, Organization, InviteToken, OrgRequest, TwoFactorSettings } from './database';
 import { nanoid } from 'nanoid';
 
-// Simple password hashing using Web Crypto API
-export async function hashPassword(password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+// Refresh the access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// How long a step-up confirmation covers further sensitive actions
+const STEP_UP_WINDOW_MS = 5 * 60 * 1000;
+
+// A fresh code for an invite link
+export const newInviteCode = () => nanoid(12).toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// The password was right, but the account also needs a code from its authenticator app
+export class TwoFactorRequiredError extends Error {
+  constructor() {
+    super('Enter the code from your authenticator app');
+    this.name = 'TwoFactorRequiredError';
+  }
+}
+
+// An organization the signed-in user can switch to
+export interface OrganizationMembership {
+  membership: Membership;
+  organization: Organization;
+}
+
+// Outcome of signing up to an organization; pending joins wait for an admin and open no session
+export interface JoinResult {
+  user: User;
+  pending: boolean;
 }
 
 // Authentication state management
@@ -17,41 +43,137 @@ class AuthManager {
   private currentUser: User | null = null;
   private currentOrg: Organization | null = null;
   private listeners: Array<(user: User | null) => void> = [];
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private steppedUpAt = 0;
 
   constructor() {
-    // Try to restore session from localStorage
+    // Try to restore the signed session from the previous visit
     this.restoreSession();
   }
 
   private async restoreSession() {
+    // Sessions used to be a bare user id, which anyone could edit; those sign in again
+    localStorage.removeItem('currentUserId');
+
+    const stored = readStoredSession();
+    if (!stored) return;
+
     try {
-      const savedUserId = localStorage.getItem('currentUserId');
-      if (savedUserId) {
-        const user = await storage.getUser(savedUserId);
-        if (user) {
-          this.currentUser = user;
-          this.currentOrg = await storage.getOrganizationById(user.orgId);
-          this.notifyListeners();
-        }
-      }
+      const claims = await verifyLocalToken(stored.accessToken, 'access');
+      await this.resumeSession(claims);
+      this.scheduleRefresh(stored.expiresAt);
     } catch (error) {
+      if (error instanceof TokenError && error.reason === 'expired') {
+        await this.refreshSession().catch(() => this.clearSession());
+        return;
+      }
       console.error('Failed to restore session:', error);
       this.clearSession();
     }
   }
 
-  private saveSession() {
-    if (this.currentUser) {
-      localStorage.setItem('currentUserId', this.currentUser.id);
+  // Trade the refresh token for a new pair, unless the user has signed out everywhere since
+  private async refreshSession() {
+    const stored = readStoredSession();
+    if (!stored) throw new TokenError('invalid');
+
+    const claims = await verifyLocalToken(stored.refreshToken, 'refresh');
+    await this.resumeSession(claims);
+    await this.saveSession(claims.sid);
+  }
+
+  private async resumeSession(claims: SessionClaims) {
+    const user = await storage.getUser(claims.sub);
+    if (!user || isRevoked(claims, user.sessionsRevokedAt)) {
+      throw new TokenError('invalid', 'Session was signed out');
+    }
+
+    await this.enterOrganization(user);
+    this.notifyListeners();
+  }
+
+  // Scope the session to the org the user is currently working in, as long as they still belong to it
+  private async enterOrganization(user: User) {
+    const membership = await storage.getMembership(user.id, user.orgId);
+    if (membership?.status === 'pending') {
+      throw new Error('Your request to join is waiting for an admin to approve it');
+    }
+    if (membership && membership.status !== 'active') {
+      throw new Error('You are no longer a member of any organization');
+    }
+
+    this.currentUser = user;
+    this.currentOrg = await storage.getOrganization(user.orgId);
+  }
+
+  // Give an existing account a membership in another org and make that org the current one.
+  // A pending membership leaves the account where it was until an admin approves it.
+  private async joinWithAccount(
+    user: User,
+    orgId: string,
+    role: User['role'],
+    department?: string,
+    status: Membership['status'] = 'active'
+  ): Promise<User> {
+    const existing = await storage.getMembership(user.id, orgId);
+    if (existing?.status === 'active') {
+      throw new Error('You are already a member of this organization');
+    }
+    if (existing?.status === 'pending') {
+      throw new Error('Your request to join this organization is already waiting for approval');
+    }
+
+    const details = { role, department, status };
+    if (existing) {
+      await storage.updateMembership(existing.id, details);
     } else {
-      localStorage.removeItem('currentUserId');
+      await storage.createMembership({ ...details, userId: user.id, orgId, joinedAt: new Date() });
     }
+    return status === 'active' ? storage.updateUser(user.id, { orgId }) : user;
+  }
+
+  // Hold the membership as pending and file the join request admins review
+  private async requestToJoin(user: User, orgId: string, details: { role: User['role']; department?: string; source: 'invite' | 'code' | 'domain' }) {
+    const membership = await storage.getMembership(user.id, orgId);
+    if (membership && membership.status !== 'pending') {
+      await storage.updateMembership(membership.id, { status: 'pending' });
+    }
+    await storage.createOrgRequest({
+      orgId,
+      type: 'join',
+      submittedBy: user.id,
+      submittedAt: new Date(),
+      status: 'pending',
+      payload: { userId: user.id, email: user.email, fullName: user.fullName, ...details }
+    });
+  }
+
+  private async saveSession(sessionId?: string) {
+    if (!this.currentUser) {
+      this.clearSession();
+      return;
+    }
+    const tokens = await issueLocalSession(this.currentUser, sessionId);
+    this.scheduleRefresh(tokens.expiresAt);
+  }
+
+  private scheduleRefresh(expiresAt: number) {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshSession().catch(() => this.clearSession());
+    }, Math.max(0, expiresAt - Date.now() - REFRESH_MARGIN_MS));
   }
 
   private clearSession() {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
     this.currentUser = null;
     this.currentOrg = null;
-    localStorage.removeItem('currentUserId');
+    this.steppedUpAt = 0;
+    clearStoredSession();
     this.notifyListeners();
   }
 
@@ -85,10 +207,22 @@ class AuthManager {
     }
   }
 
-  async login(email: string, password: string): Promise<User> {
+  async login(email: string, password: string, code?: string): Promise<User> {
     try {
       console.log('🔐 Login attempt:', { email, passwordLength: password.length });
       
+      // Remote backends verify the password themselves and open a session. They cannot check a
+      // second factor, so two-factor sign-in is turned off for them (see isTwoFactorAvailable).
+      if (storage.authenticate) {
+        const user = await storage.authenticate(email.toLowerCase().trim(), password);
+        if (!user) throw new Error('Invalid email or password');
+
+        await this.enterOrganization(user);
+        await this.saveSession();
+        this.notifyListeners();
+        return user;
+      }
+
       let user = await storage.getUserByEmail(email);
       console.log('👤 User found:', user ? { id: user.id, email: user.email, role: user.role } : 'null');
 
@@ -127,31 +261,36 @@ class AuthManager {
         console.log('✅ User auto-created:', { id: user.id, email: user.email, role: user.role });
       } else {
         // Verify password for existing user
-        const hashedPassword = await hashPassword(password);
-        console.log('🔒 Password check:', { 
-          inputHash: hashedPassword.substring(0, 10) + '...', 
-          storedHash: user.password.substring(0, 10) + '...',
-          match: user.password === hashedPassword 
-        });
-        
-        if (user.password !== hashedPassword) {
+        if (!await verifyPassword(password, user.password)) {
           console.log('❌ Password mismatch');
           throw new Error('Invalid email or password');
         }
+
+        // Upgrade hashes from before PBKDF2 now that we have the plain password
+        if (needsRehash(user.password)) {
+          user = await storage.updateUser(user.id, { password: await hashPassword(password) });
+        }
+
+        if (isTwoFactorEnabled(user)) {
+          if (!code) throw new TwoFactorRequiredError();
+          const verified = await this.useSecondFactor(user.id, code);
+          if (!verified) throw new Error('Invalid two-factor code');
+          user = verified;
+        }
       }
 
       // Set current user and organization
-      this.currentUser = user;
-      this.currentOrg = await storage.getOrganization(user.orgId);
+      await this.enterOrganization(user);
       
       console.log('✅ Login successful:', { userId: user.id, orgId: user.orgId });
       
-      this.saveSession();
+      await this.saveSession();
       this.notifyListeners();
 
       return user;
     } catch (error) {
       console.log('❌ Login error:', error);
+      if (error instanceof TwoFactorRequiredError) throw error;
       throw new Error(error instanceof Error ? error.message : 'Login failed');
     }
   }
@@ -164,9 +303,9 @@ class AuthManager {
         throw new Error('Organization code already exists');
       }
 
-      // Check if admin email already exists
+      // Someone with an account can start another organization by signing in with it
       const existingUser = await storage.getUserByEmail(adminEmail.toLowerCase().trim());
-      if (existingUser) {
+      if (existingUser && !await verifyPassword(adminPassword, existingUser.password)) {
         throw new Error('Email already in use');
       }
 
@@ -187,43 +326,30 @@ class AuthManager {
       });
 
       // Create admin user
-      const hashedPassword = await hashPassword(adminPassword);
-      const adminUser = await storage.createUser({
-        orgId: org.orgId,
-        email: adminEmail.toLowerCase().trim(),
-        password: hashedPassword,
-        fullName: adminFullName,
-        role: 'Admin',
-        department: undefined,
-        digestTime: '09:00',
-        notificationPreferences: { push: true, email: true },
-        isOnline: false,
-        customFieldsData: {},
-        emailVerified: true
-      });
+      const adminUser = existingUser
+        ? await this.joinWithAccount(existingUser, org.orgId, 'Admin')
+        : await storage.createUser({
+            orgId: org.orgId,
+            email: adminEmail.toLowerCase().trim(),
+            password: await hashPassword(adminPassword),
+            fullName: adminFullName,
+            role: 'Admin',
+            department: undefined,
+            digestTime: '09:00',
+            notificationPreferences: { push: true, email: true },
+            isOnline: false,
+            customFieldsData: {},
+            emailVerified: true
+          });
 
       // Update org with creator ID
       await storage.updateOrganization(org.orgId, { createdBy: adminUser.id });
 
-      // Create org member record for admin
-      await storage.createOrgMember({
-        orgId: org.orgId,
-        email: adminEmail.toLowerCase().trim(),
-        fullName: adminFullName,
-        role: 'admin',
-        joinedAt: new Date(),
-        status: 'active',
-        profile: {
-          title: 'Admin',
-          department: 'Management'
-        }
-      });
-
       // Auto-login the admin user
       this.currentUser = adminUser;
       this.currentOrg = org;
       
-      this.saveSession();
+      await this.saveSession();
       this.notifyListeners();
 
       return adminUser;
@@ -232,7 +358,7 @@ class AuthManager {
     }
   }
 
-  async joinOrganization(inviteCode: string, email: string, password: string, fullName: string, phoneNumber?: string): Promise<User> {
+  async joinOrganization(inviteCode: string, email: string, password: string, fullName: string, phoneNumber?: string): Promise<JoinResult> {
     try {
       // Validate invite code
       const inviteData = await this.validateInviteCode(inviteCode);
@@ -240,9 +366,9 @@ class AuthManager {
         throw new Error('Invalid or expired invite code');
       }
 
-      // Check if email already exists
+      // Someone with an account joins with it, after proving it is theirs
       const existingUser = await storage.getUserByEmail(email.toLowerCase().trim());
-      if (existingUser) {
+      if (existingUser && !await verifyPassword(password, existingUser.password)) {
         throw new Error('Email already in use');
       }
 
@@ -253,36 +379,24 @@ class AuthManager {
       }
 
       // Create user
-      const hashedPassword = await hashPassword(password);
-      const user = await storage.createUser({
-        orgId: org.orgId,
-        email: email.toLowerCase().trim(),
-        password: hashedPassword,
-        fullName,
-        phoneNumber: phoneNumber || undefined,
-        role: inviteData.role as 'Admin' | 'Approver' | 'Finance' | 'Member',
-        department: undefined,
-        digestTime: '09:00',
-        notificationPreferences: { push: true, email: true },
-        isOnline: false,
-        customFieldsData: {},
-        emailVerified: true
-      });
-
-      // Create org member record
-      await storage.createOrgMember({
-        orgId: org.orgId,
-        email: email.toLowerCase().trim(),
-        fullName,
-        phone: phoneNumber,
-        role: 'member',
-        joinedAt: new Date(),
-        status: 'active',
-        profile: {
-          title: inviteData.role,
-          department: 'General'
-        }
-      });
+      const role = inviteData.role as User['role'];
+      const status: Membership['status'] = org.settings.memberApprovals?.joins ? 'pending' : 'active';
+      const user = existingUser
+        ? await this.joinWithAccount(existingUser, org.orgId, role, undefined, status)
+        : await storage.createUser({
+            orgId: org.orgId,
+            email: email.toLowerCase().trim(),
+            password: await hashPassword(password),
+            fullName,
+            phoneNumber: phoneNumber || undefined,
+            role,
+            department: undefined,
+            digestTime: '09:00',
+            notificationPreferences: { push: true, email: true },
+            isOnline: false,
+            customFieldsData: {},
+            emailVerified: true
+          });
 
       // Mark invite token as used
       const token = await storage.getInviteTokenByToken(inviteCode);
@@ -290,20 +404,25 @@ class AuthManager {
         await storage.markInviteTokenAsUsed(token.id, user.id);
       }
 
+      if (status === 'pending') {
+        await this.requestToJoin(user, org.orgId, { role, source: 'invite' });
+        return { user, pending: true };
+      }
+
       // Auto-login the user
       this.currentUser = user;
       this.currentOrg = org;
       
-      this.saveSession();
+      await this.saveSession();
       this.notifyListeners();
 
-      return user;
+      return { user, pending: false };
     } catch (error) {
       throw new Error(error instanceof Error ? error.message : 'Failed to join organization');
     }
   }
 
-  async joinOrganizationByCode(orgCode: string, email: string, password: string, fullName: string, role: string, department?: string): Promise<User> {
+  async joinOrganizationByCode(orgCode: string, email: string, password: string, fullName: string, department?: string): Promise<JoinResult> {
     try {
       // Find existing organization
       const org = await storage.getOrganizationByCode(orgCode);
@@ -311,52 +430,149 @@ class AuthManager {
         throw new Error('Organization not found');
       }
 
-      // Check if email already exists
+      // On the org's verified domain its join policy picks the role, and may hold the join for approval;
+      // anyone else with the code joins as a Requester until an admin changes their role
+      const domainPolicy = matchesOrgDomain(email, org) ? org.settings.domainJoin : undefined;
+      const joinRole: User['role'] = domainPolicy && domainPolicy.mode !== 'invite' ? domainPolicy.defaultRole : 'Requester';
+      const status: Membership['status'] =
+        domainPolicy?.mode === 'approval' || org.settings.memberApprovals?.joins ? 'pending' : 'active';
+
+      // Someone with an account joins with it, after proving it is theirs
       const existingUser = await storage.getUserByEmail(email.toLowerCase().trim());
-      if (existingUser) {
+      if (existingUser && !await verifyPassword(password, existingUser.password)) {
         throw new Error('Email already in use');
       }
 
       // Create user
-      const hashedPassword = await hashPassword(password);
-      const user = await storage.createUser({
-        orgId: org.orgId,
-        email: email.toLowerCase().trim(),
-        password: hashedPassword,
-        fullName,
-        role: role as 'Admin' | 'Approver' | 'Finance' | 'Member' | 'Requester',
-        department: department || undefined,
-        digestTime: '09:00',
-        notificationPreferences: { push: true, email: true },
-        isOnline: false,
-        customFieldsData: {},
-          emailVerified: true
-      });
+      const user = existingUser
+        ? await this.joinWithAccount(existingUser, org.orgId, joinRole, department || undefined, status)
+        : await storage.createUser({
+            orgId: org.orgId,
+            email: email.toLowerCase().trim(),
+            password: await hashPassword(password),
+            fullName,
+            role: joinRole,
+            department: department || undefined,
+            digestTime: '09:00',
+            notificationPreferences: { push: true, email: true },
+            isOnline: false,
+            customFieldsData: {},
+            emailVerified: true
+          });
 
           // Email verification disabled
 
+      if (status === 'pending') {
+        await this.requestToJoin(user, org.orgId, { role: joinRole, department, source: domainPolicy ? 'domain' : 'code' });
+        return { user, pending: true };
+      }
+
       // Set current user and organization
       this.currentUser = user;
       this.currentOrg = org;
       
-      this.saveSession();
+      await this.saveSession();
       this.notifyListeners();
 
-      return user;
+      return { user, pending: false };
     } catch (error) {
       throw new Error(error instanceof Error ? error.message : 'Join organization failed');
     }
   }
 
+  // The organization that lets people on this email's domain sign up without a code
+  async findOrganizationByEmailDomain(email: string): Promise<Organization | null> {
+    const organizations = await storage.getAllOrganizations();
+    return organizations.find(org =>
+      matchesOrgDomain(email, org) && org.settings.domainJoin && org.settings.domainJoin.mode !== 'invite'
+    ) ?? null;
+  }
+
+  async joinOrganizationByDomain(email: string, password: string, fullName: string, department?: string): Promise<JoinResult> {
+    const org = await this.findOrganizationByEmailDomain(email);
+    if (!org) {
+      throw new Error('No organization lets people with this email domain join without an invite');
+    }
+    return this.joinOrganizationByCode(org.inviteCode, email, password, fullName, department);
+  }
+
   logout() {
     this.clearSession();
+    storage.signOut?.().catch(error => console.error('Failed to end backend session:', error));
+  }
+
+  // End every session for the current user, including this one
+  async signOutAllDevices(): Promise<void> {
+    if (!this.currentUser) {
+      throw new Error('No user logged in');
+    }
+
+    if (storage.revokeSessions) {
+      await storage.revokeSessions();
+    } else {
+      await storage.updateUser(this.currentUser.id, { sessionsRevokedAt: new Date() });
+    }
+    this.clearSession();
+  }
+
+  // Confirm it is still the signed-in user before a sensitive action: a second-factor code
+  // when they have one set up, their password otherwise
+  async stepUp(credentials: { code?: string; password?: string }): Promise<void> {
+    if (!this.currentUser) {
+      throw new Error('No user logged in');
+    }
+
+    const user = this.currentUser;
+    if (isTwoFactorEnabled(user)) {
+      if (!credentials.code || !await this.useSecondFactor(user.id, credentials.code)) {
+        throw new Error('Invalid two-factor code');
+      }
+    } else {
+      const password = credentials.password ?? '';
+      const verified = storage.authenticate
+        ? !!await storage.authenticate(user.email, password).catch(() => null)
+        : await verifyPassword(password, user.password);
+      if (!verified) throw new Error('Incorrect password');
+    }
+    this.steppedUpAt = Date.now();
+  }
+
+  // Store a user's second factor apart from their record, which only keeps its status.
+  // `null` turns two-factor sign-in off.
+  async saveSecondFactor(userId: string, settings: TwoFactorSettings | null): Promise<User> {
+    if (!storage.saveTwoFactorSecret || !storage.deleteTwoFactorSecret) {
+      throw new Error('Two-factor authentication is not available with this storage backend');
+    }
+    if (settings) {
+      await storage.saveTwoFactorSecret(settings);
+    } else {
+      await storage.deleteTwoFactorSecret(userId);
+    }
+
+    const twoFactor = settings?.enabledAt
+      ? { enabledAt: settings.enabledAt, recoveryCodesLeft: settings.recoveryCodeHashes.length }
+      : undefined;
+    return userId === this.currentUser?.id
+      ? await this.updateUser({ twoFactor })
+      : await storage.updateUser(userId, { twoFactor });
+  }
+
+  // Check an authenticator or recovery code against the user's second factor and use it up.
+  // Returns the user as updated, or null when the code is wrong.
+  async useSecondFactor(userId: string, code: string): Promise<User | null> {
+    const settings = await storage.getTwoFactorSecret?.(userId);
+    const used = settings?.enabledAt ? await consumeSecondFactor(settings, code) : null;
+    return used ? await this.saveSecondFactor(userId, used) : null;
+  }
+
+  hasRecentStepUp(): boolean {
+    return Date.now() - this.steppedUpAt < STEP_UP_WINDOW_MS;
   }
 
   // Invite code management methods
   async generateInviteCode(orgId: string, role: string, createdBy: string, expiresInDays: number = 7): Promise<string> {
     try {
-      // Generate a unique invite code
-      const inviteCode = nanoid(12).toUpperCase().replace(/[^A-Z0-9]/g, '');
+      const inviteCode = newInviteCode();
       
       // Calculate expiration date
       const expiresAt = new Date();
@@ -439,6 +655,39 @@ class AuthManager {
     return updatedUser;
   }
 
+  // Organizations the user can switch between
+  async getMemberships(): Promise<OrganizationMembership[]> {
+    if (!this.currentUser) {
+      throw new Error('No user logged in');
+    }
+
+    const memberships = (await storage.getMembershipsByUser(this.currentUser.id)).filter(m => m.status === 'active');
+    const organizations = await Promise.all(memberships.map(m => storage.getOrganizationById(m.orgId)));
+    return memberships.flatMap((membership, index) => {
+      const organization = organizations[index];
+      return organization ? [{ membership, organization }] : [];
+    });
+  }
+
+  // Work in another of the user's organizations; the new session token carries that org
+  async switchOrganization(orgId: string): Promise<User> {
+    if (!this.currentUser) {
+      throw new Error('No user logged in');
+    }
+    if (orgId === this.currentUser.orgId) return this.currentUser;
+
+    const membership = await storage.getMembership(this.currentUser.id, orgId);
+    if (!membership || membership.status !== 'active') {
+      throw new Error('You are not a member of that organization');
+    }
+
+    const user = await storage.updateUser(this.currentUser.id, { orgId });
+    await this.enterOrganization(user);
+    await this.saveSession();
+    this.notifyListeners();
+    return user;
+  }
+
   async updateOrganization(data: Partial<Organization>): Promise<Organization> {
     if (!this.currentOrg) {
       throw new Error('No organization loaded');
@@ -569,8 +818,8 @@ class AuthManager {
       // Hash new password
       const hashedPassword = await hashPassword(newPassword);
 
-      // Update user password
-      await storage.updateUser(reset.userId, { password: hashedPassword });
+      // Update user password and sign out sessions opened with the old one
+      await storage.updateUser(reset.userId, { password: hashedPassword, sessionsRevokedAt: new Date() });
 
       // Mark reset as used
       await storage.markPasswordResetAsUsed(token);
@@ -587,19 +836,3 @@ class AuthManager {
 
 // Create and export auth manager instance
 export const authManager = new AuthManager();
-
-// Helper function to check if user has required role
-export function hasRole(requiredRoles: string[]): boolean {
-  const user = authManager.getCurrentUser();
-  return user ? requiredRoles.includes(user.role) : false;
-}
-
-// Helper function to check if user is admin
-export function isAdmin(): boolean {
-  return hasRole(['Admin']);
-}
-
-// Helper function to check if user can approve
-export function canApprove(): boolean {
-  return hasRole(['Admin', 'Approver']);
-}
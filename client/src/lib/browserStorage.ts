@@ -1,9 +1,14 @@
 import Dexie, { Table } from 'dexie';
-import { User, Organization, FundingRequest, QueryMessage, OrgChartNode, InviteToken, ApprovalChain, ApprovalHistory, OrgMember, OrgRequest, OrgChart, OrgAuditLog } from './database';
+import { User, UserRecord, TwoFactorSettings, Membership, Organization, FundingRequest, QueryMessage, OrgChartNode, InviteToken, ApprovalChain, ApprovalHistory, OrgMember, OrgRequest, OrgAuditLog, Budget, Invoice, Attachment } from './database';
+import type { StorageBackend, OrgChartImportChanges, OrgRequestDecision } from './storageBackend';
+import { trackChanges } from './syncOutbox';
+import type { OutboxEntry, SyncStateEntry } from './syncOutbox';
+import type { SessionKeyEntry } from './sessions';
+import { splitUser, withMembership, activeMembership, toOrgMember } from './memberships';
 
 // Define the database schema
 export class BrowserStorage extends Dexie {
-  users!: Table<User>;
+  users!: Table<UserRecord>;
   organizations!: Table<Organization>;
   fundingRequests!: Table<FundingRequest>;
   queryMessages!: Table<QueryMessage>;
@@ -12,10 +17,19 @@ export class BrowserStorage extends Dexie {
   approvalChains!: Table<ApprovalChain>;
   approvalHistory!: Table<ApprovalHistory>;
   // New org-scoped tables
-  orgMembers!: Table<OrgMember>;
+  memberships!: Table<Membership, string>;
   orgRequests!: Table<OrgRequest>;
-  orgCharts!: Table<OrgChart>;
   orgAuditLogs!: Table<OrgAuditLog>;
+  budgets!: Table<Budget>;
+  invoices!: Table<Invoice>;
+  attachments!: Table<Attachment>;
+  // Offline sync bookkeeping
+  outbox!: Table<OutboxEntry, number>;
+  syncState!: Table<SyncStateEntry, string>;
+  // Signs session tokens for this install
+  sessionKeys!: Table<SessionKeyEntry, string>;
+  // Second-factor secrets; not synced, like the rest of a user's credentials
+  twoFactorSecrets!: Table<TwoFactorSettings, string>;
 
   constructor() {
     super('RapidFundsDB');
@@ -77,11 +91,158 @@ export class BrowserStorage extends Dexie {
       
       console.log(`✅ Migrated ${users.length} users to org members`);
     });
+
+    // Version 3: Add budgets
+    this.version(3).stores({
+      budgets: '++id, orgId, department, costCenter, periodStart, periodEnd'
+    });
+
+    // Version 4: Add invoices
+    this.version(4).stores({
+      invoices: '++id, orgId, requestId, vendorName, invoiceNumber, dueDate, purchaseOrderNumber, vendorTaxId'
+    });
+
+    // Version 5: Attachment blobs (previously base64 in localStorage)
+    this.version(5).stores({
+      attachments: '++id, orgId, [orgId+hash], uploadedBy, createdAt'
+    });
+
+    // Version 6: Outbox and cursors for syncing with the server
+    this.version(6).stores({
+      outbox: '++seq, &[entity+key], queuedAt',
+      syncState: 'key'
+    });
+
+    // Version 7: Key that signs session tokens
+    this.version(7).stores({
+      sessionKeys: 'id'
+    });
+
+    // Version 8: One record per person plus a membership per org, replacing orgMembers
+    this.version(8).stores({
+      users: '++id, orgId, email, fullName, createdAt',
+      memberships: 'id, userId, orgId, &[userId+orgId], status',
+      orgMembers: null
+    }).upgrade(async (trans) => {
+      console.log('🔄 Migrating users and org members to memberships...');
+
+      const users = await trans.table('users').toArray();
+      const orgMembers = await trans.table('orgMembers').toArray();
+      const usersByEmail = new Map(users.map((user: any) => [String(user.email).toLowerCase(), user]));
+      const memberships = new Map<string, Membership>();
+
+      // The user record is authoritative for its own org
+      for (const user of users) {
+        memberships.set(`${user.id}:${user.orgId}`, {
+          id: crypto.randomUUID(),
+          userId: user.id,
+          orgId: user.orgId,
+          role: user.role || 'Member',
+          customRoleId: user.customRoleId,
+          department: user.department,
+          jobTitle: user.jobTitle,
+          status: 'active',
+          joinedAt: user.createdAt || new Date()
+        });
+      }
+
+      // Org members fill in what the user record lacks, and add the other orgs
+      // someone was listed in under the same email. Members without an account can't have a
+      // membership; each org's audit log keeps who they were so an admin can invite them.
+      const unmatched: OrgAuditLog[] = [];
+      for (const member of orgMembers) {
+        const user = usersByEmail.get(String(member.email).toLowerCase());
+        if (!user) {
+          unmatched.push({
+            id: crypto.randomUUID(),
+            orgId: member.orgId,
+            action: 'drop',
+            performedBy: 'system',
+            performedAt: new Date(),
+            targetType: 'member',
+            targetId: String(member.memberId),
+            details: {
+              reason: 'No account with this email when org members became memberships',
+              email: member.email,
+              fullName: member.fullName,
+              role: member.role,
+              status: member.status
+            }
+          });
+          continue;
+        }
+
+        const existing = memberships.get(`${user.id}:${member.orgId}`);
+        if (existing) {
+          existing.department ??= member.profile?.department;
+          existing.jobTitle ??= member.profile?.jobTitle;
+        } else {
+          memberships.set(`${user.id}:${member.orgId}`, {
+            id: crypto.randomUUID(),
+            userId: user.id,
+            orgId: member.orgId,
+            role: member.role === 'admin' ? 'Admin' : 'Member',
+            department: member.profile?.department,
+            jobTitle: member.profile?.jobTitle,
+            status: member.status || 'active',
+            joinedAt: member.joinedAt || new Date()
+          });
+        }
+      }
+
+      await trans.table('memberships').bulkAdd(Array.from(memberships.values()));
+      await trans.table('orgAuditLogs').bulkAdd(unmatched);
+      await trans.table('users').toCollection().modify((user: any) => {
+        delete user.role;
+        delete user.customRoleId;
+        delete user.department;
+        delete user.jobTitle;
+      });
+
+      console.log(`✅ Migrated ${memberships.size} memberships (${unmatched.length} org members had no account and were logged to the audit log)`);
+    });
+
+    // Version 9: Org chart nodes are the only chart store; fold in saved chart documents
+    this.version(9).stores({
+      orgCharts: null
+    }).upgrade(async (trans) => {
+      const charts = await trans.table('orgCharts').toArray();
+      const nodes = trans.table('orgChartNodes');
+      let merged = 0;
+
+      for (const chart of charts) {
+        for (const node of chart.nodes ?? []) {
+          if (!node?.id || await nodes.get(node.id)) continue;
+          await nodes.add({ ...node, orgId: chart.orgId });
+          merged++;
+        }
+      }
+
+      // Chart documents no longer sync, so drop their unsent changes
+      await trans.table('outbox').filter((entry: any) => entry.entity === 'orgCharts').delete();
+
+      console.log(`✅ Merged ${merged} saved org chart nodes into the node table`);
+    });
+
+    // Version 10: Second-factor secrets move off the user record, which keeps only their status
+    this.version(10).stores({
+      twoFactorSecrets: 'userId'
+    }).upgrade(async (trans) => {
+      const users = await trans.table('users').filter((user: any) => !!user.twoFactor?.secret).toArray();
+      for (const user of users) {
+        const { secret, enabledAt, lastUsedStep, recoveryCodeHashes = [] } = user.twoFactor;
+        await trans.table('twoFactorSecrets').put({ userId: user.id, secret, enabledAt, lastUsedStep, recoveryCodeHashes });
+        await trans.table('users').update(user.id, {
+          twoFactor: enabledAt ? { enabledAt, recoveryCodesLeft: recoveryCodeHashes.length } : undefined
+        });
+      }
+    });
   }
 }
 
 // Create database instance with error handling
 export const db = new BrowserStorage();
+trackChanges(db);
 
 // Handle database initialization errors
 db.on('close', async () => {
@@ -130,17 +291,17 @@ if (typeof window !== 'undefined') {
       
       const userCount = await db.users.count();
       const orgCount = await db.organizations.count();
-      const memberCount = await db.orgMembers.count();
+      const memberCount = await db.memberships.count();
       const requestCount = await db.orgRequests.count();
-      const chartCount = await db.orgCharts.count();
+      const chartCount = await db.orgChartNodes.count();
       const auditCount = await db.orgAuditLogs.count();
       
       console.log('📊 Database Statistics:');
       console.log(`  Users: ${userCount}`);
       console.log(`  Organizations: ${orgCount}`);
-      console.log(`  Org Members: ${memberCount}`);
+      console.log(`  Memberships: ${memberCount}`);
       console.log(`  Org Requests: ${requestCount}`);
-      console.log(`  Org Charts: ${chartCount}`);
+      console.log(`  Org Chart Nodes: ${chartCount}`);
       console.log(`  Audit Logs: ${auditCount}`);
       
       console.log('✅ Database test completed successfully!');
@@ -165,26 +326,49 @@ if (typeof window !== 'undefined') {
 }
 
 // Storage implementation using IndexedDB
-export class BrowserStorageImpl {
+export class BrowserStorageImpl implements StorageBackend {
   // User operations
+  // Users are stored once per person; role, department and title come from their
+  // membership in the org being looked at
+  private async scopeUser(record: UserRecord | undefined, orgId?: string): Promise<User | null> {
+    if (!record) return null;
+    const memberships = await db.memberships.where('userId').equals(record.id).toArray();
+    const membership = orgId
+      ? memberships.find(m => m.orgId === orgId)
+      : activeMembership(record, memberships) || memberships.find(m => m.orgId === record.orgId) || memberships[0];
+    return membership ? withMembership(record, membership) : null;
+  }
+
   async createUser(user: Omit<User, 'id' | 'createdAt'>): Promise<User> {
-    const newUser: User = {
-      ...user,
+    const { identity, membership } = splitUser(user);
+    const record: UserRecord = {
+      ...identity,
       id: crypto.randomUUID(),
       createdAt: new Date()
     };
-    await db.users.add(newUser);
-    return newUser;
+    await db.transaction('rw', db.users, db.memberships, async () => {
+      await db.users.add(record);
+      await db.memberships.add({
+        ...membership,
+        role: user.role,
+        id: crypto.randomUUID(),
+        userId: record.id,
+        orgId: user.orgId,
+        status: 'active',
+        joinedAt: record.createdAt
+      });
+    });
+    return { ...record, ...membership, role: user.role };
   }
 
   async getUserById(id: string): Promise<User | null> {
-    return await db.users.get(id) || null;
+    return this.scopeUser(await db.users.get(id));
   }
 
   async getUserByEmail(email: string): Promise<User | null> {
     try {
       console.log('🔍 Searching for user by email:', email);
-      const user = await db.users.where('email').equals(email).first() || null;
+      const user = await this.scopeUser(await db.users.where('email').equals(email).first());
       console.log('👤 Database result:', user ? { id: user.id, email: user.email, role: user.role } : 'null');
       return user;
     } catch (error: any) {
@@ -195,18 +379,74 @@ export class BrowserStorageImpl {
   }
 
   async getUsersByOrgId(orgId: string): Promise<User[]> {
-    return await db.users.where('orgId').equals(orgId).toArray();
+    const memberships = await db.memberships.where('orgId').equals(orgId).and(m => m.status === 'active').toArray();
+    const records = await db.users.bulkGet(memberships.map(m => m.userId));
+    return memberships.flatMap((membership, index) => {
+      const record = records[index];
+      return record ? [withMembership(record, membership)] : [];
+    });
   }
 
+  // Role, custom role, department and title change the membership in the user's current org
   async updateUser(id: string, updates: Partial<User>): Promise<User> {
-    await db.users.update(id, updates);
-    const updated = await db.users.get(id);
+    const { identity, membership } = splitUser(updates);
+    await db.transaction('rw', db.users, db.memberships, async () => {
+      const current = await this.scopeUser(await db.users.get(id));
+      if (!current) throw new Error('User not found');
+      await db.users.update(id, identity);
+      if (Object.keys(membership).length > 0) {
+        await db.memberships.where('[userId+orgId]').equals([id, updates.orgId ?? current.orgId]).modify(membership);
+      }
+    });
+    const updated = await this.getUserById(id);
     if (!updated) throw new Error('User not found');
     return updated;
   }
 
+  async getTwoFactorSecret(userId: string): Promise<TwoFactorSettings | null> {
+    return (await db.twoFactorSecrets.get(userId)) || null;
+  }
+
+  async saveTwoFactorSecret(settings: TwoFactorSettings): Promise<void> {
+    await db.twoFactorSecrets.put(settings);
+  }
+
+  async deleteTwoFactorSecret(userId: string): Promise<void> {
+    await db.twoFactorSecrets.delete(userId);
+  }
+
   async deleteUser(id: string): Promise<void> {
-    await db.users.delete(id);
+    await db.transaction('rw', db.users, db.memberships, async () => {
+      await db.memberships.where('userId').equals(id).delete();
+      await db.users.delete(id);
+    });
+  }
+
+  // Membership operations
+  async createMembership(membership: Omit<Membership, 'id'>): Promise<Membership> {
+    const newMembership: Membership = {
+      ...membership,
+      id: crypto.randomUUID()
+    };
+    await db.memberships.add(newMembership);
+    await this.logAuditAction(membership.orgId, 'create', 'member', membership.userId, { membership: newMembership });
+    return newMembership;
+  }
+
+  async getMembership(userId: string, orgId: string): Promise<Membership | null> {
+    return await db.memberships.where('[userId+orgId]').equals([userId, orgId]).first() || null;
+  }
+
+  async getMembershipsByUser(userId: string): Promise<Membership[]> {
+    return await db.memberships.where('userId').equals(userId).toArray();
+  }
+
+  async updateMembership(id: string, updates: Partial<Membership>): Promise<Membership> {
+    await db.memberships.update(id, updates);
+    const updated = await db.memberships.get(id);
+    if (!updated) throw new Error('Membership not found');
+    await this.logAuditAction(updated.orgId, 'update', 'member', updated.userId, { updates });
+    return updated;
   }
 
   // Alias methods for compatibility
@@ -219,7 +459,7 @@ export class BrowserStorageImpl {
   }
 
   async getUserByEmailAndOrgCode(email: string, orgId: string): Promise<User | null> {
-    return await db.users.where('email').equals(email).and(user => user.orgId === orgId).first() || null;
+    return this.scopeUser(await db.users.where('email').equals(email).first(), orgId);
   }
 
   async markInviteTokenAsUsed(tokenId: string, userId: string): Promise<void> {
@@ -280,7 +520,7 @@ export class BrowserStorageImpl {
   }
 
   async getUsersByOrgAndRole(orgId: string, role: string): Promise<User[]> {
-    return await db.users.where('orgId').equals(orgId).and(user => user.role === role).toArray();
+    return (await this.getUsersByOrgId(orgId)).filter(user => user.role === role);
   }
 
   async getFundingRequestsByOrg(orgId: string): Promise<FundingRequest[]> {
@@ -331,7 +571,8 @@ export class BrowserStorageImpl {
   }
 
   async getAllUsers(): Promise<User[]> {
-    return await db.users.toArray();
+    const users = await Promise.all((await db.users.toArray()).map(record => this.scopeUser(record)));
+    return users.filter((user): user is User => user !== null);
   }
 
   async updateOrganization(orgId: string, updates: Partial<Organization>): Promise<Organization> {
@@ -373,6 +614,17 @@ export class BrowserStorageImpl {
     await db.orgChartNodes.delete(id);
   }
 
+  async applyOrgChartImport(changes: OrgChartImportChanges): Promise<void> {
+    const now = new Date();
+    await db.transaction('rw', db.orgChartNodes, db.inviteTokens, async () => {
+      await db.orgChartNodes.bulkAdd(changes.newNodes.map(node => ({ ...node, createdAt: now, updatedAt: now })));
+      for (const { id, updates } of changes.nodeUpdates) {
+        await db.orgChartNodes.update(id, { ...updates, updatedAt: now });
+      }
+      await db.inviteTokens.bulkAdd(changes.inviteTokens.map(token => ({ ...token, id: crypto.randomUUID(), createdAt: now })));
+    });
+  }
+
   async getOrgChartNode(id: string): Promise<OrgChartNode | null> {
     return await db.orgChartNodes.get(id) || null;
   }
@@ -466,6 +718,10 @@ export class BrowserStorageImpl {
     return await db.approvalChains.where('orgId').equals(orgId).toArray();
   }
 
+  async getApprovalChainById(id: string): Promise<ApprovalChain | null> {
+    return await db.approvalChains.get(id) || null;
+  }
+
   async updateApprovalChain(id: string, updates: Partial<ApprovalChain>): Promise<ApprovalChain> {
     const updateData = { ...updates, updatedAt: new Date() };
     await db.approvalChains.update(id, updateData);
@@ -490,58 +746,93 @@ export class BrowserStorageImpl {
   }
 
   async getApprovalHistoryByRequestId(requestId: string): Promise<ApprovalHistory[]> {
-    return await db.approvalHistory.where('requestId').equals(requestId).toArray();
+    return await db.approvalHistory.where('requestId').equals(requestId).sortBy('createdAt');
   }
 
-  // ===== ORG-SCOPED OPERATIONS =====
-
-  // Org Members operations
-  async createOrgMember(member: Omit<OrgMember, 'memberId'>): Promise<OrgMember> {
-    const newMember: OrgMember = {
-      ...member,
-      memberId: crypto.randomUUID(),
+  // Budget operations
+  async createBudget(budget: Omit<Budget, 'id' | 'createdAt' | 'updatedAt'>): Promise<Budget> {
+    const newBudget: Budget = {
+      ...budget,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date()
     };
-    await db.orgMembers.add(newMember);
-    await this.logAuditAction(member.orgId, 'create', 'member', newMember.memberId, { member: newMember });
-    return newMember;
+    await db.budgets.add(newBudget);
+    return newBudget;
   }
 
-  async getOrgMembers(orgId: string): Promise<OrgMember[]> {
-    return await db.orgMembers.where('orgId').equals(orgId).toArray();
+  async getBudgetsByOrgId(orgId: string): Promise<Budget[]> {
+    return await db.budgets.where('orgId').equals(orgId).toArray();
   }
 
-  async getOrgMember(orgId: string, memberId: string): Promise<OrgMember | null> {
-    return await db.orgMembers.where('[orgId+memberId]').equals([orgId, memberId]).first() || null;
+  async getBudgetById(id: string): Promise<Budget | null> {
+    return await db.budgets.get(id) || null;
   }
 
-  async updateOrgMember(orgId: string, memberId: string, updates: Partial<OrgMember>): Promise<OrgMember> {
-    await db.orgMembers.where('[orgId+memberId]').equals([orgId, memberId]).modify(updates);
-    const updated = await db.orgMembers.where('[orgId+memberId]').equals([orgId, memberId]).first();
-    if (!updated) throw new Error('Org member not found');
-    await this.logAuditAction(orgId, 'update', 'member', memberId, { updates });
+  async updateBudget(id: string, updates: Partial<Budget>): Promise<Budget> {
+    await db.budgets.update(id, { ...updates, updatedAt: new Date() });
+    const updated = await db.budgets.get(id);
+    if (!updated) throw new Error('Budget not found');
     return updated;
   }
 
-  async deleteOrgMember(orgId: string, memberId: string): Promise<void> {
-    await db.orgMembers.where('[orgId+memberId]').equals([orgId, memberId]).delete();
-    await this.logAuditAction(orgId, 'delete', 'member', memberId, {});
+  async deleteBudget(id: string): Promise<void> {
+    await db.budgets.delete(id);
   }
 
-  async upsertOrgMember(member: Omit<OrgMember, 'memberId'>): Promise<OrgMember> {
-    // Check if member already exists
-    const existing = await db.orgMembers.where('[orgId+email]').equals([member.orgId, member.email]).first();
-    
-    if (existing) {
-      // Update existing member
-      await db.orgMembers.where('[orgId+email]').equals([member.orgId, member.email]).modify(member);
-      const updated = await db.orgMembers.where('[orgId+email]').equals([member.orgId, member.email]).first();
-      if (!updated) throw new Error('Failed to update org member');
-      await this.logAuditAction(member.orgId, 'update', 'member', updated.memberId, { member: updated });
-      return updated;
-    } else {
-      // Create new member
-      return await this.createOrgMember(member);
-    }
+  // Invoice operations
+  async createInvoice(invoice: Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>): Promise<Invoice> {
+    const newInvoice: Invoice = {
+      ...invoice,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    await db.invoices.add(newInvoice);
+    return newInvoice;
+  }
+
+  async getInvoiceById(id: string): Promise<Invoice | null> {
+    return await db.invoices.get(id) || null;
+  }
+
+  async getInvoiceByRequestId(requestId: string): Promise<Invoice | null> {
+    return await db.invoices.where('requestId').equals(requestId).first() || null;
+  }
+
+  async getInvoicesByOrgId(orgId: string): Promise<Invoice[]> {
+    return await db.invoices.where('orgId').equals(orgId).toArray();
+  }
+
+  // Attachment operations
+  async createAttachment(attachment: Omit<Attachment, 'id' | 'createdAt'> & { id?: string }): Promise<Attachment> {
+    const newAttachment: Attachment = {
+      ...attachment,
+      id: attachment.id || crypto.randomUUID(),
+      createdAt: new Date()
+    };
+    await db.attachments.add(newAttachment);
+    return newAttachment;
+  }
+
+  async getAttachmentById(id: string): Promise<Attachment | null> {
+    return await db.attachments.get(id) || null;
+  }
+
+  async getAttachmentByHash(orgId: string, hash: string): Promise<Attachment | null> {
+    return await db.attachments.where('[orgId+hash]').equals([orgId, hash]).first() || null;
+  }
+
+  // ===== ORG-SCOPED OPERATIONS =====
+
+  // Org directory, built from memberships
+  async getOrgMembers(orgId: string): Promise<OrgMember[]> {
+    const memberships = await db.memberships.where('orgId').equals(orgId).and(m => m.status !== 'removed').toArray();
+    const records = await db.users.bulkGet(memberships.map(m => m.userId));
+    return memberships.flatMap((membership, index) => {
+      const record = records[index];
+      return record ? [toOrgMember(withMembership(record, membership), membership)] : [];
+    });
   }
 
   // Org Requests operations
@@ -563,51 +854,42 @@ export class BrowserStorageImpl {
     return await query.toArray();
   }
 
+  // Looked up by its key, then checked to belong to the org
   async getOrgRequest(orgId: string, requestId: string): Promise<OrgRequest | null> {
-    return await db.orgRequests.where('[orgId+requestId]').equals([orgId, requestId]).first() || null;
+    const request = await db.orgRequests.get(requestId);
+    return request?.orgId === orgId ? request : null;
   }
 
   async updateOrgRequest(orgId: string, requestId: string, updates: Partial<OrgRequest>): Promise<OrgRequest> {
-    await db.orgRequests.where('[orgId+requestId]').equals([orgId, requestId]).modify(updates);
-    const updated = await db.orgRequests.where('[orgId+requestId]').equals([orgId, requestId]).first();
-    if (!updated) throw new Error('Org request not found');
+    if (!await this.getOrgRequest(orgId, requestId)) throw new Error('Org request not found');
+    await db.orgRequests.update(requestId, updates);
+    const updated = (await db.orgRequests.get(requestId))!;
     await this.logAuditAction(orgId, 'update', 'request', requestId, { updates });
     return updated;
   }
 
   async deleteOrgRequest(orgId: string, requestId: string): Promise<void> {
-    await db.orgRequests.where('[orgId+requestId]').equals([orgId, requestId]).delete();
+    if (!await this.getOrgRequest(orgId, requestId)) return;
+    await db.orgRequests.delete(requestId);
     await this.logAuditAction(orgId, 'delete', 'request', requestId, {});
   }
 
-  // Org Chart operations
-  async getOrgChart(orgId: string): Promise<OrgChart | null> {
-    return await db.orgCharts.where('orgId').equals(orgId).first() || null;
-  }
-
-  async saveOrgChart(orgChart: OrgChart): Promise<OrgChart> {
-    const existing = await db.orgCharts.where('orgId').equals(orgChart.orgId).first();
-    
-    if (existing) {
-      await db.orgCharts.where('orgId').equals(orgChart.orgId).modify({
-        nodes: orgChart.nodes,
-        updatedAt: new Date()
-      });
-    } else {
-      await db.orgCharts.add(orgChart);
-    }
-    
-    await this.logAuditAction(orgChart.orgId, 'update', 'orgChart', orgChart.orgId, { nodes: orgChart.nodes });
-    return orgChart;
+  async applyOrgRequestDecision(orgId: string, requestId: string, decision: OrgRequestDecision): Promise<OrgRequest> {
+    return await db.transaction('rw', db.orgRequests, db.memberships, db.orgAuditLogs, async () => {
+      const request = await this.getOrgRequest(orgId, requestId);
+      if (request?.status !== 'pending') throw new Error('Request not found or already handled');
+      if (decision.membershipUpdates) await this.updateMembership(decision.membershipId, decision.membershipUpdates);
+      return await this.updateOrgRequest(orgId, requestId, decision.requestUpdates);
+    });
   }
 
   // Audit logging
-  async logAuditAction(orgId: string, action: string, targetType: string, targetId: string, details: any): Promise<void> {
+  async logAuditAction(orgId: string, action: string, targetType: string, targetId: string, details: any, performedBy = 'system'): Promise<void> {
     const auditLog: OrgAuditLog = {
       id: crypto.randomUUID(),
       orgId,
       action,
-      performedBy: 'system', // TODO: Get from auth context
+      performedBy,
       performedAt: new Date(),
       targetType,
       targetId,
@@ -632,10 +914,14 @@ export class BrowserStorageImpl {
       db.inviteTokens,
       db.approvalChains,
       db.approvalHistory,
-      db.orgMembers,
+      db.memberships,
       db.orgRequests,
-      db.orgCharts,
-      db.orgAuditLogs
+      db.orgAuditLogs,
+      db.budgets,
+      db.invoices,
+      db.attachments,
+      db.outbox,
+      db.syncState
     ], async () => {
       await db.users.clear();
       await db.organizations.clear();
@@ -645,10 +931,14 @@ export class BrowserStorageImpl {
       await db.inviteTokens.clear();
       await db.approvalChains.clear();
       await db.approvalHistory.clear();
-      await db.orgMembers.clear();
+      await db.memberships.clear();
       await db.orgRequests.clear();
-      await db.orgCharts.clear();
       await db.orgAuditLogs.clear();
+      await db.budgets.clear();
+      await db.invoices.clear();
+      await db.attachments.clear();
+      await db.outbox.clear();
+      await db.syncState.clear();
     });
   }
 
@@ -0,0 +1,133 @@
+import type { Budget, FundingRequest } from './database';
+
+// Statuses that draw a budget down: approved spend and requests still in flight
+const APPROVED_STATUSES: FundingRequest['status'][] = ['Approved', 'Closed'];
+const PENDING_STATUSES: FundingRequest['status'][] = ['Open', 'Needs Info'];
+
+// Share of a budget used before it is flagged as nearly exhausted
+export const BUDGET_WARNING_THRESHOLD = 0.8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalize = (value?: string | null) => (value || '').trim().toLowerCase();
+
+// Facts about a (prospective) request used to find the budgets it draws from
+export interface BudgetTarget {
+  department?: string;
+  costCenter?: string;
+  date?: Date;
+}
+
+export interface BudgetConsumption {
+  allocated: number;
+  approved: number;
+  pending: number;
+  remaining: number;
+  utilization: number;        // (approved + pending) / allocated
+}
+
+export interface BudgetWithConsumption extends Budget {
+  consumption: BudgetConsumption;
+}
+
+export interface BudgetImpact {
+  budget: Budget;
+  consumption: BudgetConsumption;
+  remainingAfter: number;
+  exceeds: boolean;
+  nearLimit: boolean;
+}
+
+export interface BurnDownPoint {
+  date: string;
+  remaining: number;
+  ideal: number;
+}
+
+// A budget applies when its department and cost center (where set) match and the date is in its period
+export function budgetApplies(budget: Budget, target: BudgetTarget): boolean {
+  if (normalize(budget.department) && normalize(budget.department) !== normalize(target.department)) return false;
+  if (normalize(budget.costCenter) && normalize(budget.costCenter) !== normalize(target.costCenter)) return false;
+  const time = (target.date || new Date()).getTime();
+  return new Date(budget.periodStart).getTime() <= time && time <= new Date(budget.periodEnd).getTime();
+}
+
+const requestTarget = (request: FundingRequest): BudgetTarget => ({
+  department: request.department,
+  costCenter: request.costCenter,
+  date: new Date(request.createdAt)
+});
+
+export function getBudgetRequests(budget: Budget, requests: FundingRequest[]): FundingRequest[] {
+  return requests.filter(r =>
+    (APPROVED_STATUSES.includes(r.status) || PENDING_STATUSES.includes(r.status)) &&
+    budgetApplies(budget, requestTarget(r))
+  );
+}
+
+export function computeBudgetConsumption(budget: Budget, requests: FundingRequest[]): BudgetConsumption {
+  let approved = 0;
+  let pending = 0;
+  for (const request of getBudgetRequests(budget, requests)) {
+    if (APPROVED_STATUSES.includes(request.status)) approved += request.amount;
+    else pending += request.amount;
+  }
+
+  return {
+    allocated: budget.allocatedAmount,
+    approved,
+    pending,
+    remaining: budget.allocatedAmount - approved - pending,
+    utilization: budget.allocatedAmount > 0 ? (approved + pending) / budget.allocatedAmount : 1
+  };
+}
+
+// How a new request of this amount would affect every budget it falls under
+export function checkBudgetImpact(budgets: Budget[], requests: FundingRequest[], target: BudgetTarget, amount: number): BudgetImpact[] {
+  return budgets
+    .filter(budget => budgetApplies(budget, target))
+    .map(budget => {
+      const consumption = computeBudgetConsumption(budget, requests);
+      const remainingAfter = consumption.remaining - amount;
+      return {
+        budget,
+        consumption,
+        remainingAfter,
+        exceeds: remainingAfter < 0,
+        nearLimit: remainingAfter >= 0 && budget.allocatedAmount - remainingAfter >= budget.allocatedAmount * BUDGET_WARNING_THRESHOLD
+      };
+    });
+}
+
+// Remaining budget over the period (by request submission date) against a straight-line ideal.
+// Daily points for short periods, weekly beyond ~2 months.
+export function buildBurnDown(budget: Budget, requests: FundingRequest[], now: Date = new Date()): BurnDownPoint[] {
+  const start = new Date(budget.periodStart).getTime();
+  const end = new Date(budget.periodEnd).getTime();
+  const lastPoint = Math.min(end, now.getTime());
+  if (end <= start || lastPoint < start) return [];
+
+  const step = end - start > 60 * DAY_MS ? 7 * DAY_MS : DAY_MS;
+  const drawdowns = getBudgetRequests(budget, requests)
+    .map(r => ({ time: new Date(r.createdAt).getTime(), amount: r.amount }))
+    .sort((a, b) => a.time - b.time);
+
+  const points: BurnDownPoint[] = [];
+  let consumed = 0;
+  let index = 0;
+  for (let time = start; ; time += step) {
+    const pointTime = Math.min(time, lastPoint);
+    while (index < drawdowns.length && drawdowns[index].time <= pointTime) {
+      consumed += drawdowns[index].amount;
+      index++;
+    }
+    points.push({
+      date: new Date(pointTime).toISOString().slice(0, 10),
+      remaining: budget.allocatedAmount - consumed,
+      ideal: Math.max(0, budget.allocatedAmount * (1 - (pointTime - start) / (end - start)))
+    });
+    if (pointTime === lastPoint) break;
+  }
+
+  return points;
+}
@@ -1,4 +1,6 @@
-// Configuration for AI services
+import type { StorageBackendKind } from './storageBackend';
+
+// Configuration for AI services and persistence
 export const config = {
   // OpenAI Configuration
   openai: {
@@ -20,6 +22,14 @@ export const config = {
     enabled: true,
     maxRequestsPerDigest: 20,
     refreshInterval: 30000, // 30 seconds
+  },
+
+  // Storage backend: 'indexeddb' keeps data in this browser (synced with the Express API at apiUrl), 'supabase' shares a Postgres database
+  storage: {
+    backend: (import.meta.env.VITE_STORAGE_BACKEND || 'indexeddb') as StorageBackendKind,
+    apiUrl: import.meta.env.VITE_API_URL || 'http://localhost:3001/api',
+    supabaseUrl: import.meta.env.VITE_SUPABASE_URL || '',
+    supabaseAnonKey: import.meta.env.VITE_SUPABASE_ANON_KEY || '',
   }
 };
 
@@ -1,23 +1,75 @@
 // Database type definitions for RapidFunds
+import type { ApprovalRule } from '@shared/approvalRules';
+import type { RoleDefinition } from '@shared/permissions';
 
+// A person as seen from one organization: their identity plus their membership there
 export interface User {
   id: string;
-  orgId: string;
+  orgId: string;              // org of the membership this view is scoped to
   email: string;
   password: string;
   fullName: string;
   jobTitle?: string;
   phoneNumber?: string;
   role: 'Admin' | 'Approver' | 'Finance' | 'Member' | 'Requester';
+  customRoleId?: string;      // org-defined role granting capabilities on top of `role`
   department?: string;
   digestTime: string;
   notificationPreferences: any;
   isOnline: boolean;
   customFieldsData: any;
   emailVerified: boolean;
+  delegation?: ApprovalDelegation;
+  sessionsRevokedAt?: Date;   // sessions issued before this were signed out
+  twoFactor?: TwoFactorStatus;     // only while two-factor sign-in is on
   createdAt: Date;
 }
 
+// The fields of User that belong to a membership rather than to the person
+export type MembershipField = 'role' | 'customRoleId' | 'department' | 'jobTitle';
+
+// A person as stored: one record whatever orgs they belong to. `orgId` is the org
+// they last signed in to.
+export type UserRecord = Omit<User, MembershipField>;
+
+// A person's place in one organization
+export interface Membership {
+  id: string;
+  userId: string;
+  orgId: string;
+  role: User['role'];
+  customRoleId?: string;
+  department?: string;
+  jobTitle?: string;
+  status: 'active' | 'pending' | 'removed';
+  joinedAt: Date;
+}
+
+// A TOTP second factor. The secret is stored at setup and trusted once `enabledAt` is set.
+// A user's second factor. It is stored apart from their record, in this browser only, and
+// never returned by the API; the record carries a TwoFactorStatus instead.
+export interface TwoFactorSettings {
+  userId: string;
+  secret: string;             // base32, as shown to the authenticator app
+  enabledAt?: Date;
+  lastUsedStep?: number;      // time step of the last accepted code, so codes can't be replayed
+  recoveryCodeHashes: string[];
+}
+
+// What anyone may see about a user's second factor
+export interface TwoFactorStatus {
+  enabledAt: Date;
+  recoveryCodesLeft: number;
+}
+
+// Out-of-office window during which a substitute approves on the user's behalf
+export interface ApprovalDelegation {
+  substituteId: string;
+  startsAt: Date;
+  endsAt: Date;
+  reason?: string;
+}
+
 export interface Organization {
   orgId: string;              // stable unique id
   name: string;
@@ -30,12 +82,92 @@ export interface Organization {
     defaultDigestTime: string;
     customFields: any[];
     checklistTemplates: any[];
-    approvalRules: any[];
-    domain?: string;
+    approvalRules: ApprovalRule[];
+    slaPolicies?: SlaPolicy[];
+    duplicateDetection?: DuplicateDetectionSettings;
+    roles?: RoleDefinition[];   // built-in role overrides and custom roles
+    twoFactor?: TwoFactorPolicy;
+    domain?: string;            // email domain the org claims, e.g. "acme.com"
+    domainVerification?: DomainVerification;
+    domainJoin?: DomainJoinPolicy;
+    memberApprovals?: MemberApprovalPolicy;
+    orgChartRules?: OrgChartRules;
+    hierarchyLevels?: HierarchyLevel[];
     logoUrl?: string;
   };
 }
 
+// Who must sign in with a second factor, and when approvers have to confirm it is them again
+export interface TwoFactorPolicy {
+  required: boolean;          // for Admin, Approver and Finance members
+  stepUpAmount?: number;      // approving above this asks for a fresh code or password
+}
+
+// Proof that the org owns `domain`: a DNS TXT record, or a code emailed to an address there
+export interface DomainVerification {
+  domain: string;
+  method: 'dns' | 'email';
+  token: string;              // TXT record value, or the emailed code
+  email?: string;             // where the code was sent
+  expiresAt?: Date;           // emailed codes expire
+  verifiedAt?: Date;
+}
+
+// What happens when someone signs up with an email on the org's verified domain
+export interface DomainJoinPolicy {
+  mode: 'invite' | 'auto' | 'approval';   // invite only, join straight away, or ask an admin
+  defaultRole: User['role'];
+}
+
+// Changes to membership that wait for an admin to approve them as org requests
+export interface MemberApprovalPolicy {
+  joins: boolean;             // new members start out pending
+  profileChanges: boolean;    // department and job title edits by non-admins
+}
+
+// Limits every org chart change is checked against; cycles are always refused
+export interface OrgChartRules {
+  maxDepth: number;           // deepest level a node may sit at, 1 being the top
+  singleRoot: boolean;        // only one node without a manager
+  requireActiveMember: boolean; // every node linked to an active member
+}
+
+// A named level of the org chart. Nodes take the level matching their depth unless one is
+// assigned through hierarchyLevelId.
+export interface HierarchyLevel {
+  id: string;
+  name: string;
+  order: number;              // the depth it covers, 1 being the top
+  color: string;              // hex, e.g. "#3B82F6"
+  description?: string;
+  approvalLimit?: number;     // most a manager here approves without going higher; no limit when omitted
+}
+
+// Hours an approver has to act, scoped by category and/or approval level
+export interface SlaPolicy {
+  id: string;
+  category?: string;          // any category when omitted
+  level?: number;             // any level when omitted
+  hours: number;
+}
+
+// How submissions that look like an existing invoice or request are handled
+export interface DuplicateDetectionSettings {
+  action: 'block' | 'warn';
+  amountTolerance: number;    // fraction of the amount, e.g. 0.02 for 2%
+  dateWindowDays: number;     // invoice dates / submissions this close count as the same
+}
+
+// An earlier request a new submission appears to duplicate
+export interface SuspectedDuplicate {
+  requestId: string;
+  invoiceId?: string;
+  reason: 'invoice_number' | 'similar_invoice' | 'similar_request';
+  title: string;
+  amount: number;
+  createdAt: Date;
+}
+
 export interface FundingRequest {
   id: string;
   orgId: string;
@@ -44,31 +176,115 @@ export interface FundingRequest {
   title: string;
   description: string;
   amount: number;
-  category: 'Advance' | 'Reimbursement' | 'Vendor' | 'Budget' | 'Other';
+  category: 'Advance' | 'Reimbursement' | 'Vendor' | 'Budget' | 'Invoice' | 'Other';
   customCategory?: string;
   status: 'Open' | 'Needs Info' | 'Approved' | 'Rejected' | 'Closed';
   currentApprovalLevel: number;
   approvalChainId?: string;
+  additionalApprovalLevels?: ApprovalChainLevel[];  // levels added by approval rules, after the chain
+  invoiceId?: string;          // set for 'Invoice' requests
+  suspectedDuplicates?: SuspectedDuplicate[];
   participants: string[];
-  attachments: any[];
+  attachments: AttachmentRef[];
   checklist: any[];
   aiSummary?: string;
-  slaDeadline?: Date;
+  department?: string;         // budget attribution - defaults to the requester's department
+  costCenter?: string;
+  slaDeadline?: Date;          // when the current level's approver must act by
+  escalationCount?: number;    // times the request was escalated for breaching its SLA
+  lastEscalatedAt?: Date;
+  paymentReleasedAt?: Date;    // set when Finance pays out an approved request and closes it
+  paymentReleasedBy?: string;
   lastActivityAt: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Spending envelope for a department and/or cost center over a period
+export interface Budget {
+  id: string;
+  orgId: string;
+  name: string;
+  department?: string;        // any department when omitted
+  costCenter?: string;        // any cost center when omitted
+  periodStart: Date;
+  periodEnd: Date;
+  allocatedAmount: number;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Vendor invoice submitted for payment through an 'Invoice' funding request
+export interface Invoice {
+  id: string;
+  orgId: string;
+  requestId: string;
+  invoiceNumber: string;
+  invoiceDate?: Date;
+  dueDate?: Date;
+  vendorName: string;
+  vendorAddress?: string;
+  vendorEmail?: string;
+  vendorPhone?: string;
+  vendorTaxId?: string;
+  totalAmount: number;
+  taxAmount: number;
+  discountAmount: number;
+  netAmount: number;
+  currency: string;
+  paymentMethod?: string;
+  paymentTerms?: string;
+  expectedPaymentDate?: Date;
+  bankAccount?: string;
+  routingNumber?: string;
+  paymentInstructions?: string;
+  purchaseOrderNumber?: string;
+  contractNumber?: string;
+  department?: string;
+  costCenter?: string;
+  projectCode?: string;
+  budgetCategory?: string;
+  taxExempt: boolean;
+  taxExemptReason?: string;
+  internalNotes?: string;
+  externalNotes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface QueryMessage {
   id: string;
   requestId: string;
   userId?: string;
   messageType: 'text' | 'file' | 'system_event';
   content: string;
-  attachments: any[];
+  attachments: AttachmentRef[];
+  createdAt: Date;
+}
+
+// Uploaded file kept as a Blob in IndexedDB, shared by every reference to the same content
+export interface Attachment {
+  id: string;
+  orgId: string;
+  uploadedBy: string;
+  name: string;               // name of the first upload
+  mimeType: string;           // sniffed from the content, not trusted from the browser
+  size: number;
+  hash: string;               // SHA-256 of the content (hex), used for dedup
+  blob: Blob;
   createdAt: Date;
 }
 
+// How requests and messages point at an attachment
+export interface AttachmentRef {
+  id: string;
+  name: string;
+  url: string;                // /api/files/:id
+  size: number;
+  mimeType?: string;
+}
+
 export interface OrgChartNode {
   id: string;
   orgId: string;
@@ -104,14 +320,22 @@ export interface InviteToken {
   createdAt: Date;
 }
 
+export interface ApprovalChainLevel {
+  level: number;
+  approverId: string;
+  approverName: string;
+}
+
 export interface ApprovalChain {
   id: string;
   orgId: string;
   name: string;
   department?: string;
   category?: string;
+  minAmount?: number;         // inclusive lower bound for amount-based routing
+  maxAmount?: number;         // inclusive upper bound for amount-based routing
   isDefault: boolean;
-  levels: any[];
+  levels: ApprovalChainLevel[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -124,10 +348,11 @@ export interface ApprovalHistory {
   action: 'Approved' | 'Rejected' | 'RequestInfo' | 'Overridden';
   comments?: string;
   isFastTrack: boolean;
+  onBehalfOfId?: string;      // the assigned approver, when a delegated substitute acted
   createdAt: Date;
 }
 
-// Org-scoped member document
+// Directory entry built from a user and their membership in the org; not stored
 export interface OrgMember {
   memberId: string;           // user id (stable)
   orgId: string;
@@ -159,7 +384,7 @@ export interface OrgRequest {
   handledAt?: Date;
 }
 
-// Org-scoped org chart document
+// A whole org chart, as sent for a bulk save; nodes are stored individually
 export interface OrgChart {
   orgId: string;
   nodes: OrgChartNode[];
@@ -0,0 +1,45 @@
+import type { ApprovalDelegation, User } from './database';
+
+export function isDelegationActive(delegation: ApprovalDelegation | undefined, now: Date = new Date()): boolean {
+  if (!delegation?.substituteId) return false;
+  const time = now.getTime();
+  return new Date(delegation.startsAt).getTime() <= time && time < new Date(delegation.endsAt).getTime();
+}
+
+export function isOutOfOffice(user: User | undefined | null, now: Date = new Date()): boolean {
+  return !!user && isDelegationActive(user.delegation, now);
+}
+
+// Follow active delegations from the assigned approver to whoever is actually covering.
+// A substitute who is also away passes the request on; loops stop at the last user reached.
+export function resolveActingApprover(approverId: string | undefined, users: User[], now: Date = new Date()): User | null {
+  let current = users.find(u => u.id === approverId) || null;
+  const visited = new Set<string>();
+
+  while (current && isOutOfOffice(current, now) && !visited.has(current.id)) {
+    visited.add(current.id);
+    const substitute = users.find(u => u.id === current!.delegation!.substituteId);
+    if (!substitute || visited.has(substitute.id)) break;
+    current = substitute;
+  }
+
+  return current;
+}
+
+// Would routing through this delegation lead back to the delegating user at any point in its window?
+export function createsDelegationLoop(userId: string, delegation: ApprovalDelegation, users: User[]): boolean {
+  const proposed = users.map(u => (u.id === userId ? { ...u, delegation } : u));
+  const checkpoints = [new Date(delegation.startsAt)];
+  for (const u of users) {
+    if (!u.delegation) continue;
+    for (const point of [new Date(u.delegation.startsAt), new Date(u.delegation.endsAt)]) {
+      if (point >= new Date(delegation.startsAt) && point < new Date(delegation.endsAt)) checkpoints.push(point);
+    }
+  }
+
+  return checkpoints.some(point => {
+    const substitute = proposed.find(u => u.id === delegation.substituteId);
+    if (!substitute) return false;
+    return resolveActingApprover(substitute.id, proposed, point)?.id === userId;
+  });
+}
@@ -0,0 +1,50 @@
+// Email domain ownership for organizations. A domain counts once its verification is
+// complete, and only for the domain that was verified (changing it starts over).
+import type { Organization } from './database';
+
+const DEV_DNS_KEY = 'devDnsTxtRecords';
+const DNS_OVER_HTTPS = 'https://dns.google/resolve';
+const TXT_PREFIX = 'rapidfunds-verification=';
+
+export const emailDomain = (email: string) => email.trim().toLowerCase().split('@')[1] ?? '';
+
+// Accepts "Acme.com", "@acme.com" or a pasted URL
+export function normalizeDomain(input: string): string {
+  return input.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^@/, '').replace(/\/.*$/, '');
+}
+
+export function isDomainVerified(settings: Organization['settings']): boolean {
+  const verification = settings.domainVerification;
+  return !!verification?.verifiedAt && verification.domain === settings.domain;
+}
+
+// The signup's email is on the org's verified domain
+export function matchesOrgDomain(email: string, org: Organization): boolean {
+  return isDomainVerified(org.settings) && emailDomain(email) === org.settings.domain;
+}
+
+export const txtRecordValue = (token: string) => `${TXT_PREFIX}${token}`;
+
+// TXT records published on a domain. Development builds read a local stand-in zone, which the
+// domain settings let admins publish to, instead of querying DNS.
+export async function lookupTxtRecords(domain: string): Promise<string[]> {
+  if (import.meta.env.DEV) {
+    return readDevZone()[domain] ?? [];
+  }
+
+  const response = await fetch(`${DNS_OVER_HTTPS}?name=${encodeURIComponent(domain)}&type=TXT`);
+  if (!response.ok) throw new Error('DNS lookup failed. Try again in a few minutes.');
+  const result: { Answer?: { data: string }[] } = await response.json();
+  // TXT data comes back quoted, and long records split into several quoted strings
+  return (result.Answer ?? []).map(answer => answer.data.replace(/^"|"$/g, '').replace(/"\s*"/g, ''));
+}
+
+export function publishDevTxtRecord(domain: string, value: string) {
+  const zone = readDevZone();
+  zone[domain] = [...(zone[domain] ?? []).filter(record => !record.startsWith(TXT_PREFIX)), value];
+  localStorage.setItem(DEV_DNS_KEY, JSON.stringify(zone));
+}
+
+function readDevZone(): Record<string, string[]> {
+  return JSON.parse(localStorage.getItem(DEV_DNS_KEY) || '{}');
+}
@@ -0,0 +1,155 @@
+import type { DuplicateDetectionSettings, FundingRequest, Invoice, SuspectedDuplicate } from './database';
+
+export const DEFAULT_DUPLICATE_DETECTION: DuplicateDetectionSettings = {
+  action: 'warn',
+  amountTolerance: 0.01,
+  dateWindowDays: 7
+};
+
+// Minimum similarity (0-1) for vendor names and request titles to count as the same
+export const SIMILARITY_THRESHOLD = 0.85;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Legal-form words that differ between otherwise identical vendor names
+const COMPANY_SUFFIXES = new Set(['the', 'inc', 'ltd', 'llc', 'llp', 'pvt', 'private', 'limited', 'co', 'corp', 'corporation', 'company', 'gmbh', 'plc']);
+
+export interface InvoiceCandidate {
+  invoiceNumber: string;
+  vendorName: string;
+  vendorTaxId?: string;
+  totalAmount: number;
+  invoiceDate?: Date;
+}
+
+export interface RequestCandidate {
+  requesterId: string;
+  title: string;
+  amount: number;
+  category?: string;
+}
+
+const tokens = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+
+const normalizeVendor = (name: string) => tokens(name).filter(t => !COMPANY_SUFFIXES.has(t)).join(' ');
+
+// Invoice and tax numbers compare without case, spaces or separators
+const normalizeCode = (value?: string) => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Best of edit-distance ratio and word overlap, so both typos and reordered words match
+export function textSimilarity(a: string, b: string): number {
+  const left = tokens(a).join(' ');
+  const right = tokens(b).join(' ');
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const editRatio = 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+  const leftWords = new Set(left.split(' '));
+  const rightWords = new Set(right.split(' '));
+  const shared = Array.from(leftWords).filter(w => rightWords.has(w)).length;
+  const jaccard = shared / (leftWords.size + rightWords.size - shared);
+  return Math.max(editRatio, jaccard);
+}
+
+export function amountsMatch(a: number, b: number, tolerance: number): boolean {
+  return Math.abs(a - b) <= tolerance * Math.max(Math.abs(a), Math.abs(b));
+}
+
+const withinDays = (a: Date, b: Date, days: number) =>
+  Math.abs(new Date(a).getTime() - new Date(b).getTime()) <= days * DAY_MS;
+
+export function resolveDuplicateSettings(settings?: Partial<DuplicateDetectionSettings>): DuplicateDetectionSettings {
+  return { ...DEFAULT_DUPLICATE_DETECTION, ...(settings || {}) };
+}
+
+// Exact: same vendor tax ID and invoice number. Fuzzy: similar vendor, amount and invoice date.
+export function matchInvoice(candidate: InvoiceCandidate, invoice: Invoice, settings: DuplicateDetectionSettings): SuspectedDuplicate['reason'] | null {
+  const taxId = normalizeCode(candidate.vendorTaxId);
+  if (taxId && taxId === normalizeCode(invoice.vendorTaxId) &&
+      normalizeCode(candidate.invoiceNumber) === normalizeCode(invoice.invoiceNumber)) {
+    return 'invoice_number';
+  }
+
+  const similarVendor = textSimilarity(normalizeVendor(candidate.vendorName), normalizeVendor(invoice.vendorName)) >= SIMILARITY_THRESHOLD;
+  if (!similarVendor || !amountsMatch(candidate.totalAmount, invoice.totalAmount, settings.amountTolerance)) return null;
+
+  // Without an invoice date on either side, fall back to when the original was submitted
+  const candidateDate = candidate.invoiceDate || new Date();
+  const originalDate = invoice.invoiceDate || invoice.createdAt;
+  return withinDays(candidateDate, originalDate, settings.dateWindowDays) ? 'similar_invoice' : null;
+}
+
+// Ordinary (non-invoice) requests from the same requester with a near-identical title and amount
+export function matchRequest(candidate: RequestCandidate, request: FundingRequest, settings: DuplicateDetectionSettings, now: Date = new Date()): boolean {
+  return candidate.category !== 'Invoice' &&
+    request.category !== 'Invoice' &&
+    request.requesterId === candidate.requesterId &&
+    withinDays(request.createdAt, now, settings.dateWindowDays) &&
+    amountsMatch(candidate.amount, request.amount, settings.amountTolerance) &&
+    textSimilarity(candidate.title, request.title) >= SIMILARITY_THRESHOLD;
+}
+
+// Earlier requests a submission appears to duplicate. Rejected originals are ignored so a corrected
+// resubmission goes through.
+export function findSuspectedDuplicates(
+  candidate: RequestCandidate,
+  invoice: InvoiceCandidate | null,
+  requests: FundingRequest[],
+  invoices: Invoice[],
+  settings: DuplicateDetectionSettings,
+  now: Date = new Date()
+): SuspectedDuplicate[] {
+  const live = new Map(requests.filter(r => r.status !== 'Rejected').map(r => [r.id, r]));
+  const matches: SuspectedDuplicate[] = [];
+
+  const toSuspect = (request: FundingRequest, reason: SuspectedDuplicate['reason'], invoiceId?: string): SuspectedDuplicate => ({
+    requestId: request.id,
+    invoiceId,
+    reason,
+    title: request.title,
+    amount: request.amount,
+    createdAt: request.createdAt
+  });
+
+  if (invoice) {
+    for (const existing of invoices) {
+      const request = live.get(existing.requestId);
+      const reason = request && matchInvoice(invoice, existing, settings);
+      if (request && reason) matches.push(toSuspect(request, reason, existing.id));
+    }
+  }
+
+  for (const request of Array.from(live.values())) {
+    if (matchRequest(candidate, request, settings, now)) matches.push(toSuspect(request, 'similar_request'));
+  }
+
+  // Exact invoice-number matches first
+  return matches.sort((a, b) => (a.reason === 'invoice_number' ? 0 : 1) - (b.reason === 'invoice_number' ? 0 : 1));
+}
+
+export function describeDuplicate(duplicate: SuspectedDuplicate): string {
+  switch (duplicate.reason) {
+    case 'invoice_number':
+      return 'Same vendor tax ID and invoice number';
+    case 'similar_invoice':
+      return 'Similar vendor, amount and invoice date';
+    default:
+      return 'Similar title and amount from the same requester';
+  }
+}
@@ -6,6 +6,15 @@ export interface EmailService {
   sendVerificationEmail(user: User, token: string): Promise<void>;
   sendPasswordResetEmail(user: User, token: string): Promise<void>;
   sendWelcomeEmail(user: User): Promise<void>;
+  sendDomainVerificationEmail(to: string, domain: string, code: string): Promise<void>;
+  sendMemberRequestDecisionEmail(user: User, orgName: string, decision: MemberRequestDecision): Promise<void>;
+}
+
+// An admin's answer to a join or profile change request
+export interface MemberRequestDecision {
+  type: 'join' | 'change';
+  approved: boolean;
+  note?: string;
 }
 
 // Mock email service for demo purposes
@@ -98,6 +107,50 @@ class MockEmailService implements EmailService {
     });
   }
 
+  async sendDomainVerificationEmail(to: string, domain: string, code: string): Promise<void> {
+    const emailData = {
+      to,
+      subject: `Verify ${domain} for RapidFunds`,
+      type: 'domain-verification',
+      body: this.generateDomainVerificationEmailHTML(domain, code),
+      timestamp: new Date().toISOString()
+    };
+
+    const emails = JSON.parse(localStorage.getItem('sentEmails') || '[]');
+    emails.push(emailData);
+    localStorage.setItem('sentEmails', JSON.stringify(emails));
+
+    console.log('📧 Domain Verification Email Sent:', {
+      to,
+      subject: emailData.subject,
+      code,
+      timestamp: emailData.timestamp
+    });
+  }
+
+  async sendMemberRequestDecisionEmail(user: User, orgName: string, decision: MemberRequestDecision): Promise<void> {
+    const subject = decision.type === 'join'
+      ? `Your request to join ${orgName} was ${decision.approved ? 'approved' : 'declined'}`
+      : `Your profile change in ${orgName} was ${decision.approved ? 'approved' : 'declined'}`;
+    const emailData = {
+      to: user.email,
+      subject,
+      type: 'member-request-decision',
+      body: this.generateMemberRequestDecisionEmailHTML(user.fullName, orgName, decision),
+      timestamp: new Date().toISOString()
+    };
+
+    const emails = JSON.parse(localStorage.getItem('sentEmails') || '[]');
+    emails.push(emailData);
+    localStorage.setItem('sentEmails', JSON.stringify(emails));
+
+    console.log('📧 Member Request Decision Email Sent:', {
+      to: user.email,
+      subject,
+      timestamp: emailData.timestamp
+    });
+  }
+
   private generateVerificationEmailHTML(name: string, verificationUrl: string): string {
     return `
       <!DOCTYPE html>
@@ -227,6 +280,86 @@ class MockEmailService implements EmailService {
       </html>
     `;
   }
+
+  private generateDomainVerificationEmailHTML(domain: string, code: string): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Verify ${domain} for RapidFunds</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #0EA5E9 0%, #10B981 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 8px 8px; }
+          .code { font-size: 28px; font-weight: bold; letter-spacing: 6px; text-align: center; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>RapidFunds</h1>
+            <h2>Verify Your Domain</h2>
+          </div>
+          <div class="content">
+            <p>An admin asked to verify that their organization owns <strong>${domain}</strong>. Enter this code in RapidFunds to finish:</p>
+            <p class="code">${code}</p>
+            <p>This code expires in 24 hours. If you didn't expect this email, you can ignore it.</p>
+          </div>
+          <div class="footer">
+            <p>Best regards,<br>The RapidFunds Team</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateMemberRequestDecisionEmailHTML(name: string, orgName: string, decision: MemberRequestDecision): string {
+    const outcome = decision.approved ? 'approved' : 'declined';
+    const summary = decision.type === 'join'
+      ? `Your request to join <strong>${orgName}</strong> was ${outcome}.`
+      : `Your profile change in <strong>${orgName}</strong> was ${outcome}.`;
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Request ${outcome}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: linear-gradient(135deg, #0EA5E9 0%, #10B981 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0; }
+          .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 8px 8px; }
+          .button { display: inline-block; background: #0EA5E9; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>RapidFunds</h1>
+            <h2>Request ${outcome.charAt(0).toUpperCase() + outcome.slice(1)}</h2>
+          </div>
+          <div class="content">
+            <p>Hello ${name},</p>
+            <p>${summary}</p>
+            ${decision.note ? `<p>Note from the admin: ${decision.note}</p>` : ''}
+            ${decision.approved && decision.type === 'join' ? `
+            <p style="text-align: center;">
+              <a href="${this.getBaseUrl()}/login" class="button">Sign In</a>
+            </p>` : ''}
+          </div>
+          <div class="footer">
+            <p>Best regards,<br>The RapidFunds Team</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
 }
 
 // Utility functions for demo/testing
@@ -238,7 +371,7 @@ export function clearSentEmails(): void {
   localStorage.removeItem('sentEmails');
 }
 
-export function getEmailPreview(type: 'verification' | 'password-reset' | 'welcome'): string {
+export function getEmailPreview(type: 'verification' | 'password-reset' | 'welcome' | 'domain-verification' | 'member-request-decision'): string {
   const emails = getSentEmails();
   const email = emails.find(e => e.type === type);
   return email ? email.body : '';
@@ -0,0 +1,17 @@
+import type { FieldPath, FieldValues, UseFormReturn } from 'react-hook-form';
+import { ValidationError } from '@shared/contracts';
+
+// Show a contract failure from the API next to the form fields it names. Returns true when
+// every message found a field, so the caller only needs a toast for the rest.
+export function applyFieldErrors<T extends FieldValues>(form: UseFormReturn<T>, error: unknown): boolean {
+  if (!(error instanceof ValidationError)) return false;
+
+  const known = new Set(Object.keys(form.getValues()));
+  let placed = 0;
+  for (const [path, message] of Object.entries(error.fields)) {
+    if (!known.has(path.split('.')[0])) continue;
+    form.setError(path as FieldPath<T>, { message });
+    placed++;
+  }
+  return placed === Object.keys(error.fields).length;
+}
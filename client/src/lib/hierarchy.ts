@@ -0,0 +1,115 @@
+import type { OrgChartNode } from './database';
+
+// Tree queries over an org's chart nodes, the one place org chart components read structure
+// from. A node whose parent is missing is treated as a root rather than dropped, and walks
+// stop at a repeated node, so a damaged tree still renders.
+
+export interface OrgHierarchy {
+  nodes: OrgChartNode[];
+  byId: Map<string, OrgChartNode>;
+  roots: OrgChartNode[];
+  childrenOf: Map<string, OrgChartNode[]>;
+}
+
+export interface HierarchyTreeNode extends OrgChartNode {
+  children: HierarchyTreeNode[];
+}
+
+export interface SpanOfControl {
+  direct: number;             // direct reports
+  total: number;              // everyone below, at any depth
+}
+
+const byLevelThenName = (a: OrgChartNode, b: OrgChartNode) => a.level - b.level || a.name.localeCompare(b.name);
+
+export function buildHierarchy(nodes: OrgChartNode[]): OrgHierarchy {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const childrenOf = new Map<string, OrgChartNode[]>();
+  const roots: OrgChartNode[] = [];
+
+  for (const node of nodes) {
+    if (node.parentId && node.parentId !== node.id && byId.has(node.parentId)) {
+      const siblings = childrenOf.get(node.parentId) ?? [];
+      siblings.push(node);
+      childrenOf.set(node.parentId, siblings);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  roots.sort(byLevelThenName);
+  childrenOf.forEach(children => children.sort(byLevelThenName));
+  return { nodes, byId, roots, childrenOf };
+}
+
+export function getChildren(hierarchy: OrgHierarchy, nodeId: string): OrgChartNode[] {
+  return hierarchy.childrenOf.get(nodeId) ?? [];
+}
+
+// Managers above the node, nearest first
+export function getAncestors(hierarchy: OrgHierarchy, nodeId: string): OrgChartNode[] {
+  const ancestors: OrgChartNode[] = [];
+  const seen = new Set([nodeId]);
+  let parentId = hierarchy.byId.get(nodeId)?.parentId;
+  while (parentId && !seen.has(parentId)) {
+    const parent = hierarchy.byId.get(parentId);
+    if (!parent) break;
+    ancestors.push(parent);
+    seen.add(parentId);
+    parentId = parent.parentId;
+  }
+  return ancestors;
+}
+
+// Everyone below the node, breadth first
+export function getDescendants(hierarchy: OrgHierarchy, nodeId: string): OrgChartNode[] {
+  const descendants: OrgChartNode[] = [];
+  const seen = new Set([nodeId]);
+  const queue = [...getChildren(hierarchy, nodeId)];
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (seen.has(node.id)) continue;
+    seen.add(node.id);
+    descendants.push(node);
+    queue.push(...getChildren(hierarchy, node.id));
+  }
+  return descendants;
+}
+
+// The node with its reports nested beneath it
+export function getSubtree(hierarchy: OrgHierarchy, nodeId: string): HierarchyTreeNode | null {
+  const node = hierarchy.byId.get(nodeId);
+  return node ? nest(hierarchy, node, new Set()) : null;
+}
+
+// The whole chart nested from its roots
+export function buildTree(hierarchy: OrgHierarchy): HierarchyTreeNode[] {
+  const seen = new Set<string>();
+  return hierarchy.roots.map(root => nest(hierarchy, root, seen));
+}
+
+function nest(hierarchy: OrgHierarchy, node: OrgChartNode, seen: Set<string>): HierarchyTreeNode {
+  seen.add(node.id);
+  const children = getChildren(hierarchy, node.id)
+    .filter(child => !seen.has(child.id))
+    .map(child => nest(hierarchy, child, seen));
+  return { ...node, children };
+}
+
+export function getSpanOfControl(hierarchy: OrgHierarchy, nodeId: string): SpanOfControl {
+  return {
+    direct: getChildren(hierarchy, nodeId).length,
+    total: getDescendants(hierarchy, nodeId).length
+  };
+}
+
+// The chain of command from the top of the chart down to the node, inclusive
+export function getReportingLine(hierarchy: OrgHierarchy, nodeId: string): OrgChartNode[] {
+  const node = hierarchy.byId.get(nodeId);
+  return node ? [...getAncestors(hierarchy, nodeId).reverse(), node] : [];
+}
+
+// The chart node that places a member, if they are on the chart
+export function findNodeForUser(hierarchy: OrgHierarchy, userId: string): OrgChartNode | undefined {
+  return hierarchy.nodes.find(node => node.userId === userId);
+}
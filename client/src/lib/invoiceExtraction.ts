@@ -0,0 +1,228 @@
+// Heuristic invoice field extraction from plain document text (see ./ocr for getting the text)
+
+export type ExtractableField =
+  | 'invoiceNumber'
+  | 'invoiceDate'
+  | 'dueDate'
+  | 'vendorName'
+  | 'vendorTaxId'
+  | 'totalAmount'
+  | 'taxAmount'
+  | 'currency';
+
+export interface ExtractedField {
+  value: string | number;     // dates as yyyy-MM-dd, amounts as numbers
+  confidence: number;         // 0-1
+}
+
+export type ExtractedInvoice = Partial<Record<ExtractableField, ExtractedField>>;
+
+// At or above HIGH_CONFIDENCE a field reads as reliable; below LOW_CONFIDENCE it needs checking
+export const HIGH_CONFIDENCE = 0.8;
+export const LOW_CONFIDENCE = 0.5;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const DATE_PATTERN = new RegExp([
+  '\\d{4}[-/.]\\d{1,2}[-/.]\\d{1,2}',
+  '\\d{1,2}[-/.]\\d{1,2}[-/.]\\d{2,4}',
+  `\\d{1,2}(?:st|nd|rd|th)?[\\s-]+(?:${MONTHS.join('|')})[a-z]*\\.?[\\s,-]+\\d{4}`,
+  `(?:${MONTHS.join('|')})[a-z]*\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}`
+].join('|'), 'i');
+
+// Whole numbers only (no digits either side), and never percentages such as "GST @ 18%"
+const AMOUNT_PATTERN = /(?:[₹$€£]|rs\.?|inr|usd|eur|gbp)?\s*(?<![\d.,])(\d{1,3}(?:,\d{2,3})+(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)(?![\d.,]*\s*%)(?![\d])/gi;
+
+// Indian GSTIN, which also embeds the PAN
+const GSTIN_PATTERN = /\b\d{2}[A-Z]{5}\d{4}[A-Z][A-Z\d]Z[A-Z\d]\b/;
+const TAX_ID_LABEL = /\b(?:gstin|gst\s*(?:no|number|reg)|vat\s*(?:no|number|reg(?:istration)?)|tax\s*id|tin|ein|abn|pan)\b\.?\s*(?:no\.?|number|#)?\s*[:#-]?\s*([A-Z0-9][A-Z0-9-]{4,})/i;
+
+const CURRENCIES: { pattern: RegExp; code: string; confidence: number }[] = [
+  { pattern: /\b(INR|USD|EUR|GBP|CAD|AUD)\b/, code: '', confidence: 0.9 },
+  { pattern: /₹|\brs\.?\s*\d/i, code: 'INR', confidence: 0.8 },
+  { pattern: /€/, code: 'EUR', confidence: 0.8 },
+  { pattern: /£/, code: 'GBP', confidence: 0.8 },
+  { pattern: /\$/, code: 'USD', confidence: 0.6 }
+];
+
+const VENDOR_LABEL = /^(?:from|vendor|supplier|seller|sold\s+by|billed\s+by|payee)\s*[:-]\s*(.+)$/i;
+const COMPANY_SUFFIX = /\b(?:pvt|private|ltd|limited|llc|llp|inc|corp|corporation|company|co\.|gmbh|plc|enterprises|solutions|services|technologies)\b/i;
+const NOT_A_VENDOR = /\b(?:invoice|bill\s+to|ship\s+to|date|page|total|gstin|phone|email|www\.|@)\b/i;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// Numeric dates are read day-first unless that is impossible; the ambiguity lowers confidence
+export function parseDate(raw: string): { value: string; ambiguous: boolean } | null {
+  const text = raw.trim().toLowerCase();
+
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (match) {
+    const value = toIsoDate(+match[1], +match[2], +match[3]);
+    return value ? { value, ambiguous: false } : null;
+  }
+
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/);
+  if (match) {
+    const [first, second, year] = [+match[1], +match[2], +match[3]];
+    const dayFirst = toIsoDate(year, second, first);
+    const monthFirst = toIsoDate(year, first, second);
+    if (dayFirst) return { value: dayFirst, ambiguous: !!monthFirst && first !== second };
+    return monthFirst ? { value: monthFirst, ambiguous: false } : null;
+  }
+
+  match = text.match(/(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]{3})[a-z]*\.?[\s,-]+(\d{4})/)
+    || text.match(/([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})/);
+  if (match) {
+    const monthFirst = isNaN(+match[1]);
+    const month = MONTHS.indexOf(monthFirst ? match[1] : match[2]) + 1;
+    const day = +(monthFirst ? match[2] : match[1]);
+    const value = month > 0 ? toIsoDate(+match[3], month, day) : null;
+    return value ? { value, ambiguous: false } : null;
+  }
+
+  return null;
+}
+
+export function parseAmount(raw: string): number | null {
+  const value = parseFloat(raw.replace(/,/g, ''));
+  return isNaN(value) ? null : value;
+}
+
+// Rightmost amount on the line, or on the next line when OCR split the label from its value
+function amountAfterLabel(lines: string[], index: number): number | null {
+  for (const line of [lines[index], lines[index + 1] || '']) {
+    const label = line.search(/[a-z]/i);
+    const amounts = Array.from(line.slice(Math.max(label, 0)).matchAll(AMOUNT_PATTERN))
+      .map(m => parseAmount(m[1]))
+      .filter((n): n is number => n !== null);
+    if (amounts.length > 0) return amounts[amounts.length - 1];
+  }
+  return null;
+}
+
+function findLabelledDate(lines: string[], label: RegExp): string | null {
+  for (let i = 0; i < lines.length; i++) {
+    const labelMatch = lines[i].match(label);
+    if (!labelMatch) continue;
+    const after = lines[i].slice((labelMatch.index || 0) + labelMatch[0].length);
+    const date = after.match(DATE_PATTERN) || (lines[i + 1] || '').match(DATE_PATTERN);
+    if (date) return date[0];
+  }
+  return null;
+}
+
+function dateField(raw: string | null, labelled: boolean): ExtractedField | undefined {
+  const parsed = raw ? parseDate(raw) : null;
+  if (!parsed) return undefined;
+  return { value: parsed.value, confidence: (labelled ? 0.9 : 0.5) - (parsed.ambiguous ? 0.2 : 0) };
+}
+
+function extractInvoiceNumber(text: string): ExtractedField | undefined {
+  const labelled = text.match(/invoice\s*(?:no\.?|number|num|#|id)\s*[:#.-]?\s*([A-Z0-9][A-Z0-9/_-]{1,})/i)
+    || text.match(/\b(?:bill|inv)\s*(?:no\.?|#)\s*[:#.-]?\s*([A-Z0-9][A-Z0-9/_-]{1,})/i);
+  if (labelled) return { value: labelled[1], confidence: 0.9 };
+
+  const prefixed = text.match(/\b(INV[-/]?[A-Z0-9][A-Z0-9/-]*)\b/i);
+  return prefixed ? { value: prefixed[1], confidence: 0.6 } : undefined;
+}
+
+function extractVendorName(lines: string[]): ExtractedField | undefined {
+  for (const line of lines) {
+    const labelled = line.match(VENDOR_LABEL);
+    if (labelled) return { value: labelled[1].trim(), confidence: 0.8 };
+  }
+
+  // Otherwise the letterhead: one of the first lines that reads like a company name
+  const header = lines.slice(0, 8).filter(line =>
+    /[a-z]{3}/i.test(line) && !NOT_A_VENDOR.test(line) && !DATE_PATTERN.test(line) && line.replace(/[^\d]/g, '').length < 5
+  );
+  const company = header.find(line => COMPANY_SUFFIX.test(line));
+  if (company) return { value: company, confidence: 0.65 };
+  return header[0] ? { value: header[0], confidence: 0.35 } : undefined;
+}
+
+function extractVendorTaxId(text: string): ExtractedField | undefined {
+  const gstin = text.match(GSTIN_PATTERN);
+  if (gstin) return { value: gstin[0], confidence: 0.95 };
+  const labelled = text.match(TAX_ID_LABEL);
+  return labelled ? { value: labelled[1].toUpperCase(), confidence: 0.75 } : undefined;
+}
+
+function extractCurrency(text: string): ExtractedField | undefined {
+  for (const { pattern, code, confidence } of CURRENCIES) {
+    const match = text.match(pattern);
+    if (match) return { value: code || match[1], confidence };
+  }
+  return undefined;
+}
+
+// Amounts follow the form's model: totalAmount is before tax, tax is added on top
+function extractAmounts(lines: string[]): Pick<ExtractedInvoice, 'totalAmount' | 'taxAmount'> {
+  let subtotal: number | null = null;
+  let grandTotal: number | null = null;
+  let grandTotalLabelled = false;
+  let tax = 0;
+  let taxFound = false;
+
+  lines.forEach((line, index) => {
+    if (/sub\s*-?\s*total|taxable\s+(?:value|amount)/i.test(line)) {
+      subtotal = subtotal ?? amountAfterLabel(lines, index);
+    } else if (/\b(?:grand\s+total|total\s+(?:amount|due|payable)|amount\s+(?:due|payable)|balance\s+due|invoice\s+total)\b/i.test(line)) {
+      grandTotal = amountAfterLabel(lines, index) ?? grandTotal;
+      grandTotalLabelled = true;
+    } else if (/\b(?:[cis]gst|gst|vat|sales\s+tax|tax)\b/i.test(line) && !/\b(?:tax\s+invoice|tax\s+id|gstin|gst\s*(?:no|number|reg)|vat\s*(?:no|number|reg))\b/i.test(line)) {
+      // CGST and SGST lines add up
+      const amount = amountAfterLabel(lines, index);
+      if (amount !== null) {
+        tax += amount;
+        taxFound = true;
+      }
+    } else if (/^\s*total\b/i.test(line) && !grandTotalLabelled) {
+      grandTotal = amountAfterLabel(lines, index) ?? grandTotal;
+    }
+  });
+
+  const result: Pick<ExtractedInvoice, 'totalAmount' | 'taxAmount'> = {};
+  if (taxFound) result.taxAmount = { value: tax, confidence: 0.75 };
+
+  if (subtotal !== null) {
+    // A subtotal that agrees with the grand total is as good as it gets
+    const consistent = grandTotal !== null && Math.abs((subtotal as number) + tax - (grandTotal as number)) < 1;
+    result.totalAmount = { value: subtotal, confidence: consistent ? 0.95 : 0.75 };
+    if (consistent && result.taxAmount) result.taxAmount.confidence = 0.95;
+  } else if (grandTotal !== null) {
+    result.totalAmount = { value: Math.max(0, (grandTotal as number) - tax), confidence: grandTotalLabelled ? 0.7 : 0.5 };
+  }
+  return result;
+}
+
+// `textConfidence` scales every field by how well the text itself was read (1 for a PDF text layer)
+export function extractInvoiceFields(text: string, textConfidence = 1): ExtractedInvoice {
+  const lines = text.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const invoiceDate = findLabelledDate(lines, /\b(?:invoice\s+date|date\s+of\s+(?:issue|invoice)|issue\s+date|bill\s+date|dated?)\b/i);
+  const dueDate = findLabelledDate(lines, /\b(?:due\s+date|payment\s+due|due\s+(?:by|on))\b/i);
+
+  const fields: ExtractedInvoice = {
+    invoiceNumber: extractInvoiceNumber(text),
+    invoiceDate: dateField(invoiceDate, true) || dateField(text.match(DATE_PATTERN)?.[0] || null, false),
+    dueDate: dateField(dueDate, true),
+    vendorName: extractVendorName(lines),
+    vendorTaxId: extractVendorTaxId(text),
+    currency: extractCurrency(text),
+    ...extractAmounts(lines)
+  };
+
+  const scale = Math.max(0, Math.min(1, textConfidence));
+  const result: ExtractedInvoice = {};
+  for (const [field, extracted] of Object.entries(fields) as [ExtractableField, ExtractedField | undefined][]) {
+    if (extracted) result[field] = { value: extracted.value, confidence: Math.round(extracted.confidence * scale * 100) / 100 };
+  }
+  return result;
+}
@@ -0,0 +1,45 @@
+import type { Invoice } from './database';
+
+export interface InvoiceFilters {
+  vendor?: string;            // partial, case-insensitive vendor name
+  invoiceNumber?: string;
+  purchaseOrderNumber?: string;
+  dueFrom?: Date | string;
+  dueTo?: Date | string;
+}
+
+const normalize = (value?: string | null) => (value || '').trim().toLowerCase();
+
+const optionalDate = (value: any): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+export function filterInvoices(invoices: Invoice[], filters: InvoiceFilters): Invoice[] {
+  const vendor = normalize(filters.vendor);
+  const invoiceNumber = normalize(filters.invoiceNumber);
+  const poNumber = normalize(filters.purchaseOrderNumber);
+  const dueFrom = optionalDate(filters.dueFrom);
+  const dueTo = optionalDate(filters.dueTo);
+
+  return invoices
+    .filter(invoice => {
+      if (vendor && !normalize(invoice.vendorName).includes(vendor)) return false;
+      if (invoiceNumber && normalize(invoice.invoiceNumber) !== invoiceNumber) return false;
+      if (poNumber && normalize(invoice.purchaseOrderNumber) !== poNumber) return false;
+      if (dueFrom || dueTo) {
+        if (!invoice.dueDate) return false;
+        const due = new Date(invoice.dueDate);
+        if (dueFrom && due < dueFrom) return false;
+        if (dueTo && due > dueTo) return false;
+      }
+      return true;
+    })
+    .sort((a, b) => {
+      // Soonest due first; invoices without a due date last
+      const aDue = a.dueDate ? new Date(a.dueDate).getTime() : Number.POSITIVE_INFINITY;
+      const bDue = b.dueDate ? new Date(b.dueDate).getTime() : Number.POSITIVE_INFINITY;
+      return aDue === bDue ? 0 : aDue < bDue ? -1 : 1;
+    });
+}
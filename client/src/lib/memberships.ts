@@ -0,0 +1,55 @@
+import type { User, UserRecord, Membership, MembershipField, OrgMember } from './database';
+
+// Role, custom role, department and title are per organization and live on the
+// membership; everything else on User is the person and is shared by all their orgs
+export const MEMBERSHIP_FIELDS: MembershipField[] = ['role', 'customRoleId', 'department', 'jobTitle'];
+
+// Separate a user, or an update to one, into the identity and membership parts
+export function splitUser<T extends Partial<User>>(user: T) {
+  const identity: Record<string, unknown> = { ...user };
+  const membership: Partial<Pick<User, MembershipField>> = {};
+  for (const field of MEMBERSHIP_FIELDS) {
+    if (field in identity) {
+      (membership as Record<string, unknown>)[field] = identity[field];
+      delete identity[field];
+    }
+  }
+  return { identity: identity as Omit<T, MembershipField>, membership };
+}
+
+// The user as seen from the membership's organization
+export function withMembership(record: UserRecord, membership: Membership): User {
+  return {
+    ...record,
+    orgId: membership.orgId,
+    role: membership.role,
+    customRoleId: membership.customRoleId,
+    department: membership.department,
+    jobTitle: membership.jobTitle
+  };
+}
+
+// The membership a stored user signs in with: the org they last used if they are
+// still active there, otherwise any org they are active in
+export function activeMembership(record: UserRecord, memberships: Membership[]): Membership | undefined {
+  const active = memberships.filter(membership => membership.status === 'active');
+  return active.find(membership => membership.orgId === record.orgId) || active[0];
+}
+
+export function toOrgMember(user: User, membership: Membership): OrgMember {
+  return {
+    memberId: user.id,
+    orgId: membership.orgId,
+    email: user.email,
+    fullName: user.fullName,
+    phone: user.phoneNumber,
+    role: membership.role === 'Admin' ? 'admin' : 'member',
+    joinedAt: membership.joinedAt,
+    status: membership.status,
+    profile: {
+      title: membership.jobTitle || membership.role,
+      department: membership.department,
+      jobTitle: membership.jobTitle
+    }
+  };
+}
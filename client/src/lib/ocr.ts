@@ -0,0 +1,111 @@
+// Local text extraction for uploaded documents. PDFs are read through their text layer
+// (pdf.js); images and scanned PDFs go through Tesseract. Every asset is bundled with the
+// app, so nothing leaves the browser and extraction works offline.
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import type { Worker as TesseractWorker } from 'tesseract.js';
+
+export interface DocumentText {
+  text: string;
+  source: 'pdf' | 'ocr';
+  confidence: number;         // 0-1; text read from a PDF text layer is exact
+}
+
+export type ExtractionProgress = (status: string, progress: number) => void;
+
+// Invoices put everything that matters on the first pages
+const MAX_PDF_PAGES = 3;
+// A PDF with less text than this is treated as a scan
+const MIN_TEXT_LAYER_LENGTH = 40;
+const PDF_RENDER_SCALE = 2;
+
+let ocrWorker: Promise<TesseractWorker> | null = null;
+let reportOcrProgress: ExtractionProgress | null = null;
+
+// One worker is kept for the session; loading the model is the slow part
+function getOcrWorker(): Promise<TesseractWorker> {
+  if (!ocrWorker) {
+    ocrWorker = (async () => {
+      const [{ createWorker, OEM }, data] = await Promise.all([
+        import('tesseract.js'),
+        fetch(englishDataUrl).then(res => res.arrayBuffer())
+      ]);
+      return createWorker([{ code: 'eng', data: new Uint8Array(data) }], OEM.LSTM_ONLY, {
+        workerPath: tesseractWorkerUrl,
+        corePath: tesseractCoreUrl,
+        workerBlobURL: false,
+        cacheMethod: 'none',
+        logger: message => reportOcrProgress?.(message.status, message.progress)
+      });
+    })();
+    // Let a failed load be retried on the next scan
+    ocrWorker.catch(() => { ocrWorker = null; });
+  }
+  return ocrWorker;
+}
+
+async function recognize(image: File | Blob | HTMLCanvasElement, onProgress?: ExtractionProgress): Promise<DocumentText> {
+  reportOcrProgress = onProgress || null;
+  try {
+    const worker = await getOcrWorker();
+    const { data } = await worker.recognize(image);
+    return { text: data.text, source: 'ocr', confidence: data.confidence / 100 };
+  } finally {
+    reportOcrProgress = null;
+  }
+}
+
+async function readPdf(file: File, onProgress?: ExtractionProgress): Promise<DocumentText> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pageCount = Math.min(pdf.numPages, MAX_PDF_PAGES);
+  try {
+    const pages: string[] = [];
+    for (let number = 1; number <= pageCount; number++) {
+      onProgress?.('reading pdf', (number - 1) / pageCount);
+      const content = await (await pdf.getPage(number)).getTextContent();
+      // Keep the PDF's line breaks so label/value pairs stay on one line
+      pages.push(content.items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')).join(''));
+    }
+
+    const text = pages.join('\n');
+    if (text.replace(/\s/g, '').length >= MIN_TEXT_LAYER_LENGTH) {
+      return { text, source: 'pdf', confidence: 1 };
+    }
+
+    // Scanned PDF: render each page and OCR it
+    const results: DocumentText[] = [];
+    for (let number = 1; number <= pageCount; number++) {
+      const page = await pdf.getPage(number);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      await page.render({ canvas, viewport }).promise;
+      results.push(await recognize(canvas, (status, progress) =>
+        onProgress?.(`${status} (page ${number} of ${pageCount})`, progress)
+      ));
+    }
+    return {
+      text: results.map(r => r.text).join('\n'),
+      source: 'ocr',
+      confidence: results.reduce((sum, r) => sum + r.confidence, 0) / results.length
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+export function canExtractText(file: File): boolean {
+  return file.type === 'application/pdf' || file.type.startsWith('image/');
+}
+
+export async function extractDocumentText(file: File, onProgress?: ExtractionProgress): Promise<DocumentText> {
+  if (file.type === 'application/pdf') return readPdf(file, onProgress);
+  if (file.type.startsWith('image/')) return recognize(file, onProgress);
+  throw new Error('Only PDF and image files can be scanned');
+}
@@ -1,4 +1,7 @@
-// orgChartDB.ts - IndexedDB helper for org chart members
+// orgChartDB.ts - reads the standalone org chart database older builds kept beside RapidFundsDB,
+// so an admin can move its members into their org's chart nodes and drop the database
+import type { OrgChartNode } from './database';
+
 export interface OrgChartMember {
   id: string;
   name: string;
@@ -14,256 +17,77 @@ export interface OrgChartMember {
 }
 
 const DB_NAME = "RapidFundsOrgChartDB";
-const DB_VERSION = 1;
 const STORE_NAME = "members";
 
-export const openOrgChartDB = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      
-      // Create members object store if it doesn't exist
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
-        
-        // Create indexes for efficient queries
-        store.createIndex("parentId", "parentId", { unique: false });
-        store.createIndex("level", "level", { unique: false });
-        store.createIndex("department", "department", { unique: false });
-        store.createIndex("isActive", "isActive", { unique: false });
-      }
-    };
-
-    request.onsuccess = (event) => {
-      resolve((event.target as IDBOpenDBRequest).result);
-    };
-
-    request.onerror = (event) => {
-      reject((event.target as IDBOpenDBRequest).error);
-    };
-  });
-};
-
-export const addOrgChartMember = async (member: Omit<OrgChartMember, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
-  const db = await openOrgChartDB();
-  const tx = db.transaction([STORE_NAME], "readwrite");
-  const store = tx.objectStore(STORE_NAME);
-  
-  const newMember: OrgChartMember = {
-    ...member,
-    id: crypto.randomUUID(),
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  };
-  
-  return new Promise((resolve, reject) => {
-    const request = store.add(newMember);
-    request.onsuccess = () => resolve(newMember.id);
-    request.onerror = () => reject(request.error);
-  });
-};
+// The demo people older builds seeded into an empty chart; never imported into a real org
+const SEED_EMAILS = new Set([
+  "john.smith@company.com",
+  "sarah.johnson@company.com",
+  "mike.davis@company.com",
+  "emily.chen@company.com",
+  "david.wilson@company.com",
+]);
+
+// Open the legacy database if this browser still has it. Opening a database that does not
+// exist creates it, so that upgrade is aborted and null returned instead.
+const openLegacyDatabase = async (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === 'undefined') return null;
+  if (indexedDB.databases) {
+    const databases = await indexedDB.databases();
+    if (!databases.some(database => database.name === DB_NAME)) return null;
+  }
 
-export const updateOrgChartMember = async (id: string, updates: Partial<OrgChartMember>): Promise<void> => {
-  const db = await openOrgChartDB();
-  const tx = db.transaction([STORE_NAME], "readwrite");
-  const store = tx.objectStore(STORE_NAME);
-  
-  return new Promise((resolve, reject) => {
-    const getRequest = store.get(id);
-    getRequest.onsuccess = () => {
-      const member = getRequest.result;
-      if (member) {
-        const updatedMember = {
-          ...member,
-          ...updates,
-          updatedAt: new Date(),
-        };
-        
-        const putRequest = store.put(updatedMember);
-        putRequest.onsuccess = () => resolve();
-        putRequest.onerror = () => reject(putRequest.error);
-      } else {
-        reject(new Error(`Member with id ${id} not found`));
-      }
+  return new Promise<IDBDatabase | null>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME);
+    let created = false;
+    request.onupgradeneeded = () => {
+      created = true;
+      request.transaction?.abort();
     };
-    getRequest.onerror = () => reject(getRequest.error);
-  });
-};
-
-export const deleteOrgChartMember = async (id: string): Promise<void> => {
-  const db = await openOrgChartDB();
-  const tx = db.transaction([STORE_NAME], "readwrite");
-  const store = tx.objectStore(STORE_NAME);
-  
-  return new Promise((resolve, reject) => {
-    const request = store.delete(id);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
-  });
-};
-
-export const getOrgChartMembers = async (): Promise<OrgChartMember[]> => {
-  const db = await openOrgChartDB();
-  const tx = db.transaction([STORE_NAME], "readonly");
-  const store = tx.objectStore(STORE_NAME);
-  
-  return new Promise((resolve, reject) => {
-    const request = store.getAll();
     request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
+    request.onerror = () => (created ? resolve(null) : reject(request.error));
   });
 };
 
-export const getOrgChartMember = async (id: string): Promise<OrgChartMember | null> => {
-  const db = await openOrgChartDB();
-  const tx = db.transaction([STORE_NAME], "readonly");
-  const store = tx.objectStore(STORE_NAME);
-  
-  return new Promise((resolve, reject) => {
-    const request = store.get(id);
-    request.onsuccess = () => resolve(request.result || null);
-    request.onerror = () => reject(request.error);
-  });
-};
-
-export const getMembersByParent = async (parentId: string | null): Promise<OrgChartMember[]> => {
-  const db = await openOrgChartDB();
-  const tx = db.transaction([STORE_NAME], "readonly");
-  const store = tx.objectStore(STORE_NAME);
-  const index = store.index("parentId");
-  
-  return new Promise((resolve, reject) => {
-    const request = index.getAll(parentId);
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
-  });
-};
-
-export const getMembersByLevel = async (level: number): Promise<OrgChartMember[]> => {
-  const db = await openOrgChartDB();
-  const tx = db.transaction([STORE_NAME], "readonly");
-  const store = tx.objectStore(STORE_NAME);
-  const index = store.index("level");
-  
-  return new Promise((resolve, reject) => {
-    const request = index.getAll(level);
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
-  });
-};
-
-export const searchOrgChartMembers = async (query: string): Promise<OrgChartMember[]> => {
-  const allMembers = await getOrgChartMembers();
-  const lowercaseQuery = query.toLowerCase();
-  
-  return allMembers.filter(member => 
-    member.name.toLowerCase().includes(lowercaseQuery) ||
-    member.role.toLowerCase().includes(lowercaseQuery) ||
-    (member.department && member.department.toLowerCase().includes(lowercaseQuery)) ||
-    (member.email && member.email.toLowerCase().includes(lowercaseQuery))
-  );
-};
-
-export const buildOrgChartTree = async (): Promise<OrgChartMember[]> => {
-  const allMembers = await getOrgChartMembers();
-  const memberMap = new Map<string, OrgChartMember & { children: OrgChartMember[] }>();
-  const roots: (OrgChartMember & { children: OrgChartMember[] })[] = [];
-  
-  // Create map with children array
-  allMembers.forEach(member => {
-    memberMap.set(member.id, { ...member, children: [] });
-  });
-  
-  // Build tree structure
-  allMembers.forEach(member => {
-    const memberWithChildren = memberMap.get(member.id)!;
-    
-    if (member.parentId && memberMap.has(member.parentId)) {
-      const parent = memberMap.get(member.parentId)!;
-      parent.children.push(memberWithChildren);
-    } else {
-      roots.push(memberWithChildren);
-    }
-  });
-  
-  return roots;
+export const readLegacyOrgChartMembers = async (): Promise<OrgChartMember[]> => {
+  const db = await openLegacyDatabase();
+  if (!db) return [];
+
+  try {
+    if (!db.objectStoreNames.contains(STORE_NAME)) return [];
+    const store = db.transaction([STORE_NAME], "readonly").objectStore(STORE_NAME);
+    const members = await new Promise<OrgChartMember[]>((resolve, reject) => {
+      const request = store.getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return members.filter(member => !member.email || !SEED_EMAILS.has(member.email.toLowerCase()));
+  } finally {
+    db.close();
+  }
 };
 
-export const clearOrgChartData = async (): Promise<void> => {
-  const db = await openOrgChartDB();
-  const tx = db.transaction([STORE_NAME], "readwrite");
-  const store = tx.objectStore(STORE_NAME);
-  
+export const deleteLegacyOrgChartDatabase = (): Promise<void> => {
   return new Promise((resolve, reject) => {
-    const request = store.clear();
+    const request = indexedDB.deleteDatabase(DB_NAME);
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
+    request.onblocked = () => resolve();
   });
 };
 
-// Seed data for initial setup
-export const seedOrgChartData = async (): Promise<void> => {
-  const existingMembers = await getOrgChartMembers();
-  if (existingMembers.length > 0) {
-    console.log('Org chart data already exists, skipping seed');
-    return;
-  }
-
-  const seedMembers: Omit<OrgChartMember, 'id' | 'createdAt' | 'updatedAt'>[] = [
-    {
-      name: "John Smith",
-      role: "CEO",
-      department: "Executive",
-      email: "john.smith@company.com",
-      parentId: null,
-      level: 0,
-      isActive: true,
-    },
-    {
-      name: "Sarah Johnson",
-      role: "CTO",
-      department: "Technology",
-      email: "sarah.johnson@company.com",
-      parentId: null,
-      level: 1,
-      isActive: true,
-    },
-    {
-      name: "Mike Davis",
-      role: "CFO",
-      department: "Finance",
-      email: "mike.davis@company.com",
-      parentId: null,
-      level: 1,
-      isActive: true,
-    },
-    {
-      name: "Emily Chen",
-      role: "VP Engineering",
-      department: "Technology",
-      email: "emily.chen@company.com",
-      parentId: null,
-      level: 2,
-      isActive: true,
-    },
-    {
-      name: "David Wilson",
-      role: "Senior Developer",
-      department: "Technology",
-      email: "david.wilson@company.com",
-      parentId: null,
-      level: 3,
-      isActive: true,
-    },
-  ];
-
-  // Add seed members
-  for (const member of seedMembers) {
-    await addOrgChartMember(member);
-  }
-
-  console.log('Org chart seed data created successfully');
-};
-
+// The node fields a legacy member carries. Its parent is left to the caller, which knows
+// the ids the imported nodes were given; legacy levels started at 0, chart levels at 1.
+export const legacyMemberToNode = (member: OrgChartMember): Omit<OrgChartNode, 'id' | 'orgId' | 'parentId' | 'createdAt' | 'updatedAt'> => ({
+  name: member.name,
+  role: member.role,
+  department: member.department,
+  email: member.email,
+  profilePicture: member.avatar,
+  level: Math.min(Math.max(member.level + 1, 1), 10),
+  position: { x: 0, y: 0 },
+  color: 'blue',
+  shape: 'rectangle',
+  isExpanded: true,
+  isApproved: member.isActive,
+});
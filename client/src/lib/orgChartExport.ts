@@ -0,0 +1,324 @@
+import type { OrgChartNode, Organization, User } from './database';
+import type { OrgChartImportRow } from '@shared/contracts';
+import { buildHierarchy, buildTree, getSubtree } from './hierarchy';
+import type { HierarchyTreeNode } from './hierarchy';
+
+// Exports the org chart for decks and documents. SVG, PNG and PDF all come from one drawing
+// of the tree in the org's colors, with its logo and name on top; JSON carries every node as
+// stored and reads back in through the org chart import.
+
+export type ExportFormat = 'svg' | 'png' | 'pdf' | 'json';
+export type ExportScope = 'view' | 'full' | 'subtree';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  svg: 'SVG image',
+  png: 'PNG image',
+  pdf: 'PDF document',
+  json: 'JSON (re-importable)'
+};
+
+export interface ExportSelection {
+  scope: ExportScope;
+  viewIds?: string[];         // the nodes on screen, for the 'view' scope
+  rootId?: string;            // the top of the subtree, for the 'subtree' scope
+}
+
+export interface ChartBranding {
+  orgName: string;
+  primaryColor: string;
+  secondaryColor: string;
+  logo?: string;              // a data URL, so the drawing can be rasterised
+}
+
+// The nodes a selection covers, nested from its roots
+export function selectTree(nodes: OrgChartNode[], { scope, viewIds, rootId }: ExportSelection): HierarchyTreeNode[] {
+  if (scope === 'subtree') {
+    const subtree = rootId ? getSubtree(buildHierarchy(nodes), rootId) : null;
+    return subtree ? [subtree] : [];
+  }
+  if (scope === 'view') {
+    const visible = new Set(viewIds);
+    return buildTree(buildHierarchy(nodes.filter(node => visible.has(node.id))));
+  }
+  return buildTree(buildHierarchy(nodes));
+}
+
+const flatten = (tree: HierarchyTreeNode[]): HierarchyTreeNode[] => tree.flatMap(node => [node, ...flatten(node.children)]);
+
+// ----- Drawing -----
+
+const CARD_WIDTH = 200;
+const CARD_HEIGHT = 72;
+const GAP_X = 24;
+const GAP_Y = 48;
+const MARGIN = 32;
+const HEADER_HEIGHT = 64;
+const LOGO_SIZE = 40;
+const FONT = 'Helvetica, Arial, sans-serif';
+
+interface PlacedCard {
+  node: HierarchyTreeNode;
+  x: number;
+  y: number;
+}
+
+export interface ChartDrawing {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+// Leaves sit side by side and each manager is centred over their reports
+function layout(tree: HierarchyTreeNode[]) {
+  const cards: PlacedCard[] = [];
+  const links: { from: PlacedCard; to: PlacedCard }[] = [];
+  let nextX = MARGIN;
+
+  const place = (node: HierarchyTreeNode, depth: number): PlacedCard => {
+    const y = MARGIN + HEADER_HEIGHT + depth * (CARD_HEIGHT + GAP_Y);
+    const reports = node.children.map(child => place(child, depth + 1));
+    let x = nextX;
+    if (reports.length > 0) {
+      x = (reports[0].x + reports[reports.length - 1].x) / 2;
+    } else {
+      nextX += CARD_WIDTH + GAP_X;
+    }
+    const card = { node, x, y };
+    cards.push(card);
+    reports.forEach(report => links.push({ from: card, to: report }));
+    return card;
+  };
+
+  tree.forEach(root => place(root, 0));
+  const depth = Math.max(0, ...cards.map(card => card.y + CARD_HEIGHT));
+  return {
+    cards,
+    links,
+    width: Math.max(nextX - GAP_X + MARGIN, 480),
+    height: Math.max(depth + MARGIN, MARGIN * 2 + HEADER_HEIGHT)
+  };
+}
+
+// Members' current details are shown over the node's own, as the chart views do
+export function drawOrgChart(tree: HierarchyTreeNode[], users: User[], branding: ChartBranding): ChartDrawing {
+  const userMap = new Map(users.map(user => [user.id, user]));
+  const { cards, links, width, height } = layout(tree);
+  const titleX = branding.logo ? MARGIN + LOGO_SIZE + 12 : MARGIN;
+  const parts: string[] = [
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    branding.logo ? `<image href="${escapeXml(branding.logo)}" x="${MARGIN}" y="${MARGIN / 2}" width="${LOGO_SIZE}" height="${LOGO_SIZE}" preserveAspectRatio="xMidYMid meet"/>` : '',
+    `<text x="${titleX}" y="${MARGIN / 2 + 18}" font-size="18" font-weight="bold" fill="${escapeXml(branding.primaryColor)}">${escapeXml(branding.orgName)}</text>`,
+    `<text x="${titleX}" y="${MARGIN / 2 + 36}" font-size="12" fill="#6b7280">Org chart, ${escapeXml(new Date().toLocaleDateString())}</text>`
+  ];
+
+  for (const { from, to } of links) {
+    const startX = from.x + CARD_WIDTH / 2;
+    const endX = to.x + CARD_WIDTH / 2;
+    const midY = from.y + CARD_HEIGHT + GAP_Y / 2;
+    parts.push(`<path d="M${startX} ${from.y + CARD_HEIGHT}V${midY}H${endX}V${to.y}" fill="none" stroke="${escapeXml(branding.secondaryColor)}" stroke-width="1.5"/>`);
+  }
+
+  for (const { node, x, y } of cards) {
+    const user = node.userId ? userMap.get(node.userId) : undefined;
+    const lines = [
+      { text: user?.fullName || node.name, size: 13, weight: 'bold', color: '#111827' },
+      { text: user?.jobTitle || node.role, size: 11, weight: 'normal', color: '#374151' },
+      { text: user?.department || node.department || '', size: 10, weight: 'normal', color: '#6b7280' }
+    ];
+    parts.push(
+      `<rect x="${x}" y="${y}" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" rx="8" fill="#ffffff" stroke="${escapeXml(branding.primaryColor)}" stroke-width="1.5"/>`,
+      `<rect x="${x}" y="${y}" width="6" height="${CARD_HEIGHT}" rx="3" fill="${escapeXml(branding.primaryColor)}"/>`,
+      ...lines.map((line, index) =>
+        `<text x="${x + 16}" y="${y + 22 + index * 18}" font-size="${line.size}" font-weight="${line.weight}" fill="${line.color}">${escapeXml(truncate(line.text, line.size))}</text>`)
+    );
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT}">${parts.join('')}</svg>`;
+  return { svg, width, height };
+}
+
+// Keep text inside the card; SVG has no ellipsis of its own
+function truncate(text: string, fontSize: number): string {
+  const fits = Math.floor((CARD_WIDTH - 24) / (fontSize * 0.55));
+  return text.length > fits ? `${text.slice(0, fits - 1)}…` : text;
+}
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, char =>
+  ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[char]!);
+
+// ----- Files -----
+
+const PNG_SCALE = 2;
+const MAX_CANVAS_SIDE = 16000;   // larger canvases fail to draw in some browsers
+
+async function toCanvas({ svg, width, height }: ChartDrawing): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('The chart could not be drawn'));
+      image.src = url;
+    });
+    const scale = Math.min(PNG_SCALE, MAX_CANVAS_SIDE / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(width * scale);
+    canvas.height = Math.floor(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('The chart could not be drawn');
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+const canvasBlob = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) =>
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The chart could not be drawn')), 'image/png'));
+
+// A wide or deep chart is cut into landscape A4 pages, read left to right then top to bottom
+async function toPdf(drawing: ChartDrawing, orgName: string): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const canvas = await toCanvas(drawing);
+  const pdf = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 24;
+  const pixelRatio = canvas.width / drawing.width;
+  // Never shrink cards below two thirds of their size; past that the chart spans more pages
+  const scale = Math.max((pageWidth - margin * 2) / drawing.width, 2 / 3);
+  const sliceWidth = Math.floor((pageWidth - margin * 2) / scale * pixelRatio);
+  const sliceHeight = Math.floor((pageHeight - margin * 2) / scale * pixelRatio);
+
+  const slice = document.createElement('canvas');
+  const context = slice.getContext('2d')!;
+  let first = true;
+  for (let top = 0; top < canvas.height; top += sliceHeight) {
+    for (let left = 0; left < canvas.width; left += sliceWidth) {
+      slice.width = Math.min(sliceWidth, canvas.width - left);
+      slice.height = Math.min(sliceHeight, canvas.height - top);
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, slice.width, slice.height);
+      context.drawImage(canvas, left, top, slice.width, slice.height, 0, 0, slice.width, slice.height);
+      if (!first) pdf.addPage();
+      first = false;
+      pdf.addImage(slice.toDataURL('image/png'), 'PNG', margin, margin, slice.width / pixelRatio * scale, slice.height / pixelRatio * scale);
+    }
+  }
+  pdf.setProperties({ title: `${orgName} org chart` });
+  return pdf.output('blob');
+}
+
+// ----- JSON -----
+
+const JSON_FORMAT = 'org-chart';
+const JSON_VERSION = 1;
+
+interface OrgChartJson {
+  format: typeof JSON_FORMAT;
+  version: number;
+  organization: string;
+  exportedAt: string;
+  nodes: Omit<OrgChartNode, 'orgId'>[];
+}
+
+function toJson(tree: HierarchyTreeNode[], orgName: string): string {
+  const file: OrgChartJson = {
+    format: JSON_FORMAT,
+    version: JSON_VERSION,
+    organization: orgName,
+    exportedAt: new Date().toISOString(),
+    nodes: flatten(tree).map(({ children, orgId, ...node }) => node)
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// A JSON export as import rows: each node keeps its id, and managers are referred to by id
+export function readOrgChartJson(text: string): OrgChartImportRow[] {
+  let file: Partial<OrgChartJson>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  if (file.format !== JSON_FORMAT || !Array.isArray(file.nodes)) throw new Error('This file is not an org chart export');
+  if ((file.version ?? 0) > JSON_VERSION) throw new Error('This org chart export is from a newer version');
+
+  return file.nodes.map(node => ({
+    id: node.id,
+    name: node.name,
+    email: node.email,
+    title: node.role,
+    department: node.department,
+    managerId: node.parentId,
+    userId: node.userId,
+    hierarchyLevelId: node.hierarchyLevelId,
+    position: node.position,
+    color: node.color,
+    shape: node.shape,
+    budgetResponsibility: node.budgetResponsibility,
+    profilePicture: node.profilePicture,
+    isExpanded: node.isExpanded,
+    isApproved: node.isApproved
+  }));
+}
+
+// ----- Export -----
+
+export async function exportOrgChart(
+  format: ExportFormat,
+  selection: ExportSelection,
+  { nodes, users, organization }: { nodes: OrgChartNode[]; users: User[]; organization?: Organization }
+): Promise<void> {
+  const tree = selectTree(nodes, selection);
+  if (tree.length === 0) throw new Error('There is nobody on the chart to export');
+  const orgName = organization?.name ?? 'Organization';
+  const fileName = `${orgName.replace(/[^\w-]+/g, '-').toLowerCase()}-org-chart.${format}`;
+
+  if (format === 'json') {
+    return download(new Blob([toJson(tree, orgName)], { type: 'application/json' }), fileName);
+  }
+
+  const drawing = drawOrgChart(tree, users, {
+    orgName,
+    primaryColor: organization?.settings.primaryColor || '#0EA5E9',
+    secondaryColor: organization?.settings.secondaryColor || '#10B981',
+    logo: await logoDataUrl(organization?.settings.logoUrl)
+  });
+  if (format === 'svg') return download(new Blob([drawing.svg], { type: 'image/svg+xml' }), fileName);
+  if (format === 'png') return download(await canvasBlob(await toCanvas(drawing)), fileName);
+  return download(await toPdf(drawing, orgName), fileName);
+}
+
+// Logos uploaded in the browser are kept in local storage; anything else is fetched. A logo
+// that cannot be read is left off rather than failing the export.
+async function logoDataUrl(url: string | undefined): Promise<string | undefined> {
+  if (!url) return undefined;
+  const localId = url.match(/^\/api\/public\/logo-(.+)$/)?.[1];
+  if (localId) {
+    const stored = localStorage.getItem(`logo_${localId}`);
+    return stored ? JSON.parse(stored).data : undefined;
+  }
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return undefined;
+    const blob = await res.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+function download(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,231 @@
+import type { OrgChartNode } from './database';
+import type { OrgChartImportRow } from '@shared/contracts';
+import type { OrgChartViolation } from '@shared/orgChartRules';
+
+// Plans an org chart import from spreadsheet rows or a JSON export. People are matched to
+// chart nodes by id (JSON only) or email: a match is updated (and moved when their manager
+// changed), anyone else gets a new node. A node is linked to the member with its email (or,
+// from a JSON export, its member link when that is still one of the org's members); a new
+// person who is not a member is sent an invite, whether or not they have an account, so the
+// import neither skips the org's join approvals nor shows who has one.
+
+export const IMPORT_FIELDS = ['name', 'email', 'title', 'department', 'managerEmail'] as const;
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  name: 'Name',
+  email: 'Email',
+  title: 'Title',
+  department: 'Department',
+  managerEmail: 'Manager email'
+};
+
+// Column index for each field; a field left out is not imported
+export type ImportMapping = Partial<Record<ImportField, number>>;
+
+// Header words that suggest each field, checked in order
+const HEADER_HINTS: Record<ImportField, RegExp> = {
+  managerEmail: /(manager|supervisor|reports?\s*to|boss).*(e-?mail)?/i,
+  email: /e-?mail/i,
+  name: /^(?!.*(manager|supervisor)).*name/i,
+  title: /title|role|position|designation/i,
+  department: /dep(ar)?t|team|division|unit/i
+};
+
+export function guessMapping(header: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  const taken = new Set<number>();
+  for (const field of Object.keys(HEADER_HINTS) as ImportField[]) {
+    const index = header.findIndex((cell, i) => !taken.has(i) && HEADER_HINTS[field].test(cell));
+    if (index >= 0) {
+      mapping[field] = index;
+      taken.add(index);
+    }
+  }
+  return mapping;
+}
+
+// The data rows (everything under the header) as import rows
+export function applyMapping(rows: string[][], mapping: ImportMapping): OrgChartImportRow[] {
+  return rows.slice(1).map(cells => {
+    const row: OrgChartImportRow = {};
+    for (const field of IMPORT_FIELDS) {
+      const index = mapping[field];
+      const value = index === undefined ? '' : (cells[index] ?? '').trim();
+      if (value) row[field] = value;
+    }
+    return row;
+  });
+}
+
+// A person as the preview lists them; `line` is their line in the file, counting the header.
+// Only people from a JSON export can be without an email.
+export interface ImportedPerson {
+  line: number;
+  name: string;
+  email: string;
+}
+
+export interface OrgChartImportPreview {
+  creates: ImportedPerson[];
+  updates: (ImportedPerson & { nodeId: string; fields: string[] })[];
+  moves: (ImportedPerson & { nodeId: string; from?: string; to?: string })[];
+  unresolvedManagers: (ImportedPerson & { manager: string })[];          // the manager's email or node id
+  skipped: { line: number; reason: string }[];
+  invites: ImportedPerson[];
+  violations: OrgChartViolation[];
+}
+
+export interface OrgChartImportResult {
+  created: number;
+  updated: number;
+  moved: number;
+  invites: (ImportedPerson & { token: string })[];
+}
+
+export type NewChartNode = Omit<OrgChartNode, 'orgId' | 'createdAt' | 'updatedAt'>;
+
+export interface OrgChartImportPlan {
+  preview: OrgChartImportPreview;
+  chart: NewChartNode[];                          // the chart as it would be after the import
+  created: NewChartNode[];
+  updated: Map<string, Partial<OrgChartNode>>;    // by node id
+}
+
+interface PlanOptions {
+  nodes: OrgChartNode[];
+  members: Map<string, string>;                   // active members' user ids by lowercased email
+  managersMapped: boolean;
+  newId: () => string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function planOrgChartImport(rows: OrgChartImportRow[], { nodes, members, managersMapped, newId }: PlanOptions): OrgChartImportPlan {
+  const preview: OrgChartImportPreview = {
+    creates: [], updates: [], moves: [], unresolvedManagers: [], skipped: [], invites: [], violations: []
+  };
+  const nodeByEmail = new Map(nodes.filter(node => node.email).map(node => [node.email!.toLowerCase(), node]));
+  const nodeById = new Map(nodes.map(node => [node.id, node]));
+  const people: (ImportedPerson & { row: OrgChartImportRow; nodeId: string; existing?: OrgChartNode })[] = [];
+  const lineByEmail = new Map<string, number>();
+  const lineById = new Map<string, number>();
+  const idByFileId = new Map<string, string>();     // JSON ids to the nodes they became
+  const created: NewChartNode[] = [];
+  const updated = new Map<string, Partial<OrgChartNode>>();
+  const change = (id: string, fields: Partial<OrgChartNode>) => updated.set(id, { ...updated.get(id), ...fields });
+  const memberIds = new Set(members.values());
+
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const email = row.email?.toLowerCase() ?? '';
+    const skip = (reason: string) => { preview.skipped.push({ line, reason }); };
+    if (!row.name || row.name.length < 2) return skip('Name is missing');
+    if (email ? !EMAIL_PATTERN.test(email) : !row.id) return skip('Email is missing or not valid');
+    if (email && lineByEmail.has(email)) return skip(`Same email as line ${lineByEmail.get(email)}`);
+    if (row.id && lineById.has(row.id)) return skip(`Same id as line ${lineById.get(row.id)}`);
+    if (email) lineByEmail.set(email, line);
+    if (row.id) lineById.set(row.id, line);
+
+    const person = { line, name: row.name, email };
+    const memberId = (email ? members.get(email) : undefined) ?? (row.userId && memberIds.has(row.userId) ? row.userId : undefined);
+    const existing = (row.id ? nodeById.get(row.id) : undefined) ?? (email ? nodeByEmail.get(email) : undefined);
+
+    if (existing) {
+      const fields: Partial<OrgChartNode> = {};
+      if (row.name !== existing.name) fields.name = row.name;
+      if (row.title && row.title !== existing.role) fields.role = row.title;
+      if (row.department && row.department !== existing.department) fields.department = row.department;
+      if (email && email !== existing.email?.toLowerCase()) fields.email = email;
+      if (memberId && memberId !== existing.userId) fields.userId = memberId;
+      for (const field of EXPORT_FIELDS) {
+        if (row[field] !== undefined && row[field] !== existing[field]) Object.assign(fields, { [field]: row[field] });
+      }
+      if (row.position && (row.position.x !== existing.position?.x || row.position.y !== existing.position?.y)) {
+        fields.position = row.position;
+      }
+      if (Object.keys(fields).length > 0) {
+        change(existing.id, fields);
+        preview.updates.push({ ...person, nodeId: existing.id, fields: Object.keys(fields).map(describeField) });
+      }
+      if (row.id) idByFileId.set(row.id, existing.id);
+      people.push({ ...person, row, nodeId: existing.id, existing });
+      return;
+    }
+
+    const nodeId = newId();
+    if (row.id) idByFileId.set(row.id, nodeId);
+    created.push({
+      id: nodeId,
+      userId: memberId,
+      name: row.name,
+      role: row.title ?? '',
+      department: row.department,
+      email: email || undefined,
+      hierarchyLevelId: row.hierarchyLevelId,
+      level: 1,
+      position: row.position ?? { x: 0, y: 0 },
+      color: row.color ?? 'blue',
+      shape: row.shape ?? 'rectangle',
+      budgetResponsibility: row.budgetResponsibility,
+      profilePicture: row.profilePicture,
+      isExpanded: row.isExpanded ?? true,
+      isApproved: row.isApproved ?? true
+    });
+    preview.creates.push(person);
+    if (email && !memberId) preview.invites.push(person);
+    people.push({ ...person, row, nodeId });
+  });
+
+  // Managers can be anyone in the file or already on the chart
+  const idByEmail = new Map(Array.from(nodeByEmail, ([email, node]) => [email, node.id]));
+  people.forEach(person => { if (person.email) idByEmail.set(person.email, person.nodeId); });
+  const managerOf = (row: OrgChartImportRow) => row.managerId
+    ? { manager: row.managerId, managerId: idByFileId.get(row.managerId) ?? (nodeById.has(row.managerId) ? row.managerId : undefined) }
+    : { manager: row.managerEmail?.toLowerCase(), managerId: row.managerEmail ? idByEmail.get(row.managerEmail.toLowerCase()) : undefined };
+  const names = new Map([...nodes, ...created].map(node => [node.id, node.name]));
+  const createdById = new Map(created.map(node => [node.id, node]));
+
+  for (const person of managersMapped ? people : []) {
+    const { manager, managerId } = managerOf(person.row);
+    if (manager && (!managerId || managerId === person.nodeId)) {
+      preview.unresolvedManagers.push({ line: person.line, name: person.name, email: person.email, manager });
+      continue;
+    }
+
+    if (!person.existing) {
+      createdById.get(person.nodeId)!.parentId = managerId;
+    } else if ((person.existing.parentId || undefined) !== managerId) {
+      change(person.existing.id, { parentId: managerId });
+      preview.moves.push({
+        line: person.line,
+        name: person.name,
+        email: person.email,
+        nodeId: person.existing.id,
+        from: person.existing.parentId ? names.get(person.existing.parentId) : undefined,
+        to: managerId ? names.get(managerId) : undefined
+      });
+    }
+  }
+
+  const chart = [
+    ...nodes.map(node => updated.has(node.id) ? { ...node, ...updated.get(node.id) } : node),
+    ...created
+  ];
+  return { preview, chart, created, updated };
+}
+
+// Node fields only JSON exports carry, taken as they are
+const EXPORT_FIELDS = ['hierarchyLevelId', 'color', 'shape', 'budgetResponsibility', 'profilePicture', 'isExpanded', 'isApproved'] as const;
+
+const FIELD_NAMES: Record<string, string> = {
+  role: 'title',
+  userId: 'member link',
+  hierarchyLevelId: 'hierarchy level',
+  budgetResponsibility: 'budget responsibility',
+  profilePicture: 'picture',
+  isExpanded: 'expanded',
+  isApproved: 'approved'
+};
+
+const describeField = (field: string) => FIELD_NAMES[field] ?? field;
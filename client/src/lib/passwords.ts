@@ -0,0 +1,56 @@
+// Password hashing for the browser backends: salted PBKDF2-SHA256 through WebCrypto.
+// Stored as `pbkdf2-sha256$<iterations>$<salt>$<hash>`; older accounts still carry the
+// unsalted SHA-256 hex digest and are upgraded on their next successful sign-in.
+
+const SCHEME = 'pbkdf2-sha256';
+const ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+async function derive(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, HASH_BITS);
+  return new Uint8Array(bits);
+}
+
+async function legacyDigest(password: string): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return Array.from(new Uint8Array(hash)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Compare without bailing out at the first differing byte
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return [SCHEME, ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+}
+
+export async function verifyPassword(password: string, stored: string | undefined): Promise<boolean> {
+  if (!stored) return false;
+
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme === SCHEME && iterations && salt && hash) {
+    const candidate = await derive(password, fromBase64(salt), Number(iterations));
+    return constantTimeEqual(candidate, fromBase64(hash));
+  }
+
+  // Hashes written before PBKDF2 was introduced
+  const encoder = new TextEncoder();
+  return constantTimeEqual(encoder.encode(await legacyDigest(password)), encoder.encode(stored));
+}
+
+// True for legacy digests and PBKDF2 hashes below the current work factor
+export function needsRehash(stored: string): boolean {
+  const [scheme, iterations] = stored.split('$');
+  return scheme !== SCHEME || Number(iterations) < ITERATIONS;
+}
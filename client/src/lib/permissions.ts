@@ -0,0 +1,15 @@
+import { can as canWithRoles } from '@shared/permissions';
+import type { Capability, PermissionResource, PermissionSubject } from '@shared/permissions';
+import { authManager } from './browserAuth';
+
+// The shared can() check, against the roles of the organization signed in to
+export function can(user: PermissionSubject | null | undefined, capability: Capability, resource?: PermissionResource | null): boolean {
+  return canWithRoles(user, capability, resource, authManager.getCurrentOrganization()?.settings.roles);
+}
+
+// Admin settings opens for anyone who can change at least one of its sections
+export const SETTINGS_CAPABILITIES: Capability[] = ['org.manage', 'approval_chain.manage', 'budget.manage', 'invite.create', 'member.manage'];
+
+export function canAny(user: PermissionSubject | null | undefined, capabilities: Capability[]): boolean {
+  return capabilities.some(capability => can(user, capability));
+}
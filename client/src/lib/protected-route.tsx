@@ -2,13 +2,20 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import { canAny } from "./permissions";
+import { authManager } from "./browserAuth";
+import { needsTwoFactorSetup } from "./twoFactor";
+import type { Capability } from "@shared/permissions";
 
 export function ProtectedRoute({
   path,
   component: Component,
+  capability,
 }: {
   path: string;
   component: () => React.JSX.Element;
+  // Signed-in users holding none of these are sent back to the dashboard
+  capability?: Capability | Capability[];
 }) {
   const { user, isLoading } = useAuth();
 
@@ -30,5 +37,22 @@ export function ProtectedRoute({
     );
   }
 
+  // Members the org requires two-factor sign-in of have to enroll before anything else
+  if (path !== "/profile" && needsTwoFactorSetup(user, authManager.getCurrentOrganization())) {
+    return (
+      <Route path={path}>
+        <Redirect to="/profile" />
+      </Route>
+    );
+  }
+
+  if (capability && !canAny(user, ([] as Capability[]).concat(capability))) {
+    return (
+      <Route path={path}>
+        <Redirect to="/dashboard" />
+      </Route>
+    );
+  }
+
   return <Route path={path} component={Component} />;
 }
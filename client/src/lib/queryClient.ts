@@ -1,162 +1,19 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
-import { browserApi } from "./browserApi";
+import { apiRoutes } from "./apiRoutes";
+import { ApiError, createRouter } from "./apiRouter";
+import { ValidationError } from "@shared/contracts";
 
-// Browser-based API request function
+const dispatch = createRouter(apiRoutes);
+
+// Browser-based API request function: runs the matching route from apiRoutes and wraps the result in a Response
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  // Parse the URL to determine which API method to call
-  const urlParts = url.split('/').filter(part => part);
-  
   try {
-    let result: any;
-    
-    // Route API calls to browser API methods
-    if (url === '/api/user') {
-      result = await browserApi.getCurrentUser();
-    } else if (url === '/api/user/profile' && method === 'PATCH') {
-      result = await browserApi.updateProfile(data);
-    } else if (url === '/api/user/password' && method === 'PATCH') {
-      await browserApi.changePassword(data as { currentPassword: string; newPassword: string });
-      result = { success: true };
-    } else if (url === '/api/organization') {
-      result = await browserApi.getOrganization();
-    } else if (url === '/api/approvers') {
-      result = await browserApi.getApprovers();
-    } else if (url === '/api/users') {
-      if (method === 'GET') {
-        result = await browserApi.getUsers();
-      } else if (method === 'POST') {
-        result = await browserApi.createUser(data);
-      }
-    } else if (url === '/api/org-members') {
-      if (method === 'GET') {
-        result = await browserApi.getOrgMembers();
-      } else if (method === 'POST') {
-        result = await browserApi.createOrgMember(data as any);
-      }
-    } else if (url.startsWith('/api/org-members/') && method === 'PUT') {
-      const memberId = urlParts[2];
-      result = await browserApi.updateOrgMember(memberId, data as any);
-    } else if (url.startsWith('/api/org-members/') && method === 'DELETE') {
-      const memberId = urlParts[2];
-      await browserApi.deleteOrgMember(memberId);
-      result = null;
-    } else if (url === '/api/org-requests') {
-      if (method === 'GET') {
-        const status = (data as any)?.status;
-        result = await browserApi.getOrgRequests(status);
-      } else if (method === 'POST') {
-        result = await browserApi.createOrgRequest(data as any);
-      }
-    } else if (url.startsWith('/api/org-requests/') && method === 'PUT') {
-      const requestId = urlParts[2];
-      result = await browserApi.updateOrgRequest(requestId, data as any);
-    } else if (url.startsWith('/api/org-requests/') && method === 'DELETE') {
-      const requestId = urlParts[2];
-      await browserApi.deleteOrgRequest(requestId);
-      result = null;
-    } else if (url === '/api/org-chart') {
-      if (method === 'GET') {
-        result = await browserApi.getOrgChart();
-      } else if (method === 'POST') {
-        result = await browserApi.saveOrgChart(data as any);
-      }
-    } else if (url === '/api/org-audit-logs') {
-      result = await browserApi.getOrgAuditLogs();
-    } else if (url === '/api/pending-approvals') {
-      result = await browserApi.getPendingApprovals();
-    } else if (url === '/api/requests') {
-      if (method === 'GET') {
-        result = await browserApi.getRequests();
-      } else if (method === 'POST') {
-        result = await browserApi.createRequest(data);
-      }
-    } else if (url.startsWith('/api/requests/') && url.endsWith('/status')) {
-      const requestId = urlParts[2];
-      result = await browserApi.updateRequestStatus(requestId, (data as any).status, (data as any).comments, (data as any).isFastTrack);
-    } else if (url.startsWith('/api/requests/') && url.endsWith('/messages')) {
-      const requestId = urlParts[2];
-      if (method === 'GET') {
-        result = await browserApi.getRequestMessages(requestId);
-      } else if (method === 'POST') {
-        result = await browserApi.createRequestMessage(requestId, data);
-      }
-    } else if (url.startsWith('/api/requests/') && url.endsWith('/approval-history')) {
-      const requestId = urlParts[2];
-      result = await browserApi.getApprovalHistory(requestId);
-    } else if (url === '/api/invite-tokens') {
-      if (method === 'GET') {
-        result = await browserApi.getInviteTokens();
-      } else if (method === 'POST') {
-        result = await browserApi.createInviteToken((data as any).role, (data as any).expiresInDays);
-      }
-    } else if (url.startsWith('/api/invite-tokens/') && url.endsWith('/validate')) {
-      const token = urlParts[2];
-      result = await browserApi.validateInviteToken(token);
-    } else if (url.startsWith('/api/invite-tokens/') && method === 'DELETE') {
-      const tokenId = urlParts[2];
-      await browserApi.deleteInviteToken(tokenId);
-      result = { success: true };
-    } else if (url === '/api/users') {
-      if (method === 'GET') {
-        result = await browserApi.getUsers();
-      } else if (method === 'POST') {
-        result = await browserApi.createUser(data);
-      }
-    } else if (url === '/api/org-chart') {
-      if (method === 'GET') {
-        result = await browserApi.getOrgChart();
-      } else if (method === 'POST') {
-        result = await browserApi.createOrgChartNode(data);
-      }
-    } else if (url.startsWith('/api/org-chart/')) {
-      const nodeId = urlParts[2];
-      if (method === 'DELETE') {
-        await browserApi.deleteOrgChartNode(nodeId);
-        result = null;
-      } else if (url.endsWith('/move') && method === 'PUT') {
-        result = await browserApi.moveOrgChartNode(nodeId, (data as any).newParentId, (data as any).newLevel);
-      }
-    } else if (url === '/api/approval-chains') {
-      if (method === 'GET') {
-        result = await browserApi.getApprovalChains();
-      } else if (method === 'POST') {
-        result = await browserApi.createApprovalChain(data);
-      }
-    } else if (url === '/api/approval-chains/default') {
-      result = await browserApi.getDefaultApprovalChain();
-    } else if (url.startsWith('/api/approval-chains/')) {
-      const chainId = urlParts[2];
-      if (method === 'PATCH') {
-        result = await browserApi.updateApprovalChain(chainId, data);
-      } else if (method === 'DELETE') {
-        await browserApi.deleteApprovalChain(chainId);
-        result = null;
-      }
-    } else if (url === '/api/upload') {
-      result = await browserApi.uploadFile(data as File);
-    } else if (url === '/api/upload/logo') {
-      result = await browserApi.uploadLogo(data as File);
-    } else if (url === '/api/login') {
-      result = await browserApi.login((data as any).email, (data as any).password);
-          } else if (url === '/api/register') {
-            if ((data as any).inviteCode) {
-              // This is a join organization request (has inviteCode)
-              result = await browserApi.joinOrganization((data as any).inviteCode, (data as any).email, (data as any).password, (data as any).fullName, (data as any).phoneNumber);
-            } else {
-              // This is a create organization request (has name, adminEmail, adminFullName)
-              result = await browserApi.register((data as any).orgCode, (data as any).name, (data as any).adminEmail, (data as any).adminPassword, (data as any).adminFullName);
-            }
-          } else if (url === '/api/logout') {
-      await browserApi.logout();
-      result = null;
-    } else {
-      throw new Error(`Unknown API endpoint: ${url}`);
-    }
-    
+    const result = await dispatch(method, url, data);
+
     // Create a mock Response object
     return {
       ok: true,
@@ -166,18 +23,40 @@ export async function apiRequest(
     } as Response;
     
   } catch (error) {
-    // Create a mock error Response
+    // Create a mock error Response; other failures inside BrowserApi are reported as bad requests
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const body: Record<string, unknown> = { error: errorMessage };
+    let status = 400;
+    if (error instanceof ValidationError) {
+      status = 422;
+      body.fields = error.fields;
+    } else if (error instanceof ApiError) {
+      status = error.status;
+      if (error.details !== undefined) body.details = error.details;
+    }
     return {
       ok: false,
-      status: 400,
+      status,
       statusText: errorMessage,
-      json: async () => ({ error: errorMessage }),
+      json: async () => body,
       text: async () => errorMessage
     } as Response;
   }
 }
 
+// Read a response's JSON, throwing its error instead when the request failed.
+// Validation failures keep their per-field messages for the form that sent them,
+// and other structured errors their details.
+export async function readJson<T = any>(res: Response): Promise<T> {
+  const body = await res.json();
+  if (!res.ok) {
+    if (body?.fields) throw new ValidationError(body.fields, body.error);
+    if (body?.details !== undefined) throw new ApiError(res.status, body.error || res.statusText, body.details);
+    throw new Error(body?.error || `${res.status}: ${res.statusText}`);
+  }
+  return body;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
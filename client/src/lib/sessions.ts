@@ -0,0 +1,59 @@
+import { db } from './browserStorage';
+import { generateSigningKey, issueSession, verifyToken } from '@shared/sessionTokens';
+import type { SessionClaims, SessionTokens, TokenType } from '@shared/sessionTokens';
+import type { User } from './database';
+
+// Sessions for the in-browser backend. Tokens are signed with a per-install key that
+// lives in IndexedDB and cannot be exported, so a session can't be forged by editing storage.
+export interface SessionKeyEntry {
+  id: string;
+  key: CryptoKey;
+  createdAt: Date;
+}
+
+const SIGNING_KEY_ID = 'session';
+const SESSION_STORAGE_KEY = 'session';
+
+let signingKey: Promise<CryptoKey> | null = null;
+
+function getSigningKey(): Promise<CryptoKey> {
+  if (!signingKey) {
+    signingKey = (async () => {
+      const stored = await db.sessionKeys.get(SIGNING_KEY_ID);
+      if (stored) return stored.key;
+
+      // Another tab may create the key at the same time; the first one written wins
+      const key = await generateSigningKey();
+      await db.sessionKeys.add({ id: SIGNING_KEY_ID, key, createdAt: new Date() }).catch(() => undefined);
+      return (await db.sessionKeys.get(SIGNING_KEY_ID))!.key;
+    })();
+    signingKey.catch(() => {
+      signingKey = null;
+    });
+  }
+  return signingKey;
+}
+
+// Issue a token pair for the user; pass the session id to keep it across a refresh
+export async function issueLocalSession(user: User, sessionId?: string): Promise<SessionTokens> {
+  const tokens = await issueSession(await getSigningKey(), { userId: user.id, orgId: user.orgId, sessionId });
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(tokens));
+  return tokens;
+}
+
+export async function verifyLocalToken(token: string, type: TokenType): Promise<SessionClaims> {
+  return verifyToken(await getSigningKey(), token, type);
+}
+
+export function readStoredSession(): SessionTokens | null {
+  try {
+    const stored = localStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearStoredSession() {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+}
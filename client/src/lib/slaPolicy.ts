@@ -0,0 +1,84 @@
+import type { FundingRequest, OrgChartNode, SlaPolicy, User } from './database';
+
+export type SlaState = 'none' | 'on_track' | 'breaching_soon' | 'overdue';
+
+// Requests whose deadline falls within this window are flagged as breaching soon
+export const BREACHING_SOON_HOURS = 8;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const normalize = (value?: string | null) => (value || '').trim().toLowerCase();
+
+// Most specific policy wins: category and level, then category only, then level only, then the catch-all
+function policyScore(policy: SlaPolicy, category: string, level: number): number {
+  if (normalize(policy.category) && normalize(policy.category) !== category) return -1;
+  if (policy.level != null && policy.level !== level) return -1;
+  return (normalize(policy.category) ? 2 : 0) + (policy.level != null ? 1 : 0);
+}
+
+export function findSlaPolicy(
+  policies: SlaPolicy[] | undefined,
+  request: Pick<FundingRequest, 'category' | 'customCategory'>,
+  level: number
+): SlaPolicy | null {
+  const categories = [normalize(request.category), normalize(request.customCategory)];
+  let best: SlaPolicy | null = null;
+  let bestScore = -1;
+
+  for (const policy of policies || []) {
+    if (!(policy.hours > 0)) continue;
+    const score = Math.max(...categories.map(category => policyScore(policy, category, level)));
+    if (score > bestScore) {
+      best = policy;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// Deadline for a request entering a level, or undefined when no policy applies
+export function computeSlaDeadline(
+  policies: SlaPolicy[] | undefined,
+  request: Pick<FundingRequest, 'category' | 'customCategory'>,
+  level: number,
+  enteredAt: Date = new Date()
+): Date | undefined {
+  const policy = findSlaPolicy(policies, request, level);
+  return policy ? new Date(enteredAt.getTime() + policy.hours * HOUR_MS) : undefined;
+}
+
+export function getSlaState(request: FundingRequest, now: Date = new Date()): SlaState {
+  if (request.status !== 'Open' || !request.slaDeadline) return 'none';
+  const remaining = new Date(request.slaDeadline).getTime() - now.getTime();
+  if (remaining <= 0) return 'overdue';
+  if (remaining <= BREACHING_SOON_HOURS * HOUR_MS) return 'breaching_soon';
+  return 'on_track';
+}
+
+export function isOverdue(request: FundingRequest, now: Date = new Date()): boolean {
+  return getSlaState(request, now) === 'overdue';
+}
+
+// Who an overdue request goes to: the approver's reporting manager from the org chart,
+// falling back to their parent node and then to an Admin other than the current approver
+export function resolveEscalationTarget(approverId: string | undefined, nodes: OrgChartNode[], users: User[]): User | null {
+  const approverNode = approverId ? nodes.find(n => n.userId === approverId) : undefined;
+  const isCandidate = (u?: User | null): u is User => !!u && u.id !== approverId;
+
+  if (approverNode?.reportingManager) {
+    const manager = normalize(approverNode.reportingManager);
+    const managerNode = nodes.find(n => n.id === approverNode.reportingManager || normalize(n.name) === manager);
+    const byUser = users.find(u => u.id === approverNode.reportingManager || normalize(u.fullName) === manager)
+      || users.find(u => u.id === managerNode?.userId);
+    if (isCandidate(byUser)) return byUser;
+  }
+
+  if (approverNode?.parentId) {
+    const parent = nodes.find(n => n.id === approverNode.parentId);
+    const parentUser = users.find(u => u.id === parent?.userId);
+    if (isCandidate(parentUser)) return parentUser;
+  }
+
+  return users.find(u => u.role === 'Admin' && u.id !== approverId) || null;
+}
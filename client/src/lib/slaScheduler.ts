@@ -0,0 +1,58 @@
+import { browserApi } from './browserApi';
+import type { FundingRequest } from './database';
+
+// How often overdue requests are checked while the app is open
+export const SLA_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+type EscalationListener = (escalated: FundingRequest[]) => void;
+
+// Background SLA checker - stands in for the server-side cron job in browser mode
+class SlaScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private listeners: EscalationListener[] = [];
+
+  start() {
+    if (this.timer) return;
+    this.check();
+    this.timer = setInterval(() => this.check(), SLA_CHECK_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  addListener(listener: EscalationListener) {
+    this.listeners.push(listener);
+  }
+
+  removeListener(listener: EscalationListener) {
+    const index = this.listeners.indexOf(listener);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  async check(): Promise<FundingRequest[]> {
+    // Skip a tick rather than escalating the same request twice
+    if (this.running) return [];
+    this.running = true;
+    try {
+      const escalated = await browserApi.escalateOverdueRequests();
+      if (escalated.length > 0) {
+        this.listeners.forEach(listener => listener(escalated));
+      }
+      return escalated;
+    } catch (error) {
+      console.error('SLA check failed:', error);
+      return [];
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const slaScheduler = new SlaScheduler();
@@ -0,0 +1,169 @@
+// Reads the first sheet of a CSV or XLSX file into rows of cell text, using only what the
+// browser provides: XLSX is a zip of XML parts, unpacked with DecompressionStream and DOMParser.
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const extensionOf = (name: string) => (name.split('.').pop() || '').toLowerCase();
+
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  const extension = extensionOf(file.name);
+  if (extension === 'xlsx') return dropEmptyRows(await readXlsx(await file.arrayBuffer()));
+  if (extension === 'csv' || file.type === 'text/csv') return dropEmptyRows(parseCsv(await file.text()));
+  throw new Error('Choose a .csv or .xlsx file');
+}
+
+const dropEmptyRows = (rows: string[][]) => rows.filter(row => row.some(cell => cell.trim() !== ''));
+
+// RFC 4180, with a semicolon or tab delimiter when the header uses one instead of commas
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source.slice(0, source.search(/\r?\n|$/)));
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function detectDelimiter(header: string): string {
+  const count = (delimiter: string) => header.split(delimiter).length - 1;
+  return [';', '\t'].find(delimiter => count(delimiter) > count(',')) ?? ',';
+}
+
+// ----- XLSX -----
+
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const zip = readZipDirectory(buffer);
+  const parts = async (path: string) => zip.has(path) ? parseXml(await inflateEntry(buffer, zip.get(path)!)) : null;
+
+  const workbook = await parts('xl/workbook.xml');
+  const relationships = await parts('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook && byTag(workbook, 'sheet')[0];
+  if (!firstSheet || !relationships) throw new Error('This file has no worksheets');
+
+  const sheetRelId = firstSheet.getAttribute('r:id') ?? firstSheet.getAttributeNS(RELATIONSHIP_NS, 'id');
+  const target = byTag(relationships, 'Relationship').find(rel => rel.getAttribute('Id') === sheetRelId)?.getAttribute('Target');
+  if (!target) throw new Error('This file has no worksheets');
+  const sheet = await parts(target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  if (!sheet) throw new Error('The first worksheet could not be read');
+
+  const sharedStringsDoc = await parts('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsDoc ? byTag(sharedStringsDoc, 'si').map(textOf) : [];
+
+  return byTag(sheet, 'row').map(rowElement => {
+    const row: string[] = [];
+    for (const cell of byTag(rowElement, 'c')) {
+      const reference = cell.getAttribute('r');
+      const column = reference ? columnIndex(reference) : row.length;
+      const type = cell.getAttribute('t');
+      const value = byTag(cell, 'v')[0]?.textContent ?? '';
+      while (row.length < column) row.push('');
+      row[column] = type === 's' ? sharedStrings[Number(value)] ?? ''
+        : type === 'inlineStr' ? textOf(byTag(cell, 'is')[0])
+        : type === 'b' ? (value === '1' ? 'TRUE' : 'FALSE')
+        : value;
+    }
+    return row;
+  });
+}
+
+const byTag = (parent: Document | Element, localName: string) => Array.from(parent.getElementsByTagNameNS('*', localName));
+
+// A string item's text, skipping phonetic hints
+const textOf = (element: Element | undefined) => element
+  ? byTag(element, 't').filter(t => t.parentElement?.localName !== 'rPh').map(t => t.textContent ?? '').join('')
+  : '';
+
+// "AB12" -> 27
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('This file is not a valid spreadsheet');
+  return doc;
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  headerOffset: number;
+}
+
+function readZipDirectory(buffer: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(buffer);
+  let end = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset--) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('This file is not a valid spreadsheet');
+
+  const entries = new Map<string, ZipEntry>();
+  const decoder = new TextDecoder();
+  let offset = view.getUint32(end + 16, true);
+  for (let i = view.getUint16(end + 10, true); i > 0; i--) {
+    if (view.getUint32(offset, true) !== ZIP_DIRECTORY_ENTRY) throw new Error('This file is not a valid spreadsheet');
+    const nameLength = view.getUint16(offset + 28, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      headerOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+  return entries;
+}
+
+async function inflateEntry(buffer: ArrayBuffer, entry: ZipEntry): Promise<string> {
+  const view = new DataView(buffer);
+  if (view.getUint32(entry.headerOffset, true) !== ZIP_LOCAL_HEADER) throw new Error('This file is not a valid spreadsheet');
+  const start = entry.headerOffset + 30 + view.getUint16(entry.headerOffset + 26, true) + view.getUint16(entry.headerOffset + 28, true);
+  const data = new Uint8Array(buffer, start, entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error('This spreadsheet uses a compression the browser cannot read');
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return await new Response(stream).text();
+}
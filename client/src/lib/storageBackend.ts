@@ -0,0 +1,159 @@
+import { config } from './config';
+import { browserStorage } from './browserStorage';
+import { SupabaseStorage } from './supabaseStorage';
+import type { User, Membership, TwoFactorSettings, Organization, FundingRequest, QueryMessage, OrgChartNode, InviteToken, ApprovalChain, ApprovalHistory, OrgMember, OrgRequest, OrgAuditLog, Budget, Invoice, Attachment } from './database';
+
+export type StorageBackendKind = 'indexeddb' | 'supabase';
+
+export interface TokenRecordInput {
+  userId: string;
+  email: string;
+  token: string;
+  expiresAt: Date;
+}
+
+// What an org chart import writes. New nodes come with their ids, so people imported
+// together can report to each other.
+export interface OrgChartImportChanges {
+  newNodes: Omit<OrgChartNode, 'createdAt' | 'updatedAt'>[];
+  nodeUpdates: { id: string; updates: Partial<OrgChartNode> }[];
+  inviteTokens: Omit<InviteToken, 'id' | 'createdAt'>[];
+}
+
+// What deciding a pending join or profile change writes: the request and the membership it
+// is about, together
+export interface OrgRequestDecision {
+  membershipId: string;
+  membershipUpdates?: Partial<Membership>;
+  requestUpdates: Partial<OrgRequest>;
+}
+
+// Everything BrowserApi and the auth manager need from persistence. Each backend
+// stores the same camelCase entities from ./database; mapping to rows is its own business.
+export interface StorageBackend {
+  // Remote backends check credentials themselves and start a session; IndexedDB leaves this out
+  authenticate?(email: string, password: string): Promise<User | null>;
+  signOut?(): Promise<void>;
+  // Invalidate every session the backend has issued for the signed-in user
+  revokeSessions?(): Promise<void>;
+
+  // Users
+  createUser(user: Omit<User, 'id' | 'createdAt'>): Promise<User>;
+  getUser(id: string): Promise<User | null>;
+  getUserByEmail(email: string): Promise<User | null>;
+  getUsersByOrg(orgId: string): Promise<User[]>;
+  getUsersByOrgId(orgId: string): Promise<User[]>;
+  getUsersByOrgAndRole(orgId: string, role: string): Promise<User[]>;
+  updateUser(id: string, updates: Partial<User>): Promise<User>;
+
+  // Second-factor secrets, kept apart from user records. Only backends that check the
+  // second factor at sign-in store them; the others leave these out.
+  getTwoFactorSecret?(userId: string): Promise<TwoFactorSettings | null>;
+  saveTwoFactorSecret?(settings: TwoFactorSettings): Promise<void>;
+  deleteTwoFactorSecret?(userId: string): Promise<void>;
+
+  // A user's membership in each org they belong to
+  createMembership(membership: Omit<Membership, 'id'>): Promise<Membership>;
+  getMembership(userId: string, orgId: string): Promise<Membership | null>;
+  getMembershipsByUser(userId: string): Promise<Membership[]>;
+  updateMembership(id: string, updates: Partial<Membership>): Promise<Membership>;
+
+  // Email verification and password reset tokens
+  createEmailVerification(data: TokenRecordInput): Promise<void>;
+  getEmailVerificationByToken(token: string): Promise<any>;
+  markEmailAsVerified(token: string): Promise<void>;
+  createPasswordReset(data: TokenRecordInput): Promise<void>;
+  getPasswordResetByToken(token: string): Promise<any>;
+  markPasswordResetAsUsed(token: string): Promise<void>;
+
+  // Organizations
+  createOrganization(org: Omit<Organization, 'orgId' | 'createdAt'>): Promise<Organization>;
+  getOrganization(id: string): Promise<Organization | null>;
+  getOrganizationById(id: string): Promise<Organization | null>;
+  getOrganizationByCode(orgCode: string): Promise<Organization | null>;
+  getAllOrganizations(): Promise<Organization[]>;
+  updateOrganization(orgId: string, updates: Partial<Organization>): Promise<Organization>;
+
+  // Invite tokens
+  createInviteToken(token: Omit<InviteToken, 'id' | 'createdAt'>): Promise<InviteToken>;
+  getInviteTokenByToken(token: string): Promise<InviteToken | null>;
+  getInviteTokensByOrg(orgId: string): Promise<InviteToken[]>;
+  markInviteTokenAsUsed(tokenId: string, userId: string): Promise<void>;
+  deleteInviteToken(id: string): Promise<void>;
+
+  // Funding requests and their conversation
+  createFundingRequest(request: Omit<FundingRequest, 'id' | 'createdAt' | 'updatedAt'>): Promise<FundingRequest>;
+  getFundingRequest(id: string): Promise<FundingRequest | null>;
+  getFundingRequestsByOrg(orgId: string): Promise<FundingRequest[]>;
+  updateFundingRequest(id: string, updates: Partial<FundingRequest>): Promise<FundingRequest>;
+  createQueryMessage(message: Omit<QueryMessage, 'id' | 'createdAt'>): Promise<QueryMessage>;
+  getMessagesByRequest(requestId: string): Promise<QueryMessage[]>;
+
+  // Approval chains and history
+  createApprovalChain(chain: Omit<ApprovalChain, 'id' | 'createdAt' | 'updatedAt'>): Promise<ApprovalChain>;
+  getApprovalChainsByOrgId(orgId: string): Promise<ApprovalChain[]>;
+  getApprovalChainById(id: string): Promise<ApprovalChain | null>;
+  getDefaultApprovalChain(orgId: string): Promise<ApprovalChain | null>;
+  updateApprovalChain(id: string, updates: Partial<ApprovalChain>): Promise<ApprovalChain>;
+  deleteApprovalChain(id: string): Promise<void>;
+  createApprovalHistory(history: Omit<ApprovalHistory, 'id' | 'createdAt'>): Promise<ApprovalHistory>;
+  getApprovalHistoryByRequestId(requestId: string): Promise<ApprovalHistory[]>;
+
+  // Budgets
+  createBudget(budget: Omit<Budget, 'id' | 'createdAt' | 'updatedAt'>): Promise<Budget>;
+  getBudgetsByOrgId(orgId: string): Promise<Budget[]>;
+  getBudgetById(id: string): Promise<Budget | null>;
+  updateBudget(id: string, updates: Partial<Budget>): Promise<Budget>;
+  deleteBudget(id: string): Promise<void>;
+
+  // Invoices
+  createInvoice(invoice: Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>): Promise<Invoice>;
+  getInvoiceById(id: string): Promise<Invoice | null>;
+  getInvoiceByRequestId(requestId: string): Promise<Invoice | null>;
+  getInvoicesByOrgId(orgId: string): Promise<Invoice[]>;
+
+  // Attachments
+  createAttachment(attachment: Omit<Attachment, 'id' | 'createdAt'> & { id?: string }): Promise<Attachment>;
+  getAttachmentById(id: string): Promise<Attachment | null>;
+  getAttachmentByHash(orgId: string, hash: string): Promise<Attachment | null>;
+
+  // Org chart
+  createOrgChartNode(node: Omit<OrgChartNode, 'id' | 'createdAt' | 'updatedAt'>): Promise<OrgChartNode>;
+  getOrgChartNode(id: string): Promise<OrgChartNode | null>;
+  getOrgChartNodesByOrg(orgId: string): Promise<OrgChartNode[]>;
+  updateOrgChartNode(id: string, updates: Partial<OrgChartNode>): Promise<OrgChartNode>;
+  deleteOrgChartNode(id: string): Promise<void>;
+  // Writes all of an import or, if anything fails, none of it
+  applyOrgChartImport(changes: OrgChartImportChanges): Promise<void>;
+
+  // Org-scoped member directory, requests and audit log
+  getOrgMembers(orgId: string): Promise<OrgMember[]>;
+  createOrgRequest(request: Omit<OrgRequest, 'requestId'>): Promise<OrgRequest>;
+  getOrgRequests(orgId: string, status?: string): Promise<OrgRequest[]>;
+  updateOrgRequest(orgId: string, requestId: string, updates: Partial<OrgRequest>): Promise<OrgRequest>;
+  deleteOrgRequest(orgId: string, requestId: string): Promise<void>;
+  // Refused when the request is no longer pending
+  applyOrgRequestDecision(orgId: string, requestId: string, decision: OrgRequestDecision): Promise<OrgRequest>;
+  logAuditAction(orgId: string, action: string, targetType: string, targetId: string, details: any, performedBy?: string): Promise<void>;
+  getOrgAuditLogs(orgId: string): Promise<OrgAuditLog[]>;
+}
+
+export function createStorageBackend(kind: StorageBackendKind): StorageBackend {
+  switch (kind) {
+    case 'indexeddb':
+      return browserStorage;
+    case 'supabase':
+      if (!config.storage.supabaseUrl || !config.storage.supabaseAnonKey) {
+        throw new Error('VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY must be set to use the Supabase backend');
+      }
+      return new SupabaseStorage(config.storage.supabaseUrl, config.storage.supabaseAnonKey);
+    default:
+      // The Express API only has routes for part of the app, so browsers reach it through sync
+      throw new Error((kind as string) === 'http'
+        ? 'The http storage backend is no longer available. Use indexeddb and sync with the Express API instead.'
+        : `Unknown storage backend "${kind}". Use indexeddb or supabase.`);
+  }
+}
+
+// The backend selected by VITE_STORAGE_BACKEND; IndexedDB demo data unless configured otherwise
+export const storage: StorageBackend = createStorageBackend(config.storage.backend);
@@ -0,0 +1,39 @@
+// Helpers shared by the remote storage backends for moving entities in and out of JSON rows
+
+const DATE_KEY = /(At|Date|Deadline|Start|End)$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export const toSnakeCase = (key: string) => key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+
+export const toCamelCase = (key: string) => key.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+
+// JSON turns Dates into strings; turn them back for date-named fields, including nested ones
+export function reviveDates<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(reviveDates) as T;
+  if (!value || typeof value !== 'object' || value instanceof Date || value instanceof Blob) return value;
+
+  const revived: Record<string, any> = {};
+  for (const [key, field] of Object.entries(value)) {
+    revived[key] = typeof field === 'string' && DATE_KEY.test(key) && ISO_DATE.test(field)
+      ? new Date(field)
+      : reviveDates(field);
+  }
+  return revived as T;
+}
+
+// Top-level keys only: nested JSON columns keep their camelCase shape
+export function toRow(entity: Record<string, any>): Record<string, any> {
+  const row: Record<string, any> = {};
+  for (const [key, value] of Object.entries(entity)) {
+    if (value !== undefined) row[toSnakeCase(key)] = value;
+  }
+  return row;
+}
+
+export function fromRow<T>(row: Record<string, any>): T {
+  const entity: Record<string, any> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (value !== null) entity[toCamelCase(key)] = value;
+  }
+  return reviveDates(entity) as T;
+}
@@ -0,0 +1,463 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { StorageBackend, TokenRecordInput, OrgRequestDecision } from './storageBackend';
+import { fromRow, toRow } from './storageRows';
+import { toOrgMember } from './memberships';
+import type { User, Membership, Organization, FundingRequest, QueryMessage, OrgChartNode, InviteToken, ApprovalChain, ApprovalHistory, OrgMember, OrgRequest, OrgAuditLog, Budget, Invoice, Attachment } from './database';
+
+// Attachment content lives in this Storage bucket under <orgId>/<attachmentId>
+const ATTACHMENT_BUCKET = 'attachments';
+
+// Reads and writes the tables in supabase-schema.sql. Row-level security keys off auth.uid(),
+// so every users row shares its id with a Supabase Auth account of the same email.
+export class SupabaseStorage implements StorageBackend {
+  private client: SupabaseClient;
+
+  constructor(url: string, anonKey: string) {
+    this.client = createClient(url, anonKey);
+  }
+
+  async authenticate(email: string, password: string): Promise<User | null> {
+    const { data, error } = await this.client.auth.signInWithPassword({ email, password });
+    if (error) throw new Error(error.message);
+    return this.getUser(data.user.id);
+  }
+
+  async signOut(): Promise<void> {
+    await this.client.auth.signOut();
+  }
+
+  async revokeSessions(): Promise<void> {
+    const { error } = await this.client.auth.signOut({ scope: 'global' });
+    if (error) throw new Error(error.message);
+  }
+
+  // Users
+  async createUser(user: Omit<User, 'id' | 'createdAt'>): Promise<User> {
+    return this.insert<User>('users', user);
+  }
+
+  async getUser(id: string): Promise<User | null> {
+    return this.selectOne<User>('users', { id });
+  }
+
+  async getUserByEmail(email: string): Promise<User | null> {
+    return this.selectOne<User>('users', { email: email.toLowerCase().trim() });
+  }
+
+  async getUsersByOrg(orgId: string): Promise<User[]> {
+    return this.select<User>('users', { org_id: orgId });
+  }
+
+  async getUsersByOrgId(orgId: string): Promise<User[]> {
+    return this.getUsersByOrg(orgId);
+  }
+
+  async getUsersByOrgAndRole(orgId: string, role: string): Promise<User[]> {
+    return this.select<User>('users', { org_id: orgId, role });
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User> {
+    return this.update<User>('users', { id }, updates);
+  }
+
+  // Row-level security scopes everything by users.org_id, so each user has one membership
+  async createMembership(): Promise<Membership> {
+    throw new Error('Joining a second organization is not supported on the Supabase backend');
+  }
+
+  async getMembership(userId: string, orgId: string): Promise<Membership | null> {
+    return (await this.getMembershipsByUser(userId)).find(membership => membership.orgId === orgId) || null;
+  }
+
+  async getMembershipsByUser(userId: string): Promise<Membership[]> {
+    const user = await this.getUser(userId);
+    return user ? [toMembership(user)] : [];
+  }
+
+  async updateMembership(id: string, updates: Partial<Membership>): Promise<Membership> {
+    const { role, customRoleId, department, jobTitle } = updates;
+    return toMembership(await this.updateUser(id, { role, customRoleId, department, jobTitle }));
+  }
+
+  // Email verification and password reset tokens
+  async createEmailVerification(data: TokenRecordInput): Promise<void> {
+    await this.insert('email_verifications', data);
+  }
+
+  async getEmailVerificationByToken(token: string): Promise<any> {
+    return this.selectOne('email_verifications', { token });
+  }
+
+  async markEmailAsVerified(token: string): Promise<void> {
+    await this.update('email_verifications', { token }, { verifiedAt: new Date() });
+  }
+
+  async createPasswordReset(data: TokenRecordInput): Promise<void> {
+    await this.insert('password_resets', data);
+  }
+
+  async getPasswordResetByToken(token: string): Promise<any> {
+    return this.selectOne('password_resets', { token });
+  }
+
+  async markPasswordResetAsUsed(token: string): Promise<void> {
+    await this.update('password_resets', { token }, { usedAt: new Date() });
+  }
+
+  // Organizations
+  async createOrganization(org: Omit<Organization, 'orgId' | 'createdAt'>): Promise<Organization> {
+    const { data, error } = await this.client.from('organizations').insert(toOrganizationRow(org)).select().single();
+    if (error) throw new Error(error.message);
+    return fromOrganizationRow(data);
+  }
+
+  async getOrganization(id: string): Promise<Organization | null> {
+    return this.selectOrganization('id', id);
+  }
+
+  async getOrganizationById(id: string): Promise<Organization | null> {
+    return this.getOrganization(id);
+  }
+
+  async getOrganizationByCode(orgCode: string): Promise<Organization | null> {
+    return this.selectOrganization('org_code', orgCode);
+  }
+
+  async getAllOrganizations(): Promise<Organization[]> {
+    const { data, error } = await this.client.from('organizations').select();
+    if (error) throw new Error(error.message);
+    return data.map(fromOrganizationRow);
+  }
+
+  async updateOrganization(orgId: string, updates: Partial<Organization>): Promise<Organization> {
+    const { data, error } = await this.client.from('organizations').update(toOrganizationRow(updates)).eq('id', orgId).select().single();
+    if (error) throw new Error(error.message);
+    return fromOrganizationRow(data);
+  }
+
+  // Invite tokens
+  async createInviteToken(token: Omit<InviteToken, 'id' | 'createdAt'>): Promise<InviteToken> {
+    return this.insert<InviteToken>('invite_tokens', token);
+  }
+
+  async getInviteTokenByToken(token: string): Promise<InviteToken | null> {
+    return this.selectOne<InviteToken>('invite_tokens', { token });
+  }
+
+  async getInviteTokensByOrg(orgId: string): Promise<InviteToken[]> {
+    return this.select<InviteToken>('invite_tokens', { org_id: orgId });
+  }
+
+  async markInviteTokenAsUsed(tokenId: string, userId: string): Promise<void> {
+    await this.update('invite_tokens', { id: tokenId }, { usedAt: new Date(), usedBy: userId });
+  }
+
+  async deleteInviteToken(id: string): Promise<void> {
+    await this.remove('invite_tokens', { id });
+  }
+
+  // Funding requests and their conversation
+  async createFundingRequest(request: Omit<FundingRequest, 'id' | 'createdAt' | 'updatedAt'>): Promise<FundingRequest> {
+    return this.insert<FundingRequest>('funding_requests', request);
+  }
+
+  async getFundingRequest(id: string): Promise<FundingRequest | null> {
+    return this.selectOne<FundingRequest>('funding_requests', { id });
+  }
+
+  async getFundingRequestsByOrg(orgId: string): Promise<FundingRequest[]> {
+    return this.select<FundingRequest>('funding_requests', { org_id: orgId });
+  }
+
+  async updateFundingRequest(id: string, updates: Partial<FundingRequest>): Promise<FundingRequest> {
+    return this.update<FundingRequest>('funding_requests', { id }, { ...updates, updatedAt: new Date() });
+  }
+
+  async createQueryMessage(message: Omit<QueryMessage, 'id' | 'createdAt'>): Promise<QueryMessage> {
+    return this.insert<QueryMessage>('query_messages', message);
+  }
+
+  async getMessagesByRequest(requestId: string): Promise<QueryMessage[]> {
+    return this.select<QueryMessage>('query_messages', { request_id: requestId }, 'created_at');
+  }
+
+  // Approval chains and history
+  async createApprovalChain(chain: Omit<ApprovalChain, 'id' | 'createdAt' | 'updatedAt'>): Promise<ApprovalChain> {
+    return this.insert<ApprovalChain>('approval_chains', chain);
+  }
+
+  async getApprovalChainsByOrgId(orgId: string): Promise<ApprovalChain[]> {
+    return this.select<ApprovalChain>('approval_chains', { org_id: orgId });
+  }
+
+  async getApprovalChainById(id: string): Promise<ApprovalChain | null> {
+    return this.selectOne<ApprovalChain>('approval_chains', { id });
+  }
+
+  async getDefaultApprovalChain(orgId: string): Promise<ApprovalChain | null> {
+    return this.selectOne<ApprovalChain>('approval_chains', { org_id: orgId, is_default: true });
+  }
+
+  async updateApprovalChain(id: string, updates: Partial<ApprovalChain>): Promise<ApprovalChain> {
+    return this.update<ApprovalChain>('approval_chains', { id }, { ...updates, updatedAt: new Date() });
+  }
+
+  async deleteApprovalChain(id: string): Promise<void> {
+    await this.remove('approval_chains', { id });
+  }
+
+  async createApprovalHistory(history: Omit<ApprovalHistory, 'id' | 'createdAt'>): Promise<ApprovalHistory> {
+    return this.insert<ApprovalHistory>('approval_history', history);
+  }
+
+  async getApprovalHistoryByRequestId(requestId: string): Promise<ApprovalHistory[]> {
+    return this.select<ApprovalHistory>('approval_history', { request_id: requestId }, 'created_at');
+  }
+
+  // Budgets
+  async createBudget(budget: Omit<Budget, 'id' | 'createdAt' | 'updatedAt'>): Promise<Budget> {
+    return this.insert<Budget>('budgets', budget);
+  }
+
+  async getBudgetsByOrgId(orgId: string): Promise<Budget[]> {
+    return this.select<Budget>('budgets', { org_id: orgId });
+  }
+
+  async getBudgetById(id: string): Promise<Budget | null> {
+    return this.selectOne<Budget>('budgets', { id });
+  }
+
+  async updateBudget(id: string, updates: Partial<Budget>): Promise<Budget> {
+    return this.update<Budget>('budgets', { id }, { ...updates, updatedAt: new Date() });
+  }
+
+  async deleteBudget(id: string): Promise<void> {
+    await this.remove('budgets', { id });
+  }
+
+  // Invoices
+  async createInvoice(invoice: Omit<Invoice, 'id' | 'createdAt' | 'updatedAt'>): Promise<Invoice> {
+    return this.insert<Invoice>('invoices', invoice);
+  }
+
+  async getInvoiceById(id: string): Promise<Invoice | null> {
+    return this.selectOne<Invoice>('invoices', { id });
+  }
+
+  async getInvoiceByRequestId(requestId: string): Promise<Invoice | null> {
+    return this.selectOne<Invoice>('invoices', { request_id: requestId });
+  }
+
+  async getInvoicesByOrgId(orgId: string): Promise<Invoice[]> {
+    return this.select<Invoice>('invoices', { org_id: orgId });
+  }
+
+  // Attachments: metadata in the attachments table, content in Storage
+  async createAttachment(attachment: Omit<Attachment, 'id' | 'createdAt'> & { id?: string }): Promise<Attachment> {
+    const { blob, ...metadata } = attachment;
+    const id = attachment.id || crypto.randomUUID();
+    const { error } = await this.client.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(`${attachment.orgId}/${id}`, blob, { contentType: attachment.mimeType });
+    if (error) throw new Error(error.message);
+
+    const stored = await this.insert<Omit<Attachment, 'blob'>>('attachments', { ...metadata, id });
+    return { ...stored, blob };
+  }
+
+  async getAttachmentById(id: string): Promise<Attachment | null> {
+    const metadata = await this.selectOne<Omit<Attachment, 'blob'>>('attachments', { id });
+    return metadata ? this.withContent(metadata) : null;
+  }
+
+  async getAttachmentByHash(orgId: string, hash: string): Promise<Attachment | null> {
+    const metadata = await this.selectOne<Omit<Attachment, 'blob'>>('attachments', { org_id: orgId, hash });
+    return metadata ? this.withContent(metadata) : null;
+  }
+
+  // Org chart
+  async createOrgChartNode(node: Omit<OrgChartNode, 'id' | 'createdAt' | 'updatedAt'>): Promise<OrgChartNode> {
+    return this.insert<OrgChartNode>('org_chart_nodes', node);
+  }
+
+  async getOrgChartNode(id: string): Promise<OrgChartNode | null> {
+    return this.selectOne<OrgChartNode>('org_chart_nodes', { id });
+  }
+
+  async getOrgChartNodesByOrg(orgId: string): Promise<OrgChartNode[]> {
+    return this.select<OrgChartNode>('org_chart_nodes', { org_id: orgId });
+  }
+
+  async updateOrgChartNode(id: string, updates: Partial<OrgChartNode>): Promise<OrgChartNode> {
+    return this.update<OrgChartNode>('org_chart_nodes', { id }, { ...updates, updatedAt: new Date() });
+  }
+
+  async deleteOrgChartNode(id: string): Promise<void> {
+    await this.remove('org_chart_nodes', { id });
+  }
+
+  async applyOrgChartImport(): Promise<void> {
+    throw new Error('Importing an org chart is not supported on the Supabase backend');
+  }
+
+  // Org-scoped member directory, requests and audit log
+  async getOrgMembers(orgId: string): Promise<OrgMember[]> {
+    const users = await this.getUsersByOrg(orgId);
+    return users.map(user => toOrgMember(user, toMembership(user)));
+  }
+
+  async createOrgRequest(request: Omit<OrgRequest, 'requestId'>): Promise<OrgRequest> {
+    const created = await this.insert<OrgRequest>('org_requests', { ...request, requestId: crypto.randomUUID() });
+    await this.logAuditAction(request.orgId, 'create', 'request', created.requestId, { request: created });
+    return created;
+  }
+
+  async getOrgRequests(orgId: string, status?: string): Promise<OrgRequest[]> {
+    return this.select<OrgRequest>('org_requests', status ? { org_id: orgId, status } : { org_id: orgId });
+  }
+
+  async updateOrgRequest(orgId: string, requestId: string, updates: Partial<OrgRequest>): Promise<OrgRequest> {
+    const updated = await this.update<OrgRequest>('org_requests', { org_id: orgId, request_id: requestId }, updates);
+    await this.logAuditAction(orgId, 'update', 'request', requestId, { updates });
+    return updated;
+  }
+
+  async deleteOrgRequest(orgId: string, requestId: string): Promise<void> {
+    await this.remove('org_requests', { org_id: orgId, request_id: requestId });
+    await this.logAuditAction(orgId, 'delete', 'request', requestId, {});
+  }
+
+  // The REST API has no transactions, so the request is claimed (only while still pending)
+  // before the membership changes; a decision is applied at most once
+  async applyOrgRequestDecision(orgId: string, requestId: string, decision: OrgRequestDecision): Promise<OrgRequest> {
+    const handled = await this.update<OrgRequest>('org_requests', { org_id: orgId, request_id: requestId, status: 'pending' }, decision.requestUpdates)
+      .catch(() => { throw new Error('Request not found or already handled'); });
+    await this.logAuditAction(orgId, 'update', 'request', requestId, { updates: decision.requestUpdates });
+    if (decision.membershipUpdates) await this.updateMembership(decision.membershipId, decision.membershipUpdates);
+    return handled;
+  }
+
+  async getOrgAuditLogs(orgId: string): Promise<OrgAuditLog[]> {
+    const logs = await this.select<OrgAuditLog>('org_audit_logs', { org_id: orgId }, 'performed_at');
+    return logs.reverse();
+  }
+
+  async logAuditAction(orgId: string, action: string, targetType: string, targetId: string, details: any, performedBy?: string): Promise<void> {
+    const { data } = await this.client.auth.getUser();
+    await this.insert('org_audit_logs', {
+      orgId,
+      action,
+      performedBy: performedBy || data.user?.id || 'system',
+      performedAt: new Date(),
+      targetType,
+      targetId,
+      details
+    });
+  }
+
+  private async withContent(metadata: Omit<Attachment, 'blob'>): Promise<Attachment> {
+    const { data, error } = await this.client.storage.from(ATTACHMENT_BUCKET).download(`${metadata.orgId}/${metadata.id}`);
+    if (error) throw new Error(error.message);
+    return { ...metadata, blob: data };
+  }
+
+  private async selectOrganization(column: string, value: string): Promise<Organization | null> {
+    const { data, error } = await this.client.from('organizations').select().eq(column, value).maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? fromOrganizationRow(data) : null;
+  }
+
+  // Row helpers: filters are snake_case columns, entities go through toRow/fromRow
+
+  private async insert<T>(table: string, entity: Record<string, any>): Promise<T> {
+    const { data, error } = await this.client.from(table).insert(toRow(entity)).select().single();
+    if (error) throw new Error(error.message);
+    return fromRow<T>(data);
+  }
+
+  private async select<T>(table: string, filters: Record<string, unknown>, orderBy?: string): Promise<T[]> {
+    let query = this.client.from(table).select().match(filters);
+    if (orderBy) query = query.order(orderBy);
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return data.map(row => fromRow<T>(row));
+  }
+
+  private async selectOne<T>(table: string, filters: Record<string, unknown>): Promise<T | null> {
+    const { data, error } = await this.client.from(table).select().match(filters).limit(1).maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? fromRow<T>(data) : null;
+  }
+
+  private async update<T>(table: string, filters: Record<string, unknown>, updates: Record<string, any>): Promise<T> {
+    const { data, error } = await this.client.from(table).update(toRow(updates)).match(filters).select().maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!data) throw new Error(`No ${table.replace(/_/g, ' ')} record matched`);
+    return fromRow<T>(data);
+  }
+
+  private async remove(table: string, filters: Record<string, unknown>): Promise<void> {
+    const { error } = await this.client.from(table).delete().match(filters);
+    if (error) throw new Error(error.message);
+  }
+}
+
+// Membership ids are user ids: there is one per user
+function toMembership(user: User): Membership {
+  return {
+    id: user.id,
+    userId: user.id,
+    orgId: user.orgId,
+    role: user.role,
+    customRoleId: user.customRoleId,
+    department: user.department,
+    jobTitle: user.jobTitle,
+    status: 'active',
+    joinedAt: user.createdAt
+  };
+}
+
+// Organizations keep their settings in flat columns rather than one JSON object
+function toOrganizationRow(org: Partial<Organization>): Record<string, any> {
+  const { orgId, inviteCode, settings, ...rest } = org;
+  return toRow({
+    ...rest,
+    id: orgId,
+    orgCode: inviteCode,
+    ...(settings && {
+      primaryColor: settings.primaryColor,
+      secondaryColor: settings.secondaryColor,
+      defaultDigestTime: settings.defaultDigestTime,
+      customFields: settings.customFields,
+      checklistTemplates: settings.checklistTemplates,
+      approvalRules: settings.approvalRules,
+      slaPolicies: settings.slaPolicies,
+      duplicateDetection: settings.duplicateDetection,
+      domain: settings.domain,
+      logoUrl: settings.logoUrl
+    })
+  });
+}
+
+function fromOrganizationRow(row: Record<string, any>): Organization {
+  const org = fromRow<Record<string, any>>(row);
+  return {
+    orgId: org.id,
+    name: org.name,
+    inviteCode: org.orgCode,
+    createdBy: org.createdBy || '',
+    createdAt: org.createdAt,
+    settings: {
+      primaryColor: org.primaryColor,
+      secondaryColor: org.secondaryColor,
+      defaultDigestTime: org.defaultDigestTime,
+      customFields: org.customFields || [],
+      checklistTemplates: org.checklistTemplates || [],
+      approvalRules: org.approvalRules || [],
+      slaPolicies: org.slaPolicies,
+      duplicateDetection: org.duplicateDetection,
+      domain: org.domain,
+      logoUrl: org.logoUrl
+    }
+  };
+}
@@ -0,0 +1,81 @@
+import type { OrgChartNode } from './database';
+import type { SyncEntity } from './syncOutbox';
+
+// How a local change that lost to a newer server copy is settled:
+// - last-writer-wins: the server copy stands and the discarded edit goes to the audit log
+// - tree-position: field edits from both sides are merged; a move is kept unless it breaks the tree
+export type ConflictRule = 'last-writer-wins' | 'tree-position';
+
+export const CONFLICT_RULES: Record<SyncEntity, ConflictRule> = {
+  users: 'last-writer-wins',
+  organizations: 'last-writer-wins',
+  fundingRequests: 'last-writer-wins',
+  queryMessages: 'last-writer-wins',
+  orgChartNodes: 'tree-position',
+  inviteTokens: 'last-writer-wins',
+  approvalChains: 'last-writer-wins',
+  approvalHistory: 'last-writer-wins',
+  memberships: 'last-writer-wins',
+  orgRequests: 'last-writer-wins',
+  orgAuditLogs: 'last-writer-wins',
+  budgets: 'last-writer-wins',
+  invoices: 'last-writer-wins'
+};
+
+// Fields that place a node in the tree; they move together
+const TREE_FIELDS = ['parentId', 'level', 'position'] as const;
+
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const changedFields = (from: Record<string, any>, to: Record<string, any>) =>
+  Array.from(new Set([...Object.keys(from), ...Object.keys(to)]))
+    .filter(field => !IGNORED_FIELDS.has(field) && !sameValue(from[field], to[field]));
+
+// True when putting `nodeId` under `parentId` would make the node its own ancestor
+export function createsCycle(nodeId: string, parentId: string | undefined, nodes: Pick<OrgChartNode, 'id' | 'parentId'>[]): boolean {
+  const parents = new Map(nodes.map(node => [node.id, node.parentId]));
+  const seen = new Set<string>();
+  let current = parentId;
+  while (current) {
+    if (current === nodeId || seen.has(current)) return true;
+    seen.add(current);
+    current = parents.get(current);
+  }
+  return false;
+}
+
+// Three-way merge of an org chart node edited on this device (`local`, starting from `base`)
+// and, more recently, elsewhere (`server`). `tree` is the rest of the chart as the server has it.
+export function mergeOrgChartNode(
+  base: OrgChartNode | null,
+  local: OrgChartNode,
+  server: OrgChartNode,
+  tree: Pick<OrgChartNode, 'id' | 'parentId'>[]
+): OrgChartNode {
+  if (!base) return server;
+
+  const merged: Record<string, any> = { ...server };
+  const localChanges = changedFields(base, local);
+  const serverChanges = new Set(changedFields(base, server));
+
+  // Non-positional fields: keep local edits the server did not also make
+  for (const field of localChanges) {
+    if ((TREE_FIELDS as readonly string[]).includes(field) || serverChanges.has(field)) continue;
+    merged[field] = (local as any)[field];
+  }
+
+  // Position: a local move survives unless the node was also moved elsewhere or the move would now form a cycle
+  const movedLocally = TREE_FIELDS.some(field => localChanges.includes(field));
+  const movedOnServer = TREE_FIELDS.some(field => serverChanges.has(field));
+  if (movedLocally && !movedOnServer) {
+    const others = tree.filter(node => node.id !== local.id);
+    const parentExists = !local.parentId || others.some(node => node.id === local.parentId);
+    if (parentExists && !createsCycle(local.id, local.parentId, others)) {
+      for (const field of TREE_FIELDS) merged[field] = local[field];
+    }
+  }
+
+  return merged as OrgChartNode;
+}
@@ -0,0 +1,385 @@
+import { config } from './config';
+import { db, browserStorage } from './browserStorage';
+import { apiFetch, apiToken, clearApiSession, saveApiSession } from './apiSession';
+import { applyFromSync, onOutboxChange } from './syncOutbox';
+import type { OutboxEntry, SyncEntity } from './syncOutbox';
+import { CONFLICT_RULES, mergeOrgChartNode } from './syncConflicts';
+import { reviveDates } from './storageRows';
+import { LOCAL_ONLY_FIELDS, withoutLocalOnlyFields } from '@shared/contracts';
+import type { OrgChartNode } from './database';
+
+// How often the outbox is flushed and the server polled while the app is open
+export const SYNC_INTERVAL_MS = 30 * 1000;
+
+// Local edits are pushed this long after the last one, so a burst goes out as one batch
+const PUSH_DELAY_MS = 2000;
+const PUSH_BATCH_SIZE = 100;
+const CURSOR_KEY = 'pullCursor';
+const LAST_SYNCED_KEY = 'lastSyncedAt';
+
+export type SyncStatus = 'disconnected' | 'offline' | 'idle' | 'syncing' | 'error';
+
+export interface SyncSnapshot {
+  status: SyncStatus;
+  pending: number;            // local changes not yet on the server
+  lastSyncedAt: Date | null;
+  received: number;           // records changed by the last sync
+  error: string | null;
+}
+
+// A change the server refused, with its copy of the record if it has one
+interface RejectedChange {
+  entity: SyncEntity;
+  key: string;
+  reason: string;
+  stored: { data: any; deleted: boolean } | null;
+}
+
+interface RemoteDocument {
+  entity: SyncEntity;
+  key: string;
+  data: any;
+  deleted: boolean;
+  changedAt: string;
+}
+
+type SyncListener = (snapshot: SyncSnapshot) => void;
+
+// Replays the IndexedDB outbox to the Express server and pulls everyone else's changes.
+// Only runs with the IndexedDB backend; the other backends write to the server directly.
+class SyncEngine {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private pushTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribeOutbox: (() => void) | null = null;
+  private running: Promise<void> | null = null;
+  private listeners: SyncListener[] = [];
+  private snapshot: SyncSnapshot = { status: 'disconnected', pending: 0, lastSyncedAt: null, received: 0, error: null };
+
+  get enabled(): boolean {
+    return config.storage.backend === 'indexeddb';
+  }
+
+  isConnected(): boolean {
+    return !!apiToken();
+  }
+
+  getSnapshot(): SyncSnapshot {
+    return this.snapshot;
+  }
+
+  start() {
+    if (!this.enabled || this.timer) return;
+    window.addEventListener('online', this.handleConnectivity);
+    window.addEventListener('offline', this.handleConnectivity);
+    this.unsubscribeOutbox = onOutboxChange(this.handleLocalChange);
+    this.timer = setInterval(() => this.sync(), SYNC_INTERVAL_MS);
+    this.restoreLastSynced().then(() => this.sync());
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.pushTimer) {
+      clearTimeout(this.pushTimer);
+      this.pushTimer = null;
+    }
+    this.unsubscribeOutbox?.();
+    this.unsubscribeOutbox = null;
+    window.removeEventListener('online', this.handleConnectivity);
+    window.removeEventListener('offline', this.handleConnectivity);
+  }
+
+  addListener(listener: SyncListener) {
+    this.listeners.push(listener);
+    listener(this.snapshot);
+  }
+
+  removeListener(listener: SyncListener) {
+    const index = this.listeners.indexOf(listener);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  // Sign in to the team server; from then on this browser's data is kept in step with it
+  async connect(email: string, password: string): Promise<void> {
+    const res = await fetch(`${config.storage.apiUrl}/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password })
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || 'Could not sign in to the sync server');
+
+    saveApiSession(data);
+    await this.sync();
+    if (this.snapshot.status === 'error') throw new Error(this.snapshot.error || 'Sync failed');
+  }
+
+  async disconnect(): Promise<void> {
+    clearApiSession();
+    await this.update({ error: null });
+  }
+
+  // Push, then pull. Concurrent callers share the run in progress.
+  sync(): Promise<void> {
+    if (!this.enabled) return Promise.resolve();
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private handleConnectivity = () => {
+    if (navigator.onLine) {
+      this.sync();
+    } else {
+      this.update({});
+    }
+  };
+
+  private handleLocalChange = () => {
+    this.update({});
+    if (this.pushTimer) clearTimeout(this.pushTimer);
+    this.pushTimer = setTimeout(() => {
+      this.pushTimer = null;
+      this.sync();
+    }, PUSH_DELAY_MS);
+  };
+
+  private async run(): Promise<void> {
+    if (!this.isConnected() || !navigator.onLine) {
+      await this.update({});
+      return;
+    }
+
+    await this.update({ status: 'syncing', error: null });
+    try {
+      await this.push();
+      const received = await this.pull();
+      const lastSyncedAt = new Date();
+      await db.syncState.put({ key: LAST_SYNCED_KEY, value: lastSyncedAt });
+      await this.update({ status: 'idle', lastSyncedAt, received });
+    } catch (error: any) {
+      console.error('Sync failed:', error);
+      if (error.status === 401 || error.status === 403) {
+        clearApiSession();
+      }
+      await this.update({ status: 'error', error: error.message || 'Sync failed', received: 0 });
+    }
+  }
+
+  private async push(): Promise<void> {
+    // Conflicts that merge cleanly are re-queued, so keep going until the outbox is drained or stuck
+    for (let pass = 0; pass < 3; pass++) {
+      const entries = await db.outbox.orderBy('seq').limit(PUSH_BATCH_SIZE).toArray();
+      if (entries.length === 0) return;
+
+      const changes = await Promise.all(entries.map(async entry => {
+        const data = entry.op === 'put' ? await db.table(entry.entity).get(parseKey(entry.key)) : null;
+        return {
+          entity: entry.entity,
+          key: entry.key,
+          op: data ? entry.op : 'delete',
+          data: withoutLocalOnlyFields(entry.entity, data),
+          changedAt: entry.queuedAt.toISOString()
+        };
+      }));
+
+      const result = await this.request<{
+        applied: { entity: SyncEntity; key: string }[];
+        conflicts: RemoteDocument[];
+        overwritten: { entity: SyncEntity; key: string; data: any }[];
+        rejected: RejectedChange[];
+      }>('POST', '/sync/push', { changes });
+
+      // An entry edited again while the push was in flight stays queued
+      const pushedAt = new Map(entries.map(entry => [`${entry.entity}:${entry.key}`, entry.queuedAt.getTime()]));
+      for (const { entity, key } of result.applied) {
+        await db.transaction('rw', db.outbox, async () => {
+          const entry = await db.outbox.where('[entity+key]').equals([entity, key]).first();
+          if (entry && entry.queuedAt.getTime() === pushedAt.get(`${entity}:${key}`)) {
+            await db.outbox.delete(entry.seq!);
+          }
+        });
+      }
+
+      for (const overwritten of result.overwritten) {
+        if (overwritten.entity === 'orgAuditLogs') continue;
+        await this.audit('sync_overwrite', overwritten.entity, overwritten.key, reviveDates(overwritten.data), { replaced: overwritten.data });
+      }
+
+      await this.dropRejected(entries, result.rejected);
+      const requeued = await this.resolveConflicts(entries, result.conflicts);
+      if (!requeued && result.conflicts.length === 0 && entries.length < PUSH_BATCH_SIZE) return;
+    }
+  }
+
+  // A refused change is not retried: the record goes back to the server's copy, or stays
+  // local if the server has none, and the refusal is kept in the audit trail
+  private async dropRejected(entries: OutboxEntry[], rejected: RejectedChange[]) {
+    for (const rejection of rejected) {
+      const entry = entries.find(e => e.entity === rejection.entity && e.key === rejection.key);
+      if (!entry) continue;
+
+      const table = db.table(rejection.entity);
+      const local = await table.get(parseKey(rejection.key));
+      const server = rejection.stored && !rejection.stored.deleted
+        ? await this.withLocalOnlyFields(rejection.entity, rejection.key, reviveDates(rejection.stored.data))
+        : null;
+
+      await applyFromSync(db, [table, db.outbox], async () => {
+        if (server) {
+          await table.put(server);
+        } else if (rejection.stored) {
+          await table.delete(parseKey(rejection.key));
+        }
+        await db.outbox.delete(entry.seq!);
+      });
+      if (rejection.entity !== 'orgAuditLogs') {
+        await this.audit('sync_rejected', rejection.entity, rejection.key, server || local, { reason: rejection.reason });
+      }
+    }
+  }
+
+  // Returns whether any merged record was queued for another push
+  private async resolveConflicts(entries: OutboxEntry[], conflicts: RemoteDocument[]): Promise<boolean> {
+    let requeued = false;
+
+    for (const conflict of conflicts) {
+      const entry = entries.find(e => e.entity === conflict.entity && e.key === conflict.key);
+      if (!entry) continue;
+
+      const table = db.table(conflict.entity);
+      const local = await table.get(parseKey(conflict.key));
+      const server = conflict.deleted ? null : await this.withLocalOnlyFields(conflict.entity, conflict.key, reviveDates(conflict.data));
+
+      if (CONFLICT_RULES[conflict.entity] === 'tree-position' && local && server && entry.op === 'put') {
+        const tree = (await db.orgChartNodes.where('orgId').equals(server.orgId).toArray())
+          .map(node => (node.id === server.id ? server : node));
+        const merged = mergeOrgChartNode(entry.base, local as OrgChartNode, server, tree);
+
+        await applyFromSync(db, [table, db.outbox], async () => {
+          await table.put(merged);
+          await db.outbox.update(entry.seq!, { base: server, queuedAt: new Date() });
+        });
+        requeued = true;
+        continue;
+      }
+
+      // Last writer wins: take the server copy and keep the discarded edit in the audit trail
+      await applyFromSync(db, [table, db.outbox], async () => {
+        if (server) {
+          await table.put(server);
+        } else {
+          await table.delete(parseKey(conflict.key));
+        }
+        await db.outbox.delete(entry.seq!);
+      });
+      if (conflict.entity !== 'orgAuditLogs') {
+        await this.audit('sync_conflict', conflict.entity, conflict.key, server || local, {
+          discarded: entry.op === 'delete' ? { deleted: true } : withoutLocalOnlyFields(conflict.entity, local),
+          kept: withoutLocalOnlyFields(conflict.entity, server) || { deleted: true }
+        });
+      }
+    }
+
+    return requeued;
+  }
+
+  private async pull(): Promise<number> {
+    let received = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      const cursor = (await db.syncState.get(CURSOR_KEY))?.value || null;
+      const page = await this.request<{ documents: RemoteDocument[]; cursor: string | null; hasMore: boolean }>(
+        'GET',
+        `/sync/pull${cursor ? `?since=${encodeURIComponent(cursor)}` : ''}`
+      );
+
+      // Records with unpushed local edits are left alone; the next push settles them
+      const pending = new Set((await db.outbox.toArray()).map(entry => `${entry.entity}:${entry.key}`));
+      const documents = page.documents.filter(doc => !pending.has(`${doc.entity}:${doc.key}`));
+      const tables = Array.from(new Set(documents.map(doc => doc.entity))).map(entity => db.table(entity));
+
+      await applyFromSync(db, [...tables, db.syncState], async () => {
+        for (const doc of documents) {
+          const table = db.table(doc.entity);
+          if (doc.deleted) {
+            await table.delete(parseKey(doc.key));
+          } else {
+            await table.put(await this.withLocalOnlyFields(doc.entity, doc.key, reviveDates(doc.data)));
+          }
+        }
+        await db.syncState.put({ key: CURSOR_KEY, value: page.cursor });
+      });
+
+      received += documents.length;
+      hasMore = page.hasMore;
+    }
+
+    return received;
+  }
+
+  // Pulled records never carry credentials; keep the ones this browser already holds
+  private async withLocalOnlyFields(entity: SyncEntity, key: string, record: any) {
+    const fields = LOCAL_ONLY_FIELDS[entity];
+    if (!fields) return record;
+    const local = await db.table(entity).get(parseKey(key));
+    const merged = withoutLocalOnlyFields(entity, record);
+    for (const field of fields) {
+      if (local?.[field] !== undefined) merged[field] = local[field];
+    }
+    return merged;
+  }
+
+  private async audit(action: string, entity: SyncEntity, key: string, record: any, details: any) {
+    const orgId = record?.orgId || (entity === 'organizations' ? key : null);
+    if (!orgId) return;
+    await browserStorage.logAuditAction(orgId, action, entity, key, details);
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const res = await apiFetch(config.storage.apiUrl, method, path, body);
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      const error: any = new Error(data.error || data.message || `Sync server returned ${res.status}`);
+      error.status = res.status;
+      throw error;
+    }
+    return data as T;
+  }
+
+  private async restoreLastSynced() {
+    const stored = await db.syncState.get(LAST_SYNCED_KEY);
+    if (stored) this.snapshot = { ...this.snapshot, lastSyncedAt: stored.value };
+  }
+
+  private async update(changes: Partial<SyncSnapshot>) {
+    const status = !this.isConnected()
+      ? 'disconnected'
+      : !navigator.onLine
+        ? 'offline'
+        : changes.status || (this.snapshot.status === 'disconnected' || this.snapshot.status === 'offline' ? 'idle' : this.snapshot.status);
+
+    this.snapshot = {
+      ...this.snapshot,
+      ...changes,
+      status,
+      pending: await db.outbox.count()
+    };
+    this.listeners.forEach(listener => listener(this.snapshot));
+  }
+}
+
+// Outbox keys are strings; compound primary keys were stored as JSON
+function parseKey(key: string): any {
+  return key.startsWith('[') ? JSON.parse(key) : key;
+}
+
+export const syncEngine = new SyncEngine();
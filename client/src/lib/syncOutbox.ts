@@ -0,0 +1,102 @@
+import type Dexie from 'dexie';
+import type { Table, Transaction } from 'dexie';
+
+// Tables replicated to the server. Attachments stay local: their blobs are not JSON, and
+// user records go without their credentials (LOCAL_ONLY_FIELDS in shared/contracts).
+export const SYNCED_TABLES = [
+  'users',
+  'organizations',
+  'fundingRequests',
+  'queryMessages',
+  'orgChartNodes',
+  'inviteTokens',
+  'approvalChains',
+  'approvalHistory',
+  'memberships',
+  'orgRequests',
+  'orgAuditLogs',
+  'budgets',
+  'invoices'
+] as const;
+
+export type SyncEntity = typeof SYNCED_TABLES[number];
+
+// A local change waiting to be pushed. Repeated edits to one record share an entry;
+// `base` keeps the record as it was before the first of them, for three-way merges.
+export interface OutboxEntry {
+  seq?: number;
+  entity: SyncEntity;
+  key: string;
+  op: 'put' | 'delete';
+  base: any | null;
+  queuedAt: Date;
+}
+
+export interface SyncStateEntry {
+  key: string;
+  value: any;
+}
+
+type OutboxDatabase = Dexie & {
+  outbox: Table<OutboxEntry, number>;
+};
+
+const outboxListeners = new Set<() => void>();
+
+// Notified after each local change is queued; returns an unsubscribe function
+export function onOutboxChange(listener: () => void): () => void {
+  outboxListeners.add(listener);
+  return () => outboxListeners.delete(listener);
+}
+
+// Writes made while applying pulled changes carry this flag so they are not pushed back
+const FROM_SYNC = '__fromSync';
+
+export const isSyncTransaction = (trans: Transaction | undefined) => !!(trans as any)?.[FROM_SYNC];
+
+export const outboxKey = (primKey: unknown) => Array.isArray(primKey) ? JSON.stringify(primKey) : String(primKey);
+
+// Record every create, update and delete on the synced tables in the outbox
+export function trackChanges(db: OutboxDatabase) {
+  const enqueue = (entity: SyncEntity, key: string, op: OutboxEntry['op'], base: any | null) =>
+    db.transaction('rw', db.outbox, async () => {
+      const existing = await db.outbox.where('[entity+key]').equals([entity, key]).first();
+      if (existing) {
+        await db.outbox.update(existing.seq!, { op, queuedAt: new Date() });
+      } else {
+        await db.outbox.add({ entity, key, op, base, queuedAt: new Date() });
+      }
+    })
+      .then(() => outboxListeners.forEach(listener => listener()))
+      .catch(error => console.error('Failed to record change for sync:', error));
+
+  for (const entity of SYNCED_TABLES) {
+    const table = db.table(entity);
+
+    table.hook('creating', (primKey, obj, trans) => {
+      if (isSyncTransaction(trans)) return;
+      const key = outboxKey(primKey ?? obj[table.schema.primKey.keyPath as string]);
+      trans.on('complete', () => enqueue(entity, key, 'put', null));
+    });
+
+    table.hook('updating', (_mods, primKey, obj, trans) => {
+      if (isSyncTransaction(trans)) return;
+      const base = structuredClone(obj);
+      trans.on('complete', () => enqueue(entity, outboxKey(primKey), 'put', base));
+    });
+
+    table.hook('deleting', (primKey, obj, trans) => {
+      if (isSyncTransaction(trans)) return;
+      const base = structuredClone(obj);
+      trans.on('complete', () => enqueue(entity, outboxKey(primKey), 'delete', base));
+    });
+  }
+}
+
+// Run writes that came from the server without recording them as local changes
+export function applyFromSync<T>(db: Dexie, tables: Table[], apply: () => Promise<T>): Promise<T> {
+  return db.transaction('rw', tables, async (trans) => {
+    (trans as any)[FROM_SYNC] = true;
+    return apply();
+  });
+}
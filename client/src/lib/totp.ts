@@ -0,0 +1,106 @@
+// Time-based one-time passwords (RFC 6238: HMAC-SHA1, 6 digits, 30 second steps) through
+// WebCrypto, with the base32 secrets authenticator apps expect. Recovery codes are only
+// ever stored as SHA-256 digests.
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const SECRET_BYTES = 20;
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(bytes: Uint8Array): string {
+  let output = '';
+  let value = 0;
+  let bits = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8) | bytes[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    value &= (1 << bits) - 1;
+  }
+  if (bits > 0) output += BASE32[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(text: string): Uint8Array {
+  const bytes: number[] = [];
+  let value = 0;
+  let bits = 0;
+  for (const char of text.replace(/[\s=-]/g, '').toUpperCase()) {
+    const index = BASE32.indexOf(char);
+    if (index < 0) throw new Error('Invalid base32 secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+    value &= (1 << bits) - 1;
+  }
+  return new Uint8Array(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+}
+
+// RFC 4226 HOTP with dynamic truncation
+async function hotp(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+
+  const offset = mac[mac.length - 1] & 0xf;
+  const binary = ((mac[offset] & 0x7f) << 24) | (mac[offset + 1] << 16) | (mac[offset + 2] << 8) | mac[offset + 3];
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+export const timeStep = (at = Date.now()) => Math.floor(at / 1000 / STEP_SECONDS);
+
+export function totpCode(secret: string, at = Date.now()): Promise<string> {
+  return hotp(secret, timeStep(at));
+}
+
+// Accepts the neighbouring steps too, to allow for clock drift. Returns the matched step so
+// the caller can store it and refuse that code (or an older one) next time.
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep?: number,
+  at = Date.now()
+): Promise<number | null> {
+  const candidate = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(candidate)) return null;
+
+  const current = timeStep(at);
+  for (const step of [current - 1, current, current + 1]) {
+    if (lastUsedStep !== undefined && step <= lastUsedStep) continue;
+    if ((await hotp(secret, step)) === candidate) return step;
+  }
+  return null;
+}
+
+// The otpauth:// URI authenticator apps read from the enrollment QR code
+export function totpUri(secret: string, account: string, issuer = 'RapidFunds'): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// Single-use codes shown once at enrollment, formatted `xxxxx-xxxxx`
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+export async function hashRecoveryCode(code: string): Promise<string> {
+  const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(hash)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,43 @@
+// Two-factor policy and code checks shared by sign-in, step-up and the 2FA settings endpoints
+import { verifyTotp, hashRecoveryCode } from './totp';
+import { storage } from './storageBackend';
+import type { User, Organization, TwoFactorSettings } from './database';
+
+// Roles an organization can require a second factor for
+export const TWO_FACTOR_ROLES: User['role'][] = ['Admin', 'Approver', 'Finance'];
+
+// Second factors are checked in the browser against secrets kept in local storage. Remote
+// backends sign in on the server, which cannot check them, so 2FA is off there.
+export const isTwoFactorAvailable = () => !!storage.saveTwoFactorSecret;
+
+export const isTwoFactorEnabled = (user: Pick<User, 'twoFactor'> | null | undefined) =>
+  isTwoFactorAvailable() && !!user?.twoFactor?.enabledAt;
+
+// The org requires 2FA for this member's role
+export function twoFactorRequiredFor(user: Pick<User, 'role'>, org: Organization | null | undefined): boolean {
+  return isTwoFactorAvailable() && !!org?.settings.twoFactor?.required && TWO_FACTOR_ROLES.includes(user.role);
+}
+
+// Required but not set up yet; such members can only reach their profile to enroll
+export function needsTwoFactorSetup(user: User | null | undefined, org: Organization | null | undefined): boolean {
+  return !!user && twoFactorRequiredFor(user, org) && !isTwoFactorEnabled(user);
+}
+
+// Approving this amount asks the approver to confirm it is them again
+export function stepUpRequiredFor(amount: number, org: Organization | null | undefined): boolean {
+  const threshold = org?.settings.twoFactor?.stepUpAmount;
+  return threshold !== undefined && amount > threshold;
+}
+
+// Check an authenticator or recovery code. Returns the settings to save (with the code
+// used up) or null when the code is wrong.
+export async function consumeSecondFactor(settings: TwoFactorSettings, code: string): Promise<TwoFactorSettings | null> {
+  const step = await verifyTotp(settings.secret, code, settings.lastUsedStep);
+  if (step !== null) return { ...settings, lastUsedStep: step };
+
+  const hash = await hashRecoveryCode(code);
+  if (settings.recoveryCodeHashes.includes(hash)) {
+    return { ...settings, recoveryCodeHashes: settings.recoveryCodeHashes.filter(h => h !== hash) };
+  }
+  return null;
+}
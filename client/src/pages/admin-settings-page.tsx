@@ -1,4 +1,6 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { useAuth } from "@/hooks/use-auth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,18 +8,73 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import ApprovalRuleEditor from "@/components/approval-rule-editor";
+import SlaPolicyEditor from "@/components/sla-policy-editor";
+import BudgetManager from "@/components/budget-manager";
+import DuplicateDetectionEditor from "@/components/duplicate-detection-editor";
+import OrgChartRulesEditor from "@/components/org-chart-rules-editor";
+import HierarchyLevelsEditor from "@/components/hierarchy-levels-editor";
+import RolePermissionsEditor from "@/components/role-permissions-editor";
+import TwoFactorPolicyEditor from "@/components/two-factor-policy-editor";
+import DomainSettings from "@/components/domain-settings";
+import MemberRequestQueue from "@/components/member-request-queue";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Organization, InviteToken, ApprovalChain, User } from "../lib/database";
+import { apiRequest, queryClient, readJson } from "@/lib/queryClient";
+import { applyFieldErrors } from "@/lib/formErrors";
+import { can, canAny, SETTINGS_CAPABILITIES } from "@/lib/permissions";
+import { Organization, InviteToken, ApprovalChain, User, SlaPolicy, DuplicateDetectionSettings, TwoFactorPolicy, DomainJoinPolicy, MemberApprovalPolicy, OrgChartRules, HierarchyLevel, ApprovalChainLevel } from "../lib/database";
+import type { ApiPayload } from "../lib/apiRoutes";
+import { organizationUpdateInput, approvalChainInput, inviteTokenInput } from "@shared/contracts";
+import type { RoleAssignmentInput } from "@shared/contracts";
+import type { ApprovalRule } from "@shared/approvalRules";
+import type { RoleDefinition } from "@shared/permissions";
 import { Settings, Palette, Plus, X, CheckCircle, Upload, Image, Link2, Copy, Trash2, GitBranch, ArrowRight } from "lucide-react";
 import { useState, useEffect, useRef } from "react";
 import { Redirect } from "wouter";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { format } from "date-fns";
 
+interface BrandingFormValues {
+  name: string;
+  settings: { primaryColor: string; secondaryColor: string };
+}
+
+// Amounts stay strings while typed; the contract turns blanks into "no limit"
+interface ChainFormValues {
+  name: string;
+  department: string;
+  category: string;
+  minAmount: string;
+  maxAmount: string;
+  isDefault: boolean;
+  levels: ApprovalChainLevel[];
+}
+
+interface InviteFormValues {
+  role: InviteToken["role"];
+  expiresInDays: string;
+}
+
+const EMPTY_CHAIN: ChainFormValues = {
+  name: "",
+  department: "",
+  category: "",
+  minAmount: "",
+  maxAmount: "",
+  isDefault: false,
+  levels: [{ level: 1, approverId: "", approverName: "" }],
+};
+
 export default function AdminSettingsPage() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const canManageOrg = can(user, "org.manage");
+  const canManageChains = can(user, "approval_chain.manage");
+  const canManageBudgets = can(user, "budget.manage");
+  const canCreateInvites = can(user, "invite.create");
+  const canManageMembers = can(user, "member.manage");
 
   const { data: organization } = useQuery<Organization>({
     queryKey: ["/api/organization"],
@@ -25,35 +82,44 @@ export default function AdminSettingsPage() {
 
   const { data: inviteTokens = [] } = useQuery<InviteToken[]>({
     queryKey: ["/api/invite-tokens"],
+    enabled: canCreateInvites,
   });
 
   const { data: approvalChains = [] } = useQuery<ApprovalChain[]>({
     queryKey: ["/api/approval-chains"],
+    enabled: canManageChains,
+  });
+
+  const { data: members = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    enabled: canManageOrg && canManageMembers,
   });
 
   const { data: approvers = [] } = useQuery<User[]>({
     queryKey: ["/api/approvers"],
   });
 
-  const [orgName, setOrgName] = useState("");
+  const brandingForm = useForm<BrandingFormValues>({
+    resolver: zodResolver(organizationUpdateInput),
+    defaultValues: { name: "", settings: { primaryColor: "#0EA5E9", secondaryColor: "#10B981" } },
+  });
+  const [primaryColor, secondaryColor] = brandingForm.watch(["settings.primaryColor", "settings.secondaryColor"]);
   const [logoUrl, setLogoUrl] = useState<string | null>(null);
-  const [primaryColor, setPrimaryColor] = useState("#0EA5E9");
-  const [secondaryColor, setSecondaryColor] = useState("#10B981");
   const [newFieldName, setNewFieldName] = useState("");
   const [customFields, setCustomFields] = useState<{ name: string; type: string; required: boolean }[]>([]);
   const [uploading, setUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [selectedRole, setSelectedRole] = useState<string>("Requester");
-  const [expiresInDays, setExpiresInDays] = useState<string>("7");
+  const inviteForm = useForm<InviteFormValues>({
+    resolver: zodResolver(inviteTokenInput),
+    defaultValues: { role: "Requester", expiresInDays: "7" },
+  });
   const [baseUrl, setBaseUrl] = useState<string>("");
   
-  // Approval chains state
-  const [chainName, setChainName] = useState("");
-  const [chainDepartment, setChainDepartment] = useState("");
-  const [chainCategory, setChainCategory] = useState("");
-  const [chainLevels, setChainLevels] = useState<{ level: number; approverId: string; approverName: string }[]>([
-    { level: 1, approverId: "", approverName: "" }
-  ]);
+  const chainForm = useForm<ChainFormValues>({
+    resolver: zodResolver(approvalChainInput),
+    defaultValues: EMPTY_CHAIN,
+  });
+  const chainLevels = useFieldArray({ control: chainForm.control, name: "levels" });
 
   useEffect(() => {
     // Set base URL only on client side
@@ -64,18 +130,23 @@ export default function AdminSettingsPage() {
 
   useEffect(() => {
     if (organization) {
-      setOrgName(organization.name);
-      setLogoUrl(organization.logoUrl || null);
-      setPrimaryColor(organization.primaryColor || "#0EA5E9");
-      setSecondaryColor(organization.secondaryColor || "#10B981");
-      setCustomFields(organization.customFields || []);
+      brandingForm.reset({
+        name: organization.name,
+        settings: {
+          primaryColor: organization.settings.primaryColor || "#0EA5E9",
+          secondaryColor: organization.settings.secondaryColor || "#10B981",
+        },
+      });
+      setLogoUrl(organization.settings.logoUrl || null);
+      setCustomFields(organization.settings.customFields || []);
     }
   }, [organization]);
 
+  // Only the settings that change are sent; BrowserApi merges them into the stored ones
   const updateOrgMutation = useMutation({
-    mutationFn: async (data: Partial<Organization>) => {
+    mutationFn: async (data: ApiPayload<"PATCH", "/api/organization">) => {
       const res = await apiRequest("PATCH", "/api/organization", data);
-      return await res.json();
+      return await readJson<Organization>(res);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
@@ -84,12 +155,70 @@ export default function AdminSettingsPage() {
         description: "Organization settings updated successfully",
       });
     },
+    onError: (error: Error) => {
+      if (applyFieldErrors(brandingForm, error)) return;
+      toast({ title: "Could not save settings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleApprovalRulesChange = (approvalRules: ApprovalRule[]) => {
+    updateOrgMutation.mutate({ settings: { approvalRules } });
+  };
+
+  const handleSlaPoliciesChange = (slaPolicies: SlaPolicy[]) => {
+    updateOrgMutation.mutate({ settings: { slaPolicies } });
+  };
+
+  const handleDuplicateDetectionChange = (duplicateDetection: DuplicateDetectionSettings) => {
+    updateOrgMutation.mutate({ settings: { duplicateDetection } });
+  };
+
+  const handleOrgChartRulesChange = (orgChartRules: OrgChartRules) => {
+    updateOrgMutation.mutate({ settings: { orgChartRules } });
+  };
+
+  const handleHierarchyLevelsChange = (hierarchyLevels: HierarchyLevel[]) => {
+    updateOrgMutation.mutate({ settings: { hierarchyLevels } });
+  };
+
+  const handleTwoFactorPolicyChange = (twoFactor: TwoFactorPolicy) => {
+    updateOrgMutation.mutate({ settings: { twoFactor } });
+  };
+
+  const handleDomainJoinChange = (domainJoin: DomainJoinPolicy) => {
+    updateOrgMutation.mutate({ settings: { domainJoin } });
+  };
+
+  const handleMemberApprovalsChange = (memberApprovals: MemberApprovalPolicy) => {
+    updateOrgMutation.mutate({ settings: { memberApprovals } });
+  };
+
+  const handleRolesChange = (roles: RoleDefinition[]) => {
+    updateOrgMutation.mutate({ settings: { roles } });
+  };
+
+  const assignRoleMutation = useMutation({
+    mutationFn: async ({ userId, assignment }: { userId: string; assignment: RoleAssignmentInput }) => {
+      const res = await apiRequest("PATCH", `/api/users/${userId}/role`, assignment);
+      return await readJson<User>(res);
+    },
+    onSuccess: (member) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      if (member.id === user?.id) queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Role updated",
+        description: `${member.fullName}'s access has been changed`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not change role", description: error.message, variant: "destructive" });
+    },
   });
 
   const createInviteTokenMutation = useMutation({
-    mutationFn: async (data: { role: string; expiresInDays: number }) => {
+    mutationFn: async (data: ApiPayload<"POST", "/api/invite-tokens">) => {
       const res = await apiRequest("POST", "/api/invite-tokens", data);
-      return await res.json();
+      return await readJson<InviteToken>(res);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/invite-tokens"] });
@@ -98,6 +227,10 @@ export default function AdminSettingsPage() {
         description: "Secure invite link generated successfully",
       });
     },
+    onError: (error: Error) => {
+      if (applyFieldErrors(inviteForm, error)) return;
+      toast({ title: "Could not create invite link", description: error.message, variant: "destructive" });
+    },
   });
 
   const deleteInviteTokenMutation = useMutation({
@@ -114,9 +247,9 @@ export default function AdminSettingsPage() {
   });
 
   const createApprovalChainMutation = useMutation({
-    mutationFn: async (data: { name: string; department: string | null; category: string | null; levels: any[] }) => {
+    mutationFn: async (data: ApiPayload<"POST", "/api/approval-chains">) => {
       const res = await apiRequest("POST", "/api/approval-chains", data);
-      return await res.json();
+      return await readJson<ApprovalChain>(res);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/approval-chains"] });
@@ -124,11 +257,11 @@ export default function AdminSettingsPage() {
         title: "Approval chain created",
         description: "Multi-level approval workflow configured successfully",
       });
-      // Reset form
-      setChainName("");
-      setChainDepartment("");
-      setChainCategory("");
-      setChainLevels([{ level: 1, approverId: "", approverName: "" }]);
+      chainForm.reset(EMPTY_CHAIN);
+    },
+    onError: (error: Error) => {
+      if (applyFieldErrors(chainForm, error)) return;
+      toast({ title: "Could not create approval chain", description: error.message, variant: "destructive" });
     },
   });
 
@@ -145,10 +278,13 @@ export default function AdminSettingsPage() {
     },
   });
 
-  if (user?.role !== "Admin") {
+  if (!canAny(user, SETTINGS_CAPABILITIES)) {
     return <Redirect to="/dashboard" />;
   }
 
+  // Open on the first section this user can change
+  const defaultTab = canManageOrg ? "branding" : canManageChains ? "chains" : canManageBudgets ? "budgets" : canCreateInvites ? "invite" : "members";
+
   const handleAddCustomField = () => {
     if (newFieldName.trim()) {
       const updatedFields = [
@@ -156,7 +292,7 @@ export default function AdminSettingsPage() {
         { name: newFieldName.trim(), type: "text", required: false },
       ];
       setCustomFields(updatedFields);
-      updateOrgMutation.mutate({ customFields: updatedFields });
+      updateOrgMutation.mutate({ settings: { customFields: updatedFields } });
       setNewFieldName("");
     }
   };
@@ -164,7 +300,7 @@ export default function AdminSettingsPage() {
   const handleRemoveCustomField = (index: number) => {
     const updatedFields = customFields.filter((_, i) => i !== index);
     setCustomFields(updatedFields);
-    updateOrgMutation.mutate({ customFields: updatedFields });
+    updateOrgMutation.mutate({ settings: { customFields: updatedFields } });
   };
 
   const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -191,21 +327,10 @@ export default function AdminSettingsPage() {
 
     setUploading(true);
     try {
-      const formData = new FormData();
-      formData.append("file", file);
-
-      const response = await fetch("/api/upload/logo", {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!response.ok) {
-        throw new Error("Upload failed");
-      }
-
-      const data = await response.json();
+      const response = await apiRequest("POST", "/api/upload/logo", file);
+      const data = await readJson<{ logoUrl: string }>(response);
       setLogoUrl(data.logoUrl);
-      updateOrgMutation.mutate({ logoUrl: data.logoUrl });
+      updateOrgMutation.mutate({ settings: { logoUrl: data.logoUrl } });
       toast({
         title: "Logo uploaded",
         description: "Organization logo updated successfully",
@@ -221,20 +346,12 @@ export default function AdminSettingsPage() {
     }
   };
 
-  const handleSaveBranding = () => {
-    updateOrgMutation.mutate({
-      name: orgName,
-      logoUrl: logoUrl || undefined,
-      primaryColor,
-      secondaryColor,
-    });
+  const handleSaveBranding = (values: BrandingFormValues) => {
+    updateOrgMutation.mutate(values);
   };
 
-  const handleCreateInviteToken = () => {
-    createInviteTokenMutation.mutate({
-      role: selectedRole,
-      expiresInDays: parseInt(expiresInDays) || 7,
-    });
+  const handleCreateInviteToken = (values: InviteFormValues) => {
+    createInviteTokenMutation.mutate(values);
   };
 
   const handleCopyInviteLink = (token: string) => {
@@ -253,51 +370,23 @@ export default function AdminSettingsPage() {
   };
 
   const handleAddLevel = () => {
-    const nextLevel = chainLevels.length + 1;
-    setChainLevels([...chainLevels, { level: nextLevel, approverId: "", approverName: "" }]);
+    chainLevels.append({ level: chainLevels.fields.length + 1, approverId: "", approverName: "" });
   };
 
-  const handleRemoveLevel = (level: number) => {
-    if (chainLevels.length > 1) {
-      setChainLevels(chainLevels.filter(l => l.level !== level).map((l, i) => ({ ...l, level: i + 1 })));
-    }
+  // Levels stay numbered 1..n after one is removed
+  const handleRemoveLevel = (index: number) => {
+    chainLevels.remove(index);
+    chainForm.getValues("levels").forEach((_, i) => chainForm.setValue(`levels.${i}.level`, i + 1));
   };
 
-  const handleUpdateLevelApprover = (level: number, approverId: string) => {
+  const handleUpdateLevelApprover = (index: number, approverId: string) => {
     const approver = approvers.find(a => a.id === approverId);
-    setChainLevels(chainLevels.map(l => 
-      l.level === level 
-        ? { ...l, approverId, approverName: approver?.fullName || "" } 
-        : l
-    ));
+    chainForm.setValue(`levels.${index}.approverId`, approverId, { shouldValidate: chainForm.formState.isSubmitted });
+    chainForm.setValue(`levels.${index}.approverName`, approver?.fullName || "");
   };
 
-  const handleCreateChain = () => {
-    if (!chainName.trim()) {
-      toast({
-        title: "Validation error",
-        description: "Please enter a name for the approval chain",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    const invalidLevel = chainLevels.find(l => !l.approverId);
-    if (invalidLevel) {
-      toast({
-        title: "Validation error",
-        description: `Please select an approver for Level ${invalidLevel.level}`,
-        variant: "destructive",
-      });
-      return;
-    }
-
-    createApprovalChainMutation.mutate({
-      name: chainName,
-      department: chainDepartment || null,
-      category: chainCategory || null,
-      levels: chainLevels,
-    });
+  const handleCreateChain = (values: ChainFormValues) => {
+    createApprovalChainMutation.mutate(values);
   };
 
   const handleDeleteChain = (chainId: string) => {
@@ -317,12 +406,29 @@ export default function AdminSettingsPage() {
           </div>
         </div>
 
-        <Tabs defaultValue="branding" className="w-full">
+        <Tabs defaultValue={defaultTab} className="w-full">
           <TabsList>
-            <TabsTrigger value="branding" data-testid="tab-branding">Branding</TabsTrigger>
-            <TabsTrigger value="fields" data-testid="tab-fields">Custom Fields</TabsTrigger>
-            <TabsTrigger value="chains" data-testid="tab-chains">Approval Chains</TabsTrigger>
-            <TabsTrigger value="invite" data-testid="tab-invite">Invite Links</TabsTrigger>
+            {canManageOrg && (
+              <>
+                <TabsTrigger value="branding" data-testid="tab-branding">Branding</TabsTrigger>
+                <TabsTrigger value="fields" data-testid="tab-fields">Custom Fields</TabsTrigger>
+              </>
+            )}
+            {canManageChains && <TabsTrigger value="chains" data-testid="tab-chains">Approval Chains</TabsTrigger>}
+            {canManageOrg && (
+              <>
+                <TabsTrigger value="rules" data-testid="tab-rules">Approval Rules</TabsTrigger>
+                <TabsTrigger value="sla" data-testid="tab-sla">SLA Policies</TabsTrigger>
+              </>
+            )}
+            {canManageBudgets && <TabsTrigger value="budgets" data-testid="tab-budgets">Budgets</TabsTrigger>}
+            {canManageOrg && <TabsTrigger value="duplicates" data-testid="tab-duplicates">Duplicates</TabsTrigger>}
+            {canManageOrg && <TabsTrigger value="orgchart" data-testid="tab-orgchart">Org Chart</TabsTrigger>}
+            {canManageOrg && <TabsTrigger value="security" data-testid="tab-security">Security</TabsTrigger>}
+            {canManageOrg && <TabsTrigger value="domain" data-testid="tab-domain">Domain</TabsTrigger>}
+            {canManageOrg && canManageMembers && <TabsTrigger value="roles" data-testid="tab-roles">Roles</TabsTrigger>}
+            {canManageMembers && <TabsTrigger value="members" data-testid="tab-members">Member Requests</TabsTrigger>}
+            {canCreateInvites && <TabsTrigger value="invite" data-testid="tab-invite">Invite Links</TabsTrigger>}
           </TabsList>
 
           <TabsContent value="branding" className="mt-6">
@@ -334,17 +440,22 @@ export default function AdminSettingsPage() {
                 </CardTitle>
                 <CardDescription>Customize your organization's appearance</CardDescription>
               </CardHeader>
-              <CardContent className="space-y-6">
-                <div className="space-y-2">
-                  <Label htmlFor="org-name">Organization Name</Label>
-                  <Input
-                    id="org-name"
-                    data-testid="input-org-name"
-                    value={orgName}
-                    onChange={(e) => setOrgName(e.target.value)}
-                    placeholder="My Organization"
-                  />
-                </div>
+              <CardContent>
+                <Form {...brandingForm}>
+                <form onSubmit={brandingForm.handleSubmit(handleSaveBranding)} className="space-y-6">
+                <FormField
+                  control={brandingForm.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Organization Name</FormLabel>
+                      <FormControl>
+                        <Input data-testid="input-org-name" placeholder="My Organization" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
                 <div className="space-y-2">
                   <Label>Organization Logo</Label>
@@ -368,6 +479,7 @@ export default function AdminSettingsPage() {
                         data-testid="input-logo-file"
                       />
                       <Button
+                        type="button"
                         variant="outline"
                         size="sm"
                         onClick={() => fileInputRef.current?.click()}
@@ -385,35 +497,39 @@ export default function AdminSettingsPage() {
                 </div>
 
                 <div className="grid gap-6 md:grid-cols-2">
-                  <div className="space-y-2">
-                    <Label htmlFor="primary-color">Primary Color</Label>
-                    <div className="flex gap-2">
-                      <Input
-                        id="primary-color"
-                        data-testid="input-primary-color"
-                        type="color"
-                        value={primaryColor}
-                        onChange={(e) => setPrimaryColor(e.target.value)}
-                        className="w-20 h-10"
-                      />
-                      <Input value={primaryColor} readOnly className="flex-1" />
-                    </div>
-                  </div>
+                  <FormField
+                    control={brandingForm.control}
+                    name="settings.primaryColor"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Primary Color</FormLabel>
+                        <div className="flex gap-2">
+                          <FormControl>
+                            <Input data-testid="input-primary-color" type="color" className="w-20 h-10" {...field} />
+                          </FormControl>
+                          <Input value={field.value} readOnly className="flex-1" />
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-                  <div className="space-y-2">
-                    <Label htmlFor="secondary-color">Secondary Color</Label>
-                    <div className="flex gap-2">
-                      <Input
-                        id="secondary-color"
-                        data-testid="input-secondary-color"
-                        type="color"
-                        value={secondaryColor}
-                        onChange={(e) => setSecondaryColor(e.target.value)}
-                        className="w-20 h-10"
-                      />
-                      <Input value={secondaryColor} readOnly className="flex-1" />
-                    </div>
-                  </div>
+                  <FormField
+                    control={brandingForm.control}
+                    name="settings.secondaryColor"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Secondary Color</FormLabel>
+                        <div className="flex gap-2">
+                          <FormControl>
+                            <Input data-testid="input-secondary-color" type="color" className="w-20 h-10" {...field} />
+                          </FormControl>
+                          <Input value={field.value} readOnly className="flex-1" />
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </div>
 
                 <div className="pt-4 border-t">
@@ -431,13 +547,15 @@ export default function AdminSettingsPage() {
                 </div>
 
                 <Button
-                  onClick={handleSaveBranding}
+                  type="submit"
                   disabled={updateOrgMutation.isPending}
                   data-testid="button-save-branding"
                 >
                   <CheckCircle className="h-4 w-4 mr-2" />
                   {updateOrgMutation.isPending ? "Saving..." : "Save Branding"}
                 </Button>
+                </form>
+                </Form>
               </CardContent>
             </Card>
           </TabsContent>
@@ -511,44 +629,99 @@ export default function AdminSettingsPage() {
                 <CardDescription>Configure approval workflows with multiple approval levels</CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
-                <div className="space-y-4">
+                <Form {...chainForm}>
+                <form onSubmit={chainForm.handleSubmit(handleCreateChain)} className="space-y-4">
                   <h4 className="font-medium">Create New Approval Chain</h4>
                   
                   <div className="space-y-3">
-                    <div>
-                      <Label htmlFor="chain-name">Chain Name *</Label>
-                      <Input
-                        id="chain-name"
-                        data-testid="input-chain-name"
-                        placeholder="e.g., IT Department Approval"
-                        value={chainName}
-                        onChange={(e) => setChainName(e.target.value)}
-                      />
-                    </div>
+                    <FormField
+                      control={chainForm.control}
+                      name="name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Chain Name *</FormLabel>
+                          <FormControl>
+                            <Input data-testid="input-chain-name" placeholder="e.g., IT Department Approval" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
                     <div className="grid gap-3 md:grid-cols-2">
-                      <div>
-                        <Label htmlFor="chain-department">Department (Optional)</Label>
-                        <Input
-                          id="chain-department"
-                          data-testid="input-chain-department"
-                          placeholder="e.g., IT, Finance, HR"
-                          value={chainDepartment}
-                          onChange={(e) => setChainDepartment(e.target.value)}
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="chain-category">Category (Optional)</Label>
-                        <Input
-                          id="chain-category"
-                          data-testid="input-chain-category"
-                          placeholder="e.g., Equipment, Travel, Software"
-                          value={chainCategory}
-                          onChange={(e) => setChainCategory(e.target.value)}
-                        />
-                      </div>
+                      <FormField
+                        control={chainForm.control}
+                        name="department"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Department (Optional)</FormLabel>
+                            <FormControl>
+                              <Input data-testid="input-chain-department" placeholder="e.g., IT, Finance, HR" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={chainForm.control}
+                        name="category"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Category (Optional)</FormLabel>
+                            <FormControl>
+                              <Input data-testid="input-chain-category" placeholder="e.g., Equipment, Travel, Software" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={chainForm.control}
+                        name="minAmount"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Minimum Amount (Optional)</FormLabel>
+                            <FormControl>
+                              <Input data-testid="input-chain-min-amount" type="number" placeholder="e.g., 0" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={chainForm.control}
+                        name="maxAmount"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Maximum Amount (Optional)</FormLabel>
+                            <FormControl>
+                              <Input data-testid="input-chain-max-amount" type="number" placeholder="e.g., 50000" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                     </div>
 
+                    <FormField
+                      control={chainForm.control}
+                      name="isDefault"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center gap-2 space-y-0">
+                          <FormControl>
+                            <Checkbox
+                              data-testid="checkbox-chain-default"
+                              checked={field.value}
+                              onCheckedChange={(checked) => field.onChange(checked === true)}
+                            />
+                          </FormControl>
+                          <FormLabel className="text-sm font-normal">
+                            Use as default chain when no department, category or amount rule matches
+                          </FormLabel>
+                        </FormItem>
+                      )}
+                    />
+
                     <div className="space-y-3">
                       <div className="flex items-center justify-between">
                         <Label>Approval Levels *</Label>
@@ -564,54 +737,65 @@ export default function AdminSettingsPage() {
                         </Button>
                       </div>
 
-                      {chainLevels.map((level) => (
-                        <div
-                          key={level.level}
-                          className="flex items-center gap-3 p-3 border border-border rounded-md"
-                          data-testid={`approval-level-${level.level}`}
-                        >
-                          <div className="flex items-center gap-2 min-w-24">
-                            <span className="font-medium text-sm">Level {level.level}</span>
-                            <ArrowRight className="h-4 w-4 text-muted-foreground" />
-                          </div>
-                          <div className="flex-1">
-                            <Select
-                              value={level.approverId}
-                              onValueChange={(value) => handleUpdateLevelApprover(level.level, value)}
+                      {chainLevels.fields.map((level, index) => (
+                        <FormField
+                          key={level.id}
+                          control={chainForm.control}
+                          name={`levels.${index}.approverId`}
+                          render={({ field }) => (
+                            <FormItem
+                              className="p-3 border border-border rounded-md space-y-2"
+                              data-testid={`approval-level-${index + 1}`}
                             >
-                              <SelectTrigger data-testid={`select-approver-level-${level.level}`}>
-                                <SelectValue placeholder="Select approver" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                {approvers.map((approver) => (
-                                  <SelectItem
-                                    key={approver.id}
-                                    value={approver.id}
-                                    data-testid={`option-approver-${approver.id}`}
+                              <div className="flex items-center gap-3">
+                                <div className="flex items-center gap-2 min-w-24">
+                                  <span className="font-medium text-sm">Level {index + 1}</span>
+                                  <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                                </div>
+                                <div className="flex-1">
+                                  <Select
+                                    value={field.value}
+                                    onValueChange={(value) => handleUpdateLevelApprover(index, value)}
                                   >
-                                    {approver.fullName} ({approver.role})
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                          </div>
-                          {chainLevels.length > 1 && (
-                            <Button
-                              type="button"
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => handleRemoveLevel(level.level)}
-                              data-testid={`button-remove-level-${level.level}`}
-                            >
-                              <X className="h-4 w-4" />
-                            </Button>
+                                    <FormControl>
+                                      <SelectTrigger data-testid={`select-approver-level-${index + 1}`}>
+                                        <SelectValue placeholder="Select approver" />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      {approvers.map((approver) => (
+                                        <SelectItem
+                                          key={approver.id}
+                                          value={approver.id}
+                                          data-testid={`option-approver-${approver.id}`}
+                                        >
+                                          {approver.fullName} ({approver.role})
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                {chainLevels.fields.length > 1 && (
+                                  <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleRemoveLevel(index)}
+                                    data-testid={`button-remove-level-${index + 1}`}
+                                  >
+                                    <X className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </div>
+                              <FormMessage />
+                            </FormItem>
                           )}
-                        </div>
+                        />
                       ))}
                     </div>
 
                     <Button
-                      onClick={handleCreateChain}
+                      type="submit"
                       disabled={createApprovalChainMutation.isPending}
                       data-testid="button-create-chain"
                       className="w-full"
@@ -620,7 +804,8 @@ export default function AdminSettingsPage() {
                       Create Approval Chain
                     </Button>
                   </div>
-                </div>
+                </form>
+                </Form>
 
                 <div className="border-t border-border pt-6">
                   <h4 className="font-medium mb-4">Existing Approval Chains</h4>
@@ -646,6 +831,17 @@ export default function AdminSettingsPage() {
                                     Cat: {chain.category}
                                   </span>
                                 )}
+                                {(chain.minAmount != null || chain.maxAmount != null) && (
+                                  <span className="px-2 py-0.5 bg-muted rounded">
+                                    Amount: ₹{(chain.minAmount ?? 0).toLocaleString()}
+                                    {chain.maxAmount != null ? ` – ₹${chain.maxAmount.toLocaleString()}` : "+"}
+                                  </span>
+                                )}
+                                {chain.isDefault && (
+                                  <span className="px-2 py-0.5 bg-primary/10 text-primary rounded">
+                                    Default
+                                  </span>
+                                )}
                               </div>
                             </div>
                             <Button
@@ -682,6 +878,84 @@ export default function AdminSettingsPage() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="rules" className="mt-6">
+            <ApprovalRuleEditor
+              rules={organization?.settings?.approvalRules || []}
+              approvers={approvers}
+              isSaving={updateOrgMutation.isPending}
+              onChange={handleApprovalRulesChange}
+            />
+          </TabsContent>
+
+          <TabsContent value="sla" className="mt-6">
+            <SlaPolicyEditor
+              policies={organization?.settings?.slaPolicies || []}
+              isSaving={updateOrgMutation.isPending}
+              onChange={handleSlaPoliciesChange}
+            />
+          </TabsContent>
+
+          <TabsContent value="budgets" className="mt-6">
+            <BudgetManager />
+          </TabsContent>
+
+          <TabsContent value="duplicates" className="mt-6">
+            <DuplicateDetectionEditor
+              settings={organization?.settings?.duplicateDetection}
+              isSaving={updateOrgMutation.isPending}
+              onChange={handleDuplicateDetectionChange}
+            />
+          </TabsContent>
+
+          <TabsContent value="orgchart" className="mt-6 space-y-6">
+            <OrgChartRulesEditor
+              rules={organization?.settings?.orgChartRules}
+              isSaving={updateOrgMutation.isPending}
+              onChange={handleOrgChartRulesChange}
+            />
+            <HierarchyLevelsEditor
+              levels={organization?.settings?.hierarchyLevels}
+              isSaving={updateOrgMutation.isPending}
+              onChange={handleHierarchyLevelsChange}
+            />
+          </TabsContent>
+
+          <TabsContent value="security" className="mt-6">
+            <TwoFactorPolicyEditor
+              policy={organization?.settings?.twoFactor}
+              users={members}
+              isSaving={updateOrgMutation.isPending}
+              onChange={handleTwoFactorPolicyChange}
+            />
+          </TabsContent>
+
+          <TabsContent value="domain" className="mt-6">
+            <DomainSettings
+              organization={organization}
+              isSaving={updateOrgMutation.isPending}
+              onPolicyChange={handleDomainJoinChange}
+            />
+          </TabsContent>
+
+          <TabsContent value="roles" className="mt-6">
+            <RolePermissionsEditor
+              roles={organization?.settings?.roles}
+              users={members}
+              isSaving={updateOrgMutation.isPending || assignRoleMutation.isPending}
+              onChange={handleRolesChange}
+              onAssign={(userId, assignment) => assignRoleMutation.mutate({ userId, assignment })}
+            />
+          </TabsContent>
+
+          <TabsContent value="members" className="mt-6">
+            <MemberRequestQueue
+              policy={organization?.settings?.memberApprovals}
+              canEditPolicy={canManageOrg}
+              isSaving={updateOrgMutation.isPending}
+              onPolicyChange={handleMemberApprovalsChange}
+            />
+          </TabsContent>
+
           <TabsContent value="invite" className="mt-6">
             <Card>
               <CardHeader>
@@ -692,39 +966,58 @@ export default function AdminSettingsPage() {
                 <CardDescription>Generate secure, role-specific invite links for new team members</CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
-                <div className="space-y-4">
+                <Form {...inviteForm}>
+                <form onSubmit={inviteForm.handleSubmit(handleCreateInviteToken)} className="space-y-4">
                   <h4 className="font-medium">Create New Invite Link</h4>
                   <div className="flex gap-3">
-                    <div className="flex-1">
-                      <Label htmlFor="invite-role" className="text-sm mb-2">Role</Label>
-                      <Select value={selectedRole} onValueChange={setSelectedRole}>
-                        <SelectTrigger id="invite-role" data-testid="select-invite-role">
-                          <SelectValue placeholder="Select role" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="Requester">Requester</SelectItem>
-                          <SelectItem value="Approver">Approver</SelectItem>
-                          <SelectItem value="Admin">Admin</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div className="w-32">
-                      <Label htmlFor="expires-days" className="text-sm mb-2">Expires in</Label>
-                      <Select value={expiresInDays} onValueChange={setExpiresInDays}>
-                        <SelectTrigger id="expires-days" data-testid="select-expires-days">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="1">1 day</SelectItem>
-                          <SelectItem value="7">7 days</SelectItem>
-                          <SelectItem value="14">14 days</SelectItem>
-                          <SelectItem value="30">30 days</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
+                    <FormField
+                      control={inviteForm.control}
+                      name="role"
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormLabel className="text-sm">Role</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-invite-role">
+                                <SelectValue placeholder="Select role" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="Requester">Requester</SelectItem>
+                              <SelectItem value="Approver">Approver</SelectItem>
+                              <SelectItem value="Admin">Admin</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={inviteForm.control}
+                      name="expiresInDays"
+                      render={({ field }) => (
+                        <FormItem className="w-32">
+                          <FormLabel className="text-sm">Expires in</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-expires-days">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="1">1 day</SelectItem>
+                              <SelectItem value="7">7 days</SelectItem>
+                              <SelectItem value="14">14 days</SelectItem>
+                              <SelectItem value="30">30 days</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <div className="flex items-end">
                       <Button
-                        onClick={handleCreateInviteToken}
+                        type="submit"
                         disabled={createInviteTokenMutation.isPending}
                         data-testid="button-create-invite"
                       >
@@ -733,7 +1026,8 @@ export default function AdminSettingsPage() {
                       </Button>
                     </div>
                   </div>
-                </div>
+                </form>
+                </Form>
 
                 <div className="space-y-3">
                   <h4 className="font-medium">Active Invite Links</h4>
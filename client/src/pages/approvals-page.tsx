@@ -5,20 +5,32 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { FundingRequest, User, QueryMessage, ApprovalHistory, Organization } from "../lib/database";
-import { CheckCircle, XCircle, MessageSquare, FileText, History, Clock, Brain } from "lucide-react";
+import { useStepUp } from "@/hooks/use-step-up";
+import { apiRequest, queryClient, readJson } from "@/lib/queryClient";
+import { FundingRequest, User, QueryMessage, ApprovalHistory, Organization, ApprovalChain } from "../lib/database";
+import { getRequestLevels } from "../lib/approvalWorkflow";
+import { getSlaState } from "../lib/slaPolicy";
+import { resolveActingApprover } from "../lib/delegation";
+import { can } from "../lib/permissions";
+import SlaBadge from "@/components/sla-badge";
+import { CheckCircle, XCircle, MessageSquare, FileText, History, Clock, Brain, ArrowRight, Banknote } from "lucide-react";
 import { useState } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import AISummaryComponent from "@/components/ai-summary";
+import InvoiceDetails from "@/components/invoice-details";
+import DuplicateWarning from "@/components/duplicate-warning";
+import AttachmentPreview from "@/components/attachment-preview";
 
 export default function ApprovalsPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [selectedRequest, setSelectedRequest] = useState<FundingRequest | null>(null);
   const [comment, setComment] = useState("");
+  const [paymentReference, setPaymentReference] = useState("");
+  const { withStepUp, stepUpDialog } = useStepUp();
 
   const { data: requests, isLoading } = useQuery<FundingRequest[]>({
     queryKey: ["/api/requests"],
@@ -42,10 +54,15 @@ export default function ApprovalsPage() {
     enabled: !!selectedRequest,
   });
 
+  const { data: approvalChain } = useQuery<ApprovalChain | null>({
+    queryKey: ["/api/approval-chains", selectedRequest?.approvalChainId],
+    enabled: !!selectedRequest?.approvalChainId,
+  });
+
   const updateStatusMutation = useMutation({
     mutationFn: async ({ id, status, comments, isFastTrack }: { id: string; status: string; comments?: string; isFastTrack?: boolean }) => {
       const res = await apiRequest("PATCH", `/api/requests/${id}/status`, { status, comments, isFastTrack });
-      return await res.json();
+      return await readJson(res);
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/requests"] });
@@ -63,6 +80,36 @@ export default function ApprovalsPage() {
       setSelectedRequest(null);
       setComment("");
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const releasePaymentMutation = useMutation({
+    mutationFn: async ({ id, reference }: { id: string; reference?: string }) => {
+      const res = await apiRequest("POST", `/api/requests/${id}/release-payment`, { reference });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/requests"] });
+      toast({
+        title: "Payment released",
+        description: "The request has been paid out and closed",
+      });
+      setSelectedRequest(null);
+      setPaymentReference("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const addMessageMutation = useMutation({
@@ -86,6 +133,10 @@ export default function ApprovalsPage() {
   const openRequests = requests?.filter((r) => r.status === "Open") || [];
   const approvedRequests = requests?.filter((r) => r.status === "Approved") || [];
   const rejectedRequests = requests?.filter((r) => r.status === "Rejected") || [];
+  // Overdue and soon-to-breach requests, most urgent first
+  const atRiskRequests = openRequests
+    .filter((r) => ["overdue", "breaching_soon"].includes(getSlaState(r)))
+    .sort((a, b) => new Date(a.slaDeadline!).getTime() - new Date(b.slaDeadline!).getTime());
 
   const getStatusBadge = (status: string) => {
     switch (status) {
@@ -105,6 +156,31 @@ export default function ApprovalsPage() {
     }
   };
 
+  // Assigned approvers (including rule-added ones without request.approve) act on their
+  // own level; request.override can act on any. Nobody decides on their own request.
+  const canActOn = (request: FundingRequest) =>
+    request.requesterId !== user?.id && (
+      can(user, "request.override", request) ||
+      request.approverId === user?.id ||
+      (!!request.approverId && resolveActingApprover(request.approverId, users || [])?.id === user?.id) ||
+      (can(user, "request.approve", request) && !request.approverId)
+    );
+
+  // Who currently holds the request, noting when a substitute is covering for the assigned approver
+  const getAwaitingLabel = (approverId: string) => {
+    const acting = resolveActingApprover(approverId, users || []);
+    if (acting && acting.id !== approverId) {
+      return `${acting.fullName} (covering for ${getUserName(approverId)})`;
+    }
+    return getUserName(approverId);
+  };
+
+  // Switch the detail dialog to another request, e.g. a suspected duplicate's original
+  const handleOpenRequest = (requestId: string) => {
+    const request = requests?.find((r) => r.id === requestId);
+    if (request) setSelectedRequest(request);
+  };
+
   const getUserName = (userId: string | null) => {
     if (!userId) return "Unassigned";
     const foundUser = users?.find((u) => u.id === userId);
@@ -121,7 +197,13 @@ export default function ApprovalsPage() {
               Requested by: {getUserName(request.requesterId)}
             </CardDescription>
           </div>
-          {getStatusBadge(request.status)}
+          <div className="flex flex-col items-end gap-1">
+            {getStatusBadge(request.status)}
+            <SlaBadge request={request} />
+            {!!request.suspectedDuplicates?.length && (
+              <Badge variant="destructive" data-testid={`badge-duplicate-${request.id}`}>Possible duplicate</Badge>
+            )}
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -132,7 +214,17 @@ export default function ApprovalsPage() {
           <span className="text-muted-foreground">
             {new Date(request.createdAt).toLocaleDateString()}
           </span>
+          {request.approvalChainId && (
+            <Badge variant="outline" data-testid={`badge-level-${request.id}`}>
+              Level {request.currentApprovalLevel}
+            </Badge>
+          )}
         </div>
+        {request.status === "Open" && request.approverId && (
+          <p className="text-xs text-muted-foreground">
+            Awaiting: {getAwaitingLabel(request.approverId)}
+          </p>
+        )}
         
         {/* AI Summary Quick Indicator */}
         <div className="flex items-center gap-2 text-xs text-blue-600 bg-blue-50 px-2 py-1 rounded-md">
@@ -161,13 +253,13 @@ export default function ApprovalsPage() {
             <MessageSquare className="h-4 w-4 mr-2" />
             View Details
           </Button>
-          {request.status === "Open" && (user?.role === "Approver" || user?.role === "Admin") && (
+          {request.status === "Open" && canActOn(request) && (
             <>
               <Button
                 size="sm"
                 variant="outline"
                 className="border-success text-success hover:bg-success/10"
-                onClick={() => updateStatusMutation.mutate({ id: request.id, status: "Approved" })}
+                onClick={() => withStepUp(request.amount, () => updateStatusMutation.mutate({ id: request.id, status: "Approved" }))}
                 disabled={updateStatusMutation.isPending}
                 data-testid={`button-approve-${request.id}`}
               >
@@ -205,6 +297,9 @@ export default function ApprovalsPage() {
             <TabsTrigger value="open" data-testid="tab-open">
               Open ({openRequests.length})
             </TabsTrigger>
+            <TabsTrigger value="breaching" data-testid="tab-breaching">
+              Breaching Soon ({atRiskRequests.length})
+            </TabsTrigger>
             <TabsTrigger value="approved" data-testid="tab-approved">
               Approved ({approvedRequests.length})
             </TabsTrigger>
@@ -232,6 +327,21 @@ export default function ApprovalsPage() {
             )}
           </TabsContent>
 
+          <TabsContent value="breaching" className="mt-6">
+            {atRiskRequests.length === 0 ? (
+              <div className="text-center py-12">
+                <Clock className="h-12 w-12 mx-auto text-muted-foreground mb-3" />
+                <p className="text-muted-foreground">No requests are at risk of breaching their SLA</p>
+              </div>
+            ) : (
+              <div className="grid gap-6 md:grid-cols-2">
+                {atRiskRequests.map((request) => (
+                  <RequestCard key={request.id} request={request} />
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
           <TabsContent value="approved" className="mt-6">
             {approvedRequests.length === 0 ? (
               <div className="text-center py-12">
@@ -274,10 +384,22 @@ export default function ApprovalsPage() {
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
+            {selectedRequest?.suspectedDuplicates && (
+              <DuplicateWarning
+                duplicates={selectedRequest.suspectedDuplicates}
+                onOpen={handleOpenRequest}
+              />
+            )}
             <div>
               <h4 className="font-medium mb-2">Description</h4>
               <p className="text-sm text-muted-foreground">{selectedRequest?.description}</p>
             </div>
+            {!!selectedRequest?.attachments?.length && (
+              <div>
+                <h4 className="font-medium mb-2">Attachments</h4>
+                <AttachmentPreview attachments={selectedRequest.attachments} />
+              </div>
+            )}
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <h4 className="font-medium mb-1">Amount</h4>
@@ -291,17 +413,54 @@ export default function ApprovalsPage() {
               </div>
             </div>
 
+            {selectedRequest?.category === "Invoice" && (
+              <InvoiceDetails requestId={selectedRequest.id} />
+            )}
+
             {/* AI Summary Component */}
             {selectedRequest && users && organization && (
               <AISummaryComponent
                 request={selectedRequest}
                 requester={users.find(u => u.id === selectedRequest.requesterId) || users[0]}
                 organization={organization}
-                approvers={users.filter(u => u.role === 'Admin' || u.role === 'Approver')}
+                approvers={users.filter(u => can(u, 'request.approve'))}
                 className="mt-6"
               />
             )}
             
+            {/* Approval Chain Progress */}
+            {selectedRequest && approvalChain && (
+              <div>
+                <h4 className="font-medium mb-2">
+                  Approval Chain: {approvalChain.name}
+                </h4>
+                <div className="flex flex-wrap items-center gap-2 text-sm" data-testid="approval-chain-progress">
+                  {getRequestLevels(selectedRequest, approvalChain).map((lvl, idx, levels) => {
+                    const isDone = selectedRequest.status === "Approved" || lvl.level < selectedRequest.currentApprovalLevel;
+                    const isCurrent = selectedRequest.status !== "Approved" && lvl.level === selectedRequest.currentApprovalLevel;
+                    return (
+                      <div key={lvl.level} className="flex items-center gap-2">
+                        <span
+                          className={`px-2 py-1 rounded text-xs font-medium ${
+                            isDone
+                              ? "bg-success/10 text-success"
+                              : isCurrent
+                                ? "bg-primary/10 text-primary"
+                                : "bg-muted text-muted-foreground"
+                          }`}
+                        >
+                          L{lvl.level}: {lvl.approverName}
+                        </span>
+                        {idx < levels.length - 1 && (
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Approval History Timeline */}
             {approvalHistory.length > 0 && (
               <div>
@@ -319,13 +478,14 @@ export default function ApprovalsPage() {
                       <div className="flex items-start justify-between">
                         <div className="flex-1">
                           <p className="text-sm font-medium">
-                            Level {entry.level} - {entry.action}
+                            Level {entry.level} - {entry.action === "Overridden" ? "Fast-Track Approved" : entry.action}
                             {entry.isFastTrack && (
                               <Badge variant="secondary" className="ml-2 text-xs">Fast Track</Badge>
                             )}
                           </p>
                           <p className="text-sm text-muted-foreground mt-1">
                             By: {getUserName(entry.approverId)}
+                            {entry.onBehalfOfId && ` on behalf of ${getUserName(entry.onBehalfOfId)}`}
                           </p>
                           {entry.comments && (
                             <p className="text-sm text-muted-foreground mt-1 italic">
@@ -352,6 +512,9 @@ export default function ApprovalsPage() {
                     <div key={m.id} className="p-3 bg-muted rounded-md">
                       <p className="text-sm font-medium">{getUserName(m.userId || '')}</p>
                       <p className="text-sm text-muted-foreground mt-1">{m.content}</p>
+                      {!!m.attachments?.length && (
+                        <AttachmentPreview attachments={m.attachments} className="mt-2" />
+                      )}
                       <p className="text-xs text-muted-foreground mt-1">
                         {new Date(m.createdAt).toLocaleString()}
                       </p>
@@ -387,26 +550,28 @@ export default function ApprovalsPage() {
               </Button>
             </div>
 
-            {/* Admin Fast-Track Approval */}
-            {user?.role === "Admin" && selectedRequest?.status === "Open" && (
+            {/* Fast-Track Approval */}
+            {can(user, "request.override", selectedRequest) && selectedRequest?.status === "Open" && (
               <div className="border-t border-border pt-4">
-                <h4 className="font-medium mb-3 text-sm">Admin Actions (Fast Track)</h4>
+                <h4 className="font-medium mb-3 text-sm">Override Actions (Fast Track)</h4>
                 <p className="text-xs text-muted-foreground mb-3">
-                  As an admin, you can fast-track approval to bypass multi-level workflows
+                  You can fast-track approval to bypass multi-level workflows
                 </p>
                 <div className="flex gap-2">
                   <Button
                     size="sm"
                     variant="default"
                     className="bg-success hover:bg-success/90 text-success-foreground"
-                    onClick={() => 
+                    onClick={() =>
                       selectedRequest &&
-                      updateStatusMutation.mutate({ 
-                        id: selectedRequest.id, 
-                        status: "Approved",
-                        comments: comment || undefined,
-                        isFastTrack: true
-                      })
+                      withStepUp(selectedRequest.amount, () =>
+                        updateStatusMutation.mutate({
+                          id: selectedRequest.id,
+                          status: "Approved",
+                          comments: comment || undefined,
+                          isFastTrack: true
+                        })
+                      )
                     }
                     disabled={updateStatusMutation.isPending}
                     data-testid="button-fast-track-approve"
@@ -435,9 +600,44 @@ export default function ApprovalsPage() {
                 </div>
               </div>
             )}
+
+            {/* Payment Release */}
+            {can(user, "payment.release", selectedRequest) && selectedRequest?.status === "Approved" && (
+              <div className="border-t border-border pt-4 space-y-3">
+                <h4 className="font-medium text-sm">Release Payment</h4>
+                <p className="text-xs text-muted-foreground">
+                  Paying out closes the request. Add the transfer or cheque reference for the record.
+                </p>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Payment reference (optional)"
+                    value={paymentReference}
+                    onChange={(e) => setPaymentReference(e.target.value)}
+                    data-testid="input-payment-reference"
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() =>
+                      selectedRequest &&
+                      releasePaymentMutation.mutate({
+                        id: selectedRequest.id,
+                        reference: paymentReference || undefined,
+                      })
+                    }
+                    disabled={releasePaymentMutation.isPending}
+                    data-testid="button-release-payment"
+                  >
+                    <Banknote className="h-4 w-4 mr-2" />
+                    Release Payment
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
         </DialogContent>
       </Dialog>
+
+      {stepUpDialog}
     </div>
   );
 }
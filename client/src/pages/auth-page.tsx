@@ -8,7 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { DollarSign, TrendingUp, Shield, Building2 } from "lucide-react";
-import { authManager } from "@/lib/browserAuth";
+import { authManager, TwoFactorRequiredError } from "@/lib/browserAuth";
 
 export default function AuthPage() {
   const { user, loginMutation, registerMutation } = useAuth();
@@ -17,6 +17,8 @@ export default function AuthPage() {
   // Login form state
   const [loginEmail, setLoginEmail] = useState("");
   const [loginPassword, setLoginPassword] = useState("");
+  const [loginCode, setLoginCode] = useState("");
+  const [needsCode, setNeedsCode] = useState(false);
 
   // Register form state
   const [regInviteCode, setRegInviteCode] = useState("");
@@ -54,10 +56,18 @@ export default function AuthPage() {
 
   const handleLogin = (e: React.FormEvent) => {
     e.preventDefault();
-    loginMutation.mutate({
-      email: loginEmail,
-      password: loginPassword,
-    });
+    loginMutation.mutate(
+      {
+        email: loginEmail,
+        password: loginPassword,
+        code: needsCode ? loginCode : undefined,
+      },
+      {
+        onError: (error) => {
+          if (error instanceof TwoFactorRequiredError) setNeedsCode(true);
+        },
+      }
+    );
   };
 
   const handleRegister = (e: React.FormEvent) => {
@@ -121,6 +131,30 @@ export default function AuthPage() {
                         required
                       />
                     </div>
+                    {needsCode && (
+                      <div className="space-y-2">
+                        <Label htmlFor="login-code">Authentication code</Label>
+                        <Input
+                          id="login-code"
+                          data-testid="input-login-code"
+                          inputMode="numeric"
+                          autoComplete="one-time-code"
+                          placeholder="6-digit code or recovery code"
+                          value={loginCode}
+                          onChange={(e) => setLoginCode(e.target.value)}
+                          autoFocus
+                          required
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Enter the code from your authenticator app, or one of your recovery codes.
+                        </p>
+                      </div>
+                    )}
+                    {loginMutation.error && !(loginMutation.error instanceof TwoFactorRequiredError) && (
+                      <p className="text-sm text-destructive" data-testid="text-login-error">
+                        {loginMutation.error.message}
+                      </p>
+                    )}
                     <Button
                       type="submit"
                       className="w-full"
@@ -228,6 +262,11 @@ export default function AuthPage() {
                     >
                       {registerMutation.isPending ? "Joining organization..." : "Join Organization"}
                     </Button>
+                    {registerMutation.data?.pending && (
+                      <p className="text-sm text-muted-foreground" data-testid="text-register-pending">
+                        {registerMutation.data.message}
+                      </p>
+                    )}
                   </form>
                 </CardContent>
               </Card>
@@ -1,4 +1,6 @@
 import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,42 +9,92 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { User } from "../lib/database";
+import { apiRequest, queryClient, readJson } from "@/lib/queryClient";
+import { applyFieldErrors } from "@/lib/formErrors";
+import { can } from "@/lib/permissions";
+import { createRequestInput } from "@shared/contracts";
+import { User, FundingRequest, AttachmentRef } from "../lib/database";
+import type { ApiPayload, ApiResponse } from "../lib/apiRoutes";
+import { getOrderedLevels } from "../lib/approvalWorkflow";
 import { useLocation } from "wouter";
-import { Plus, X, Upload } from "lucide-react";
+import { Plus, X, Upload, GitBranch, ArrowRight, Wallet, AlertTriangle } from "lucide-react";
 import { nanoid } from "nanoid";
 import { aiService } from "@/lib/aiService";
 import { aiSummarizer } from "@/lib/aiSummarizer";
 import DynamicApproverSelector from "@/components/dynamic-approver-selector";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
 const CATEGORIES = ["Equipment", "Software", "Marketing", "Travel", "Training", "Other"];
 
+// The text fields of the form; the amount stays a string until the contract parses it
+interface RequestFormValues {
+  title: string;
+  description: string;
+  amount: string;
+  category: string;
+  customCategory: string;
+  costCenter: string;
+}
+
 export default function CreateRequestPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
 
-  const [title, setTitle] = useState("");
-  const [description, setDescription] = useState("");
-  const [amount, setAmount] = useState("");
-  const [category, setCategory] = useState("");
-  const [customCategory, setCustomCategory] = useState("");
+  const form = useForm<RequestFormValues>({
+    resolver: zodResolver(createRequestInput),
+    defaultValues: { title: "", description: "", amount: "", category: "", customCategory: "", costCenter: "" },
+  });
+  const [title, description, amount, category, customCategory, costCenter] = form.watch([
+    "title", "description", "amount", "category", "customCategory", "costCenter",
+  ]);
   const [approverId, setApproverId] = useState<string | string[]>("");
   const [checklistItems, setChecklistItems] = useState<{ id: string; item: string; completed: boolean }[]>([]);
   const [newChecklistItem, setNewChecklistItem] = useState("");
-  const [attachments, setAttachments] = useState<{ name: string; url: string; size: number }[]>([]);
+  const [attachments, setAttachments] = useState<AttachmentRef[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const [aiSummary, setAiSummary] = useState<string>("");
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
 
+  // Preview which approval chain the request will be routed through
+  const { data: approvalRoute } = useQuery<ApiResponse<"POST", "/api/approval-chains/resolve">>({
+    queryKey: ["/api/approval-chains/resolve", category, customCategory, amount],
+    queryFn: async () => {
+      const payload: ApiPayload<"POST", "/api/approval-chains/resolve"> = {
+        amount,
+        category,
+        customCategory,
+      };
+      const res = await apiRequest("POST", "/api/approval-chains/resolve", payload);
+      return await readJson(res);
+    },
+    enabled: !!category && !!amount,
+  });
+
+  // Budgets this request would draw from, and whether it fits what is left
+  const { data: budgetImpacts = [] } = useQuery<ApiResponse<"POST", "/api/budgets/check">>({
+    queryKey: ["/api/budgets/check", amount, costCenter],
+    queryFn: async () => {
+      const payload: ApiPayload<"POST", "/api/budgets/check"> = {
+        amount,
+        department: user?.department,
+        costCenter,
+      };
+      const res = await apiRequest("POST", "/api/budgets/check", payload);
+      return await readJson(res);
+    },
+    enabled: !!amount,
+  });
+  const exceededBudgets = budgetImpacts.filter((impact) => impact.exceeds);
+  const nearLimitBudgets = budgetImpacts.filter((impact) => impact.nearLimit);
 
   const createMutation = useMutation({
-    mutationFn: async (data: any) => {
+    mutationFn: async (data: ApiPayload<"POST", "/api/requests">) => {
       // First create the request
       const res = await apiRequest("POST", "/api/requests", data);
-      const createdRequest = await res.json();
+      const createdRequest = await readJson<FundingRequest>(res);
       
       // Then generate AI summary if justification is provided
       if (data.description && data.description.trim()) {
@@ -53,10 +105,10 @@ export default function CreateRequestPage() {
           const users = await usersRes.json();
           
           const context = {
-            request: { ...createdRequest, ...data },
+            request: createdRequest,
             requester: user!,
             organization: organization,
-            approvers: users?.filter((u: User) => u.role === 'Admin' || u.role === 'Approver') || []
+            approvers: users?.filter((u: User) => can(u, 'request.approve')) || []
           };
           
           await aiSummarizer.generateSummary(context);
@@ -68,15 +120,22 @@ export default function CreateRequestPage() {
       
       return createdRequest;
     },
-    onSuccess: () => {
+    onSuccess: (request: FundingRequest) => {
       queryClient.invalidateQueries({ queryKey: ["/api/requests"] });
       toast({
         title: "Success",
         description: "Funding request created successfully with AI summary",
       });
+      if (request?.suspectedDuplicates?.length) {
+        toast({
+          title: "Possible duplicate",
+          description: `This looks like "${request.suspectedDuplicates[0].title}". Your approver has been told.`,
+        });
+      }
       setLocation("/dashboard");
     },
     onError: (error: Error) => {
+      if (applyFieldErrors(form, error)) return;
       toast({
         title: "Error",
         description: error.message,
@@ -106,17 +165,9 @@ export default function CreateRequestPage() {
     setIsUploading(true);
     try {
       const uploadPromises = Array.from(files).map(async (file) => {
-        const formData = new FormData();
-        formData.append("file", file);
-
-        const response = await fetch("/api/upload", {
-          method: "POST",
-          body: formData,
-          credentials: "include",
-        });
-
-        if (!response.ok) throw new Error("Upload failed");
-        return await response.json();
+        const response = await apiRequest("POST", "/api/upload", file);
+        if (!response.ok) throw new Error(`${file.name}: ${response.statusText || "Upload failed"}`);
+        return (await response.json()) as AttachmentRef;
       });
 
       const uploadedFiles = await Promise.all(uploadPromises);
@@ -129,7 +180,7 @@ export default function CreateRequestPage() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to upload files",
+        description: error instanceof Error ? error.message : "Failed to upload files",
         variant: "destructive",
       });
     } finally {
@@ -161,7 +212,7 @@ export default function CreateRequestPage() {
         requesterId: user?.id || '',
         title,
         description,
-        amount: parseFloat(amount) || 0,
+        amount: Number(amount) || 0,
         category: category as any,
         customCategory: customCategory || undefined,
         status: 'Open' as const,
@@ -192,15 +243,16 @@ export default function CreateRequestPage() {
     }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleSubmit = (values: RequestFormValues) => {
     createMutation.mutate({
-      title,
-      description,
-      amount: parseInt(amount),
-      category,
-      customCategory: category === "Other" ? customCategory : null,
+      title: values.title,
+      description: values.description,
+      amount: values.amount,
+      category: values.category,
+      customCategory: values.category === "Other" ? values.customCategory : null,
+      costCenter: values.costCenter,
       approverId: Array.isArray(approverId) ? approverId[0] || null : approverId || null,
+      approvalChainId: approvalRoute?.chain.id,
       checklist: checklistItems,
       attachments,
       aiSummary: aiSummary || undefined,
@@ -215,94 +267,183 @@ export default function CreateRequestPage() {
           <p className="text-muted-foreground mt-1">Submit a new request for approval</p>
         </div>
 
-        <form onSubmit={handleSubmit}>
+        <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)}>
           <Card>
             <CardHeader>
               <CardTitle>Request Details</CardTitle>
               <CardDescription>Provide information about your funding request</CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="title">Title *</Label>
-                <Input
-                  id="title"
-                  data-testid="input-title"
-                  placeholder="e.g., New MacBook Pro for Development"
-                  value={title}
-                  onChange={(e) => setTitle(e.target.value)}
-                  required
-                />
-              </div>
+              <FormField
+                control={form.control}
+                name="title"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Title *</FormLabel>
+                    <FormControl>
+                      <Input data-testid="input-title" placeholder="e.g., New MacBook Pro for Development" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
-              <div className="space-y-2">
-                <Label htmlFor="description">Description *</Label>
-                <Textarea
-                  id="description"
-                  data-testid="input-description"
-                  placeholder="Explain why this funding is needed..."
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                  rows={4}
-                  required
-                />
-              </div>
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description *</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        data-testid="input-description"
+                        placeholder="Explain why this funding is needed..."
+                        rows={4}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
               <div className="grid gap-4 md:grid-cols-2">
-                <div className="space-y-2">
-                  <Label htmlFor="amount">Amount ($) *</Label>
-                  <Input
-                    id="amount"
-                    data-testid="input-amount"
-                    type="number"
-                    placeholder="1000"
-                    value={amount}
-                    onChange={(e) => setAmount(e.target.value)}
-                    required
-                  />
-                </div>
+                <FormField
+                  control={form.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount ($) *</FormLabel>
+                      <FormControl>
+                        <Input data-testid="input-amount" type="number" placeholder="1000" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-                <div className="space-y-2">
-                  <Label htmlFor="category">Category *</Label>
-                  <Select value={category} onValueChange={setCategory} required>
-                    <SelectTrigger id="category" data-testid="select-category">
-                      <SelectValue placeholder="Select category" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {CATEGORIES.map((cat) => (
-                        <SelectItem key={cat} value={cat} data-testid={`option-category-${cat.toLowerCase()}`}>
-                          {cat}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+                <FormField
+                  control={form.control}
+                  name="category"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Category *</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-category">
+                            <SelectValue placeholder="Select category" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {CATEGORIES.map((cat) => (
+                            <SelectItem key={cat} value={cat} data-testid={`option-category-${cat.toLowerCase()}`}>
+                              {cat}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               {category === "Other" && (
-                <div className="space-y-2">
-                  <Label htmlFor="customCategory">Specify Category *</Label>
-                  <Input
-                    id="customCategory"
-                    data-testid="input-custom-category"
-                    placeholder="Enter custom category"
-                    value={customCategory}
-                    onChange={(e) => setCustomCategory(e.target.value)}
-                    required
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Please specify the category for this request
-                  </p>
-                </div>
+                <FormField
+                  control={form.control}
+                  name="customCategory"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Specify Category *</FormLabel>
+                      <FormControl>
+                        <Input data-testid="input-custom-category" placeholder="Enter custom category" {...field} />
+                      </FormControl>
+                      <FormDescription className="text-xs">
+                        Please specify the category for this request
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               )}
 
-              <DynamicApproverSelector
-                value={approverId}
-                onChange={setApproverId}
-                required
-                placeholder="Select Level 1 approver"
-                error={!approverId && createMutation.isPending ? "Please select an approver" : undefined}
+              <FormField
+                control={form.control}
+                name="costCenter"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cost Center</FormLabel>
+                    <FormControl>
+                      <Input data-testid="input-cost-center" placeholder="e.g., CC-1001" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
               />
 
+              {exceededBudgets.length > 0 ? (
+                <Alert variant="destructive" data-testid="alert-budget-exceeded">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>This request exceeds the remaining budget</AlertTitle>
+                  <AlertDescription>
+                    {exceededBudgets.map((impact) => (
+                      <p key={impact.budget.id}>
+                        {impact.budget.name}: ₹{impact.consumption.remaining.toLocaleString()} left, over by ₹
+                        {Math.abs(impact.remainingAfter).toLocaleString()}
+                      </p>
+                    ))}
+                  </AlertDescription>
+                </Alert>
+              ) : nearLimitBudgets.length > 0 ? (
+                <Alert data-testid="alert-budget-near-limit">
+                  <Wallet className="h-4 w-4" />
+                  <AlertTitle>Budget nearly exhausted</AlertTitle>
+                  <AlertDescription>
+                    {nearLimitBudgets.map((impact) => (
+                      <p key={impact.budget.id}>
+                        {impact.budget.name}: ₹{impact.remainingAfter.toLocaleString()} of ₹
+                        {impact.budget.allocatedAmount.toLocaleString()} would remain
+                      </p>
+                    ))}
+                  </AlertDescription>
+                </Alert>
+              ) : null}
+
+              {approvalRoute ? (
+                <div className="p-4 border border-border rounded-md space-y-2" data-testid="approval-route-preview">
+                  <div className="flex items-center gap-2">
+                    <GitBranch className="h-4 w-4 text-primary" />
+                    <span className="text-sm font-medium">
+                      Routed to: {approvalRoute.chain.name}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground" data-testid="text-route-reason">
+                    {approvalRoute.reason}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    {getOrderedLevels(approvalRoute.chain).map((lvl, idx, levels) => (
+                      <div key={lvl.level} className="flex items-center gap-2">
+                        <span className="px-2 py-1 bg-primary/10 text-primary rounded text-xs font-medium">
+                          L{lvl.level}: {lvl.approverName}
+                        </span>
+                        {idx < levels.length - 1 && (
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <DynamicApproverSelector
+                  value={approverId}
+                  onChange={setApproverId}
+                  required
+                  placeholder="Select Level 1 approver"
+                  error={!approverId && createMutation.isPending ? "Please select an approver" : undefined}
+                />
+              )}
+
               <div className="space-y-3">
                 <Label>Checklist Items</Label>
                 <div className="flex gap-2">
@@ -459,6 +600,7 @@ export default function CreateRequestPage() {
             </Button>
           </div>
         </form>
+        </Form>
       </div>
     </div>
   );
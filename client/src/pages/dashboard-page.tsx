@@ -11,11 +11,16 @@ import { useState } from "react";
 import { DashboardLoading, LoadingSkeleton } from "@/components/loading";
 import DailyDigest from "@/components/daily-digest";
 import MembersDirectory from "@/components/members-directory";
+import SlaBadge from "@/components/sla-badge";
+import BudgetBurndown from "@/components/budget-burndown";
+import { getSlaState } from "@/lib/slaPolicy";
+import { can } from "@/lib/permissions";
 
 export default function DashboardPage() {
   const { user } = useAuth();
   const [aiInsights, setAiInsights] = useState<string[]>([]);
   const [isGeneratingInsights, setIsGeneratingInsights] = useState(false);
+  const [showBreachingOnly, setShowBreachingOnly] = useState(false);
 
   const { data: requests, isLoading: requestsLoading } = useQuery<FundingRequest[]>({
     queryKey: ["/api/requests"],
@@ -45,7 +50,9 @@ export default function DashboardPage() {
     }
   };
 
-  const recentRequests = requests?.slice(0, 5) || [];
+  const atRiskRequests = requests?.filter((r) => ["overdue", "breaching_soon"].includes(getSlaState(r))) || [];
+  const overdueCount = atRiskRequests.filter((r) => getSlaState(r) === "overdue").length;
+  const recentRequests = (showBreachingOnly ? atRiskRequests : requests)?.slice(0, 5) || [];
 
   const generateAIInsights = async () => {
     if (!requests || requests.length === 0) return;
@@ -113,7 +120,12 @@ export default function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-pending" data-testid="text-pending-count">{pendingCount}</div>
-              <p className="text-xs text-muted-foreground">Awaiting approval</p>
+              <p className="text-xs text-muted-foreground">
+                Awaiting approval
+                {overdueCount > 0 && (
+                  <span className="text-destructive font-medium" data-testid="text-overdue-count"> · {overdueCount} overdue</span>
+                )}
+              </p>
             </CardContent>
           </Card>
 
@@ -142,9 +154,22 @@ export default function DashboardPage() {
 
         {/* Recent Requests */}
         <Card>
-          <CardHeader>
-            <CardTitle>Recent Requests</CardTitle>
-            <CardDescription>Your latest funding requests</CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle>Recent Requests</CardTitle>
+              <CardDescription>
+                {showBreachingOnly ? "Requests overdue or close to their SLA deadline" : "Your latest funding requests"}
+              </CardDescription>
+            </div>
+            <Button
+              size="sm"
+              variant={showBreachingOnly ? "default" : "outline"}
+              onClick={() => setShowBreachingOnly(!showBreachingOnly)}
+              data-testid="button-filter-breaching"
+            >
+              <Clock className="h-4 w-4 mr-2" />
+              Breaching soon ({atRiskRequests.length})
+            </Button>
           </CardHeader>
           <CardContent>
             {requestsLoading ? (
@@ -154,10 +179,14 @@ export default function DashboardPage() {
             ) : recentRequests.length === 0 ? (
               <div className="text-center py-8">
                 <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-3" />
-                <p className="text-muted-foreground">No requests yet</p>
-                <Button asChild className="mt-4" variant="outline" data-testid="button-create-first-request">
-                  <Link href="/create-request">Create your first request</Link>
-                </Button>
+                <p className="text-muted-foreground">
+                  {showBreachingOnly ? "No requests are at risk of breaching their SLA" : "No requests yet"}
+                </p>
+                {!showBreachingOnly && (
+                  <Button asChild className="mt-4" variant="outline" data-testid="button-create-first-request">
+                    <Link href="/create-request">Create your first request</Link>
+                  </Button>
+                )}
               </div>
             ) : (
               <div className="space-y-4">
@@ -171,6 +200,7 @@ export default function DashboardPage() {
                       <div className="flex items-center gap-3 mb-1">
                         <h4 className="font-semibold text-foreground" data-testid={`text-request-title-${request.id}`}>{request.title}</h4>
                         {getStatusBadge(request.status)}
+                        <SlaBadge request={request} />
                       </div>
                       <p className="text-sm text-muted-foreground line-clamp-1">{request.description}</p>
                       <div className="flex items-center gap-4 mt-2">
@@ -190,8 +220,11 @@ export default function DashboardPage() {
           </CardContent>
         </Card>
 
+        {/* Budget burn-down */}
+        <BudgetBurndown />
+
         {/* Daily Digest for Approvers */}
-        {(user?.role === 'Admin' || user?.role === 'Approver') && (
+        {user && can(user, 'request.approve') && (
           <DailyDigest 
             approverId={user.id} 
             className="mb-6"
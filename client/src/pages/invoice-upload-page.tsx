@@ -9,6 +9,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { CheckCircle, ArrowLeft, FileText } from 'lucide-react';
+import type { AttachmentRef } from '@/lib/database';
 
 export default function InvoiceUploadPage() {
   const { user } = useAuth();
@@ -18,6 +19,14 @@ export default function InvoiceUploadPage() {
 
   const submitInvoiceMutation = useMutation({
     mutationFn: async (invoiceData: any) => {
+      // Store the supporting documents first so the request can link to them
+      const attachments: AttachmentRef[] = [];
+      for (const file of invoiceData.supportingDocuments as File[]) {
+        const upload = await apiRequest('POST', '/api/upload', file);
+        if (!upload.ok) throw new Error(`${file.name}: ${upload.statusText || 'Upload failed'}`);
+        attachments.push(await upload.json());
+      }
+
       // Transform the form data into the format expected by the API
       const requestData = {
         title: `Invoice: ${invoiceData.vendorName} - ${invoiceData.invoiceNumber}`,
@@ -45,6 +54,10 @@ export default function InvoiceUploadPage() {
           currency: invoiceData.currency,
           paymentMethod: invoiceData.paymentMethod,
           paymentTerms: invoiceData.paymentTerms,
+          expectedPaymentDate: invoiceData.expectedPaymentDate,
+          bankAccount: invoiceData.bankAccount,
+          routingNumber: invoiceData.routingNumber,
+          paymentInstructions: invoiceData.paymentInstructions,
           department: invoiceData.department,
           costCenter: invoiceData.costCenter,
           projectCode: invoiceData.projectCode,
@@ -61,8 +74,8 @@ export default function InvoiceUploadPage() {
           receiptRequired: invoiceData.receiptRequired,
           internalNotes: invoiceData.internalNotes,
           externalNotes: invoiceData.externalNotes,
-          supportingDocuments: invoiceData.supportingDocuments,
         },
+        attachments,
         
         // Approval requirements
         approvalRequirements: {
@@ -73,7 +86,7 @@ export default function InvoiceUploadPage() {
         },
         
         // Checklist items based on requirements
-        checklistItems: [
+        checklist: [
           ...(invoiceData.managerApproval ? [{ item: 'Manager Approval', completed: false }] : []),
           ...(invoiceData.financeApproval ? [{ item: 'Finance Approval', completed: false }] : []),
           ...(invoiceData.legalApproval ? [{ item: 'Legal Approval', completed: false }] : []),
@@ -100,11 +113,18 @@ export default function InvoiceUploadPage() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
       setIsSubmitted(true);
       toast({
         title: 'Success',
         description: 'Invoice submitted successfully for approval',
       });
+      if (data?.suspectedDuplicates?.length) {
+        toast({
+          title: 'Possible duplicate',
+          description: `This invoice looks like "${data.suspectedDuplicates[0].title}". Your approver has been told.`,
+        });
+      }
     },
     onError: (error: any) => {
       console.error('Error submitting invoice:', error);
@@ -4,12 +4,20 @@ import { useLocation, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { OnboardingLayout } from "@/components/onboarding-layout";
-import { AlertCircle, CheckCircle, LogIn } from "lucide-react";
+import { AlertCircle, CheckCircle, Globe, LogIn } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { emailDomain } from "@/lib/domains";
+import type { DomainJoinPolicy, User } from "@/lib/database";
+
+interface DomainJoinOffer {
+  orgName: string;
+  domain: string;
+  mode: DomainJoinPolicy["mode"];
+  defaultRole: User["role"];
+}
 
 export default function JoinOrgPage() {
   const { toast } = useToast();
@@ -27,10 +35,10 @@ export default function JoinOrgPage() {
 
   // Validate invite token if present
   const { data: tokenData, isLoading: tokenLoading } = useQuery({
-    queryKey: ["/api/invite-tokens/validate", inviteToken],
+    queryKey: ["/api/invite-tokens", inviteToken, "validate"],
     queryFn: async () => {
       if (!inviteToken) return null;
-      const res = await fetch(`/api/invite-tokens/validate/${inviteToken}`);
+      const res = await apiRequest("GET", `/api/invite-tokens/${encodeURIComponent(inviteToken)}/validate`);
       if (!res.ok) {
         const error = await res.json();
         throw new Error(error.error || "Invalid token");
@@ -41,6 +49,18 @@ export default function JoinOrgPage() {
     retry: false,
   });
 
+  // Organizations that verified the email's domain can be joined without a code
+  const domain = emailDomain(email);
+  const { data: domainOffer } = useQuery<DomainJoinOffer | null>({
+    queryKey: ["/api/organizations/domain-match", domain],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/organizations/domain-match?email=${encodeURIComponent(email)}`);
+      return res.ok ? res.json() : null;
+    },
+    enabled: !inviteToken && /^[^@\s]+\.[a-z]{2,}$/i.test(domain),
+  });
+  const joinsByDomain = !!domainOffer && !inviteToken && !orgCode;
+
   useEffect(() => {
     if (tokenData && tokenData.valid) {
       setRole(tokenData.role);
@@ -48,21 +68,30 @@ export default function JoinOrgPage() {
     }
   }, [tokenData]);
 
+  // Invite links go through /api/register; codes and verified domains through /api/join
   const registerMutation = useMutation({
-    mutationFn: async (data: any) => {
-      const res = await apiRequest("POST", "/api/register", data);
+    mutationFn: async ({ url, data }: { url: string; data: Record<string, unknown> }) => {
+      const res = await apiRequest("POST", url, data);
       if (!res.ok) {
         const error = await res.text();
         throw new Error(error || "Registration failed");
       }
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { pending?: boolean; message?: string }) => {
+      if (result.pending) {
+        toast({
+          title: "Request sent",
+          description: result.message,
+        });
+        setLocation("/login");
+        return;
+      }
       toast({
         title: "Success!",
-        description: "Your account has been created. Please log in.",
+        description: "Your account has been created.",
       });
-      setLocation("/login");
+      setLocation("/dashboard");
     },
     onError: (error: Error) => {
       toast({
@@ -94,20 +123,27 @@ export default function JoinOrgPage() {
       return;
     }
 
+    if (isTokenValid) {
+      registerMutation.mutate({
+        url: "/api/register",
+        data: { inviteCode: inviteToken, email, password, fullName },
+      });
+      return;
+    }
+
     registerMutation.mutate({
-      orgCode,
-      email,
-      password,
-      fullName,
-      role,
-      department: department || null,
-      customFieldsData: {},
-      inviteToken: inviteToken || undefined,
+      url: "/api/join",
+      data: {
+        orgCode: orgCode || undefined,
+        email,
+        password,
+        fullName,
+        department: department || null,
+      },
     });
   };
 
   const isTokenValid: boolean = Boolean(inviteToken && tokenData && tokenData.valid);
-  const isRoleLocked: boolean = isTokenValid;
 
   return (
     <OnboardingLayout
@@ -139,6 +175,18 @@ export default function JoinOrgPage() {
         </Alert>
       )}
 
+      {joinsByDomain && domainOffer && (
+        <Alert className="mb-4" data-testid="alert-domain-join">
+          <Globe className="h-4 w-4" />
+          <AlertDescription>
+            {domainOffer.orgName} has verified {domainOffer.domain}.{" "}
+            {domainOffer.mode === "approval"
+              ? `Leave the organization code empty to ask to join as ${domainOffer.defaultRole}; an admin will review your request.`
+              : `Leave the organization code empty to join as ${domainOffer.defaultRole}.`}
+          </AlertDescription>
+        </Alert>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-4">
         <div className="space-y-2">
           <Label htmlFor="org-code">Organization Code</Label>
@@ -148,7 +196,7 @@ export default function JoinOrgPage() {
             placeholder="Enter organization code"
             value={orgCode}
             onChange={(e) => setOrgCode(e.target.value.toUpperCase())}
-            required
+            required={!domainOffer}
             disabled={isTokenValid}
           />
           {!inviteToken && (
@@ -209,24 +257,16 @@ export default function JoinOrgPage() {
           />
         </div>
 
-        <div className="space-y-2">
-          <Label htmlFor="role">Role</Label>
-          <Select value={role} onValueChange={setRole} disabled={isRoleLocked}>
-            <SelectTrigger id="role" data-testid="select-role">
-              <SelectValue placeholder={isRoleLocked ? "Pre-assigned by invite" : "Select your role"} />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="Requester">Requester</SelectItem>
-              <SelectItem value="Approver">Approver</SelectItem>
-              <SelectItem value="Admin">Admin</SelectItem>
-            </SelectContent>
-          </Select>
-          {isRoleLocked ? (
+        {/* The organization sets the role: an invite shows the one it carries, a code joins as Requester */}
+        {isTokenValid && (
+          <div className="space-y-2">
+            <Label htmlFor="role">Role</Label>
+            <Input id="role" data-testid="input-role" value={role} disabled />
             <p className="text-xs text-muted-foreground">
               Your role has been pre-assigned by the admin who sent you the invite link.
             </p>
-          ) : null}
-        </div>
+          </div>
+        )}
 
         <div className="space-y-2">
           <Label htmlFor="department">Department (Optional)</Label>
@@ -7,6 +7,7 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { OnboardingLayout } from "@/components/onboarding-layout";
+import SyncStatus from "@/components/sync-status";
 import { Building2, UserPlus } from "lucide-react";
 
 export default function LoginPage() {
@@ -117,6 +118,9 @@ export default function LoginPage() {
             Create New Organization
           </Button>
         </div>
+
+        {/* A new browser starts empty; pulling from the team server restores the account */}
+        <SyncStatus />
       </div>
     </OnboardingLayout>
   );
@@ -6,8 +6,13 @@ import HierarchyVisualization from "@/components/hierarchy-visualization";
 import AdminOrgChartManager from "@/components/admin-org-chart-manager";
 import SmartMemberAdder from "@/components/smart-member-adder";
 import OrgChartDebug from "@/components/org-chart-debug";
+import OrgChartImportWizard from "@/components/org-chart-import-wizard";
+import LegacyOrgChartImport from "@/components/legacy-org-chart-import";
 import { useQuery } from "@tanstack/react-query";
-import { User, OrgChartNode, OrgMember, OrgChart } from "@/lib/database";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { can } from "@/lib/permissions";
+import { useOrgHierarchy } from "@/hooks/use-org-hierarchy";
+import { User, OrgChartNode, OrgMember } from "@/lib/database";
 import { useEffect, useState } from "react";
 import { 
   Users, 
@@ -23,7 +28,7 @@ export default function OrgChartPage() {
   const { toast } = useToast();
   const [isInitialized, setIsInitialized] = useState(false);
   
-  const isAdmin = user?.role === 'Admin';
+  const isAdmin = can(user, 'orgchart.edit');
 
   // Fetch org members using new org-scoped API
   const { data: orgMembers, isLoading: membersLoading, refetch: refetchMembers } = useQuery<OrgMember[]>({
@@ -31,20 +36,18 @@ export default function OrgChartPage() {
     enabled: !!user?.orgId,
   });
 
-  // Fetch org chart using new org-scoped API
-  const { data: orgChart, isLoading: chartLoading, refetch: refetchChart } = useQuery<OrgChart | null>({
-    queryKey: ["/api/org-chart"],
-    enabled: !!user?.orgId,
-  });
+  // Fetch org chart nodes from the shared hierarchy
+  const { nodes: chartNodes, isLoading: chartLoading } = useOrgHierarchy(!!user?.orgId);
+  const refetchChart = () => queryClient.invalidateQueries({ queryKey: ["/api/org-chart"] });
 
   // Initialize org chart data on component mount
   useEffect(() => {
     const initializeOrgChart = async () => {
-      if (!user?.orgId || isInitialized) return;
+      if (!user?.orgId || isInitialized || chartLoading) return;
       
       try {
         // Create org chart if it doesn't exist and we have members
-        if (orgMembers && orgMembers.length > 0 && !orgChart) {
+        if (isAdmin && orgMembers && orgMembers.length > 0 && chartNodes.length === 0) {
           const nodes: OrgChartNode[] = orgMembers.map((member, index) => ({
             id: crypto.randomUUID(),
             orgId: member.orgId,
@@ -69,13 +72,10 @@ export default function OrgChartPage() {
             updatedAt: new Date()
           };
 
-          const response = await fetch('/api/org-chart', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(chartData)
-          });
+          const response = await apiRequest("POST", "/api/org-chart", chartData);
 
           if (response.ok) {
+            await refetchChart();
             console.log(`✅ Created org chart with ${nodes.length} nodes`);
           }
         }
@@ -90,7 +90,7 @@ export default function OrgChartPage() {
     if (orgMembers && !isInitialized) {
       initializeOrgChart();
     }
-  }, [orgMembers, orgChart, user?.orgId, isInitialized]);
+  }, [orgMembers, chartNodes, chartLoading, isAdmin, user?.orgId, isInitialized]);
 
   const handleRefresh = async () => {
     try {
@@ -113,7 +113,7 @@ export default function OrgChartPage() {
 
   // Calculate statistics
   const totalMembers = orgMembers?.length || 0;
-  const totalNodes = orgChart?.nodes?.length || 0;
+  const totalNodes = chartNodes.length;
   const admins = orgMembers?.filter(m => m.role === 'admin').length || 0;
   const members = orgMembers?.filter(m => m.role !== 'admin').length || 0;
 
@@ -139,6 +139,8 @@ export default function OrgChartPage() {
                    Refresh
                  </Button>
           
+          {isAdmin && <OrgChartImportWizard />}
+
           {isAdmin && (
             <Button
               variant="outline"
@@ -151,6 +153,8 @@ export default function OrgChartPage() {
         </div>
       </div>
 
+      {isAdmin && <LegacyOrgChartImport />}
+
       {/* Status Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
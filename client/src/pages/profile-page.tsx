@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useLocation } from 'wouter';
 import { useAuth } from '@/hooks/use-auth';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -26,6 +27,7 @@ import {
   Shield, 
   Bell, 
   Key, 
+  LogOut,
   Edit3,
   Save,
   X,
@@ -40,10 +42,15 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { User as UserType, Organization, FundingRequest } from '@/lib/database';
+import DelegationSettings from '@/components/delegation-settings';
+import TwoFactorSettings from '@/components/two-factor-settings';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { isTwoFactorAvailable, needsTwoFactorSetup } from '@/lib/twoFactor';
 
 export default function ProfilePage() {
   const { user: currentUser } = useAuth();
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
   const [isEditing, setIsEditing] = useState(false);
   const [showChangePassword, setShowChangePassword] = useState(false);
   const [formData, setFormData] = useState({
@@ -72,6 +79,8 @@ export default function ProfilePage() {
     enabled: !!currentUser,
   });
 
+  const mustSetUpTwoFactor = needsTwoFactorSetup(currentUser, organization);
+
   // Filter user's requests
   const myRequests = userRequests?.filter(req => req.requesterId === currentUser?.id) || [];
 
@@ -81,11 +90,13 @@ export default function ProfilePage() {
       const res = await apiRequest("PATCH", "/api/user/profile", data);
       return await res.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { pendingReview: boolean }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/user"] });
       toast({
         title: "Success",
-        description: "Profile updated successfully",
+        description: result.pendingReview
+          ? "Profile updated. Your department and job title change will apply once an admin approves it."
+          : "Profile updated successfully",
       });
       setIsEditing(false);
     },
@@ -121,6 +132,34 @@ export default function ProfilePage() {
     },
   });
 
+  // Sign out all devices mutation
+  const signOutAllMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/user/sessions/revoke");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/user"], null);
+      toast({
+        title: "Signed out everywhere",
+        description: "Every session, including this one, has been ended. Sign in again to continue.",
+      });
+      setLocation("/auth");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSignOutAll = () => {
+    if (confirm("Sign out of RapidFunds on every device, including this one?")) {
+      signOutAllMutation.mutate();
+    }
+  };
+
   const handleSave = () => {
     updateProfileMutation.mutate(formData);
   };
@@ -191,6 +230,17 @@ export default function ProfilePage() {
           <p className="text-muted-foreground mt-1">Manage your personal information and preferences</p>
         </div>
 
+        {mustSetUpTwoFactor && (
+          <Alert variant="destructive" data-testid="alert-two-factor-required">
+            <Shield className="h-4 w-4" />
+            <AlertTitle>Two-factor authentication required</AlertTitle>
+            <AlertDescription>
+              {organization?.name || 'Your organization'} requires two-factor authentication for {currentUser.role} members.
+              Set it up under Security to continue using RapidFunds.
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Profile Overview Card */}
           <div className="lg:col-span-1">
@@ -240,7 +290,7 @@ export default function ProfilePage() {
 
           {/* Main Content */}
           <div className="lg:col-span-2">
-            <Tabs defaultValue="personal" className="w-full">
+            <Tabs defaultValue={mustSetUpTwoFactor ? "security" : "personal"} className="w-full">
               <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="personal">Personal</TabsTrigger>
                 <TabsTrigger value="notifications">Notifications</TabsTrigger>
@@ -342,6 +392,8 @@ export default function ProfilePage() {
                     )}
                   </CardContent>
                 </Card>
+
+                <DelegationSettings user={currentUser} />
               </TabsContent>
 
               {/* Notifications Tab */}
@@ -480,8 +532,21 @@ export default function ProfilePage() {
                         </div>
                       </DialogContent>
                     </Dialog>
+
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={handleSignOutAll}
+                      disabled={signOutAllMutation.isPending}
+                      data-testid="button-sign-out-all"
+                    >
+                      <LogOut className="h-4 w-4 mr-2" />
+                      {signOutAllMutation.isPending ? 'Signing out...' : 'Sign Out All Devices'}
+                    </Button>
                   </CardContent>
                 </Card>
+
+                {isTwoFactorAvailable() && <TwoFactorSettings user={currentUser} organization={organization} />}
               </TabsContent>
 
               {/* Activity Tab */}
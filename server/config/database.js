@@ -61,10 +61,22 @@ export const initializeDatabase = async () => {
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
         last_login TIMESTAMP,
-        preferences JSONB DEFAULT '{}'
+        preferences JSONB DEFAULT '{}',
+        sessions_revoked_at TIMESTAMPTZ,
+        custom_role_id VARCHAR(100)
       )
     `);
 
+    // Databases created before "sign out all devices" lack the revocation column
+    await db.query(`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS sessions_revoked_at TIMESTAMPTZ
+    `);
+
+    // ...and the custom role added with the permission matrix
+    await db.query(`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS custom_role_id VARCHAR(100)
+    `);
+
     // Create funding_requests table
     await db.query(`
       CREATE TABLE IF NOT EXISTS funding_requests (
@@ -121,6 +133,32 @@ export const initializeDatabase = async () => {
       )
     `);
 
+    // Create sync_documents table (offline clients' records, one JSON document per row)
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS sync_documents (
+        org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+        entity VARCHAR(50) NOT NULL,
+        doc_key VARCHAR(255) NOT NULL,
+        data JSONB,
+        deleted BOOLEAN DEFAULT false,
+        changed_at TIMESTAMPTZ NOT NULL,
+        changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        updated_at TIMESTAMPTZ DEFAULT clock_timestamp(),
+        PRIMARY KEY (org_id, entity, doc_key)
+      )
+    `);
+    // Pull cursors follow the writing transaction's id (see routes/sync.js); rows written
+    // before that are long committed, so they sort first
+    await db.query(`
+      ALTER TABLE sync_documents ADD COLUMN IF NOT EXISTS txid BIGINT NOT NULL DEFAULT 0
+    `);
+
+    // Credentials are no longer synced; drop any pushed before that
+    await db.query(`
+      UPDATE sync_documents SET data = data - 'password' - 'twoFactor'
+      WHERE entity = 'users' AND (data ? 'password' OR data ? 'twoFactor')
+    `);
+
     // Create indexes for better performance
     await db.query(`
       CREATE INDEX IF NOT EXISTS idx_users_org_id ON users(org_id);
@@ -132,6 +170,7 @@ export const initializeDatabase = async () => {
       CREATE INDEX IF NOT EXISTS idx_org_chart_nodes_org_id ON org_chart_nodes(org_id);
       CREATE INDEX IF NOT EXISTS idx_org_chart_nodes_user_id ON org_chart_nodes(user_id);
       CREATE INDEX IF NOT EXISTS idx_org_chart_nodes_parent_id ON org_chart_nodes(parent_id);
+      CREATE INDEX IF NOT EXISTS idx_sync_documents_org_id_txid ON sync_documents(org_id, txid, entity, doc_key);
     `);
 
     console.log('✅ Database tables initialized successfully');
@@ -1,5 +1,13 @@
-import jwt from 'jsonwebtoken';
 import { db } from '../config/database.js';
+import { importSigningKey, verifyToken, isRevoked, TokenError } from '../../shared/sessionTokens.js';
+import { can, roleGrantRefusal, CAPABILITY_LABELS } from '../../shared/permissions.js';
+
+// Same HS256 tokens the browser client issues, signed with the server's secret
+let signingKey;
+export const getSigningKey = () => {
+  signingKey ??= importSigningKey(process.env.JWT_SECRET || 'your-secret-key');
+  return signingKey;
+};
 
 export const authenticateToken = async (req, res, next) => {
   try {
@@ -13,12 +21,12 @@ export const authenticateToken = async (req, res, next) => {
       });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key');
+    const claims = await verifyToken(await getSigningKey(), token, 'access');
     
     // Get user from database
     const user = await db.query(
-      'SELECT id, email, full_name, role, org_id, is_active FROM users WHERE id = $1',
-      [decoded.userId]
+      'SELECT id, email, full_name, role, custom_role_id, org_id, is_active, sessions_revoked_at FROM users WHERE id = $1',
+      [claims.sub]
     );
 
     if (user.rows.length === 0) {
@@ -28,9 +36,24 @@ export const authenticateToken = async (req, res, next) => {
       });
     }
 
-    req.user = user.rows[0];
+    const { sessions_revoked_at, ...row } = user.rows[0];
+    if (!row.is_active || isRevoked(claims, sessions_revoked_at)) {
+      return res.status(401).json({ 
+        error: 'Access denied', 
+        message: 'Session has been signed out' 
+      });
+    }
+
+    req.user = row;
     next();
   } catch (error) {
+    // Expired tokens get a 401 so clients know to refresh; anything else is forged or malformed
+    if (error instanceof TokenError && error.reason === 'expired') {
+      return res.status(401).json({ 
+        error: 'Access denied', 
+        message: 'Token expired' 
+      });
+    }
     console.error('Auth middleware error:', error);
     return res.status(403).json({ 
       error: 'Access denied', 
@@ -39,8 +62,36 @@ export const authenticateToken = async (req, res, next) => {
   }
 };
 
-export const requireRole = (roles) => {
-  return (req, res, next) => {
+// can() reads the client's camelCase fields; resource rows are mapped by the caller
+const toSubject = (user) => ({
+  id: user.id,
+  orgId: user.org_id,
+  role: user.role,
+  customRoleId: user.custom_role_id
+});
+
+// Custom roles and built-in overrides live in the organization's settings
+const orgRoles = async (orgId) => {
+  const result = await db.query('SELECT settings FROM organizations WHERE id = $1', [orgId]);
+  return result.rows[0]?.settings?.roles;
+};
+
+export const userCan = async (user, capability, resource) =>
+  can(toSubject(user), capability, resource, await orgRoles(user.org_id));
+
+// Why the user may not replace a member's `current` role pair with `next`, or null if they may
+export const roleGrantRefusalFor = async (user, current, next) =>
+  roleGrantRefusal(toSubject(user), current, next, await orgRoles(user.org_id));
+
+// A member's roles as roleGrantRefusal compares them, or null if they are not in the org
+export const currentRoles = async (userId, orgId) => {
+  const result = await db.query('SELECT role, custom_role_id FROM users WHERE id = $1 AND org_id = $2', [userId, orgId]);
+  const row = result.rows[0];
+  return row ? { role: row.role, customRoleId: row.custom_role_id } : null;
+};
+
+export const requireCapability = (capability) => {
+  return async (req, res, next) => {
     if (!req.user) {
       return res.status(401).json({ 
         error: 'Access denied', 
@@ -48,16 +99,17 @@ export const requireRole = (roles) => {
       });
     }
 
-    if (!roles.includes(req.user.role)) {
-      return res.status(403).json({ 
-        error: 'Access denied', 
-        message: 'Insufficient permissions' 
-      });
+    try {
+      if (!await userCan(req.user, capability)) {
+        return res.status(403).json({ 
+          error: 'Access denied', 
+          message: `Permission required: ${CAPABILITY_LABELS[capability].toLowerCase()}` 
+        });
+      }
+      next();
+    } catch (error) {
+      console.error('Permission check error:', error);
+      res.status(500).json({ error: 'Internal server error' });
     }
-
-    next();
   };
 };
-
-export const requireAdmin = requireRole(['Admin']);
-export const requireApprover = requireRole(['Admin', 'Approver']);
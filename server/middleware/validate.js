@@ -0,0 +1,19 @@
+import { ValidationError, fieldErrors } from '../../shared/contracts.js';
+
+// Parse one part of the request with a shared contract. Invalid input gets a 422 with one
+// message per field; valid input replaces the original with the parsed (trimmed, coerced) data.
+const validate = (source, schema) => {
+  return (req, res, next) => {
+    const result = schema.safeParse(req[source] ?? {});
+    if (!result.success) {
+      const error = new ValidationError(fieldErrors(result.error.issues));
+      return res.status(422).json({ error: error.message, fields: error.fields });
+    }
+
+    req[source] = result.data;
+    next();
+  };
+};
+
+export const validateBody = (schema) => validate('body', schema);
+export const validateQuery = (schema) => validate('query', schema);
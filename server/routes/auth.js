@@ -1,25 +1,36 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { body, validationResult } from 'express-validator';
+import { z } from 'zod';
 import { db } from '../config/database.js';
+import { validateBody } from '../middleware/validate.js';
+import { authenticateToken, getSigningKey } from '../middleware/auth.js';
+import { loginInput, registerMemberInput, refreshSessionInput, profileInput, phoneNumber } from '../../shared/contracts.js';
+import { issueSession, verifyToken, isRevoked } from '../../shared/sessionTokens.js';
 
 const router = express.Router();
 
+// Access and refresh tokens in the shape clients store them
+const sessionFor = async (user, sessionId) => {
+  const { accessToken, refreshToken, expiresAt } = await issueSession(await getSigningKey(), {
+    userId: user.id,
+    orgId: user.org_id,
+    sessionId
+  });
+  return { token: accessToken, refreshToken, expiresAt };
+};
+
+// The server keeps its own column names for the phone number and preferences
+const serverProfileInput = profileInput.pick({ fullName: true, department: true, jobTitle: true }).extend({
+  phone: phoneNumber,
+  preferences: z.record(z.any()).optional()
+});
+
 // Register new user
-router.post('/register', [
-  body('email').isEmail().normalizeEmail(),
-  body('password').isLength({ min: 6 }),
-  body('fullName').trim().isLength({ min: 2 }),
-  body('orgCode').trim().isLength({ min: 3 })
-], async (req, res) => {
+router.post('/register', validateBody(registerMemberInput), async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
-
-    const { email, password, fullName, orgCode, role = 'Member', department, jobTitle } = req.body;
+    // Self-registered users always start as Members; admins promote them afterwards
+    const { email, password, fullName, orgCode, department, jobTitle } = req.body;
+    const role = 'Member';
 
     // Check if user already exists
     const existingUser = await db.query('SELECT id FROM users WHERE email = $1', [email]);
@@ -55,12 +66,8 @@ router.post('/register', [
 
     const user = userResult.rows[0];
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, email: user.email, orgId: user.org_id },
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: '7d' }
-    );
+    // Start a session
+    const session = await sessionFor(user);
 
     res.status(201).json({
       message: 'User created successfully',
@@ -71,7 +78,7 @@ router.post('/register', [
         role: user.role,
         orgId: user.org_id
       },
-      token
+      ...session
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -80,16 +87,8 @@ router.post('/register', [
 });
 
 // Login user
-router.post('/login', [
-  body('email').isEmail().normalizeEmail(),
-  body('password').notEmpty()
-], async (req, res) => {
+router.post('/login', validateBody(loginInput), async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
-
     const { email, password } = req.body;
 
     // Find user
@@ -120,12 +119,8 @@ router.post('/login', [
     // Update last login
     await db.query('UPDATE users SET last_login = CURRENT_TIMESTAMP WHERE id = $1', [user.id]);
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, email: user.email, orgId: user.org_id },
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: '7d' }
-    );
+    // Start a session
+    const session = await sessionFor(user);
 
     res.json({
       message: 'Login successful',
@@ -138,7 +133,7 @@ router.post('/login', [
         orgName: user.org_name,
         orgCode: user.org_code
       },
-      token
+      ...session
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -146,8 +141,46 @@ router.post('/login', [
   }
 });
 
+// Exchange a refresh token for a new token pair
+router.post('/refresh', validateBody(refreshSessionInput), async (req, res) => {
+  let claims;
+  try {
+    claims = await verifyToken(await getSigningKey(), req.body.refreshToken, 'refresh');
+  } catch (error) {
+    return res.status(401).json({ error: 'Session expired, please sign in again' });
+  }
+
+  try {
+    const userResult = await db.query(
+      'SELECT id, org_id, is_active, sessions_revoked_at FROM users WHERE id = $1',
+      [claims.sub]
+    );
+    const user = userResult.rows[0];
+
+    if (!user || !user.is_active || isRevoked(claims, user.sessions_revoked_at)) {
+      return res.status(401).json({ error: 'Session expired, please sign in again' });
+    }
+
+    res.json(await sessionFor(user, claims.sid));
+  } catch (error) {
+    console.error('Refresh error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Sign out all devices: every token issued until now stops working
+router.post('/sign-out-all', authenticateToken, async (req, res) => {
+  try {
+    await db.query('UPDATE users SET sessions_revoked_at = CURRENT_TIMESTAMP WHERE id = $1', [req.user.id]);
+    res.json({ message: 'Signed out of all devices' });
+  } catch (error) {
+    console.error('Sign out all error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Get current user profile
-router.get('/profile', async (req, res) => {
+router.get('/profile', authenticateToken, async (req, res) => {
   try {
     const userResult = await db.query(`
       SELECT u.id, u.email, u.full_name, u.role, u.department, u.job_title, u.phone,
@@ -184,18 +217,8 @@ router.get('/profile', async (req, res) => {
 });
 
 // Update user profile
-router.put('/profile', [
-  body('fullName').optional().trim().isLength({ min: 2 }),
-  body('phone').optional().isMobilePhone(),
-  body('department').optional().trim(),
-  body('jobTitle').optional().trim()
-], async (req, res) => {
+router.put('/profile', authenticateToken, validateBody(serverProfileInput), async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
-
     const { fullName, phone, department, jobTitle, preferences } = req.body;
     const updateFields = [];
     const values = [];
@@ -1,10 +1,47 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
 import { db } from '../config/database.js';
-import { requireAdmin } from '../middleware/auth.js';
+import { requireCapability } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { orgChartNodeInput, orgChartNodeUpdateInput, moveOrgChartNodeInput } from '../../shared/contracts.js';
+import { resolveOrgChartRules, checkOrgChart, planMove } from '../../shared/orgChartRules.js';
 
 const router = express.Router();
 
+// Stands in for a node that is not stored yet when the chart rules are checked
+const NEW_NODE_ID = 'new';
+
+// The org's chart as the rules see it, locked until the transaction ends, with the org's
+// chart rules and (when they ask for it) its active members
+async function loadChart(client, orgId) {
+  const nodesResult = await client.query(`
+    SELECT id, name, parent_id, user_id, level
+    FROM org_chart_nodes
+    WHERE org_id = $1
+    FOR UPDATE
+  `, [orgId]);
+  const nodes = nodesResult.rows.map(row => ({ id: row.id, name: row.name, parentId: row.parent_id, userId: row.user_id, level: row.level }));
+
+  const orgResult = await client.query('SELECT settings FROM organizations WHERE id = $1', [orgId]);
+  const rules = resolveOrgChartRules((orgResult.rows[0]?.settings || {}).orgChartRules);
+  let activeUserIds;
+  if (rules.requireActiveMember) {
+    const usersResult = await client.query('SELECT id FROM users WHERE org_id = $1 AND is_active = true', [orgId]);
+    activeUserIds = new Set(usersResult.rows.map(row => row.id));
+  }
+  return { nodes, rules, activeUserIds };
+}
+
+// Store the levels a check worked out, touching only the nodes whose level changes
+async function applyPlacements(client, orgId, placements) {
+  for (const { id, level } of placements) {
+    await client.query(`
+      UPDATE org_chart_nodes
+      SET level = $1, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND org_id = $3 AND level <> $1
+    `, [level, id, orgId]);
+  }
+}
+
 // Get org chart nodes
 router.get('/', async (req, res) => {
   try {
@@ -89,29 +126,16 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-// Create org chart node (Admin only)
-router.post('/', requireAdmin, [
-  body('userId').optional().isUUID(),
-  body('name').trim().isLength({ min: 2 }),
-  body('role').optional().trim(),
-  body('department').optional().trim(),
-  body('level').isInt({ min: 1, max: 10 }),
-  body('parentId').optional().isUUID(),
-  body('position').optional().isObject(),
-  body('color').optional().isIn(['blue', 'green', 'purple', 'orange', 'red', 'gray']),
-  body('shape').optional().isIn(['rectangle', 'circle', 'diamond'])
-], async (req, res) => {
+// Create org chart node. Checked against the org's chart rules; its level follows from its
+// manager, whatever the caller sent.
+router.post('/', requireCapability('orgchart.edit'), validateBody(orgChartNodeInput), async (req, res) => {
+  const client = await db.connect();
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
-
-    const { userId, name, role, department, level, parentId, position, color, shape } = req.body;
+    const { userId, name, role, department, parentId, position, color, shape } = req.body;
 
     // If userId is provided, verify the user exists in the organization
     if (userId) {
-      const userResult = await db.query(`
+      const userResult = await client.query(`
         SELECT id FROM users WHERE id = $1 AND org_id = $2
       `, [userId, req.user.org_id]);
 
@@ -120,18 +144,20 @@ router.post('/', requireAdmin, [
       }
     }
 
-    // If parentId is provided, verify the parent node exists
-    if (parentId) {
-      const parentResult = await db.query(`
-        SELECT id FROM org_chart_nodes WHERE id = $1 AND org_id = $2
-      `, [parentId, req.user.org_id]);
-
-      if (parentResult.rows.length === 0) {
-        return res.status(400).json({ error: 'Parent node not found' });
-      }
+    await client.query('BEGIN');
+    const { nodes, rules, activeUserIds } = await loadChart(client, req.user.org_id);
+    const { placements, violations } = checkOrgChart(
+      [...nodes, { id: NEW_NODE_ID, name, parentId, userId }],
+      rules,
+      { activeUserIds, changedIds: [NEW_NODE_ID] }
+    );
+    if (violations.length > 0) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ error: violations[0].message, details: { violations } });
     }
+    const level = placements.find(placement => placement.id === NEW_NODE_ID)?.level ?? 1;
 
-    const result = await db.query(`
+    const result = await client.query(`
       INSERT INTO org_chart_nodes (
         org_id, user_id, name, role, department, level, parent_id, 
         position, color, shape, is_expanded, is_approved
@@ -144,6 +170,7 @@ router.post('/', requireAdmin, [
       JSON.stringify(position || { x: 0, y: 0 }), color || 'blue', 
       shape || 'rectangle', true, true
     ]);
+    await client.query('COMMIT');
 
     const node = result.rows[0];
 
@@ -166,41 +193,36 @@ router.post('/', requireAdmin, [
       }
     });
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('Create org chart node error:', error);
     res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    client.release();
   }
 });
 
-// Update org chart node (Admin only)
-router.put('/:id', requireAdmin, [
-  body('name').optional().trim().isLength({ min: 2 }),
-  body('role').optional().trim(),
-  body('department').optional().trim(),
-  body('level').optional().isInt({ min: 1, max: 10 }),
-  body('parentId').optional().isUUID(),
-  body('position').optional().isObject(),
-  body('color').optional().isIn(['blue', 'green', 'purple', 'orange', 'red', 'gray']),
-  body('shape').optional().isIn(['rectangle', 'circle', 'diamond']),
-  body('isExpanded').optional().isBoolean(),
-  body('isApproved').optional().isBoolean()
-], async (req, res) => {
+// Update org chart node. Levels follow from the tree, so a sent level is ignored; a new
+// manager is checked like a move and the node's reports are re-levelled with it.
+router.put('/:id', requireCapability('orgchart.edit'), validateBody(orgChartNodeUpdateInput), async (req, res) => {
+  const client = await db.connect();
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
+    const { name, role, department, parentId, position, color, shape, isExpanded, isApproved } = req.body;
 
-    const { name, role, department, level, parentId, position, color, shape, isExpanded, isApproved } = req.body;
-
-    // If parentId is provided, verify the parent node exists
-    if (parentId) {
-      const parentResult = await db.query(`
-        SELECT id FROM org_chart_nodes WHERE id = $1 AND org_id = $2
-      `, [parentId, req.user.org_id]);
+    await client.query('BEGIN');
+    let placements = [];
+    if (parentId !== undefined) {
+      const { nodes, rules, activeUserIds } = await loadChart(client, req.user.org_id);
+      if (!nodes.some(node => node.id === req.params.id)) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Org chart node not found' });
+      }
 
-      if (parentResult.rows.length === 0) {
-        return res.status(400).json({ error: 'Parent node not found' });
+      const plan = planMove(nodes, req.params.id, parentId || null, rules, { activeUserIds });
+      if (plan.violations.length > 0) {
+        await client.query('ROLLBACK');
+        return res.status(422).json({ error: plan.violations[0].message, details: { violations: plan.violations } });
       }
+      placements = plan.placements;
     }
 
     const updateFields = [];
@@ -219,13 +241,9 @@ router.put('/:id', requireAdmin, [
       updateFields.push(`department = $${paramCount++}`);
       values.push(department);
     }
-    if (level) {
-      updateFields.push(`level = $${paramCount++}`);
-      values.push(level);
-    }
     if (parentId !== undefined) {
       updateFields.push(`parent_id = $${paramCount++}`);
-      values.push(parentId);
+      values.push(parentId || null);
     }
     if (position) {
       updateFields.push(`position = $${paramCount++}`);
@@ -249,6 +267,7 @@ router.put('/:id', requireAdmin, [
     }
 
     if (updateFields.length === 0) {
+      await client.query('ROLLBACK');
       return res.status(400).json({ error: 'No fields to update' });
     }
 
@@ -263,11 +282,15 @@ router.put('/:id', requireAdmin, [
                 position, color, shape, is_expanded, is_approved, updated_at
     `;
 
-    const result = await db.query(query, values);
+    // Levels first, so the returned node has its new one
+    await applyPlacements(client, req.user.org_id, placements);
+    const result = await client.query(query, values);
 
     if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
       return res.status(404).json({ error: 'Org chart node not found' });
     }
+    await client.query('COMMIT');
 
     const node = result.rows[0];
 
@@ -290,13 +313,16 @@ router.put('/:id', requireAdmin, [
       }
     });
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('Update org chart node error:', error);
     res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    client.release();
   }
 });
 
-// Delete org chart node (Admin only)
-router.delete('/:id', requireAdmin, async (req, res) => {
+// Delete org chart node
+router.delete('/:id', requireCapability('orgchart.edit'), async (req, res) => {
   try {
     // Check if node has children
     const childrenResult = await db.query(`
@@ -333,40 +359,40 @@ router.delete('/:id', requireAdmin, async (req, res) => {
   }
 });
 
-// Move org chart node (Admin only)
-router.patch('/:id/move', requireAdmin, [
-  body('newParentId').optional().isUUID(),
-  body('newLevel').isInt({ min: 1, max: 10 })
-], async (req, res) => {
+// Move org chart node. Refused with every rule it breaks (loops, depth, the org's chart
+// rules); otherwise the node and everyone below it get the levels their new place implies.
+router.patch('/:id/move', requireCapability('orgchart.edit'), validateBody(moveOrgChartNodeInput), async (req, res) => {
+  const client = await db.connect();
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
+    const { newParentId } = req.body;
 
-    const { newParentId, newLevel } = req.body;
+    await client.query('BEGIN');
+    const { nodes, rules, activeUserIds } = await loadChart(client, req.user.org_id);
 
-    // If newParentId is provided, verify the parent node exists
-    if (newParentId) {
-      const parentResult = await db.query(`
-        SELECT id FROM org_chart_nodes WHERE id = $1 AND org_id = $2
-      `, [newParentId, req.user.org_id]);
+    if (!nodes.some(node => node.id === req.params.id)) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Org chart node not found' });
+    }
 
-      if (parentResult.rows.length === 0) {
-        return res.status(400).json({ error: 'Parent node not found' });
-      }
+    const { placements, violations } = planMove(nodes, req.params.id, newParentId, rules, { activeUserIds });
+    if (violations.length > 0) {
+      await client.query('ROLLBACK');
+      return res.status(422).json({ error: violations[0].message, details: { violations } });
     }
 
-    const result = await db.query(`
-      UPDATE org_chart_nodes 
-      SET parent_id = $1, level = $2, updated_at = CURRENT_TIMESTAMP
-      WHERE id = $3 AND org_id = $4
-      RETURNING id, name, level, parent_id, updated_at
-    `, [newParentId, newLevel, req.params.id, req.user.org_id]);
+    await client.query(`
+      UPDATE org_chart_nodes
+      SET parent_id = $1, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND org_id = $3
+    `, [newParentId, req.params.id, req.user.org_id]);
+    await applyPlacements(client, req.user.org_id, placements);
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Org chart node not found' });
-    }
+    const result = await client.query(`
+      SELECT id, name, level, parent_id, updated_at
+      FROM org_chart_nodes
+      WHERE id = $1 AND org_id = $2
+    `, [req.params.id, req.user.org_id]);
+    await client.query('COMMIT');
 
     const node = result.rows[0];
 
@@ -381,8 +407,11 @@ router.patch('/:id/move', requireAdmin, [
       }
     });
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('Move org chart node error:', error);
     res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    client.release();
   }
 });
 
@@ -1,7 +1,8 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
 import { db } from '../config/database.js';
-import { requireAdmin } from '../middleware/auth.js';
+import { requireCapability } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { organizationUpdateInput } from '../../shared/contracts.js';
 
 const router = express.Router();
 
@@ -33,17 +34,9 @@ router.get('/', async (req, res) => {
   }
 });
 
-// Update organization settings (Admin only)
-router.put('/', requireAdmin, [
-  body('name').optional().trim().isLength({ min: 2 }),
-  body('settings').optional().isObject()
-], async (req, res) => {
+// Update organization settings
+router.put('/', requireCapability('org.manage'), validateBody(organizationUpdateInput), async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
-
     const { name, settings } = req.body;
     const updateFields = [];
     const values = [];
@@ -91,8 +84,8 @@ router.put('/', requireAdmin, [
   }
 });
 
-// Get organization statistics (Admin only)
-router.get('/stats', requireAdmin, async (req, res) => {
+// Get organization statistics
+router.get('/stats', requireCapability('audit.view'), async (req, res) => {
   try {
     const stats = await Promise.all([
       // Total users
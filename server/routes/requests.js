@@ -1,10 +1,37 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
+import { z } from 'zod';
 import { db } from '../config/database.js';
-import { requireApprover } from '../middleware/auth.js';
+import { requireCapability, userCan } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { evaluateApprovalRules } from '../../shared/approvalRules.js';
+import { createRequestInput, requestUpdateInput, requestStatusInput, paymentReleaseInput } from '../../shared/contracts.js';
 
 const router = express.Router();
 
+// Fields only the server tracks on a request
+const serverRequestFields = z.object({
+  priority: z.enum(['Low', 'Medium', 'High', 'Urgent']).optional(),
+  dueDate: z.coerce.date().optional(),
+  metadata: z.record(z.any()).optional()
+});
+
+const serverRequestInput = createRequestInput.and(serverRequestFields);
+
+const serverRequestUpdateInput = requestUpdateInput.merge(serverRequestFields);
+
+const approveInput = requestStatusInput.pick({ comments: true });
+
+const rejectInput = z.object({
+  comments: z.string({ required_error: 'Give a reason for rejecting' }).trim().min(5, 'Give a reason of at least 5 characters')
+});
+
+// The fields can() looks at when a check is about one request
+const permissionResource = (orgId, row) => ({
+  orgId,
+  requesterId: row.requester_id,
+  approverId: row.approver_id
+});
+
 // Get all funding requests for the organization
 router.get('/', async (req, res) => {
   try {
@@ -25,6 +52,12 @@ router.get('/', async (req, res) => {
     const values = [req.user.org_id];
     let paramCount = 1;
 
+    // Without request.view_all people only see requests they raised or are approving
+    if (!await userCan(req.user, 'request.view_all')) {
+      query += ` AND (fr.requester_id = $${++paramCount} OR fr.approver_id = $${paramCount})`;
+      values.push(req.user.id);
+    }
+
     if (status) {
       query += ` AND fr.status = $${++paramCount}`;
       values.push(status);
@@ -97,6 +130,10 @@ router.get('/:id', async (req, res) => {
     }
 
     const reqData = result.rows[0];
+    if (!await userCan(req.user, 'request.view_all', permissionResource(req.user.org_id, reqData))) {
+      return res.status(404).json({ error: 'Funding request not found' });
+    }
+
     res.json({
       id: reqData.id,
       title: reqData.title,
@@ -131,51 +168,99 @@ router.get('/:id', async (req, res) => {
 });
 
 // Create new funding request
-router.post('/', [
-  body('title').trim().isLength({ min: 3 }),
-  body('description').trim().isLength({ min: 10 }),
-  body('amount').isFloat({ min: 0.01 }),
-  body('category').optional().trim(),
-  body('priority').optional().isIn(['Low', 'Medium', 'High', 'Urgent']),
-  body('dueDate').optional().isISO8601(),
-  body('approverId').optional().isUUID()
-], async (req, res) => {
+router.post('/', validateBody(serverRequestInput), async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
-
-    const { title, description, amount, category, priority = 'Medium', dueDate, approverId, metadata } = req.body;
+    const { title, description, amount, category, customCategory, priority = 'Medium', dueDate, approverId, metadata } = req.body;
 
-    // If approverId is provided, verify they exist and can approve
+    // If approverId is provided, verify they exist, can approve and aren't the requester
     if (approverId) {
+      if (approverId === req.user.id) {
+        return res.status(400).json({ error: 'You cannot approve your own request' });
+      }
+
       const approverResult = await db.query(`
-        SELECT id, role FROM users 
-        WHERE id = $1 AND org_id = $2 AND role IN ('Admin', 'Approver') AND is_active = true
+        SELECT id, role, custom_role_id, org_id FROM users 
+        WHERE id = $1 AND org_id = $2 AND is_active = true
       `, [approverId, req.user.org_id]);
 
-      if (approverResult.rows.length === 0) {
+      if (approverResult.rows.length === 0 || !await userCan(approverResult.rows[0], 'request.approve')) {
         return res.status(400).json({ error: 'Invalid approver selected' });
       }
     }
 
+    // Run the organization's approval rules against the request and its requester
+    const contextResult = await db.query(`
+      SELECT o.settings, u.department, u.preferences
+      FROM organizations o
+      JOIN users u ON u.org_id = o.id
+      WHERE o.id = $1 AND u.id = $2
+    `, [req.user.org_id, req.user.id]);
+
+    const context = contextResult.rows[0] || {};
+    const evaluation = evaluateApprovalRules((context.settings || {}).approvalRules, {
+      amount: parseFloat(amount),
+      category,
+      customCategory: customCategory ?? metadata?.customCategory,
+      department: context.department,
+      requesterRole: req.user.role,
+      customFields: (context.preferences || {}).customFieldsData
+    });
+
+    if (evaluation.blocked) {
+      return res.status(422).json({ error: evaluation.blockReasons.join('; ') });
+    }
+
+    // Extra approvers and Finance sign-off become levels after the primary approver
+    const additionalApprovalLevels = evaluation.extraApprovers.map((approver, index) => ({
+      level: index + 2,
+      approverId: approver.approverId,
+      approverName: approver.approverName
+    }));
+
+    if (evaluation.requiresFinanceSignoff) {
+      const financeResult = await db.query(`
+        SELECT id, full_name FROM users
+        WHERE org_id = $1 AND role IN ('Finance', 'Admin') AND is_active = true
+        ORDER BY CASE WHEN role = 'Finance' THEN 0 ELSE 1 END, created_at
+        LIMIT 1
+      `, [req.user.org_id]);
+
+      if (financeResult.rows.length > 0) {
+        additionalApprovalLevels.push({
+          level: additionalApprovalLevels.length + 2,
+          approverId: financeResult.rows[0].id,
+          approverName: financeResult.rows[0].full_name
+        });
+      }
+    }
+
+    const requestMetadata = {
+      ...(metadata || {}),
+      ...(customCategory && { customCategory }),
+      additionalApprovalLevels,
+      matchedApprovalRules: evaluation.matchedRules
+    };
+    const status = evaluation.autoApprove ? 'Approved' : 'Open';
+
     const result = await db.query(`
       INSERT INTO funding_requests (
         org_id, requester_id, approver_id, title, description, amount, 
-        currency, category, priority, due_date, metadata
+        currency, category, priority, due_date, metadata, status, approved_at
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
       RETURNING id, title, description, amount, currency, category, status, priority, due_date, created_at
     `, [
       req.user.org_id, req.user.id, approverId, title, description, amount,
-      'INR', category, priority, dueDate, JSON.stringify(metadata || {})
+      'INR', category, priority, dueDate, JSON.stringify(requestMetadata), status,
+      evaluation.autoApprove ? new Date() : null
     ]);
 
     const request = result.rows[0];
 
     res.status(201).json({
-      message: 'Funding request created successfully',
+      message: evaluation.autoApprove
+        ? `Funding request auto-approved by rule "${evaluation.autoApprovedBy.name}"`
+        : 'Funding request created successfully',
       request: {
         id: request.id,
         title: request.title,
@@ -196,26 +281,13 @@ router.post('/', [
 });
 
 // Update funding request
-router.put('/:id', [
-  body('title').optional().trim().isLength({ min: 3 }),
-  body('description').optional().trim().isLength({ min: 10 }),
-  body('amount').optional().isFloat({ min: 0.01 }),
-  body('category').optional().trim(),
-  body('priority').optional().isIn(['Low', 'Medium', 'High', 'Urgent']),
-  body('dueDate').optional().isISO8601(),
-  body('approverId').optional().isUUID()
-], async (req, res) => {
+router.put('/:id', validateBody(serverRequestUpdateInput), async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
-
     const { title, description, amount, category, priority, dueDate, approverId, metadata } = req.body;
 
     // Check if request exists and user has permission to update
     const existingRequest = await db.query(`
-      SELECT requester_id, status FROM funding_requests 
+      SELECT requester_id, approver_id, status FROM funding_requests 
       WHERE id = $1 AND org_id = $2
     `, [req.params.id, req.user.org_id]);
 
@@ -225,8 +297,8 @@ router.put('/:id', [
 
     const request = existingRequest.rows[0];
     
-    // Only requester can update their own request, or admin can update any
-    if (request.requester_id !== req.user.id && req.user.role !== 'Admin') {
+    // Only requester can update their own request, or someone who may override can update any
+    if (request.requester_id !== req.user.id && !await userCan(req.user, 'request.override', permissionResource(req.user.org_id, request))) {
       return res.status(403).json({ error: 'Permission denied' });
     }
 
@@ -310,75 +382,102 @@ router.put('/:id', [
   }
 });
 
-// Approve funding request (Approver only)
-router.patch('/:id/approve', requireApprover, [
-  body('comments').optional().trim()
-], async (req, res) => {
+// Approve funding request. Rule-added levels (kept in metadata) follow the primary approver, so
+// an approval forwards the request to the next level and only the last one marks it Approved.
+router.patch('/:id/approve', requireCapability('request.approve'), validateBody(approveInput), async (req, res) => {
+  const client = await db.connect();
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
-
     const { comments } = req.body;
 
-    const result = await db.query(`
-      UPDATE funding_requests 
-      SET status = 'Approved', approver_id = $1, approved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
-      WHERE id = $2 AND org_id = $3 AND status = 'Open'
-      RETURNING id, title, amount, approved_at
-    `, [req.user.id, req.params.id, req.user.org_id]);
+    await client.query('BEGIN');
+    const existing = await client.query(`
+      SELECT id, requester_id, approver_id, metadata FROM funding_requests
+      WHERE id = $1 AND org_id = $2 AND status = 'Open'
+      FOR UPDATE
+    `, [req.params.id, req.user.org_id]);
 
-    if (result.rows.length === 0) {
+    if (existing.rows.length === 0) {
+      await client.query('ROLLBACK');
       return res.status(404).json({ error: 'Funding request not found or already processed' });
     }
 
+    const current = existing.rows[0];
+    if (current.requester_id === req.user.id) {
+      await client.query('ROLLBACK');
+      return res.status(403).json({ error: 'You cannot decide on your own request' });
+    }
+    if (current.approver_id && current.approver_id !== req.user.id
+      && !await userCan(req.user, 'request.override', permissionResource(req.user.org_id, current))) {
+      await client.query('ROLLBACK');
+      return res.status(403).json({ error: 'Only the current level approver can act on this request' });
+    }
+
+    const metadata = current.metadata || {};
+    const currentLevel = metadata.currentApprovalLevel || 1;
+    const nextLevel = [...(metadata.additionalApprovalLevels || [])]
+      .sort((a, b) => a.level - b.level)
+      .find(level => level.level > currentLevel);
+
+    const result = nextLevel
+      ? await client.query(`
+          UPDATE funding_requests
+          SET approver_id = $1, metadata = COALESCE(metadata, '{}'::jsonb) || $2::jsonb, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $3
+          RETURNING id, title, amount, status, approved_at
+        `, [nextLevel.approverId, JSON.stringify({ currentApprovalLevel: nextLevel.level }), current.id])
+      : await client.query(`
+          UPDATE funding_requests
+          SET status = 'Approved', approver_id = $1, approved_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $2
+          RETURNING id, title, amount, status, approved_at
+        `, [req.user.id, current.id]);
+
     const request = result.rows[0];
 
     // Add approval comment if provided
     if (comments) {
-      await db.query(`
+      await client.query(`
         INSERT INTO query_messages (request_id, user_id, message_type, content)
         VALUES ($1, $2, $3, $4)
       `, [req.params.id, req.user.id, 'approval', comments]);
     }
+    await client.query('COMMIT');
 
     res.json({
-      message: 'Funding request approved successfully',
+      message: nextLevel
+        ? `Request forwarded to Level ${nextLevel.level} approver: ${nextLevel.approverName}`
+        : 'Funding request approved successfully',
       request: {
         id: request.id,
         title: request.title,
         amount: parseFloat(request.amount),
+        status: request.status,
         approvedAt: request.approved_at
       }
     });
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('Approve funding request error:', error);
     res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    client.release();
   }
 });
 
-// Reject funding request (Approver only)
-router.patch('/:id/reject', requireApprover, [
-  body('comments').trim().isLength({ min: 5 })
-], async (req, res) => {
+// Reject funding request
+router.patch('/:id/reject', requireCapability('request.approve'), validateBody(rejectInput), async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
-
     const { comments } = req.body;
 
     const result = await db.query(`
       UPDATE funding_requests 
       SET status = 'Rejected', approver_id = $1, rejected_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
-      WHERE id = $2 AND org_id = $3 AND status = 'Open'
+      WHERE id = $2 AND org_id = $3 AND status = 'Open' AND requester_id <> $1
       RETURNING id, title, amount, rejected_at
     `, [req.user.id, req.params.id, req.user.org_id]);
 
     if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'Funding request not found or already processed' });
+      return res.status(404).json({ error: 'Funding request not found, already processed or your own' });
     }
 
     const request = result.rows[0];
@@ -404,12 +503,58 @@ router.patch('/:id/reject', requireApprover, [
   }
 });
 
+// Release payment for an approved request, closing it
+router.post('/:id/release-payment', requireCapability('payment.release'), validateBody(paymentReleaseInput), async (req, res) => {
+  try {
+    const { reference } = req.body;
+    const release = {
+      paymentReleasedAt: new Date().toISOString(),
+      paymentReleasedBy: req.user.id,
+      ...(reference && { paymentReference: reference })
+    };
+
+    const result = await db.query(`
+      UPDATE funding_requests 
+      SET status = 'Closed', metadata = COALESCE(metadata, '{}'::jsonb) || $1::jsonb, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND org_id = $3 AND status = 'Approved'
+      RETURNING id, title, amount, status
+    `, [JSON.stringify(release), req.params.id, req.user.org_id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Funding request not found or not approved' });
+    }
+
+    const request = result.rows[0];
+
+    await db.query(`
+      INSERT INTO query_messages (request_id, user_id, message_type, content)
+      VALUES ($1, $2, $3, $4)
+    `, [req.params.id, req.user.id, 'system_event', reference
+      ? `Payment released by ${req.user.full_name} (reference ${reference})`
+      : `Payment released by ${req.user.full_name}`]);
+
+    res.json({
+      message: 'Payment released',
+      request: {
+        id: request.id,
+        title: request.title,
+        amount: parseFloat(request.amount),
+        status: request.status,
+        paymentReleasedAt: release.paymentReleasedAt
+      }
+    });
+  } catch (error) {
+    console.error('Release payment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Delete funding request
 router.delete('/:id', async (req, res) => {
   try {
     // Check if request exists and user has permission to delete
     const existingRequest = await db.query(`
-      SELECT requester_id FROM funding_requests 
+      SELECT requester_id, approver_id FROM funding_requests 
       WHERE id = $1 AND org_id = $2
     `, [req.params.id, req.user.org_id]);
 
@@ -419,8 +564,8 @@ router.delete('/:id', async (req, res) => {
 
     const request = existingRequest.rows[0];
     
-    // Only requester can delete their own request, or admin can delete any
-    if (request.requester_id !== req.user.id && req.user.role !== 'Admin') {
+    // Only requester can delete their own request, or someone who may override can delete any
+    if (request.requester_id !== req.user.id && !await userCan(req.user, 'request.override', permissionResource(req.user.org_id, request))) {
       return res.status(403).json({ error: 'Permission denied' });
     }
 
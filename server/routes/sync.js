@@ -0,0 +1,441 @@
+import express from 'express';
+import { z } from 'zod';
+import { db } from '../config/database.js';
+import { validateBody, validateQuery } from '../middleware/validate.js';
+import { userCan, roleGrantRefusalFor } from '../middleware/auth.js';
+import { SYNC_SCHEMAS, withoutLocalOnlyFields } from '../../shared/contracts.js';
+import { CAPABILITY_LABELS } from '../../shared/permissions.js';
+
+const router = express.Router();
+
+// Client tables that replicate through this route (see client/src/lib/syncOutbox.ts)
+const SYNCED_ENTITIES = [
+  'users', 'organizations', 'fundingRequests', 'queryMessages', 'orgChartNodes',
+  'inviteTokens', 'approvalChains', 'approvalHistory', 'memberships', 'orgRequests',
+  'orgAuditLogs', 'budgets', 'invoices'
+];
+
+const MAX_PULL = 500;
+
+// What members may change on their own user record
+const PROFILE_FIELDS = new Set([
+  'fullName', 'phoneNumber', 'digestTime', 'notificationPreferences', 'isOnline',
+  'customFieldsData', 'delegation', 'sessionsRevokedAt', 'orgId'
+]);
+
+// Request fields that move a request through its approval levels, and those that record its payout
+const DECISION_FIELDS = new Set([
+  'status', 'approverId', 'currentApprovalLevel', 'approvalChainId', 'additionalApprovalLevels',
+  'slaDeadline', 'escalationCount', 'lastEscalatedAt'
+]);
+const PAYMENT_FIELDS = new Set(['paymentReleasedAt', 'paymentReleasedBy']);
+
+// Stored documents come back from jsonb with their keys reordered, so keys are compared sorted
+const canonical = (value) => JSON.stringify(value ?? null, (key, inner) =>
+  inner && typeof inner === 'object' && !Array.isArray(inner)
+    ? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+    : inner);
+
+const sameValue = (a, b) => canonical(a) === canonical(b);
+
+const changedFields = (before, after) =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(field => !sameValue(before[field], after[field]));
+
+const permissionRequired = (capability) => `Permission required: ${CAPABILITY_LABELS[capability].toLowerCase()}`;
+
+const delegationActive = (delegation, now) =>
+  !!delegation?.substituteId && new Date(delegation.startsAt) <= now && now < new Date(delegation.endsAt);
+
+const capabilityRule = (capability) => async (change, before, ctx) =>
+  await ctx.holds(capability) ? null : permissionRequired(capability);
+
+// Who may push each entity: a rule returns why a change is refused, or null when it is allowed.
+// `ctx` knows the pusher's capabilities and browser user ids. Entities without a rule are refused.
+const WRITE_RULES = {
+  organizations: capabilityRule('org.manage'),
+  approvalChains: capabilityRule('approval_chain.manage'),
+  orgChartNodes: capabilityRule('orgchart.edit'),
+  budgets: capabilityRule('budget.manage'),
+
+  // Members change their own profile fields; everything else about people takes member.manage
+  async users(change, before, ctx) {
+    if (await ctx.holds('member.manage')) return null;
+    if (!ctx.ownUserIds.has(change.key)) return 'You can only change your own profile';
+    if (change.op !== 'put') return 'You cannot delete your own account';
+    const locked = before ? changedFields(before, change.data).filter(field => !PROFILE_FIELDS.has(field)) : [];
+    return locked.length > 0 ? `You cannot change ${locked.join(', ')}` : null;
+  },
+
+  // Role changes are held to the same limits as assigning a role. Without member.manage,
+  // members may join with the default role, leave, and edit their own profile fields.
+  async memberships(change, before, ctx) {
+    const after = change.op === 'put' ? change.data : null;
+    if (await ctx.holds('member.manage')) {
+      const roleChanged = after && (before?.role !== after.role || (before?.customRoleId ?? null) !== (after.customRoleId ?? null));
+      return roleChanged ? await roleGrantRefusalFor(ctx.user, before, after) : null;
+    }
+    if (!ctx.ownUserIds.has((before ?? after)?.userId) || (after && !ctx.ownUserIds.has(after.userId))) {
+      return 'You can only change your own membership';
+    }
+    if (!after) return 'You cannot delete your membership';
+    if (!before) return after.role === 'Member' && !after.customRoleId ? null : 'You cannot choose your own role';
+    if (after.role !== before.role || (after.customRoleId ?? null) !== (before.customRoleId ?? null)) {
+      return 'You cannot change your own role';
+    }
+    return after.status === before.status || after.status === 'removed' ? null : 'You cannot change your own membership status';
+  },
+
+  // Invites grant their role, so creating one is held to the limits of assigning it. Whoever
+  // joins with an invite marks it used, and may change nothing else about it.
+  async inviteTokens(change, before, ctx) {
+    const after = change.op === 'put' ? change.data : null;
+    if (await ctx.holds('invite.create')) {
+      return after ? await roleGrantRefusalFor(ctx.user, null, { role: after.role }) : null;
+    }
+    const redeemed = before && after && !before.usedAt && ctx.ownUserIds.has(after.usedBy) &&
+      changedFields(before, after).every(field => field === 'usedAt' || field === 'usedBy');
+    return redeemed ? null : permissionRequired('invite.create');
+  },
+
+  // Requests are raised open by their requester. Moving one through its levels takes its
+  // current approver (or their substitute) or request.override, and never its own requester;
+  // paying it out takes payment.release.
+  async fundingRequests(change, before, ctx) {
+    const after = change.op === 'put' ? change.data : null;
+    if (!after) return await ctx.holds('request.override') ? null : permissionRequired('request.override');
+    if (!before) {
+      if (!ctx.ownUserIds.has(after.requesterId)) return 'You can only raise requests as yourself';
+      if (after.status !== 'Open') return 'New requests start open';
+      return after.approverId && ctx.ownUserIds.has(after.approverId) ? 'You cannot approve your own request' : null;
+    }
+
+    const changed = changedFields(before, after);
+    const payout = changed.some(field => PAYMENT_FIELDS.has(field)) ||
+      (before.status === 'Approved' && after.status === 'Closed');
+    if (payout) {
+      if (!await ctx.holds('payment.release')) return permissionRequired('payment.release');
+      const decided = changed.filter(field => DECISION_FIELDS.has(field) && field !== 'status');
+      return decided.length > 0 ? `You cannot change ${decided.join(', ')} when paying out a request` : null;
+    }
+    if (changed.some(field => DECISION_FIELDS.has(field))) {
+      if (ctx.ownUserIds.has(before.requesterId)) return 'You cannot decide on your own request';
+      return await ctx.holds('request.override') || await ctx.actsOn(before)
+        ? null
+        : 'Only the current level approver can act on this request';
+    }
+    return await ctx.canView(before) ? null : 'You cannot see this request';
+  },
+
+  // Decisions are recorded once, by whoever took them, on a request they could act on
+  async approvalHistory(change, before, ctx) {
+    if (before || change.op !== 'put') return 'Approval history cannot be changed';
+    const request = await ctx.load('fundingRequests', change.data.requestId);
+    if (!request) return 'Request not found';
+    if (!ctx.ownUserIds.has(change.data.approverId)) return 'You can only record your own decisions';
+    if (ctx.ownUserIds.has(request.requesterId)) return 'You cannot decide on your own request';
+    return await ctx.holds('request.override') || await ctx.actsOn(request)
+      ? null
+      : 'Only the current level approver can act on this request';
+  },
+
+  // Anyone who can see a request may post on it as themselves; posts are only theirs to change
+  async queryMessages(change, before, ctx) {
+    if (before && !ctx.ownUserIds.has(before.userId)) return 'You can only change your own messages';
+    if (change.op === 'put' && change.data.userId && !ctx.ownUserIds.has(change.data.userId)) {
+      return 'You can only post as yourself';
+    }
+    const request = await ctx.load('fundingRequests', (change.op === 'put' ? change.data : before)?.requestId);
+    return request && await ctx.canView(request) ? null : 'You cannot see this request';
+  },
+
+  async invoices(change, before, ctx) {
+    const request = await ctx.load('fundingRequests', (change.op === 'put' ? change.data : before)?.requestId);
+    if (!request) return 'Request not found';
+    return ctx.ownUserIds.has(request.requesterId) || await ctx.holds('payment.release') || await ctx.holds('request.override')
+      ? null
+      : 'You can only change invoices on your own requests';
+  },
+
+  // Members raise join and profile change requests about themselves; deciding them takes member.manage
+  async orgRequests(change, before, ctx) {
+    if (await ctx.holds('member.manage')) return null;
+    const after = change.op === 'put' ? change.data : null;
+    if (!after) return permissionRequired('member.manage');
+    if (!ctx.ownUserIds.has(after.submittedBy) || (before && before.submittedBy !== after.submittedBy)) {
+      return 'You can only raise requests as yourself';
+    }
+    if (after.status !== 'pending' || (before && before.status !== 'pending')) return permissionRequired('member.manage');
+    return (after.type === 'join' || after.type === 'change') && after.payload?.userId !== after.submittedBy
+      ? 'You can only raise requests about yourself'
+      : null;
+  },
+
+  // Append-only: entries are added for the pusher's own actions (or the system's) and never rewritten
+  async orgAuditLogs(change, before, ctx) {
+    if (before || change.op !== 'put') return 'The audit log cannot be changed';
+    return change.data.performedBy === 'system' || ctx.ownUserIds.has(change.data.performedBy)
+      ? null
+      : 'You can only record your own actions';
+  }
+};
+
+// Each pushed document must match its entity's contract, so a buggy or stale client
+// cannot replicate a malformed record to every other browser
+const changeInput = z.object({
+  entity: z.enum(SYNCED_ENTITIES),
+  key: z.string().min(1).max(255),
+  op: z.enum(['put', 'delete']),
+  changedAt: z.string().datetime({ offset: true }),
+  data: z.unknown()
+}).superRefine((change, ctx) => {
+  if (change.op !== 'put') return;
+  const result = SYNC_SCHEMAS[change.entity].safeParse(change.data);
+  for (const issue of result.success ? [] : result.error.issues) {
+    ctx.addIssue({ ...issue, path: ['data', ...issue.path] });
+  }
+});
+
+const pushInput = z.object({
+  changes: z.array(changeInput).max(200)
+});
+
+const pullQuery = z.object({
+  since: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PULL).default(MAX_PULL)
+});
+
+// Browser user ids are not the server's, so a member's own records are found by their email
+const isOwnUserRecord = (user, record) => record?.email?.toLowerCase() === user.email.toLowerCase();
+
+// The user's browser user ids: user records synced under their email
+async function ownUserIdsOf(user) {
+  const result = await db.query(`
+    SELECT doc_key FROM sync_documents
+    WHERE org_id = $1 AND entity = 'users' AND NOT deleted AND lower(data->>'email') = lower($2)
+  `, [user.org_id, user.email]);
+  return new Set(result.rows.map(row => row.doc_key));
+}
+
+// Apply a batch of offline changes. A change the pusher isn't allowed to make comes back as
+// rejected with the stored copy; one older than the stored copy loses and comes back as a
+// conflict so the client can resolve it; accepted changes that replace another user's edit
+// are reported as overwritten for the client's audit trail.
+router.post('/push', validateBody(pushInput), async (req, res) => {
+  const client = await db.connect();
+  try {
+    const applied = [];
+    const conflicts = [];
+    const overwritten = [];
+    const rejected = [];
+    const now = new Date();
+
+    const allowed = {};
+    const holds = async (capability) => (allowed[capability] ??= await userCan(req.user, capability));
+
+    // The pusher's browser user ids: records already synced under their email, and any in this batch
+    const ownUserIds = await ownUserIdsOf(req.user);
+
+    // Rules judge requests as they were before this batch, so a request moved on earlier in
+    // the batch still counts its approver as the one who decided it
+    const originals = new Map();
+    const load = async (entity, key) => {
+      if (!key) return null;
+      if (originals.get(`${entity}:${key}`)) return originals.get(`${entity}:${key}`);
+      const result = await client.query(`
+        SELECT data FROM sync_documents
+        WHERE org_id = $1 AND entity = $2 AND doc_key = $3 AND NOT deleted
+      `, [req.user.org_id, entity, key]);
+      return result.rows[0]?.data ?? null;
+    };
+    // The request's approver, or whoever covers for them while they are away
+    const actsOn = async (request) => {
+      const seen = new Set();
+      for (let id = request?.approverId; id && !seen.has(id);) {
+        if (ownUserIds.has(id)) return true;
+        seen.add(id);
+        const approver = await load('users', id);
+        id = delegationActive(approver?.delegation, now) ? approver.delegation.substituteId : null;
+      }
+      return false;
+    };
+    const canView = async (request) =>
+      ownUserIds.has(request.requesterId) || await actsOn(request) || await holds('request.view_all');
+    const ctx = { user: req.user, ownUserIds, holds, load, actsOn, canView };
+
+    await client.query('BEGIN');
+    for (const change of req.body.changes) {
+      const existing = await client.query(`
+        SELECT data, deleted, changed_at, changed_by
+        FROM sync_documents
+        WHERE org_id = $1 AND entity = $2 AND doc_key = $3
+        FOR UPDATE
+      `, [req.user.org_id, change.entity, change.key]);
+
+      const stored = existing.rows[0];
+      const before = stored && !stored.deleted ? stored.data : null;
+      if (!originals.has(`${change.entity}:${change.key}`)) originals.set(`${change.entity}:${change.key}`, before);
+      if (change.entity === 'users' && change.op === 'put' && isOwnUserRecord(req.user, before ?? change.data)) {
+        ownUserIds.add(change.key);
+      }
+
+      // Sending back what is already stored (e.g. a retried push) changes nothing
+      const unchanged = change.op === 'put' && before && sameValue(before, withoutLocalOnlyFields(change.entity, change.data));
+      const rule = WRITE_RULES[change.entity];
+      const refusal = unchanged ? null : rule ? await rule(change, before, ctx) : 'These records cannot be synced';
+      if (refusal) {
+        rejected.push({
+          entity: change.entity,
+          key: change.key,
+          reason: refusal,
+          stored: stored ? { data: stored.data, deleted: stored.deleted } : null
+        });
+        continue;
+      }
+
+      // Client clocks can't be trusted to order writes: a change is never later than its arrival
+      const changedAt = new Date(Math.min(new Date(change.changedAt).getTime(), now.getTime()));
+      if (stored && new Date(stored.changed_at) > changedAt) {
+        conflicts.push({
+          entity: change.entity,
+          key: change.key,
+          data: stored.data,
+          deleted: stored.deleted,
+          changedAt: stored.changed_at
+        });
+        continue;
+      }
+
+      if (stored && !stored.deleted && stored.changed_by !== req.user.id) {
+        overwritten.push({ entity: change.entity, key: change.key, data: stored.data });
+      }
+
+      await client.query(`
+        INSERT INTO sync_documents (org_id, entity, doc_key, data, deleted, changed_at, changed_by, updated_at, txid)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, clock_timestamp(), txid_current())
+        ON CONFLICT (org_id, entity, doc_key) DO UPDATE
+        SET data = EXCLUDED.data, deleted = EXCLUDED.deleted, changed_at = EXCLUDED.changed_at,
+            changed_by = EXCLUDED.changed_by, updated_at = clock_timestamp(), txid = txid_current()
+      `, [
+        req.user.org_id, change.entity, change.key,
+        change.op === 'delete' ? null : JSON.stringify(withoutLocalOnlyFields(change.entity, change.data)),
+        change.op === 'delete', changedAt, req.user.id
+      ]);
+      applied.push({ entity: change.entity, key: change.key });
+    }
+    await client.query('COMMIT');
+
+    res.json({ applied, conflicts, overwritten, rejected });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Sync push error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
+// A cursor is the last document's [txid, entity, key]; anything else (e.g. a timestamp from
+// before cursors followed transactions) starts over from the beginning
+function parseCursor(since) {
+  try {
+    const [txid, entity, key] = JSON.parse(since);
+    return /^\d+$/.test(String(txid)) && typeof entity === 'string' && typeof key === 'string' ? { txid: String(txid), entity, key } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Entities only members with a capability may read, as BrowserApi does
+const READ_CAPABILITIES = {
+  inviteTokens: 'invite.create',
+  orgAuditLogs: 'audit.view'
+};
+
+// The browser user ids whose approvals the user acts on: their own, and those of anyone
+// currently away who hands their approvals to them (directly or through another substitute)
+async function actingForIds(user, ownUserIds) {
+  const result = await db.query(`
+    SELECT doc_key, data->'delegation' AS delegation
+    FROM sync_documents
+    WHERE org_id = $1 AND entity = 'users' AND NOT deleted AND data->'delegation' IS NOT NULL
+  `, [user.org_id]);
+  const now = new Date();
+  const actingFor = new Set(ownUserIds);
+  for (let grew = true; grew;) {
+    grew = false;
+    for (const row of result.rows) {
+      if (!actingFor.has(row.doc_key) && delegationActive(row.delegation, now) && actingFor.has(row.delegation.substituteId)) {
+        actingFor.add(row.doc_key);
+        grew = true;
+      }
+    }
+  }
+  return actingFor;
+}
+
+// Changes since the cursor, in the order their transactions started, for entities clients still
+// store. Only transactions older than every one still running are served: a push that commits
+// late then still sorts after the cursor, so no change is skipped. Members get what BrowserApi
+// would show them: requests (with their messages, history and invoices) they raised or act on
+// unless they hold request.view_all, their own member requests unless they hold member.manage,
+// and invites and the audit log only with the capabilities to manage and view them.
+router.get('/pull', validateQuery(pullQuery), async (req, res) => {
+  try {
+    const { limit } = req.query;
+    const since = req.query.since ? parseCursor(req.query.since) : null;
+
+    const entities = [];
+    for (const entity of SYNCED_ENTITIES) {
+      if (!READ_CAPABILITIES[entity] || await userCan(req.user, READ_CAPABILITIES[entity])) entities.push(entity);
+    }
+    const seesAllRequests = await userCan(req.user, 'request.view_all');
+    const seesAllMemberRequests = await userCan(req.user, 'member.manage');
+    const ownUserIds = await ownUserIdsOf(req.user);
+    const actingFor = seesAllRequests ? new Set() : await actingForIds(req.user, ownUserIds);
+
+    const result = await db.query(`
+      WITH visible_requests AS (
+        SELECT doc_key FROM sync_documents
+        WHERE org_id = $1 AND entity = 'fundingRequests' AND NOT deleted
+          AND (data->>'requesterId' = ANY($7) OR data->>'approverId' = ANY($8))
+      )
+      SELECT d.entity, d.doc_key, d.data, d.deleted, d.changed_at, d.txid::text AS txid
+      FROM sync_documents d
+      WHERE d.org_id = $1 AND d.entity = ANY($4)
+        AND d.txid < txid_snapshot_xmin(txid_current_snapshot())
+        AND ($2::bigint IS NULL OR (d.txid, d.entity, d.doc_key) > ($2::bigint, $5::text, $6::text))
+        AND (d.deleted OR CASE
+          WHEN d.entity = 'fundingRequests' THEN $9 OR d.doc_key IN (SELECT doc_key FROM visible_requests)
+          WHEN d.entity IN ('queryMessages', 'approvalHistory', 'invoices')
+            THEN $9 OR d.data->>'requestId' IN (SELECT doc_key FROM visible_requests)
+          WHEN d.entity = 'orgRequests' THEN $10 OR d.data->>'submittedBy' = ANY($7)
+          ELSE true
+        END)
+      ORDER BY d.txid, d.entity, d.doc_key
+      LIMIT $3
+    `, [
+      req.user.org_id, since?.txid ?? null, limit, entities, since?.entity ?? null, since?.key ?? null,
+      Array.from(ownUserIds), Array.from(actingFor), seesAllRequests, seesAllMemberRequests
+    ]);
+
+    const last = result.rows[result.rows.length - 1];
+    const documents = result.rows.map(doc => ({
+      entity: doc.entity,
+      key: doc.doc_key,
+      data: doc.data,
+      deleted: doc.deleted,
+      changedAt: doc.changed_at
+    }));
+
+    res.json({
+      documents,
+      cursor: last ? JSON.stringify([last.txid, last.entity, last.doc_key]) : since ? req.query.since : null,
+      hasMore: result.rows.length === limit
+    });
+  } catch (error) {
+    console.error('Sync pull error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
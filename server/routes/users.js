@@ -1,15 +1,26 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
+import { z } from 'zod';
 import { db } from '../config/database.js';
-import { requireAdmin } from '../middleware/auth.js';
+import { requireCapability, userCan, roleGrantRefusalFor, currentRoles } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { createUserInput, userUpdateInput, phoneNumber, roleAssignmentInput } from '../../shared/contracts.js';
 
 const router = express.Router();
 
+// The server stores the phone number as `phone`
+const serverUserInput = createUserInput
+  .pick({ email: true, password: true, fullName: true, role: true, department: true, jobTitle: true })
+  .extend({ phone: phoneNumber });
+
+const serverUserUpdateInput = userUpdateInput
+  .omit({ phoneNumber: true })
+  .extend({ phone: phoneNumber, isActive: z.boolean().optional() });
+
 // Get all users in organization
 router.get('/', async (req, res) => {
   try {
     const result = await db.query(`
-      SELECT id, email, full_name, role, department, job_title, phone, 
+      SELECT id, email, full_name, role, custom_role_id, department, job_title, phone, 
              is_active, created_at, last_login
       FROM users 
       WHERE org_id = $1
@@ -21,6 +32,7 @@ router.get('/', async (req, res) => {
       email: user.email,
       fullName: user.full_name,
       role: user.role,
+      customRoleId: user.custom_role_id,
       department: user.department,
       jobTitle: user.job_title,
       phone: user.phone,
@@ -40,7 +52,7 @@ router.get('/', async (req, res) => {
 router.get('/:id', async (req, res) => {
   try {
     const result = await db.query(`
-      SELECT id, email, full_name, role, department, job_title, phone, 
+      SELECT id, email, full_name, role, custom_role_id, department, job_title, phone, 
              is_active, created_at, last_login, preferences
       FROM users 
       WHERE id = $1 AND org_id = $2
@@ -56,6 +68,7 @@ router.get('/:id', async (req, res) => {
       email: user.email,
       fullName: user.full_name,
       role: user.role,
+      customRoleId: user.custom_role_id,
       department: user.department,
       jobTitle: user.job_title,
       phone: user.phone,
@@ -70,21 +83,16 @@ router.get('/:id', async (req, res) => {
   }
 });
 
-// Create new user (Admin only)
-router.post('/', requireAdmin, [
-  body('email').isEmail().normalizeEmail(),
-  body('password').isLength({ min: 6 }),
-  body('fullName').trim().isLength({ min: 2 }),
-  body('role').isIn(['Admin', 'Approver', 'Finance', 'Member', 'Requester'])
-], async (req, res) => {
+// Create new user
+router.post('/', requireCapability('member.manage'), validateBody(serverUserInput), async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
-    }
-
     const { email, password, fullName, role, department, jobTitle, phone } = req.body;
 
+    const refusal = await roleGrantRefusalFor(req.user, null, { role });
+    if (refusal) {
+      return res.status(403).json({ error: refusal });
+    }
+
     // Check if user already exists
     const existingUser = await db.query('SELECT id FROM users WHERE email = $1', [email]);
     if (existingUser.rows.length > 0) {
@@ -122,19 +130,22 @@ router.post('/', requireAdmin, [
   }
 });
 
-// Update user (Admin only)
-router.put('/:id', requireAdmin, [
-  body('fullName').optional().trim().isLength({ min: 2 }),
-  body('role').optional().isIn(['Admin', 'Approver', 'Finance', 'Member', 'Requester']),
-  body('phone').optional().isMobilePhone()
-], async (req, res) => {
+// Update user
+router.put('/:id', requireCapability('member.manage'), validateBody(serverUserUpdateInput), async (req, res) => {
   try {
-    const errors = validationResult(req);
-    if (!errors.isEmpty()) {
-      return res.status(400).json({ errors: errors.array() });
+    const { fullName, role, department, jobTitle, phone, isActive } = req.body;
+
+    if (role) {
+      const current = await currentRoles(req.params.id, req.user.org_id);
+      if (!current) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      const refusal = await roleGrantRefusalFor(req.user, current, { ...current, role });
+      if (refusal) {
+        return res.status(403).json({ error: refusal });
+      }
     }
 
-    const { fullName, role, department, jobTitle, phone, isActive } = req.body;
     const updateFields = [];
     const values = [];
     let paramCount = 1;
@@ -204,8 +215,73 @@ router.put('/:id', requireAdmin, [
   }
 });
 
-// Delete user (Admin only)
-router.delete('/:id', requireAdmin, async (req, res) => {
+// Assign a user's built-in role and custom role
+router.patch('/:id/role', requireCapability('member.manage'), validateBody(roleAssignmentInput), async (req, res) => {
+  try {
+    const { role, customRoleId } = req.body;
+
+    if (customRoleId) {
+      const orgResult = await db.query('SELECT settings FROM organizations WHERE id = $1', [req.user.org_id]);
+      const roles = orgResult.rows[0]?.settings?.roles || [];
+      if (!roles.some(r => r.id === customRoleId)) {
+        return res.status(400).json({ error: 'Role not found' });
+      }
+    }
+
+    const current = await currentRoles(req.params.id, req.user.org_id);
+    if (!current) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    const refusal = await roleGrantRefusalFor(req.user, current, {
+      role: role ?? current.role,
+      customRoleId: customRoleId !== undefined ? customRoleId : current.customRoleId
+    });
+    if (refusal) {
+      return res.status(403).json({ error: refusal });
+    }
+
+    // Keep at least one Admin so the organization can still change its settings
+    if (role && role !== 'Admin') {
+      const adminResult = await db.query(`
+        SELECT id FROM users WHERE org_id = $1 AND role = 'Admin' AND is_active = true
+      `, [req.user.org_id]);
+      if (adminResult.rows.length === 1 && adminResult.rows[0].id === req.params.id) {
+        return res.status(400).json({ error: 'The organization needs at least one Admin' });
+      }
+    }
+
+    const result = await db.query(`
+      UPDATE users
+      SET role = COALESCE($1, role),
+          custom_role_id = CASE WHEN $2::boolean THEN $3 ELSE custom_role_id END,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $4 AND org_id = $5
+      RETURNING id, email, full_name, role, custom_role_id
+    `, [role ?? null, customRoleId !== undefined, customRoleId ?? null, req.params.id, req.user.org_id]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const user = result.rows[0];
+    res.json({
+      message: 'Role updated successfully',
+      user: {
+        id: user.id,
+        email: user.email,
+        fullName: user.full_name,
+        role: user.role,
+        customRoleId: user.custom_role_id
+      }
+    });
+  } catch (error) {
+    console.error('Assign role error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete user
+router.delete('/:id', requireCapability('member.manage'), async (req, res) => {
   try {
     const result = await db.query(`
       DELETE FROM users 
@@ -235,13 +311,14 @@ router.delete('/:id', requireAdmin, async (req, res) => {
 router.get('/approvers/list', async (req, res) => {
   try {
     const result = await db.query(`
-      SELECT id, email, full_name, role, department, job_title
+      SELECT id, email, full_name, role, custom_role_id, org_id, department, job_title
       FROM users 
-      WHERE org_id = $1 AND role IN ('Admin', 'Approver') AND is_active = true
+      WHERE org_id = $1 AND is_active = true
       ORDER BY full_name
     `, [req.user.org_id]);
 
-    const approvers = result.rows.map(user => ({
+    const allowed = await Promise.all(result.rows.map(user => userCan(user, 'request.approve')));
+    const approvers = result.rows.filter((_, index) => allowed[index]).map(user => ({
       id: user.id,
       email: user.email,
       fullName: user.full_name,
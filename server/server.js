@@ -12,6 +12,7 @@ import userRoutes from './routes/users.js';
 import orgRoutes from './routes/organizations.js';
 import requestRoutes from './routes/requests.js';
 import orgChartRoutes from './routes/org-chart.js';
+import syncRoutes from './routes/sync.js';
 
 // Import middleware
 import { authenticateToken } from './middleware/auth.js';
@@ -75,6 +76,7 @@ app.use('/api/users', authenticateToken, userRoutes);
 app.use('/api/organizations', authenticateToken, orgRoutes);
 app.use('/api/requests', authenticateToken, requestRoutes);
 app.use('/api/org-chart', authenticateToken, orgChartRoutes);
+app.use('/api/sync', authenticateToken, syncRoutes);
 
 // Serve React app for all non-API routes (production)
 if (process.env.NODE_ENV === 'production') {
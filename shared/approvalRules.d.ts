@@ -0,0 +1,51 @@
+// Type declarations for the shared approval rules engine (approvalRules.js)
+
+export type RuleCondition =
+  | { type: 'amount'; min?: number; max?: number }
+  | { type: 'category'; values: string[] }
+  | { type: 'department'; values: string[] }
+  | { type: 'customField'; field: string; operator: 'equals' | 'notEquals' | 'contains'; value: string }
+  | { type: 'requesterRole'; roles: string[] };
+
+export type RuleAction =
+  | { type: 'requireExtraApprover'; approverId: string; approverName: string }
+  | { type: 'requireFinanceSignoff' }
+  | { type: 'autoApprove'; maxAmount: number }
+  | { type: 'block'; message?: string };
+
+export interface ApprovalRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+}
+
+// The facts about a request (and its requester) that rules are evaluated against
+export interface RuleSubject {
+  amount: number;
+  category?: string;
+  customCategory?: string;
+  department?: string;
+  requesterRole?: string;
+  customFields?: Record<string, any>;
+}
+
+export interface RuleEvaluation {
+  matchedRules: { id: string; name: string }[];
+  blocked: boolean;
+  blockReasons: string[];
+  autoApprove: boolean;
+  autoApprovedBy?: { id: string; name: string };
+  extraApprovers: { approverId: string; approverName: string }[];
+  requiresFinanceSignoff: boolean;
+}
+
+export const CONDITION_TYPES: RuleCondition['type'][];
+export const ACTION_TYPES: RuleAction['type'][];
+
+export function matchesCondition(condition: RuleCondition, subject: RuleSubject): boolean;
+export function matchesRule(rule: ApprovalRule, subject: RuleSubject): boolean;
+export function evaluateApprovalRules(rules: ApprovalRule[] | undefined, subject: RuleSubject): RuleEvaluation;
+export function describeCondition(condition: RuleCondition): string;
+export function describeAction(action: RuleAction): string;
@@ -0,0 +1,143 @@
+// Approval rules engine for RapidFunds
+// Pure evaluation of Organization.settings.approvalRules against a request.
+// Plain ESM so both the browser client and the Express server can import it.
+
+export const CONDITION_TYPES = ['amount', 'category', 'department', 'customField', 'requesterRole'];
+export const ACTION_TYPES = ['requireExtraApprover', 'requireFinanceSignoff', 'autoApprove', 'block'];
+
+const normalize = (value) => String(value ?? '').trim().toLowerCase();
+
+const includesNormalized = (values, value) =>
+  (values || []).map(normalize).includes(normalize(value));
+
+// Does a single condition hold for the subject?
+export function matchesCondition(condition, subject) {
+  switch (condition.type) {
+    case 'amount': {
+      const amount = Number(subject.amount) || 0;
+      if (condition.min != null && amount < condition.min) return false;
+      if (condition.max != null && amount > condition.max) return false;
+      return true;
+    }
+    case 'category':
+      return includesNormalized(condition.values, subject.category) ||
+        includesNormalized(condition.values, subject.customCategory);
+    case 'department':
+      return includesNormalized(condition.values, subject.department);
+    case 'requesterRole':
+      return includesNormalized(condition.roles, subject.requesterRole);
+    case 'customField': {
+      const actual = normalize((subject.customFields || {})[condition.field]);
+      const expected = normalize(condition.value);
+      switch (condition.operator) {
+        case 'equals':
+          return actual === expected;
+        case 'notEquals':
+          return actual !== expected;
+        case 'contains':
+          return actual.includes(expected);
+        default:
+          return false;
+      }
+    }
+    default:
+      return false;
+  }
+}
+
+// A rule matches when it is enabled and every one of its conditions holds
+export function matchesRule(rule, subject) {
+  if (!rule || rule.enabled === false) return false;
+  return (rule.conditions || []).every(condition => matchesCondition(condition, subject));
+}
+
+// Evaluate all rules in order and fold their actions into a single outcome.
+// Blocking wins over everything, and auto-approval is cancelled by any rule
+// that asks for more scrutiny (an extra approver or a Finance sign-off).
+export function evaluateApprovalRules(rules, subject) {
+  const result = {
+    matchedRules: [],
+    blocked: false,
+    blockReasons: [],
+    autoApprove: false,
+    autoApprovedBy: undefined,
+    extraApprovers: [],
+    requiresFinanceSignoff: false
+  };
+
+  let autoApproveRule;
+
+  for (const rule of rules || []) {
+    if (!matchesRule(rule, subject)) continue;
+    result.matchedRules.push({ id: rule.id, name: rule.name });
+
+    for (const action of rule.actions || []) {
+      switch (action.type) {
+        case 'block':
+          result.blocked = true;
+          result.blockReasons.push(action.message || `Blocked by rule "${rule.name}"`);
+          break;
+        case 'requireExtraApprover':
+          if (action.approverId && !result.extraApprovers.some(a => a.approverId === action.approverId)) {
+            result.extraApprovers.push({ approverId: action.approverId, approverName: action.approverName || '' });
+          }
+          break;
+        case 'requireFinanceSignoff':
+          result.requiresFinanceSignoff = true;
+          break;
+        case 'autoApprove':
+          if ((Number(subject.amount) || 0) <= (Number(action.maxAmount) || 0) && !autoApproveRule) {
+            autoApproveRule = rule;
+          }
+          break;
+      }
+    }
+  }
+
+  if (result.blocked) return result;
+
+  if (autoApproveRule && result.extraApprovers.length === 0 && !result.requiresFinanceSignoff) {
+    result.autoApprove = true;
+    result.autoApprovedBy = { id: autoApproveRule.id, name: autoApproveRule.name };
+  }
+
+  return result;
+}
+
+// Human-readable summaries used by the rule editor
+export function describeCondition(condition) {
+  switch (condition.type) {
+    case 'amount':
+      if (condition.min != null && condition.max != null) return `Amount between ${condition.min} and ${condition.max}`;
+      if (condition.min != null) return `Amount at least ${condition.min}`;
+      if (condition.max != null) return `Amount up to ${condition.max}`;
+      return 'Any amount';
+    case 'category':
+      return `Category is ${(condition.values || []).join(' or ')}`;
+    case 'department':
+      return `Department is ${(condition.values || []).join(' or ')}`;
+    case 'requesterRole':
+      return `Requester role is ${(condition.roles || []).join(' or ')}`;
+    case 'customField': {
+      const operators = { equals: 'equals', notEquals: 'does not equal', contains: 'contains' };
+      return `${condition.field} ${operators[condition.operator] || condition.operator} "${condition.value}"`;
+    }
+    default:
+      return 'Unknown condition';
+  }
+}
+
+export function describeAction(action) {
+  switch (action.type) {
+    case 'requireExtraApprover':
+      return `Require extra approval from ${action.approverName || 'selected approver'}`;
+    case 'requireFinanceSignoff':
+      return 'Require Finance sign-off';
+    case 'autoApprove':
+      return `Auto-approve up to ${action.maxAmount}`;
+    case 'block':
+      return `Block submission${action.message ? `: ${action.message}` : ''}`;
+    default:
+      return 'Unknown action';
+  }
+}
@@ -0,0 +1,320 @@
+// Type declarations for the shared request and record contracts (contracts.js)
+import type { z } from 'zod';
+import type {
+  User, UserRecord, Membership, TwoFactorSettings, TwoFactorStatus, TwoFactorPolicy, DomainVerification, DomainJoinPolicy, MemberApprovalPolicy, OrgChartRules, HierarchyLevel, ApprovalDelegation, Organization, SlaPolicy, DuplicateDetectionSettings, SuspectedDuplicate,
+  FundingRequest, Budget, Invoice, QueryMessage, Attachment, AttachmentRef, OrgChartNode, InviteToken,
+  ApprovalChainLevel, ApprovalChain, ApprovalHistory, OrgRequest, OrgChart, OrgAuditLog
+} from '../client/src/lib/database';
+import type { ApprovalRule } from './approvalRules';
+import type { RoleDefinition } from './permissions';
+
+// What callers may send before parsing: dates as ISO strings, numbers as form strings,
+// blanks as null, and fields with defaults left out
+type Widen<T> = T extends Date ? Date | string : T extends number ? number | string : T;
+export type Payload<T> = { [K in keyof T]?: Widen<T[K]> | null };
+
+export type Schema<T> = z.ZodType<T, z.ZodTypeDef, Payload<T>>;
+
+export const USER_ROLES: User['role'][];
+export const REQUEST_STATUSES: FundingRequest['status'][];
+export const APPROVAL_DECISIONS: ('Approved' | 'Rejected' | 'Needs Info')[];
+export const NODE_SHAPES: OrgChartNode['shape'][];
+
+export const phoneNumber: z.ZodType<string | undefined, z.ZodTypeDef, unknown>;
+
+// ----- Entities -----
+
+export const approvalDelegationSchema: Schema<ApprovalDelegation>;
+export const twoFactorSettingsSchema: Schema<TwoFactorSettings>;
+export const twoFactorStatusSchema: Schema<TwoFactorStatus>;
+export const userSchema: Schema<UserRecord>;
+export const membershipSchema: Schema<Membership>;
+export const approvalRuleSchema: Schema<ApprovalRule>;
+export const slaPolicySchema: Schema<SlaPolicy>;
+export const duplicateDetectionSchema: Schema<DuplicateDetectionSettings>;
+export const roleDefinitionSchema: Schema<RoleDefinition>;
+export const twoFactorPolicySchema: Schema<TwoFactorPolicy>;
+export const domainVerificationSchema: Schema<DomainVerification>;
+export const domainJoinPolicySchema: Schema<DomainJoinPolicy>;
+export const memberApprovalPolicySchema: Schema<MemberApprovalPolicy>;
+export const orgChartRulesSchema: Schema<OrgChartRules>;
+export const hierarchyLevelSchema: Schema<HierarchyLevel>;
+export const hierarchyLevelsSchema: Schema<HierarchyLevel[]>;
+export const organizationSettingsSchema: Schema<Organization['settings']>;
+export const organizationSchema: Schema<Organization>;
+export const attachmentRefSchema: Schema<AttachmentRef>;
+export const approvalChainLevelSchema: Schema<ApprovalChainLevel>;
+export const suspectedDuplicateSchema: Schema<SuspectedDuplicate>;
+export const fundingRequestSchema: Schema<FundingRequest>;
+export const budgetSchema: Schema<Budget>;
+export const invoiceSchema: Schema<Invoice>;
+export const queryMessageSchema: Schema<QueryMessage>;
+export const attachmentSchema: Schema<Attachment>;
+export const orgChartNodeSchema: Schema<OrgChartNode>;
+export const inviteTokenSchema: Schema<InviteToken>;
+export const approvalChainSchema: Schema<ApprovalChain>;
+export const approvalHistorySchema: Schema<ApprovalHistory>;
+export const orgRequestSchema: Schema<OrgRequest>;
+export const orgAuditLogSchema: Schema<OrgAuditLog>;
+
+export const ENTITY_SCHEMAS: Record<string, z.ZodTypeAny>;
+export const LOCAL_ONLY_FIELDS: Record<string, string[] | undefined>;
+export const SYNC_SCHEMAS: Record<string, z.ZodTypeAny>;
+export function withoutLocalOnlyFields<T>(entity: string, record: T): T;
+
+// ----- API inputs (parsed shapes) -----
+
+export interface LoginInput {
+  email: string;
+  password: string;
+  code?: string;
+}
+
+export interface RefreshSessionInput {
+  refreshToken: string;
+}
+
+export interface RegisterOrganizationInput {
+  orgCode: string;
+  name: string;
+  adminEmail: string;
+  adminPassword: string;
+  adminFullName: string;
+}
+
+export interface JoinOrganizationInput {
+  inviteCode: string;
+  email: string;
+  password: string;
+  fullName: string;
+  phoneNumber?: string;
+}
+
+export interface JoinByCodeInput {
+  orgCode?: string;
+  email: string;
+  password: string;
+  fullName: string;
+  department?: string;
+}
+
+export interface RegisterMemberInput {
+  orgCode: string;
+  email: string;
+  password: string;
+  fullName: string;
+  department?: string;
+  jobTitle?: string;
+}
+
+export type ProfileInput = Partial<Pick<User,
+  'fullName' | 'email' | 'phoneNumber' | 'jobTitle' | 'department' | 'digestTime' | 'notificationPreferences' | 'customFieldsData'
+>>;
+
+export interface PasswordChangeInput {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface TwoFactorCodeInput {
+  code: string;
+}
+
+export interface StepUpInput {
+  code?: string;
+  password?: string;
+}
+
+export interface DomainVerificationInput {
+  domain: string;
+  method: DomainVerification['method'];
+  email?: string;
+}
+
+export interface DomainChallengeInput {
+  code?: string;
+}
+
+export interface OrganizationUpdateInput {
+  name?: string;
+  settings?: Partial<Organization['settings']>;
+}
+
+export type CreateUserInput = Pick<User,
+  'email' | 'password' | 'fullName' | 'role' | 'jobTitle' | 'phoneNumber' | 'department' |
+  'digestTime' | 'notificationPreferences' | 'isOnline' | 'customFieldsData' | 'emailVerified'
+>;
+
+export type UserUpdateInput = Partial<Pick<User, 'fullName' | 'role' | 'phoneNumber' | 'jobTitle' | 'department'>>;
+
+export interface RoleAssignmentInput {
+  role?: User['role'];
+  customRoleId?: string | null;
+}
+
+export type MembershipUpdateInput = Partial<Pick<Membership, 'department' | 'jobTitle' | 'status'>>;
+
+export interface SwitchOrganizationInput {
+  orgId: string;
+}
+
+export interface OrgRequestInput {
+  type: Exclude<OrgRequest['type'], 'join' | 'change'>;
+  payload: any;
+}
+
+export type OrgRequestUpdateInput = Partial<Pick<OrgRequest, 'status' | 'payload' | 'handledBy' | 'handledAt'>>;
+
+export interface OrgRequestDecisionInput {
+  note?: string;
+}
+
+export type OrgChartNodeInput = Omit<OrgChartNode, 'id' | 'orgId' | 'createdAt' | 'updatedAt'>;
+
+export interface MoveOrgChartNodeInput {
+  newParentId: string | null;   // the node's level follows from its new manager
+}
+
+export type OrgChartInput = Omit<OrgChart, 'orgId'>;
+
+export interface OrgChartImportRow {
+  name?: string;
+  email?: string;
+  title?: string;
+  department?: string;
+  managerEmail?: string;
+  id?: string;                     // the rest only come from a JSON export of a chart
+  managerId?: string;
+  userId?: string;
+  hierarchyLevelId?: string;
+  position?: OrgChartNode['position'];
+  color?: string;
+  shape?: OrgChartNode['shape'];
+  budgetResponsibility?: string;
+  profilePicture?: string;
+  isExpanded?: boolean;
+  isApproved?: boolean;
+}
+
+export interface OrgChartImportInput {
+  rows: OrgChartImportRow[];
+  managersMapped: boolean;
+  memberRole: User['role'];        // for people the import adds to the org
+}
+
+export interface CreateRequestInput {
+  title: string;
+  description: string;
+  amount: number;
+  category: string;
+  customCategory?: string;
+  department?: string;
+  costCenter?: string;
+  approverId?: string;
+  approvalChainId?: string;
+  checklist: { id?: string; item: string; completed: boolean }[];
+  attachments: AttachmentRef[];
+  aiSummary?: string;
+  invoiceData?: Record<string, any>;
+}
+
+export type RequestUpdateInput = Partial<Omit<CreateRequestInput, 'invoiceData'>>;
+
+export type InvoiceInput = Omit<Invoice, 'id' | 'orgId' | 'requestId' | 'createdAt' | 'updatedAt'>;
+
+export interface RequestStatusInput {
+  status: 'Approved' | 'Rejected' | 'Needs Info';
+  comments?: string;
+  isFastTrack?: boolean;
+}
+
+export interface PaymentReleaseInput {
+  reference?: string;
+}
+
+export type MessageInput = Pick<QueryMessage, 'messageType' | 'content' | 'attachments'>;
+
+export interface InviteTokenInput {
+  role: InviteToken['role'];
+  expiresInDays: number;
+}
+
+export type ApprovalChainInput = Pick<ApprovalChain,
+  'name' | 'department' | 'category' | 'minAmount' | 'maxAmount' | 'isDefault' | 'levels'
+>;
+
+export type BudgetInput = Pick<Budget, 'name' | 'department' | 'costCenter' | 'periodStart' | 'periodEnd' | 'allocatedAmount'>;
+
+export interface AmountCheckInput {
+  amount: number;
+  category?: string;
+  customCategory?: string;
+}
+
+export interface BudgetCheckInput {
+  amount: number;
+  department?: string;
+  costCenter?: string;
+}
+
+export interface InvoiceFiltersInput {
+  vendor?: string;
+  invoiceNumber?: string;
+  purchaseOrderNumber?: string;
+  dueFrom?: Date;
+  dueTo?: Date;
+}
+
+export const loginInput: Schema<LoginInput>;
+export const refreshSessionInput: Schema<RefreshSessionInput>;
+export const registerOrganizationInput: Schema<RegisterOrganizationInput>;
+export const joinOrganizationInput: Schema<JoinOrganizationInput>;
+export const joinByCodeInput: Schema<JoinByCodeInput>;
+export const registerMemberInput: Schema<RegisterMemberInput>;
+export const profileInput: Schema<ProfileInput>;
+export const passwordChangeInput: Schema<PasswordChangeInput>;
+export const twoFactorCodeInput: Schema<TwoFactorCodeInput>;
+export const stepUpInput: Schema<StepUpInput>;
+export const delegationInput: Schema<ApprovalDelegation>;
+export const domainVerificationInput: Schema<DomainVerificationInput>;
+export const domainChallengeInput: Schema<DomainChallengeInput>;
+export const organizationUpdateInput: Schema<OrganizationUpdateInput>;
+export const createUserInput: Schema<CreateUserInput>;
+export const userUpdateInput: Schema<UserUpdateInput>;
+export const roleAssignmentInput: Schema<RoleAssignmentInput>;
+export const membershipUpdateInput: Schema<MembershipUpdateInput>;
+export const switchOrganizationInput: Schema<SwitchOrganizationInput>;
+export const orgRequestInput: Schema<OrgRequestInput>;
+export const orgRequestUpdateInput: Schema<OrgRequestUpdateInput>;
+export const orgRequestDecisionInput: Schema<OrgRequestDecisionInput>;
+export const orgChartNodeInput: Schema<OrgChartNodeInput>;
+export const orgChartNodeUpdateInput: Schema<Partial<OrgChartNodeInput>>;
+export const moveOrgChartNodeInput: Schema<MoveOrgChartNodeInput>;
+export const orgChartInput: Schema<OrgChartInput>;
+export const orgChartImportRowSchema: Schema<OrgChartImportRow>;
+export const orgChartImportInput: Schema<OrgChartImportInput>;
+export const createRequestInput: Schema<CreateRequestInput>;
+export const requestUpdateInput: Schema<RequestUpdateInput>;
+export const invoiceInput: Schema<InvoiceInput>;
+export const requestStatusInput: Schema<RequestStatusInput>;
+export const paymentReleaseInput: Schema<PaymentReleaseInput>;
+export const messageInput: Schema<MessageInput>;
+export const inviteTokenInput: Schema<InviteTokenInput>;
+export const approvalChainInput: Schema<ApprovalChainInput>;
+export const approvalChainUpdateInput: Schema<Partial<ApprovalChainInput>>;
+export const budgetInput: Schema<BudgetInput>;
+export const budgetUpdateInput: Schema<Partial<BudgetInput>>;
+export const amountCheckInput: Schema<AmountCheckInput>;
+export const budgetCheckInput: Schema<BudgetCheckInput>;
+export const invoiceFiltersInput: Schema<InvoiceFiltersInput>;
+
+// ----- Errors -----
+
+export function fieldErrors(issues: z.ZodIssue[]): Record<string, string>;
+
+export class ValidationError extends Error {
+  fields: Record<string, string>;
+  constructor(fields: Record<string, string>, message?: string);
+}
+
+export function parseInput<T>(schema: z.ZodType<T, any, any>, data: unknown): T;
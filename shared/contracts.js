@@ -0,0 +1,879 @@
+// Request and record contracts for RapidFunds
+// Zod schemas for every stored entity and every API input, validated by BrowserApi,
+// the Express routes and the client forms. Plain ESM so both sides can import it.
+import { z } from 'zod';
+import { CAPABILITIES } from './permissions.js';
+
+export const USER_ROLES = ['Admin', 'Approver', 'Finance', 'Member', 'Requester'];
+export const REQUEST_STATUSES = ['Open', 'Needs Info', 'Approved', 'Rejected', 'Closed'];
+export const APPROVAL_DECISIONS = ['Approved', 'Rejected', 'Needs Info'];
+export const NODE_SHAPES = ['rectangle', 'circle', 'rounded'];
+
+// ----- Building blocks -----
+
+const id = z.string().min(1);
+const date = z.coerce.date();
+
+// Blank strings and null count as "not provided"
+const optionalText = z.preprocess(
+  value => (typeof value === 'string' ? value.trim() || undefined : value ?? undefined),
+  z.string().optional()
+);
+
+const requiredText = (label, min = 1) =>
+  z.string({ required_error: `${label} is required` }).trim().min(min, min > 1
+    ? `${label} must be at least ${min} characters`
+    : `${label} is required`);
+
+const optionalDate = z.preprocess(value => (value === '' || value == null ? undefined : value), date.optional());
+
+// Amounts arrive as numbers from the API and as strings from form inputs
+const amount = (label) => z.preprocess(
+  value => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value),
+  z.number({ required_error: `${label} is required`, invalid_type_error: `${label} must be a number` })
+);
+
+const optionalAmount = (label) => z.preprocess(
+  value => (value === '' || value == null ? undefined : typeof value === 'string' ? Number(value) : value),
+  z.number({ invalid_type_error: `${label} must be a number` }).optional()
+);
+
+const email = z.string().trim().toLowerCase().email('Enter a valid email address');
+
+export const phoneNumber = z.preprocess(
+  value => (typeof value === 'string' ? value.trim() || undefined : value ?? undefined),
+  z.string().regex(/^\+?[\d\s().-]{7,20}$/, 'Enter a valid phone number').optional()
+);
+const userRole = z.enum(USER_ROLES);
+
+// ----- Entities -----
+
+export const approvalDelegationSchema = z.object({
+  substituteId: id,
+  startsAt: date,
+  endsAt: date,
+  reason: optionalText
+});
+
+export const twoFactorSettingsSchema = z.object({
+  userId: id,
+  secret: z.string(),
+  enabledAt: optionalDate,
+  lastUsedStep: z.number().int().optional(),
+  recoveryCodeHashes: z.array(z.string())
+});
+
+export const twoFactorStatusSchema = z.object({
+  enabledAt: date,
+  recoveryCodesLeft: z.number().int().min(0)
+});
+
+// Stored once per person; role, department and title live on their memberships
+export const userSchema = z.object({
+  id,
+  orgId: id,
+  email: z.string(),
+  password: z.string(),
+  fullName: z.string(),
+  phoneNumber: optionalText,
+  digestTime: z.string(),
+  notificationPreferences: z.any(),
+  isOnline: z.boolean(),
+  customFieldsData: z.any(),
+  emailVerified: z.boolean(),
+  delegation: approvalDelegationSchema.optional(),
+  sessionsRevokedAt: optionalDate,
+  twoFactor: twoFactorStatusSchema.optional(),
+  createdAt: date
+}).passthrough();
+
+const membershipStatus = z.enum(['active', 'pending', 'removed']);
+
+export const membershipSchema = z.object({
+  id,
+  userId: id,
+  orgId: id,
+  role: userRole,
+  customRoleId: optionalText,
+  department: optionalText,
+  jobTitle: optionalText,
+  status: membershipStatus,
+  joinedAt: date
+}).passthrough();
+
+const ruleConditionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('amount'), min: z.number().optional(), max: z.number().optional() }),
+  z.object({ type: z.literal('category'), values: z.array(z.string()) }),
+  z.object({ type: z.literal('department'), values: z.array(z.string()) }),
+  z.object({
+    type: z.literal('customField'),
+    field: z.string(),
+    operator: z.enum(['equals', 'notEquals', 'contains']),
+    value: z.string()
+  }),
+  z.object({ type: z.literal('requesterRole'), roles: z.array(z.string()) })
+]);
+
+const ruleActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('requireExtraApprover'), approverId: id, approverName: z.string() }),
+  z.object({ type: z.literal('requireFinanceSignoff') }),
+  z.object({ type: z.literal('autoApprove'), maxAmount: z.number().nonnegative() }),
+  z.object({ type: z.literal('block'), message: z.string().optional() })
+]);
+
+export const approvalRuleSchema = z.object({
+  id,
+  name: requiredText('Rule name'),
+  enabled: z.boolean(),
+  conditions: z.array(ruleConditionSchema),
+  actions: z.array(ruleActionSchema)
+});
+
+export const slaPolicySchema = z.object({
+  id,
+  category: optionalText,
+  level: z.number().int().positive().optional(),
+  hours: z.number().positive('Hours must be greater than zero')
+});
+
+export const duplicateDetectionSchema = z.object({
+  action: z.enum(['block', 'warn']),
+  amountTolerance: z.number().min(0).max(1),
+  dateWindowDays: z.number().int().min(0)
+});
+
+export const roleDefinitionSchema = z.object({
+  id,
+  name: requiredText('Role name'),
+  capabilities: z.array(z.enum(CAPABILITIES)),
+  builtIn: z.boolean().optional()
+});
+
+export const twoFactorPolicySchema = z.object({
+  required: z.boolean(),
+  stepUpAmount: optionalAmount('Step-up amount').refine(
+    value => value === undefined || value >= 0,
+    'Step-up amount cannot be negative'
+  )
+});
+
+export const domainVerificationSchema = z.object({
+  domain: z.string(),
+  method: z.enum(['dns', 'email']),
+  token: z.string(),
+  email: optionalText,
+  expiresAt: optionalDate,
+  verifiedAt: optionalDate
+});
+
+export const domainJoinPolicySchema = z.object({
+  mode: z.enum(['invite', 'auto', 'approval']),
+  defaultRole: userRole
+});
+
+export const memberApprovalPolicySchema = z.object({
+  joins: z.boolean(),
+  profileChanges: z.boolean()
+});
+
+export const orgChartRulesSchema = z.object({
+  maxDepth: z.number().int().min(1, 'Max depth must be at least 1').max(10, 'Max depth cannot be more than 10'),
+  singleRoot: z.boolean(),
+  requireActiveMember: z.boolean()
+});
+
+export const hierarchyLevelSchema = z.object({
+  id,
+  name: requiredText('Level name'),
+  order: z.number().int().min(1, 'Order must be at least 1').max(10, 'Order cannot be more than 10'),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #3B82F6'),
+  description: optionalText,
+  approvalLimit: optionalAmount('Approval limit').refine(
+    value => value === undefined || value >= 0,
+    'Approval limit cannot be negative'
+  )
+});
+
+export const hierarchyLevelsSchema = z.array(hierarchyLevelSchema).superRefine((levels, ctx) => {
+  levels.forEach((level, index) => {
+    if (levels.findIndex(other => other.order === level.order) !== index) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'order'], message: `Another level already has order ${level.order}` });
+    }
+    if (levels.findIndex(other => other.name.toLowerCase() === level.name.toLowerCase()) !== index) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'name'], message: `Another level is already called ${level.name}` });
+    }
+  });
+});
+
+export const organizationSettingsSchema = z.object({
+  primaryColor: z.string(),
+  secondaryColor: z.string(),
+  defaultDigestTime: z.string(),
+  customFields: z.array(z.any()),
+  checklistTemplates: z.array(z.any()),
+  approvalRules: z.array(approvalRuleSchema),
+  slaPolicies: z.array(slaPolicySchema).optional(),
+  duplicateDetection: duplicateDetectionSchema.optional(),
+  roles: z.array(roleDefinitionSchema).optional(),
+  twoFactor: twoFactorPolicySchema.optional(),
+  domain: optionalText,
+  domainVerification: domainVerificationSchema.optional(),
+  domainJoin: domainJoinPolicySchema.optional(),
+  memberApprovals: memberApprovalPolicySchema.optional(),
+  orgChartRules: orgChartRulesSchema.optional(),
+  hierarchyLevels: hierarchyLevelsSchema.optional(),
+  logoUrl: optionalText
+}).passthrough();
+
+export const organizationSchema = z.object({
+  orgId: id,
+  name: z.string(),
+  inviteCode: z.string(),
+  createdBy: z.string(),
+  createdAt: date,
+  settings: organizationSettingsSchema
+}).passthrough();
+
+export const attachmentRefSchema = z.object({
+  id,
+  name: z.string(),
+  url: z.string(),
+  size: z.number().nonnegative(),
+  mimeType: z.string().optional()
+});
+
+export const approvalChainLevelSchema = z.object({
+  level: z.number().int().positive(),
+  approverId: z.string({ required_error: 'Select an approver' }).min(1, 'Select an approver'),
+  approverName: z.string()
+});
+
+export const suspectedDuplicateSchema = z.object({
+  requestId: id,
+  invoiceId: z.string().optional(),
+  reason: z.enum(['invoice_number', 'similar_invoice', 'similar_request']),
+  title: z.string(),
+  amount: z.number(),
+  createdAt: date
+});
+
+const checklistItemSchema = z.object({
+  id: z.string().optional(),
+  item: z.string(),
+  completed: z.boolean()
+}).passthrough();
+
+export const fundingRequestSchema = z.object({
+  id,
+  orgId: id,
+  requesterId: id,
+  approverId: optionalText,
+  title: z.string(),
+  description: z.string(),
+  amount: z.number(),
+  category: z.string(),
+  customCategory: optionalText,
+  status: z.enum(REQUEST_STATUSES),
+  currentApprovalLevel: z.number().int(),
+  approvalChainId: optionalText,
+  additionalApprovalLevels: z.array(approvalChainLevelSchema).optional(),
+  invoiceId: optionalText,
+  suspectedDuplicates: z.array(suspectedDuplicateSchema).optional(),
+  participants: z.array(z.string()),
+  attachments: z.array(attachmentRefSchema),
+  checklist: z.array(z.any()),
+  aiSummary: optionalText,
+  department: optionalText,
+  costCenter: optionalText,
+  slaDeadline: optionalDate,
+  escalationCount: z.number().int().optional(),
+  lastEscalatedAt: optionalDate,
+  paymentReleasedAt: optionalDate,
+  paymentReleasedBy: optionalText,
+  lastActivityAt: date,
+  createdAt: date,
+  updatedAt: date
+}).passthrough();
+
+export const budgetSchema = z.object({
+  id,
+  orgId: id,
+  name: z.string(),
+  department: optionalText,
+  costCenter: optionalText,
+  periodStart: date,
+  periodEnd: date,
+  allocatedAmount: z.number(),
+  createdBy: z.string(),
+  createdAt: date,
+  updatedAt: date
+}).passthrough();
+
+const invoiceFieldsSchema = z.object({
+  invoiceNumber: requiredText('Invoice number'),
+  invoiceDate: optionalDate,
+  dueDate: optionalDate,
+  vendorName: requiredText('Vendor name'),
+  vendorAddress: optionalText,
+  vendorEmail: optionalText,
+  vendorPhone: optionalText,
+  vendorTaxId: optionalText,
+  totalAmount: amount('Total amount').default(0),
+  taxAmount: amount('Tax amount').default(0),
+  discountAmount: amount('Discount amount').default(0),
+  netAmount: amount('Net amount').default(0),
+  currency: optionalText.transform(value => value || 'INR'),
+  paymentMethod: optionalText,
+  paymentTerms: optionalText,
+  expectedPaymentDate: optionalDate,
+  bankAccount: optionalText,
+  routingNumber: optionalText,
+  paymentInstructions: optionalText,
+  purchaseOrderNumber: optionalText,
+  contractNumber: optionalText,
+  department: optionalText,
+  costCenter: optionalText,
+  projectCode: optionalText,
+  budgetCategory: optionalText,
+  taxExempt: z.boolean().default(false),
+  taxExemptReason: optionalText,
+  internalNotes: optionalText,
+  externalNotes: optionalText
+});
+
+export const invoiceSchema = invoiceFieldsSchema.extend({
+  id,
+  orgId: id,
+  requestId: id,
+  createdAt: date,
+  updatedAt: date
+}).passthrough();
+
+export const queryMessageSchema = z.object({
+  id,
+  requestId: id,
+  userId: optionalText,
+  messageType: z.enum(['text', 'file', 'system_event']),
+  content: z.string(),
+  attachments: z.array(attachmentRefSchema),
+  createdAt: date
+}).passthrough();
+
+export const attachmentSchema = z.object({
+  id,
+  orgId: id,
+  uploadedBy: z.string(),
+  name: z.string(),
+  mimeType: z.string(),
+  size: z.number().nonnegative(),
+  hash: z.string(),
+  blob: z.instanceof(Blob),
+  createdAt: date
+});
+
+const positionSchema = z.object({ x: z.number(), y: z.number() });
+
+export const orgChartNodeSchema = z.object({
+  id,
+  orgId: id,
+  userId: optionalText,
+  name: z.string(),
+  role: z.string(),
+  department: optionalText,
+  parentId: optionalText,
+  hierarchyLevelId: optionalText,
+  position: positionSchema,
+  color: z.string(),
+  shape: z.enum(NODE_SHAPES),
+  level: z.number().int(),
+  budgetResponsibility: optionalText,
+  email: optionalText,
+  profilePicture: optionalText,
+  isExpanded: z.boolean(),
+  isApproved: z.boolean(),
+  reportingManager: optionalText,
+  createdAt: date,
+  updatedAt: date
+}).passthrough();
+
+export const inviteTokenSchema = z.object({
+  id,
+  orgId: id,
+  token: z.string(),
+  role: userRole,
+  createdBy: z.string(),
+  expiresAt: date,
+  usedAt: optionalDate,
+  usedBy: optionalText,
+  createdAt: date
+}).passthrough();
+
+export const approvalChainSchema = z.object({
+  id,
+  orgId: id,
+  name: z.string(),
+  department: optionalText,
+  category: optionalText,
+  minAmount: z.number().optional(),
+  maxAmount: z.number().optional(),
+  isDefault: z.boolean(),
+  levels: z.array(approvalChainLevelSchema),
+  createdAt: date,
+  updatedAt: date
+}).passthrough();
+
+export const approvalHistorySchema = z.object({
+  id,
+  requestId: id,
+  level: z.number().int(),
+  approverId: z.string(),
+  action: z.enum(['Approved', 'Rejected', 'RequestInfo', 'Overridden']),
+  comments: optionalText,
+  isFastTrack: z.boolean(),
+  onBehalfOfId: optionalText,
+  createdAt: date
+}).passthrough();
+
+export const orgRequestSchema = z.object({
+  requestId: id,
+  orgId: id,
+  type: z.enum(['approval', 'join', 'change', 'other']),
+  submittedBy: z.string(),
+  submittedAt: date,
+  payload: z.any(),
+  status: z.enum(['pending', 'approved', 'rejected']),
+  handledBy: optionalText,
+  handledAt: optionalDate
+}).passthrough();
+
+export const orgAuditLogSchema = z.object({
+  id,
+  orgId: id,
+  action: z.string(),
+  performedBy: z.string(),
+  performedAt: date,
+  targetType: z.string(),
+  targetId: optionalText,
+  details: z.any()
+}).passthrough();
+
+// Schema for each IndexedDB table, keyed by table name
+export const ENTITY_SCHEMAS = {
+  users: userSchema,
+  organizations: organizationSchema,
+  fundingRequests: fundingRequestSchema,
+  queryMessages: queryMessageSchema,
+  attachments: attachmentSchema,
+  orgChartNodes: orgChartNodeSchema,
+  inviteTokens: inviteTokenSchema,
+  approvalChains: approvalChainSchema,
+  approvalHistory: approvalHistorySchema,
+  memberships: membershipSchema,
+  orgRequests: orgRequestSchema,
+  orgAuditLogs: orgAuditLogSchema,
+  budgets: budgetSchema,
+  invoices: invoiceSchema
+};
+
+// Fields that never leave the browser that set them: a user's password, and the status of
+// a second factor whose secret only that browser holds. They are not pushed to the sync
+// server or pulled from it.
+export const LOCAL_ONLY_FIELDS = {
+  users: ['password', 'twoFactor']
+};
+
+// Schema for each synced document, which never carries local-only fields
+export const SYNC_SCHEMAS = Object.fromEntries(Object.entries(ENTITY_SCHEMAS).map(([entity, schema]) => [
+  entity,
+  LOCAL_ONLY_FIELDS[entity]
+    ? schema.omit(Object.fromEntries(LOCAL_ONLY_FIELDS[entity].map(field => [field, true])))
+    : schema
+]));
+
+export function withoutLocalOnlyFields(entity, record) {
+  const fields = LOCAL_ONLY_FIELDS[entity];
+  if (!fields || !record) return record;
+  const copy = { ...record };
+  for (const field of fields) delete copy[field];
+  return copy;
+}
+
+// ----- API inputs -----
+
+export const loginInput = z.object({
+  email,
+  password: z.string().min(1, 'Password is required'),
+  code: optionalText
+});
+
+export const refreshSessionInput = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required')
+});
+
+export const registerOrganizationInput = z.object({
+  orgCode: requiredText('Organization code', 3),
+  name: requiredText('Organization name', 2),
+  adminEmail: email,
+  adminPassword: z.string().min(6, 'Password must be at least 6 characters'),
+  adminFullName: requiredText('Full name', 2)
+});
+
+export const joinOrganizationInput = z.object({
+  inviteCode: requiredText('Invite code'),
+  email,
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  fullName: requiredText('Full name', 2),
+  phoneNumber: optionalText
+});
+
+// Browser sign-up into an existing organization by its code, or by a verified email domain
+// when the code is left out. The organization picks the role, never the person joining.
+export const joinByCodeInput = z.object({
+  orgCode: optionalText,
+  email,
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  fullName: requiredText('Full name', 2),
+  department: optionalText
+});
+
+// Server sign-up into an existing organization by its code
+export const registerMemberInput = z.object({
+  orgCode: requiredText('Organization code', 3),
+  email,
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  fullName: requiredText('Full name', 2),
+  department: optionalText,
+  jobTitle: optionalText
+});
+
+export const profileInput = z.object({
+  fullName: requiredText('Full name', 2).optional(),
+  email: email.optional(),
+  phoneNumber: optionalText,
+  jobTitle: optionalText,
+  department: optionalText,
+  digestTime: z.string().regex(/^\d{2}:\d{2}$/, 'Use HH:MM').optional(),
+  notificationPreferences: z.record(z.any()).optional(),
+  customFieldsData: z.record(z.any()).optional()
+});
+
+export const passwordChangeInput = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: z.string().min(6, 'Password must be at least 6 characters')
+});
+
+// An authenticator code, or one of the recovery codes
+export const twoFactorCodeInput = z.object({
+  code: requiredText('Code')
+});
+
+// Fresh proof of identity before a sensitive action: a second-factor code when the
+// user has one, their password otherwise
+export const stepUpInput = z.object({
+  code: optionalText,
+  password: optionalText
+}).refine(value => value.code || value.password, { message: 'Enter your code or password', path: ['code'] });
+
+export const delegationInput = approvalDelegationSchema.refine(
+  value => value.endsAt > value.startsAt,
+  { message: 'Delegation must end after it starts', path: ['endsAt'] }
+);
+
+const domainName = z.preprocess(
+  value => (typeof value === 'string' ? value.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^@/, '').replace(/\/.*$/, '') : value),
+  z.string({ required_error: 'Domain is required' }).regex(/^([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/, 'Enter a domain such as acme.com')
+);
+
+// Start verifying a domain; the email method sends a code to an address on that domain
+export const domainVerificationInput = z.object({
+  domain: domainName,
+  method: z.enum(['dns', 'email']),
+  email: email.optional()
+}).refine(
+  value => value.method !== 'email' || value.email?.endsWith(`@${value.domain}`),
+  { message: 'Use an email address on the domain being verified', path: ['email'] }
+);
+
+export const domainChallengeInput = z.object({
+  code: optionalText
+});
+
+export const organizationUpdateInput = z.object({
+  name: requiredText('Organization name', 2).optional(),
+  settings: organizationSettingsSchema.partial().optional()
+});
+
+export const createUserInput = z.object({
+  email,
+  password: z.string().min(6, 'Password must be at least 6 characters'),
+  fullName: requiredText('Full name', 2),
+  role: userRole,
+  jobTitle: optionalText,
+  phoneNumber: optionalText,
+  department: optionalText,
+  digestTime: z.string().default('09:00'),
+  notificationPreferences: z.any().default({}),
+  isOnline: z.boolean().default(false),
+  customFieldsData: z.any().default({}),
+  emailVerified: z.boolean().default(false)
+});
+
+export const userUpdateInput = z.object({
+  fullName: requiredText('Full name', 2).optional(),
+  role: userRole.optional(),
+  phoneNumber: optionalText,
+  jobTitle: optionalText,
+  department: optionalText
+});
+
+// null takes the custom role away
+export const roleAssignmentInput = z.object({
+  role: userRole.optional(),
+  customRoleId: z.string().min(1).nullable().optional()
+});
+
+// Role changes go through roleAssignmentInput
+export const membershipUpdateInput = z.object({
+  department: optionalText,
+  jobTitle: optionalText,
+  status: membershipStatus.optional()
+});
+
+export const switchOrganizationInput = z.object({
+  orgId: id
+});
+
+// Join and profile change requests are only raised by joining and by editing a profile
+export const orgRequestInput = z.object({
+  type: z.enum(['approval', 'other']),
+  payload: z.any()
+});
+
+export const orgRequestUpdateInput = z.object({
+  status: z.enum(['pending', 'approved', 'rejected']).optional(),
+  payload: z.any().optional(),
+  handledBy: optionalText,
+  handledAt: optionalDate
+});
+
+export const orgRequestDecisionInput = z.object({
+  note: optionalText
+});
+
+export const orgChartNodeInput = z.object({
+  userId: optionalText,
+  name: requiredText('Name', 2),
+  role: z.string().trim().default(''),
+  department: optionalText,
+  parentId: optionalText,
+  hierarchyLevelId: optionalText,
+  level: z.number().int().min(1).max(10),
+  position: positionSchema.default({ x: 0, y: 0 }),
+  color: z.string().default('blue'),
+  shape: z.enum(NODE_SHAPES).default('rectangle'),
+  budgetResponsibility: optionalText,
+  email: optionalText,
+  profilePicture: optionalText,
+  isExpanded: z.boolean().default(true),
+  isApproved: z.boolean().default(true),
+  reportingManager: optionalText
+});
+
+export const orgChartNodeUpdateInput = z.object({
+  userId: optionalText,
+  name: requiredText('Name', 2).optional(),
+  role: z.string().trim().optional(),
+  department: optionalText,
+  parentId: optionalText,
+  hierarchyLevelId: optionalText,
+  level: z.number().int().min(1).max(10).optional(),
+  position: positionSchema.optional(),
+  color: z.string().optional(),
+  shape: z.enum(NODE_SHAPES).optional(),
+  budgetResponsibility: optionalText,
+  email: optionalText,
+  profilePicture: optionalText,
+  isExpanded: z.boolean().optional(),
+  isApproved: z.boolean().optional(),
+  reportingManager: optionalText
+});
+
+export const moveOrgChartNodeInput = z.object({
+  newParentId: z.string().nullish().transform(value => value || null)
+});
+
+export const orgChartInput = z.object({
+  nodes: z.array(orgChartNodeSchema),
+  updatedAt: date.default(() => new Date())
+});
+
+// One person from an imported spreadsheet, after its columns were mapped. Rows are checked
+// one by one when the import is planned, so a bad row is reported rather than failing the file.
+export const orgChartImportRowSchema = z.object({
+  name: optionalText,
+  email: optionalText,
+  title: optionalText,
+  department: optionalText,
+  managerEmail: optionalText,
+  // Only in JSON exports, which carry the chart's own ids and the rest of each node
+  id: optionalText,
+  managerId: optionalText,
+  userId: optionalText,
+  hierarchyLevelId: optionalText,
+  position: positionSchema.optional(),
+  color: optionalText,
+  shape: z.enum(NODE_SHAPES).optional(),
+  budgetResponsibility: optionalText,
+  profilePicture: optionalText,
+  isExpanded: z.boolean().optional(),
+  isApproved: z.boolean().optional()
+});
+
+export const orgChartImportInput = z.object({
+  rows: z.array(orgChartImportRowSchema).min(1, 'The file has no rows to import').max(5000, 'Import at most 5000 people at a time'),
+  // Without a manager column nobody already on the chart is moved
+  managersMapped: z.boolean().default(true),
+  memberRole: userRole.default('Requester')
+});
+
+const requestFields = z.object({
+  title: requiredText('Title', 3),
+  description: requiredText('Description', 10),
+  amount: amount('Amount').pipe(z.number().positive('Amount must be greater than zero')),
+  category: requiredText('Category'),
+  customCategory: optionalText,
+  department: optionalText,
+  costCenter: optionalText,
+  approverId: optionalText,
+  approvalChainId: optionalText,
+  checklist: z.array(checklistItemSchema).default([]),
+  attachments: z.array(attachmentRefSchema).default([]),
+  aiSummary: optionalText,
+  invoiceData: z.record(z.any()).optional()
+});
+
+export const createRequestInput = requestFields.refine(
+  value => value.category !== 'Other' || !!value.customCategory,
+  { message: 'Describe the category', path: ['customCategory'] }
+);
+
+export const requestUpdateInput = requestFields.omit({ invoiceData: true }).partial();
+
+// The invoice carried by an 'Invoice' request
+export const invoiceInput = invoiceFieldsSchema;
+
+export const requestStatusInput = z.object({
+  status: z.enum(APPROVAL_DECISIONS, { errorMap: () => ({ message: 'Choose approve, reject or request info' }) }),
+  comments: optionalText,
+  isFastTrack: z.boolean().optional()
+});
+
+export const paymentReleaseInput = z.object({
+  reference: optionalText
+});
+
+export const messageInput = z.object({
+  messageType: z.enum(['text', 'file', 'system_event']).default('text'),
+  content: z.string().trim().default(''),
+  attachments: z.array(attachmentRefSchema).default([])
+}).refine(
+  value => value.content.length > 0 || value.attachments.length > 0,
+  { message: 'Write a message or attach a file', path: ['content'] }
+);
+
+export const inviteTokenInput = z.object({
+  role: userRole,
+  expiresInDays: z.coerce.number().int().min(1, 'At least 1 day').max(90, 'At most 90 days').default(7)
+});
+
+const approvalChainFields = z.object({
+  name: requiredText('Chain name'),
+  department: optionalText,
+  category: optionalText,
+  minAmount: optionalAmount('Minimum amount'),
+  maxAmount: optionalAmount('Maximum amount'),
+  isDefault: z.boolean().default(false),
+  levels: z.array(approvalChainLevelSchema).min(1, 'Add at least one level')
+});
+
+const amountRangeIsOrdered = value =>
+  value.minAmount === undefined || value.maxAmount === undefined || value.minAmount <= value.maxAmount;
+
+const amountRangeError = { message: 'Minimum amount cannot be greater than maximum amount', path: ['maxAmount'] };
+
+export const approvalChainInput = approvalChainFields.refine(amountRangeIsOrdered, amountRangeError);
+
+export const approvalChainUpdateInput = approvalChainFields.partial().refine(amountRangeIsOrdered, amountRangeError);
+
+const budgetFields = z.object({
+  name: requiredText('Budget name'),
+  department: optionalText,
+  costCenter: optionalText,
+  periodStart: date,
+  periodEnd: date,
+  allocatedAmount: amount('Allocated amount').pipe(z.number().positive('Allocated amount must be greater than zero'))
+});
+
+export const budgetInput = budgetFields.refine(
+  value => value.periodEnd > value.periodStart,
+  { message: 'Budget period must end after it starts', path: ['periodEnd'] }
+);
+
+export const budgetUpdateInput = budgetFields.partial();
+
+export const amountCheckInput = z.object({
+  amount: amount('Amount'),
+  category: optionalText,
+  customCategory: optionalText
+});
+
+export const budgetCheckInput = z.object({
+  amount: amount('Amount'),
+  department: optionalText,
+  costCenter: optionalText
+});
+
+export const invoiceFiltersInput = z.object({
+  vendor: optionalText,
+  invoiceNumber: optionalText,
+  purchaseOrderNumber: optionalText,
+  dueFrom: optionalDate,
+  dueTo: optionalDate
+});
+
+// ----- Errors -----
+
+// Field path ('levels.0.approverId') -> first message for that field
+export function fieldErrors(issues) {
+  const fields = {};
+  for (const issue of issues) {
+    // For a failed union, report the branch the payload came closest to
+    if (issue.code === 'invalid_union' && issue.unionErrors.length > 0) {
+      const closest = issue.unionErrors.reduce((best, error) => error.issues.length < best.issues.length ? error : best);
+      for (const [path, message] of Object.entries(fieldErrors(closest.issues))) {
+        if (!(path in fields)) fields[path] = message;
+      }
+      continue;
+    }
+    const path = issue.path.join('.') || '_';
+    if (!(path in fields)) fields[path] = issue.message;
+  }
+  return fields;
+}
+
+// Thrown when a payload does not match its contract; `fields` holds one message per field
+export class ValidationError extends Error {
+  constructor(fields, message) {
+    const [first] = Object.entries(fields);
+    super(message || (first ? (first[0] === '_' ? first[1] : `${first[0]}: ${first[1]}`) : 'Invalid input'));
+    this.name = 'ValidationError';
+    this.fields = fields;
+  }
+}
+
+// Parse `data` with `schema`, throwing a ValidationError listing each bad field
+export function parseInput(schema, data) {
+  const result = schema.safeParse(data);
+  if (!result.success) throw new ValidationError(fieldErrors(result.error.issues));
+  return result.data;
+}
@@ -0,0 +1,9 @@
+// Type declarations for the shared org chart hierarchy levels (hierarchyLevels.js)
+import type { HierarchyLevel } from '../client/src/lib/database';
+
+export const DEFAULT_HIERARCHY_LEVELS: HierarchyLevel[];
+
+export function resolveHierarchyLevels(levels: HierarchyLevel[] | undefined): HierarchyLevel[];
+export function levelAtDepth(depth: number, levels: HierarchyLevel[] | undefined): HierarchyLevel;
+export function levelForNode(node: { level: number; hierarchyLevelId?: string }, levels: HierarchyLevel[] | undefined): HierarchyLevel;
+export function withinApprovalLimit(level: HierarchyLevel, amount: number): boolean;
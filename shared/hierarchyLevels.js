@@ -0,0 +1,36 @@
+// Org chart hierarchy levels for RapidFunds
+// What each level of an org's chart is called and colored, from Organization.settings.hierarchyLevels,
+// and how much a manager at that level can approve before a request goes higher.
+// Plain ESM so both the browser client and the Express server can import it.
+
+export const DEFAULT_HIERARCHY_LEVELS = [
+  { id: 'executive', name: 'Executive', order: 1, color: '#8B5CF6', description: 'CEO, CTO and other executives' },
+  { id: 'senior-management', name: 'Senior Management', order: 2, color: '#3B82F6', description: 'Directors and VPs' },
+  { id: 'middle-management', name: 'Middle Management', order: 3, color: '#10B981', description: 'Managers and department heads' },
+  { id: 'team-lead', name: 'Team Lead', order: 4, color: '#F97316', description: 'Team leads and senior staff' },
+  { id: 'individual-contributor', name: 'Individual Contributor', order: 5, color: '#6B7280', description: 'Staff and specialists' }
+];
+
+// The org's levels top to bottom, or the defaults when it has defined none
+export function resolveHierarchyLevels(levels) {
+  const defined = levels && levels.length > 0 ? levels : DEFAULT_HIERARCHY_LEVELS;
+  return [...defined].sort((a, b) => a.order - b.order);
+}
+
+// The level covering a depth: the deepest one that starts at or above it, so a chart deeper
+// than its levels keeps using the last one
+export function levelAtDepth(depth, levels) {
+  const resolved = resolveHierarchyLevels(levels);
+  return resolved.filter(level => level.order <= depth).pop() || resolved[0];
+}
+
+// A node's level: the one assigned to it, otherwise the one covering its depth
+export function levelForNode(node, levels) {
+  const assigned = node.hierarchyLevelId && resolveHierarchyLevels(levels).find(level => level.id === node.hierarchyLevelId);
+  return assigned || levelAtDepth(node.level, levels);
+}
+
+// A level without a limit can approve any amount
+export function withinApprovalLimit(level, amount) {
+  return level.approvalLimit == null || amount <= level.approvalLimit;
+}
@@ -0,0 +1,47 @@
+// Type declarations for the shared org chart integrity rules (orgChartRules.js)
+import type { OrgChartRules } from '../client/src/lib/database';
+
+// The fields of a chart node the rules look at
+export interface ChartNodeShape {
+  id: string;
+  name?: string;
+  parentId?: string | null;
+  userId?: string | null;
+}
+
+export type OrgChartViolationRule = 'cycle' | 'missing-parent' | 'max-depth' | 'single-root' | 'inactive-member';
+
+export interface OrgChartViolation {
+  rule: OrgChartViolationRule;
+  nodeId: string;
+  message: string;
+}
+
+export interface OrgChartPlacement {
+  id: string;
+  level: number;
+}
+
+export interface OrgChartCheck {
+  placements: OrgChartPlacement[];
+  violations: OrgChartViolation[];
+}
+
+export interface OrgChartCheckOptions {
+  changedIds?: Iterable<string>;
+  activeUserIds?: Set<string>;
+}
+
+export const MAX_CHART_DEPTH: number;
+export const DEFAULT_ORG_CHART_RULES: OrgChartRules;
+
+export function resolveOrgChartRules(rules: Partial<OrgChartRules> | undefined): OrgChartRules;
+export function descendantIds(nodes: ChartNodeShape[], nodeId: string): Set<string>;
+export function checkOrgChart(nodes: ChartNodeShape[], rules: Partial<OrgChartRules> | undefined, options?: OrgChartCheckOptions): OrgChartCheck;
+export function planMove(
+  nodes: ChartNodeShape[],
+  nodeId: string,
+  parentId: string | null,
+  rules: Partial<OrgChartRules> | undefined,
+  options?: Omit<OrgChartCheckOptions, 'changedIds'>
+): OrgChartCheck;
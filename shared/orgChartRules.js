@@ -0,0 +1,134 @@
+// Org chart integrity rules for RapidFunds
+// Pure checks of a proposed chart against Organization.settings.orgChartRules: no cycles,
+// no missing managers, a depth limit, optionally one node at the top and only active members.
+// Levels are never taken from the caller; they follow from where a node sits in the tree.
+// Plain ESM so both the browser client and the Express server can import it.
+
+export const MAX_CHART_DEPTH = 10;
+
+export const DEFAULT_ORG_CHART_RULES = {
+  maxDepth: MAX_CHART_DEPTH,
+  singleRoot: false,
+  requireActiveMember: false
+};
+
+export function resolveOrgChartRules(rules) {
+  return { ...DEFAULT_ORG_CHART_RULES, ...(rules || {}) };
+}
+
+const label = (node) => node.name || 'This node';
+
+// Level of each node that sits in a sound tree: 1 at the top, one more per manager above.
+// Nodes in or under a loop, or under a missing manager, get no level.
+function computeLevels(byId) {
+  const levels = new Map();
+  const levelOf = (id, path) => {
+    if (levels.has(id)) return levels.get(id);
+    const node = byId.get(id);
+    if (!node || path.has(id)) return null;
+    if (!node.parentId) {
+      levels.set(id, 1);
+      return 1;
+    }
+    path.add(id);
+    const parentLevel = levelOf(node.parentId, path);
+    path.delete(id);
+    if (parentLevel == null) return null;
+    levels.set(id, parentLevel + 1);
+    return parentLevel + 1;
+  };
+  for (const id of byId.keys()) levelOf(id, new Set());
+  return levels;
+}
+
+// Walking up from the node leads back to it
+function isOwnAncestor(byId, node) {
+  const seen = new Set();
+  let parentId = node.parentId;
+  while (parentId && !seen.has(parentId)) {
+    if (parentId === node.id) return true;
+    seen.add(parentId);
+    parentId = byId.get(parentId)?.parentId;
+  }
+  return false;
+}
+
+// Everyone below the node, at any depth
+export function descendantIds(nodes, nodeId) {
+  const found = new Set();
+  const queue = [nodeId];
+  while (queue.length > 0) {
+    const current = queue.shift();
+    for (const node of nodes) {
+      if (node.parentId === current && node.id !== nodeId && !found.has(node.id)) {
+        found.add(node.id);
+        queue.push(node.id);
+      }
+    }
+  }
+  return found;
+}
+
+// Check a proposed chart. Per-node rules apply to `changedIds` (every node when omitted), so
+// an old problem elsewhere in the chart does not block an unrelated change. Returns the level
+// each changed node should be stored at, and the violations found.
+export function checkOrgChart(nodes, rules, { changedIds, activeUserIds } = {}) {
+  const settings = resolveOrgChartRules(rules);
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const changed = changedIds ? Array.from(changedIds) : Array.from(byId.keys());
+  const levels = computeLevels(byId);
+  const roots = nodes.filter(node => !node.parentId);
+  const placements = [];
+  const violations = [];
+
+  for (const id of changed) {
+    const node = byId.get(id);
+    if (!node) continue;
+
+    if (node.parentId && !byId.has(node.parentId)) {
+      violations.push({ rule: 'missing-parent', nodeId: id, message: `${label(node)}'s manager is not on the chart` });
+    } else if (isOwnAncestor(byId, node)) {
+      violations.push({ rule: 'cycle', nodeId: id, message: `${label(node)} cannot report to someone in their own reporting line` });
+    }
+
+    const level = levels.get(id);
+    if (level != null) {
+      placements.push({ id, level });
+      if (level > settings.maxDepth) {
+        violations.push({
+          rule: 'max-depth',
+          nodeId: id,
+          message: `${label(node)} would be at level ${level}; the chart allows ${settings.maxDepth}`
+        });
+      }
+    }
+
+    if (settings.singleRoot && !node.parentId && roots.length > 1) {
+      violations.push({ rule: 'single-root', nodeId: id, message: `${label(node)} needs a manager; only one person can be at the top of the chart` });
+    }
+
+    if (settings.requireActiveMember && (!node.userId || !activeUserIds?.has(node.userId))) {
+      violations.push({ rule: 'inactive-member', nodeId: id, message: `${label(node)} is not linked to an active member` });
+    }
+  }
+
+  return { placements, violations };
+}
+
+// Put `nodeId` under `parentId` (null for the top). The node's reports move with it, so the
+// placements cover the whole subtree.
+export function planMove(nodes, nodeId, parentId, rules, options = {}) {
+  const node = nodes.find(candidate => candidate.id === nodeId);
+  if (!node) return { placements: [], violations: [] };
+
+  const below = descendantIds(nodes, nodeId);
+  if (parentId === nodeId || below.has(parentId)) {
+    return {
+      placements: [],
+      violations: [{ rule: 'cycle', nodeId, message: `${label(node)} cannot report to someone in their own reporting line` }]
+    };
+  }
+
+  const proposed = nodes.map(candidate => candidate.id === nodeId ? { ...candidate, parentId: parentId || undefined } : candidate);
+  return checkOrgChart(proposed, rules, { ...options, changedIds: [nodeId, ...below] });
+}
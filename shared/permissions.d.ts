@@ -0,0 +1,56 @@
+// Type declarations for the shared permission matrix (permissions.js)
+
+export type Capability =
+  | 'request.view_all'
+  | 'request.approve'
+  | 'request.override'
+  | 'payment.release'
+  | 'budget.manage'
+  | 'invite.create'
+  | 'member.manage'
+  | 'orgchart.edit'
+  | 'approval_chain.manage'
+  | 'org.manage'
+  | 'audit.view';
+
+export interface RoleDefinition {
+  id: string;
+  name: string;
+  capabilities: Capability[];
+  builtIn?: boolean;
+}
+
+// Who is asking; the client User and the server's mapped user row both fit
+export interface PermissionSubject {
+  id: string;
+  orgId: string;
+  role: string;
+  customRoleId?: string | null;
+}
+
+// What is being acted on, when the check is about a specific record
+export interface PermissionResource {
+  orgId?: string;
+  requesterId?: string;
+  approverId?: string | null;
+}
+
+export declare const CAPABILITIES: Capability[];
+export declare const CAPABILITY_LABELS: Record<Capability, string>;
+export declare const BUILT_IN_ROLES: Record<'Admin' | 'Approver' | 'Finance' | 'Member' | 'Requester', Capability[]>;
+
+export declare function isBuiltInRole(roleId: string): boolean;
+export declare function resolveRoles(roles: RoleDefinition[] | undefined): RoleDefinition[];
+export declare function capabilitiesOf(user: PermissionSubject | null | undefined, roles?: RoleDefinition[]): Set<Capability>;
+export declare function can(
+  user: PermissionSubject | null | undefined,
+  capability: Capability,
+  resource?: PermissionResource | null,
+  roles?: RoleDefinition[]
+): boolean;
+export declare function roleGrantRefusal(
+  assigner: PermissionSubject | null | undefined,
+  current: { role: string; customRoleId?: string | null } | null | undefined,
+  next: { role: string; customRoleId?: string | null },
+  roles?: RoleDefinition[]
+): string | null;
@@ -0,0 +1,105 @@
+// Permission matrix for RapidFunds
+// Capabilities granted by built-in roles, optionally overridden per organization, plus
+// custom roles assigned on top. Plain ESM so both the browser client and the Express server can import it.
+
+export const CAPABILITIES = [
+  'request.view_all',
+  'request.approve',
+  'request.override',
+  'payment.release',
+  'budget.manage',
+  'invite.create',
+  'member.manage',
+  'orgchart.edit',
+  'approval_chain.manage',
+  'org.manage',
+  'audit.view'
+];
+
+export const CAPABILITY_LABELS = {
+  'request.view_all': 'See every request in the organization',
+  'request.approve': 'Approve and reject requests',
+  'request.override': 'Act on requests assigned to others and fast-track them',
+  'payment.release': 'Release payment for approved requests',
+  'budget.manage': 'Create and edit budgets',
+  'invite.create': 'Create and revoke invite links',
+  'member.manage': 'Add members and change their roles',
+  'orgchart.edit': 'Edit the org chart',
+  'approval_chain.manage': 'Define approval chains',
+  'org.manage': 'Change organization settings and roles',
+  'audit.view': 'View the audit log'
+};
+
+// Defaults for the roles every organization has. Admin always holds every capability,
+// so an organization cannot lock itself out of its own settings.
+export const BUILT_IN_ROLES = {
+  Admin: CAPABILITIES,
+  Approver: ['request.view_all', 'request.approve'],
+  Finance: ['request.view_all', 'request.approve', 'payment.release', 'budget.manage'],
+  Member: [],
+  Requester: []
+};
+
+export const isBuiltInRole = (roleId) => Object.prototype.hasOwnProperty.call(BUILT_IN_ROLES, roleId);
+
+// The org's role list: built-ins (with any saved overrides) followed by its custom roles
+export function resolveRoles(roles) {
+  const saved = new Map((roles || []).map(role => [role.id, role]));
+  const builtIns = Object.entries(BUILT_IN_ROLES).map(([id, capabilities]) => ({
+    id,
+    name: id,
+    builtIn: true,
+    capabilities: id === 'Admin' ? CAPABILITIES : saved.get(id)?.capabilities ?? capabilities
+  }));
+  const custom = (roles || []).filter(role => !isBuiltInRole(role.id));
+  return [...builtIns, ...custom];
+}
+
+// Everything a user may do: their base role's capabilities plus their custom role's
+export function capabilitiesOf(user, roles) {
+  const capabilities = new Set();
+  if (!user) return capabilities;
+
+  for (const role of resolveRoles(roles)) {
+    if (role.id === user.role || role.id === user.customRoleId) {
+      role.capabilities.forEach(capability => capabilities.add(capability));
+    }
+  }
+  return capabilities;
+}
+
+// The single permission check. `resource` scopes it to a record: nothing in another
+// org is allowed, and people always see and act on requests that are theirs.
+export function can(user, capability, resource, roles) {
+  if (!user) return false;
+  if (resource?.orgId && resource.orgId !== user.orgId) return false;
+
+  if (resource) {
+    if (capability === 'request.view_all' && (resource.requesterId === user.id || resource.approverId === user.id)) {
+      return true;
+    }
+    // Rule-added levels can route a request to anyone, e.g. Finance sign-off, but never
+    // back to the person who raised it
+    if (capability === 'request.approve' && resource.approverId === user.id && resource.requesterId !== user.id) {
+      return true;
+    }
+  }
+
+  return capabilitiesOf(user, roles).has(capability);
+}
+
+// Why `assigner` may not give someone the role pair `next` (replacing `current`), or null
+// if they may. Granting or removing Admin takes org.manage, and nobody can hand out a
+// capability they lack, so nobody can raise their own role either.
+export function roleGrantRefusal(assigner, current, next, roles) {
+  const held = capabilitiesOf(assigner, roles);
+  const touchesAdmin = (next.role === 'Admin') !== (current?.role === 'Admin');
+  if (touchesAdmin && !held.has('org.manage')) {
+    return 'Only someone who can manage the organization can grant or remove the Admin role';
+  }
+
+  const missing = Array.from(capabilitiesOf({ ...next, id: '', orgId: '' }, roles)).filter(capability => !held.has(capability));
+  return missing.length > 0
+    ? `You cannot give a role that can ${CAPABILITY_LABELS[missing[0]].toLowerCase()}`
+    : null;
+}
@@ -0,0 +1,38 @@
+// Type declarations for the shared session tokens (sessionTokens.js)
+
+export declare const ACCESS_TOKEN_TTL: number;
+export declare const REFRESH_TOKEN_TTL: number;
+
+export type TokenType = 'access' | 'refresh';
+
+export interface SessionClaims {
+  sub: string;
+  org: string;
+  sid: string;
+  typ: TokenType;
+  iat: number;
+  iatMs?: number;             // iat to the millisecond; tokens issued before it was added lack it
+  exp: number;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  // Epoch milliseconds when the access token stops being accepted
+  expiresAt: number;
+}
+
+export declare class TokenError extends Error {
+  reason: 'invalid' | 'expired';
+  constructor(reason: 'invalid' | 'expired', message?: string);
+}
+
+export declare function importSigningKey(secret: string): Promise<CryptoKey>;
+export declare function generateSigningKey(): Promise<CryptoKey>;
+export declare function issueSession(
+  key: CryptoKey,
+  subject: { userId: string; orgId: string; sessionId?: string }
+): Promise<SessionTokens>;
+export declare function verifyToken(key: CryptoKey, token: string, type?: TokenType): Promise<SessionClaims>;
+export declare function decodeToken(token: string): SessionClaims | null;
+export declare function isRevoked(claims: SessionClaims, revokedAt: Date | string | null | undefined): boolean;
@@ -0,0 +1,97 @@
+// Signed session tokens for RapidFunds
+// HS256 JWTs built on WebCrypto, so the browser client and the Express server issue and
+// verify the same tokens. Plain ESM so both sides can import it.
+
+export const ACCESS_TOKEN_TTL = 15 * 60; // seconds
+export const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60; // seconds
+
+export class TokenError extends Error {
+  constructor(reason, message) {
+    super(message || (reason === 'expired' ? 'Session expired' : 'Invalid session token'));
+    this.name = 'TokenError';
+    this.reason = reason;
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64Url = (bytes) => {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const encodeJson = (value) => toBase64Url(encoder.encode(JSON.stringify(value)));
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+const HMAC = { name: 'HMAC', hash: 'SHA-256' };
+
+// Signing key derived from a configured secret (the server's JWT_SECRET)
+export function importSigningKey(secret) {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), HMAC, false, ['sign', 'verify']);
+}
+
+// Random, non-extractable signing key for a single install (the browser backend)
+export function generateSigningKey() {
+  return crypto.subtle.generateKey(HMAC, false, ['sign', 'verify']);
+}
+
+async function signToken(key, claims) {
+  const body = `${encodeJson({ alg: 'HS256', typ: 'JWT' })}.${encodeJson(claims)}`;
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Issue an access/refresh pair sharing one session id
+export async function issueSession(key, { userId, orgId, sessionId }) {
+  const issuedAt = Date.now();
+  const iat = Math.floor(issuedAt / 1000);
+  const sid = sessionId || crypto.randomUUID();
+  const base = { sub: userId, org: orgId, sid, iat, iatMs: issuedAt };
+  const accessToken = await signToken(key, { ...base, typ: 'access', exp: iat + ACCESS_TOKEN_TTL });
+  const refreshToken = await signToken(key, { ...base, typ: 'refresh', exp: iat + REFRESH_TOKEN_TTL });
+  return { accessToken, refreshToken, expiresAt: (iat + ACCESS_TOKEN_TTL) * 1000 };
+}
+
+// Check the signature, type and expiry of a token and return its claims
+export async function verifyToken(key, token, type = 'access') {
+  const parts = typeof token === 'string' ? token.split('.') : [];
+  if (parts.length !== 3) throw new TokenError('invalid');
+
+  let claims;
+  try {
+    const valid = await crypto.subtle.verify('HMAC', key, fromBase64Url(parts[2]), encoder.encode(`${parts[0]}.${parts[1]}`));
+    if (!valid) throw new TokenError('invalid');
+    claims = JSON.parse(decoder.decode(fromBase64Url(parts[1])));
+  } catch (error) {
+    throw error instanceof TokenError ? error : new TokenError('invalid');
+  }
+
+  if (claims.typ !== type || !claims.sub) throw new TokenError('invalid');
+  if (typeof claims.exp !== 'number' || claims.exp <= nowSeconds()) throw new TokenError('expired');
+  return claims;
+}
+
+// Read the claims without checking the signature; only for display and routing hints
+export function decodeToken(token) {
+  try {
+    return JSON.parse(decoder.decode(fromBase64Url(token.split('.')[1])));
+  } catch {
+    return null;
+  }
+}
+
+// Tokens issued before a "sign out all devices" are no longer honoured. Issue times are
+// compared to the millisecond, so a session started in the same second as the sign-out
+// (e.g. right after a password reset) survives it. Older tokens only carry whole seconds.
+export function isRevoked(claims, revokedAt) {
+  if (!revokedAt) return false;
+  return (claims.iatMs ?? claims.iat * 1000) < new Date(revokedAt).getTime();
+}
@@ -16,7 +16,10 @@ CREATE TABLE organizations (
     custom_fields JSONB DEFAULT '[]',
     checklist_templates JSONB DEFAULT '[]',
     approval_rules JSONB DEFAULT '[]',
+    sla_policies JSONB DEFAULT '[]',
+    duplicate_detection JSONB,
     default_digest_time VARCHAR(5) DEFAULT '09:00',
+    created_by UUID,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -31,11 +34,15 @@ CREATE TABLE users (
     phone_number VARCHAR(20),
     role VARCHAR(20) DEFAULT 'Member' CHECK (role IN ('Admin', 'Approver', 'Finance', 'Member')),
     department VARCHAR(255),
+    custom_role_id VARCHAR(100),
+    delegation JSONB,
     digest_time VARCHAR(5) DEFAULT '09:00',
     notification_preferences JSONB DEFAULT '{"push": true, "email": true}',
     is_online BOOLEAN DEFAULT false,
     custom_fields_data JSONB DEFAULT '{}',
     email_verified BOOLEAN DEFAULT false,
+    sessions_revoked_at TIMESTAMP WITH TIME ZONE,
+    two_factor JSONB,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     UNIQUE(email)
 );
@@ -47,6 +54,8 @@ CREATE TABLE approval_chains (
     name VARCHAR(255) NOT NULL,
     department VARCHAR(255),
     category VARCHAR(255),
+    min_amount DECIMAL(10,2),
+    max_amount DECIMAL(10,2),
     is_default BOOLEAN DEFAULT false,
     levels JSONB DEFAULT '[]',
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -62,21 +71,87 @@ CREATE TABLE funding_requests (
     title VARCHAR(255) NOT NULL,
     description TEXT NOT NULL,
     amount DECIMAL(10,2) NOT NULL,
-    category VARCHAR(50) DEFAULT 'Other' CHECK (category IN ('Advance', 'Reimbursement', 'Vendor', 'Budget', 'Other')),
+    category VARCHAR(50) DEFAULT 'Other' CHECK (category IN ('Advance', 'Reimbursement', 'Vendor', 'Budget', 'Invoice', 'Other')),
     custom_category VARCHAR(255),
     status VARCHAR(20) DEFAULT 'Open' CHECK (status IN ('Open', 'Needs Info', 'Approved', 'Rejected', 'Closed')),
     current_approval_level INTEGER DEFAULT 0,
     approval_chain_id UUID REFERENCES approval_chains(id) ON DELETE SET NULL,
+    additional_approval_levels JSONB DEFAULT '[]',
     participants TEXT[] DEFAULT '{}',
     attachments JSONB DEFAULT '[]',
     checklist JSONB DEFAULT '[]',
     ai_summary TEXT,
+    department VARCHAR(255),
+    cost_center VARCHAR(100),
+    invoice_id UUID,
+    suspected_duplicates JSONB DEFAULT '[]',
     sla_deadline TIMESTAMP WITH TIME ZONE,
+    escalation_count INTEGER DEFAULT 0,
+    last_escalated_at TIMESTAMP WITH TIME ZONE,
+    payment_released_at TIMESTAMP WITH TIME ZONE,
+    payment_released_by UUID REFERENCES users(id) ON DELETE SET NULL,
     last_activity_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Invoices table (one per 'Invoice' funding request)
+CREATE TABLE invoices (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    request_id UUID UNIQUE REFERENCES funding_requests(id) ON DELETE CASCADE,
+    invoice_number VARCHAR(100) NOT NULL,
+    invoice_date DATE,
+    due_date DATE,
+    vendor_name VARCHAR(255) NOT NULL,
+    vendor_address TEXT,
+    vendor_email VARCHAR(255),
+    vendor_phone VARCHAR(50),
+    vendor_tax_id VARCHAR(100),
+    total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    tax_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    discount_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    net_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    currency VARCHAR(3) DEFAULT 'INR',
+    payment_method VARCHAR(50),
+    payment_terms VARCHAR(50),
+    expected_payment_date DATE,
+    bank_account VARCHAR(100),
+    routing_number VARCHAR(100),
+    payment_instructions TEXT,
+    purchase_order_number VARCHAR(100),
+    contract_number VARCHAR(100),
+    department VARCHAR(255),
+    cost_center VARCHAR(100),
+    project_code VARCHAR(100),
+    budget_category VARCHAR(255),
+    tax_exempt BOOLEAN DEFAULT false,
+    tax_exempt_reason TEXT,
+    internal_notes TEXT,
+    external_notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE funding_requests
+    ADD CONSTRAINT funding_requests_invoice_id_fkey FOREIGN KEY (invoice_id) REFERENCES invoices(id) ON DELETE SET NULL;
+
+-- Budgets table
+CREATE TABLE budgets (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    department VARCHAR(255),
+    cost_center VARCHAR(100),
+    period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    allocated_amount DECIMAL(12,2) NOT NULL CHECK (allocated_amount > 0),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (period_end > period_start)
+);
+
 -- Approval history table
 CREATE TABLE approval_history (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -86,6 +161,7 @@ CREATE TABLE approval_history (
     action VARCHAR(20) NOT NULL CHECK (action IN ('Approved', 'Rejected', 'RequestInfo', 'Overridden')),
     comments TEXT,
     is_fast_track BOOLEAN DEFAULT false,
+    on_behalf_of_id UUID REFERENCES users(id) ON DELETE SET NULL,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -108,6 +184,7 @@ CREATE TABLE hierarchy_levels (
     level_order INTEGER NOT NULL,
     color VARCHAR(7) DEFAULT '#0EA5E9',
     description TEXT,
+    approval_limit DECIMAL(10,2),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -123,7 +200,16 @@ CREATE TABLE org_chart_nodes (
     hierarchy_level_id UUID REFERENCES hierarchy_levels(id) ON DELETE SET NULL,
     position JSONB DEFAULT '{"x": 0, "y": 0}',
     color VARCHAR(7) DEFAULT '#0EA5E9',
-    shape VARCHAR(20) DEFAULT 'rectangle' CHECK (shape IN ('rectangle', 'circle', 'rounded'))
+    shape VARCHAR(20) DEFAULT 'rectangle' CHECK (shape IN ('rectangle', 'circle', 'rounded')),
+    level INTEGER DEFAULT 1,
+    budget_responsibility TEXT,
+    email VARCHAR(255),
+    profile_picture TEXT,
+    is_expanded BOOLEAN DEFAULT true,
+    is_approved BOOLEAN DEFAULT true,
+    reporting_manager VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 -- Invite tokens table
@@ -131,7 +217,7 @@ CREATE TABLE invite_tokens (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
     token VARCHAR(255) UNIQUE NOT NULL,
-    role VARCHAR(20) NOT NULL CHECK (role IN ('Admin', 'Approver', 'Requester')),
+    role VARCHAR(20) NOT NULL CHECK (role IN ('Admin', 'Approver', 'Finance', 'Member', 'Requester')),
     created_by UUID REFERENCES users(id) ON DELETE CASCADE,
     expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
     used_at TIMESTAMP WITH TIME ZONE,
@@ -161,6 +247,45 @@ CREATE TABLE password_resets (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Uploaded file metadata; the content is in the "attachments" Storage bucket at <org_id>/<id>
+CREATE TABLE attachments (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    uploaded_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    name VARCHAR(255) NOT NULL,
+    mime_type VARCHAR(255) NOT NULL,
+    size INTEGER NOT NULL,
+    hash VARCHAR(64) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(org_id, hash)
+);
+
+-- Org-scoped request documents (join, change and other admin requests)
+CREATE TABLE org_requests (
+    org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    request_id UUID NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('approval', 'join', 'change', 'other')),
+    submitted_by VARCHAR(255) NOT NULL,
+    submitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    payload JSONB DEFAULT '{}',
+    status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    handled_by VARCHAR(255),
+    handled_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (org_id, request_id)
+);
+
+-- Audit log for org operations
+CREATE TABLE org_audit_logs (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    org_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+    action VARCHAR(50) NOT NULL,
+    performed_by VARCHAR(255) NOT NULL,
+    performed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    target_type VARCHAR(50) NOT NULL,
+    target_id VARCHAR(255),
+    details JSONB DEFAULT '{}'
+);
+
 -- Create indexes for better performance
 CREATE INDEX idx_users_org_id ON users(org_id);
 CREATE INDEX idx_users_email ON users(email);
@@ -169,12 +294,23 @@ CREATE INDEX idx_funding_requests_requester_id ON funding_requests(requester_id)
 CREATE INDEX idx_funding_requests_approver_id ON funding_requests(approver_id);
 CREATE INDEX idx_funding_requests_status ON funding_requests(status);
 CREATE INDEX idx_approval_history_request_id ON approval_history(request_id);
+CREATE INDEX idx_invoices_org_id ON invoices(org_id);
+CREATE INDEX idx_invoices_vendor_name ON invoices(vendor_name);
+CREATE INDEX idx_invoices_invoice_number ON invoices(invoice_number);
+CREATE INDEX idx_invoices_vendor_tax_id_invoice_number ON invoices(vendor_tax_id, invoice_number);
+CREATE INDEX idx_invoices_due_date ON invoices(due_date);
+CREATE INDEX idx_invoices_purchase_order_number ON invoices(purchase_order_number);
+CREATE INDEX idx_budgets_org_id ON budgets(org_id);
+CREATE INDEX idx_budgets_department_cost_center ON budgets(department, cost_center);
 CREATE INDEX idx_query_messages_request_id ON query_messages(request_id);
 CREATE INDEX idx_org_chart_nodes_org_id ON org_chart_nodes(org_id);
 CREATE INDEX idx_invite_tokens_org_id ON invite_tokens(org_id);
 CREATE INDEX idx_invite_tokens_token ON invite_tokens(token);
 CREATE INDEX idx_email_verifications_token ON email_verifications(token);
 CREATE INDEX idx_password_resets_token ON password_resets(token);
+CREATE INDEX idx_attachments_org_id ON attachments(org_id);
+CREATE INDEX idx_org_requests_org_id_status ON org_requests(org_id, status);
+CREATE INDEX idx_org_audit_logs_org_id ON org_audit_logs(org_id, performed_at);
 
 -- Row Level Security (RLS) policies
 ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
@@ -185,9 +321,14 @@ ALTER TABLE query_messages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE org_chart_nodes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE invite_tokens ENABLE ROW LEVEL SECURITY;
 ALTER TABLE approval_chains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
 ALTER TABLE hierarchy_levels ENABLE ROW LEVEL SECURITY;
 ALTER TABLE email_verifications ENABLE ROW LEVEL SECURITY;
 ALTER TABLE password_resets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE org_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE org_audit_logs ENABLE ROW LEVEL SECURITY;
 
 -- Organizations policies
 CREATE POLICY "Users can view their organization" ON organizations
@@ -333,6 +474,45 @@ CREATE POLICY "Admins can manage approval chains for their organization" ON appr
         )
     );
 
+-- Invoices policies
+CREATE POLICY "Users can view invoices for their organization" ON invoices
+    FOR SELECT USING (
+        org_id IN (
+            SELECT org_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can create invoices for their own requests" ON invoices
+    FOR INSERT WITH CHECK (
+        request_id IN (
+            SELECT id FROM funding_requests WHERE requester_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can manage invoices for their organization" ON invoices
+    FOR ALL USING (
+        org_id IN (
+            SELECT org_id FROM users 
+            WHERE id = auth.uid() AND role = 'Admin'
+        )
+    );
+
+-- Budgets policies
+CREATE POLICY "Users can view budgets for their organization" ON budgets
+    FOR SELECT USING (
+        org_id IN (
+            SELECT org_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can manage budgets for their organization" ON budgets
+    FOR ALL USING (
+        org_id IN (
+            SELECT org_id FROM users 
+            WHERE id = auth.uid() AND role = 'Admin'
+        )
+    );
+
 -- Hierarchy levels policies
 CREATE POLICY "Users can view hierarchy levels for their organization" ON hierarchy_levels
     FOR SELECT USING (
@@ -349,6 +529,53 @@ CREATE POLICY "Admins can manage hierarchy levels for their organization" ON hie
         )
     );
 
+-- Attachments policies
+CREATE POLICY "Users can view attachments for their organization" ON attachments
+    FOR SELECT USING (
+        org_id IN (
+            SELECT org_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can upload attachments for their organization" ON attachments
+    FOR INSERT WITH CHECK (
+        uploaded_by = auth.uid() AND
+        org_id IN (
+            SELECT org_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+-- Org requests, chart and audit log policies
+CREATE POLICY "Users can create requests to their organization" ON org_requests
+    FOR INSERT WITH CHECK (
+        org_id IN (
+            SELECT org_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can manage requests to their organization" ON org_requests
+    FOR ALL USING (
+        org_id IN (
+            SELECT org_id FROM users 
+            WHERE id = auth.uid() AND role = 'Admin'
+        )
+    );
+
+CREATE POLICY "Users can write audit logs for their organization" ON org_audit_logs
+    FOR INSERT WITH CHECK (
+        org_id IN (
+            SELECT org_id FROM users WHERE id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Admins can view audit logs for their organization" ON org_audit_logs
+    FOR SELECT USING (
+        org_id IN (
+            SELECT org_id FROM users 
+            WHERE id = auth.uid() AND role = 'Admin'
+        )
+    );
+
 -- Email verifications policies (public access for verification)
 CREATE POLICY "Email verifications are publicly readable" ON email_verifications
     FOR SELECT USING (true);
@@ -385,6 +612,15 @@ CREATE TRIGGER update_approval_chains_updated_at BEFORE UPDATE ON approval_chain
 CREATE TRIGGER update_funding_requests_updated_at BEFORE UPDATE ON funding_requests
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_invoices_updated_at BEFORE UPDATE ON invoices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_budgets_updated_at BEFORE UPDATE ON budgets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_org_chart_nodes_updated_at BEFORE UPDATE ON org_chart_nodes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Insert demo organization
 INSERT INTO organizations (id, org_code, name, primary_color, secondary_color, created_at)
 VALUES (